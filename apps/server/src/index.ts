@@ -14,8 +14,14 @@ import { DatabaseStrategyFactory } from "@shikor/core/database";
 import { resolveDatabaseStrategy } from "@shikor/core/database/utils/resolveStrategy";
 import commandRouter from "@shikor/core/routes/commandRouter";
 import authRouter from "@shikor/core/routes/authRouter";
+import schemaRouter from "@shikor/core/routes/schemaRouter";
+import revisionRouter from "@shikor/core/routes/revisionRouter";
+import serviceAccountRouter from "@shikor/core/routes/serviceAccountRouter";
 import { AppError, ErrorType } from "@shikor/core/errors/AppError";
 import { errorHandler } from "@shikor/core/middleware/errorHandler";
+import { scheduleTrashPurge } from "@shikor/core/commands/purgeExpiredTrash";
+import { schedulePublishing } from "@shikor/core/commands/publishScheduled";
+import { MailerFactory } from "@shikor/core/mail/MailerFactory";
 
 import "../../../packages/core/bootstrap";
 
@@ -28,6 +34,9 @@ app.use(httpLogger);
 
 app.use("/api", commandRouter); // ✅ attaches to /api/command
 app.use("/api/auth", authRouter); // 🔐 auth-related routes
+app.use("/api", schemaRouter); // 🧬 schema versions: /api/schemas/...
+app.use("/api", revisionRouter); // 🕰️ record history: /api/revisions/...
+app.use("/api", serviceAccountRouter); // 🤖 machine clients: /api/service-accounts/...
 
 app.use(((req, res, next) => {
   if (!req.app.locals.db) {
@@ -121,25 +130,77 @@ async function initializeDatabase() {
   return db;
 }
 
+function initializeMailer() {
+  if (env.MAIL_TRANSPORT !== "smtp") {
+    // Both would write live reset and verification links to disk or logs
+    if (env.isProd) {
+      throw new Error(
+        `MAIL_TRANSPORT=${env.MAIL_TRANSPORT} is for development; set MAIL_TRANSPORT=smtp in production`
+      );
+    }
+    MailerFactory.create(
+      env.MAIL_TRANSPORT === "file"
+        ? { transport: "file", from: env.MAIL_FROM, directory: env.MAIL_DIR }
+        : { transport: "console", from: env.MAIL_FROM }
+    );
+    return;
+  }
+  if (!env.SMTP_HOST) {
+    throw new Error("SMTP_HOST is required when MAIL_TRANSPORT=smtp");
+  }
+  MailerFactory.create({
+    transport: "smtp",
+    from: env.MAIL_FROM,
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT,
+    secure: env.SMTP_SECURE === "true",
+    user: env.SMTP_USER,
+    password: env.SMTP_PASSWORD,
+  });
+}
+
+// Scheduled jobs run in one worker only, or every worker would repeat them
+const SCHEDULER_ENV = { RUN_SCHEDULED_JOBS: "true" };
+
 if (cluster.isPrimary && env.isProd) {
   const numCPUs = Math.min(os.cpus().length, 8);
   logger.info(`Master ${process.pid} starting ${numCPUs} workers`);
 
+  let schedulerId: number | undefined;
   for (let i = 0; i < numCPUs; i++) {
-    const worker = cluster.fork();
+    const worker = cluster.fork(i === 0 ? SCHEDULER_ENV : {});
+    if (i === 0) schedulerId = worker.id;
     logger.debug(`Worker ${worker.process.pid} started`);
   }
 
   cluster.on("exit", (worker, code, signal) => {
     logger.warn(`Worker ${worker.process.pid} died (${signal || code})`);
     logger.info("Restarting worker...");
-    cluster.fork();
+    const runsJobs = worker.id === schedulerId;
+    const replacement = cluster.fork(runsJobs ? SCHEDULER_ENV : {});
+    if (runsJobs) schedulerId = replacement.id;
   });
 } else {
+  const runsScheduledJobs =
+    cluster.isPrimary ||
+    process.env.RUN_SCHEDULED_JOBS === SCHEDULER_ENV.RUN_SCHEDULED_JOBS;
+
   (async () => {
     try {
       const db = await initializeDatabase();
       app.locals.db = db;
+      initializeMailer();
+      const stopTrashPurge = runsScheduledJobs
+        ? scheduleTrashPurge(db, {
+            retentionDays: env.TRASH_RETENTION_DAYS,
+            intervalMs: env.TRASH_PURGE_INTERVAL_MINUTES * 60_000,
+          })
+        : () => undefined;
+      const stopPublishing = runsScheduledJobs
+        ? schedulePublishing(db, {
+            intervalMs: env.PUBLISH_SCHEDULER_INTERVAL_SECONDS * 1000,
+          })
+        : () => undefined;
 
       const server = app.listen(PORT, () => {
         logger.info(
@@ -156,6 +217,8 @@ if (cluster.isPrimary && env.isProd) {
 
       const shutdown = async () => {
         logger.info("Shutdown signal received");
+        stopTrashPurge();
+        stopPublishing();
         await db.disconnect();
         logger.info("Database connection closed");
         server.close(() => {
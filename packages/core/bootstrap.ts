@@ -2,6 +2,7 @@
 import "../core/database/strategies/postgres";
 import "../core/database/strategies/mongo";
 import "../core/database/strategies/sqlite";
+import "../core/database/strategies/mysql";
 import "../core/database/strategies/mock";
 
 // Optional debug output to verify everything is registered
@@ -14,6 +14,7 @@ export async function bootstrapCoreTables(adminUser?: AdminUserInput) {
     | "postgres"
     | "sqlite"
     | "mongo"
+    | "mysql"
     | "mock";
 
   logger.info("🔧 Bootstrapping core CMS tables...");
@@ -29,42 +30,186 @@ export async function bootstrapCoreTables(adminUser?: AdminUserInput) {
     if (knex) {
       logger.debug("🛠️ Detected Knex-compatible DB — bootstrapping tables...");
 
+      // MySQL/MariaDB tables get InnoDB and utf8mb4 whatever the server
+      // defaults are, so transactions and any Unicode text work
+      const createTable = (name: string, build: (table: any) => void) =>
+        knex.schema.createTable(name, (table: any) => {
+          build(table);
+          if (engine === "mysql") {
+            table.engine("InnoDB");
+            table.charset("utf8mb4");
+            table.collate("utf8mb4_unicode_ci");
+          }
+        });
+
       if (!(await knex.schema.hasTable("collection_schemas"))) {
-        await knex.schema.createTable("collection_schemas", (table) => {
+        await createTable("collection_schemas", (table) => {
           table.increments("id").primary();
           table.string("collection_name").unique().notNullable();
           table.json("fields").notNullable();
+          table.boolean("soft_delete").notNullable().defaultTo(false);
+          table.boolean("publishable").notNullable().defaultTo(false);
+          table.integer("revision_limit").nullable();
         });
         logger.info("✅ Table collection_schemas created.");
+      } else {
+        // Settings added after the table shipped
+        const settings: [string, (table: any) => void][] = [
+          [
+            "soft_delete",
+            (table) =>
+              table.boolean("soft_delete").notNullable().defaultTo(false),
+          ],
+          [
+            "publishable",
+            (table) =>
+              table.boolean("publishable").notNullable().defaultTo(false),
+          ],
+          ["revision_limit", (table) => table.integer("revision_limit")],
+        ];
+        for (const [column, add] of settings) {
+          if (await knex.schema.hasColumn("collection_schemas", column)) {
+            continue;
+          }
+          await knex.schema.alterTable("collection_schemas", add);
+          logger.info(`✅ Column collection_schemas.${column} added.`);
+        }
+      }
+
+      if (!(await knex.schema.hasTable("collection_schema_versions"))) {
+        await createTable("collection_schema_versions", (table) => {
+          table.increments("id").primary();
+          table.string("collection_name").notNullable();
+          table.integer("version").notNullable();
+          table.integer("base_version").nullable();
+          table.string("status").notNullable();
+          table.json("fields").notNullable();
+          table.json("migration").notNullable();
+          table.timestamp("created_at").defaultTo(knex.fn.now());
+          table.unique(["collection_name", "version"]);
+        });
+        logger.info("✅ Table collection_schema_versions created.");
+      }
+
+      if (!(await knex.schema.hasTable("record_revisions"))) {
+        await createTable("record_revisions", (table) => {
+          table.increments("id").primary();
+          table.string("collection_name").notNullable();
+          table.string("record_id").notNullable();
+          table.integer("revision").notNullable();
+          table.string("action").notNullable();
+          table.json("snapshot").notNullable();
+          table.json("diff").notNullable();
+          table.string("author").nullable();
+          table.timestamp("created_at").defaultTo(knex.fn.now());
+          table.unique(["collection_name", "record_id", "revision"]);
+        });
+        logger.info("✅ Table record_revisions created.");
+      }
+
+      if (!(await knex.schema.hasTable("roles"))) {
+        await createTable("roles", (table) => {
+          table.increments("id").primary();
+          table.string("name").unique().notNullable();
+          table.string("description", 500).nullable();
+          table.json("parents").notNullable();
+          table.json("permissions").notNullable();
+          table.timestamp("created_at").defaultTo(knex.fn.now());
+        });
+        logger.info("✅ Table roles created.");
+      }
+
+      if (!(await knex.schema.hasTable("service_accounts"))) {
+        await createTable("service_accounts", (table) => {
+          table.increments("id").primary();
+          table.string("name").unique().notNullable();
+          table.string("role").notNullable();
+          table.string("description", 500).nullable();
+          table.string("created_by").nullable();
+          table.timestamp("created_at").defaultTo(knex.fn.now());
+        });
+        logger.info("✅ Table service_accounts created.");
+      }
+
+      if (!(await knex.schema.hasTable("api_keys"))) {
+        await createTable("api_keys", (table) => {
+          table.increments("id").primary();
+          table.integer("service_account_id").notNullable().index();
+          table.string("name").nullable();
+          table.string("prefix").unique().notNullable();
+          table.string("key_hash").notNullable();
+          table.json("scopes").notNullable();
+          table.timestamp("expires_at").nullable();
+          table.timestamp("last_used_at").nullable();
+          table.timestamp("revoked_at").nullable();
+          table.timestamp("created_at").defaultTo(knex.fn.now());
+        });
+        logger.info("✅ Table api_keys created.");
       }
 
       if (!(await knex.schema.hasTable("users"))) {
-        await knex.schema.createTable("users", (table) => {
+        await createTable("users", (table) => {
           table.increments("id").primary();
           table.string("username").unique().notNullable();
           table.string("password").notNullable();
-          table.string("email").notNullable();
+          table.string("email").unique().notNullable();
           table.string("role").notNullable();
           table.string("refresh_token").nullable();
           table.timestamp("last_login_at").nullable(); // ✅ Add this
+          table.timestamp("email_verified_at").nullable();
           table.timestamps(true, true);
         });
         logger.info("✅ Table users created.");
+      } else {
+        if (!(await knex.schema.hasColumn("users", "email_verified_at"))) {
+          await knex.schema.alterTable("users", (table) =>
+            table.timestamp("email_verified_at").nullable()
+          );
+          logger.info("✅ Column users.email_verified_at added.");
+        }
+        await ensureUniqueEmails(knex);
+      }
+
+      if (!(await knex.schema.hasTable("account_tokens"))) {
+        await createTable("account_tokens", (table) => {
+          table.increments("id").primary();
+          table.string("user_id").notNullable().index();
+          table.string("purpose").notNullable();
+          table.string("token_hash").unique().notNullable();
+          // MariaDB gives a NOT NULL TIMESTAMP column ON UPDATE CURRENT_TIMESTAMP
+          table.dateTime("expires_at").notNullable();
+          table.timestamp("used_at").nullable();
+          table.timestamp("created_at").defaultTo(knex.fn.now());
+        });
+        logger.info("✅ Table account_tokens created.");
       }
 
       if (!(await knex.schema.hasTable("collection_permissions"))) {
-        await knex.schema.createTable("collection_permissions", (table) => {
+        await createTable("collection_permissions", (table) => {
           table.increments("id").primary();
           table.string("collection_name").notNullable();
           table.string("operation").notNullable();
           table.jsonb("allowed_roles").notNullable();
+          table.jsonb("field_roles");
+          table.jsonb("conditions");
         });
         logger.info("✅ Table collection_permissions created.");
+      } else {
+        for (const column of ["field_roles", "conditions"]) {
+          if (await knex.schema.hasColumn("collection_permissions", column)) {
+            continue;
+          }
+          await knex.schema.alterTable("collection_permissions", (table) =>
+            table.jsonb(column)
+          );
+          logger.info(`✅ Column collection_permissions.${column} added.`);
+        }
       }
     } else {
       logger.warn("⚠️ No Knex instance found — skipping SQL table creation.");
     }
 
+    await ensureDefaultRoles(db);
     await ensureAdminUser(db, engine, adminUser);
     await ensureSystemSchemas(db);
     await ensureDefaultPermissions(db, engine);
@@ -75,6 +220,30 @@ export async function bootstrapCoreTables(adminUser?: AdminUserInput) {
     await db.disconnect?.();
   }
 }
+/** Adds the unique index on `users.email` that older tables lack */
+async function ensureUniqueEmails(knex: any) {
+  const duplicate = await knex("users")
+    .select("email")
+    .groupBy("email")
+    .havingRaw("count(*) > 1")
+    .first();
+  if (duplicate) {
+    logger.warn(
+      "⚠️ users.email holds duplicates — resolve them so a unique index can be added"
+    );
+    return;
+  }
+  try {
+    await knex.schema.alterTable("users", (table: any) =>
+      table.unique(["email"])
+    );
+    logger.info("✅ Unique index on users.email added.");
+  } catch {
+    // Knex cannot ask for an index, so an existing one shows up as an error
+    logger.debug("Unique index on users.email already present");
+  }
+}
+
 /*
 async function ensureAdminUser(db: IDatabaseStrategy, engine: string) {
   const users = await db.read("users", {});
@@ -128,6 +297,35 @@ async function ensureAdminUser(
   }
 }
 
+async function ensureDefaultRoles(db: IDatabaseStrategy) {
+  const roles = [
+    {
+      name: "admin",
+      description: "Passes every permission check",
+      parents: [],
+    },
+    {
+      name: "editor",
+      description: "Manages content",
+      parents: ["viewer"],
+    },
+    { name: "viewer", description: "Reads content", parents: [] },
+  ];
+  for (const role of roles) {
+    const exists = await db.read("roles", { name: role.name });
+    if (!exists.length) {
+      await db.create("roles", {
+        ...role,
+        parents: JSON.stringify(role.parents),
+        permissions: JSON.stringify({}),
+      });
+      logger.info(`✅ Role ${role.name} inserted.`);
+    } else {
+      logger.info(`✅ Role ${role.name} already exists.`);
+    }
+  }
+}
+
 async function ensureSystemSchemas(db: IDatabaseStrategy) {
   const schemas = [
     {
@@ -145,6 +343,8 @@ async function ensureSystemSchemas(db: IDatabaseStrategy) {
         { name: "collection_name", type: "string", required: true },
         { name: "operation", type: "string", required: true },
         { name: "allowed_roles", type: "json", required: true },
+        { name: "field_roles", type: "json" },
+        { name: "conditions", type: "json" },
       ],
     },
   ];
@@ -192,6 +392,25 @@ async function ensureDefaultPermissions(db: IDatabaseStrategy, engine: string) {
       operation: "reset",
       allowed_roles: ["admin"],
     },
+    { collection_name: "roles", operation: "create", allowed_roles: ["admin"] },
+    { collection_name: "roles", operation: "read", allowed_roles: ["admin"] },
+    { collection_name: "roles", operation: "update", allowed_roles: ["admin"] },
+    { collection_name: "roles", operation: "delete", allowed_roles: ["admin"] },
+    {
+      collection_name: "service_accounts",
+      operation: "create",
+      allowed_roles: ["admin"],
+    },
+    {
+      collection_name: "service_accounts",
+      operation: "read",
+      allowed_roles: ["admin"],
+    },
+    {
+      collection_name: "service_accounts",
+      operation: "update",
+      allowed_roles: ["admin"],
+    },
   ];
 
   for (const perm of perms) {
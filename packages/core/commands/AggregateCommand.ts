@@ -0,0 +1,81 @@
+// packages/core/commands/AggregateCommand.ts
+
+import { ICommand } from "./ICommand";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import { assertReadableField, assertReadableQuery } from "./hiddenFields";
+import type { AggregateQuery, AggregateRow } from "../database/types/Aggregate";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { PublicationMode } from "../database/types/QueryOptions";
+import { trashScopedFilter } from "./softDelete";
+import { publicationScopedFilter } from "./publication";
+import type { FieldPolicy } from "./fieldPermissions";
+import { RowPolicy, rowScopedFilter } from "./rowPermissions";
+
+export class AggregateCommand implements ICommand<AggregateRow[]> {
+  constructor(
+    private dbStrategy: Pick<IDatabaseStrategy, "aggregate" | "read">,
+    private collection: string,
+    private query: AggregateQuery,
+    private publication?: PublicationMode,
+    private fieldPolicy?: FieldPolicy,
+    private rowPolicy?: RowPolicy
+  ) {}
+
+  async execute(): Promise<AggregateRow[]> {
+    logger.debug(
+      { collection: this.collection, query: this.query },
+      `📊 Aggregating '${this.collection}'`
+    );
+
+    try {
+      const restricted =
+        (await this.fieldPolicy?.(this.collection, "read")) ?? [];
+      assertReadableQuery(
+        this.collection,
+        this.query.filter,
+        undefined,
+        restricted
+      );
+      for (const field of [
+        ...(this.query.groupBy ?? []),
+        ...this.query.metrics.map((m) => m.field).filter(Boolean),
+      ]) {
+        assertReadableField(this.collection, field!, restricted);
+      }
+
+      const result = await this.dbStrategy.aggregate(this.collection, {
+        ...this.query,
+        filter: await trashScopedFilter(
+          this.dbStrategy,
+          this.collection,
+          await publicationScopedFilter(
+            this.dbStrategy,
+            this.collection,
+            await rowScopedFilter(
+              this.rowPolicy,
+              this.collection,
+              "read",
+              this.query.filter ?? {}
+            ),
+            this.publication
+          )
+        ),
+      });
+
+      logger.debug(
+        { collection: this.collection, groups: result.length },
+        `✅ Aggregation completed on '${this.collection}'`
+      );
+
+      return result;
+    } catch (err) {
+      logger.error(
+        { err, collection: this.collection },
+        `❌ Aggregation failed on '${this.collection}'`
+      );
+      if (err instanceof AppError) throw err;
+      throw AppError.internal("Aggregate operation failed", err);
+    }
+  }
+}
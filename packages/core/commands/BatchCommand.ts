@@ -0,0 +1,134 @@
+// packages/core/commands/BatchCommand.ts
+
+import { ICommand } from "./ICommand";
+import { CommandExecutor } from "./CommandExecutor";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+
+export interface BatchEntry {
+  /** Name later entries use to reference this entry's result */
+  ref?: string;
+  operation: string;
+  collection: string;
+  data?: Record<string, any>;
+  filter?: Record<string, any>;
+}
+
+export interface BatchResult {
+  ref?: string;
+  operation: string;
+  collection: string;
+  result: any;
+}
+
+/** A `{ "$ref": "name.field" }` value is replaced by an earlier result */
+const isRef = (value: unknown): value is { $ref: string } =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.keys(value).length === 1 &&
+  typeof (value as any).$ref === "string";
+
+/**
+ * Runs commands in order, resolving references to results of earlier
+ * entries. Atomicity comes from the caller's transaction.
+ */
+export class BatchCommand implements ICommand<BatchResult[]> {
+  constructor(
+    private entries: BatchEntry[],
+    private build: (entry: BatchEntry) => ICommand,
+    /** Checks every entry before the first one runs */
+    private authorize?: (entry: BatchEntry) => Promise<void>
+  ) {}
+
+  async execute(): Promise<BatchResult[]> {
+    const results: BatchResult[] = [];
+    const byRef = new Map<string, any>();
+
+    const refs = this.entries.map((e) => e.ref).filter(Boolean);
+    if (new Set(refs).size !== refs.length) {
+      throw AppError.validationError("Duplicate batch reference names");
+    }
+
+    if (this.authorize) {
+      for (const [index, entry] of this.entries.entries()) {
+        await this.authorize(entry).catch((err) => {
+          throw this.withIndex(err, index, entry);
+        });
+      }
+    }
+
+    for (const [index, entry] of this.entries.entries()) {
+      try {
+        const resolved: BatchEntry = {
+          ...entry,
+          data: this.resolve(entry.data, byRef),
+          filter: this.resolve(entry.filter, byRef),
+        };
+        const result = await CommandExecutor.execute(this.build(resolved));
+
+        if (entry.ref) byRef.set(entry.ref, result);
+        results.push({
+          ref: entry.ref,
+          operation: entry.operation,
+          collection: entry.collection,
+          result,
+        });
+      } catch (err) {
+        logger.error(
+          { err, index, ref: entry.ref },
+          `❌ Batch entry ${index} failed, rolling back`
+        );
+        throw this.withIndex(err, index, entry);
+      }
+    }
+
+    return results;
+  }
+
+  private resolve(value: any, byRef: Map<string, any>): any {
+    if (isRef(value)) {
+      const [name, ...path] = value.$ref.split(".");
+      if (!byRef.has(name)) {
+        throw AppError.validationError(`Unknown batch reference '${name}'`);
+      }
+
+      const resolved = path.reduce(
+        (current, key) => (current == null ? undefined : current[key]),
+        byRef.get(name)
+      );
+      if (resolved === undefined) {
+        throw AppError.validationError(
+          `Batch reference '${value.$ref}' did not resolve to a value`
+        );
+      }
+      return resolved;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolve(item, byRef));
+    }
+
+    if (value && typeof value === "object" && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.resolve(item, byRef),
+        ])
+      );
+    }
+
+    return value;
+  }
+
+  private withIndex(err: unknown, index: number, entry: BatchEntry): AppError {
+    const source =
+      err instanceof AppError
+        ? err
+        : AppError.internal("Batch command failed", err);
+
+    return new AppError(source.message, source.statusCode, source.code, {
+      details: { ...source.details, index, ref: entry.ref },
+      cause: source.cause ?? err,
+    });
+  }
+}
@@ -0,0 +1,196 @@
+// packages/core/commands/BulkCommand.ts
+
+import { ICommand } from "./ICommand";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import { hashPasswordField } from "./hashPassword";
+import { validatePayload } from "./validatePayload";
+import { stripHiddenFields } from "./hiddenFields";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
+import type { WriteResult } from "../database/types/WriteResult";
+import { isEmptyFilter, parseFilter } from "../database/filters/parseFilter";
+import { RelationService } from "../database/relations/RelationService";
+import {
+  DELETED_AT,
+  DELETED_BY,
+  isSoftDeleting,
+  scopeToTrash,
+  trashScopedFilter,
+} from "./softDelete";
+import { VERSION_FIELD, isVersioned, updateVersioned } from "./recordVersion";
+import { FieldPolicy, assertWritableFields } from "./fieldPermissions";
+import {
+  RowPolicy,
+  assertRowAllowed,
+  assertUpdateAllowed,
+  rowScopedFilter,
+} from "./rowPermissions";
+
+export type BulkAction =
+  | { action: "create"; items: Record<string, any>[] }
+  | { action: "update"; filter: Filter; data: Record<string, any> }
+  | { action: "delete"; filter: Filter };
+
+export class BulkCommand implements ICommand<WriteResult> {
+  constructor(
+    private dbStrategy: IDatabaseStrategy,
+    private collection: string,
+    private bulk: BulkAction,
+    /** Recorded as `deleted_by` when the collection soft-deletes */
+    private deletedBy?: string,
+    /** Rejects fields the caller's role may not write */
+    private fieldPolicy?: FieldPolicy,
+    /** Checks created items and limits filters to the caller's conditions */
+    private rowPolicy?: RowPolicy
+  ) {}
+
+  async execute(): Promise<WriteResult> {
+    logger.debug(
+      { collection: this.collection, action: this.bulk.action },
+      `📦 Bulk ${this.bulk.action} on '${this.collection}'`
+    );
+
+    try {
+      const result = await this.run();
+
+      logger.debug(
+        { collection: this.collection, affected: result.affected },
+        `✅ Bulk ${this.bulk.action} completed on '${this.collection}'`
+      );
+
+      return {
+        ...result,
+        records: result.records?.map((r) =>
+          stripHiddenFields(this.collection, r)
+        ),
+      };
+    } catch (err) {
+      logger.error(
+        { err, collection: this.collection },
+        `❌ Bulk ${this.bulk.action} failed on '${this.collection}'`
+      );
+      if (err instanceof AppError) throw err;
+      throw AppError.internal("Bulk operation failed", err);
+    }
+  }
+
+  private async run(): Promise<WriteResult> {
+    const { collection, bulk } = this;
+
+    if (bulk.action !== "create" && isEmptyFilter(parseFilter(bulk.filter))) {
+      throw AppError.validationError(
+        `Bulk ${bulk.action} requires a non-empty filter`
+      );
+    }
+
+    const relations = new RelationService(this.dbStrategy);
+
+    switch (bulk.action) {
+      case "create": {
+        for (const item of bulk.items) {
+          await assertWritableFields(
+            this.fieldPolicy,
+            collection,
+            "create",
+            item
+          );
+          await assertRowAllowed(this.rowPolicy, collection, item);
+          await validatePayload(this.dbStrategy, collection, item);
+        }
+        const split = await Promise.all(
+          bulk.items.map((item) => relations.splitLinks(collection, item))
+        );
+        const versioned = await isVersioned(this.dbStrategy, collection);
+        const result = await this.dbStrategy.createMany(
+          collection,
+          await Promise.all(
+            split.map(async ({ data }) => {
+              const row = await hashPasswordField(collection, data);
+              return versioned ? { ...row, [VERSION_FIELD]: 1 } : row;
+            })
+          )
+        );
+        // Ids come back in insertion order
+        for (const [i, { links }] of split.entries()) {
+          await relations.writeLinks(collection, [result.ids[i]], links);
+        }
+        return result;
+      }
+      case "update": {
+        await assertWritableFields(
+          this.fieldPolicy,
+          collection,
+          "update",
+          bulk.data
+        );
+        await validatePayload(this.dbStrategy, collection, bulk.data, {
+          partial: true,
+        });
+        const { data, links } = await relations.splitLinks(
+          collection,
+          bulk.data
+        );
+        const filter = await trashScopedFilter(
+          this.dbStrategy,
+          collection,
+          await rowScopedFilter(
+            this.rowPolicy,
+            collection,
+            "update",
+            bulk.filter
+          )
+        );
+        await assertUpdateAllowed(
+          this.dbStrategy,
+          this.rowPolicy,
+          collection,
+          filter,
+          bulk.data
+        );
+        const result = (await isVersioned(this.dbStrategy, collection))
+          ? await updateVersioned(
+              this.dbStrategy,
+              collection,
+              filter,
+              await hashPasswordField(collection, data)
+            )
+          : Object.keys(data).length > 0
+            ? await this.dbStrategy.updateMany(
+                collection,
+                filter,
+                await hashPasswordField(collection, data)
+              )
+            : await this.linkTargets(filter);
+        await relations.writeLinks(collection, result.ids, links);
+        return result;
+      }
+      case "delete": {
+        const filter = await rowScopedFilter(
+          this.rowPolicy,
+          collection,
+          "delete",
+          bulk.filter
+        );
+        if (await isSoftDeleting(this.dbStrategy, collection)) {
+          return this.dbStrategy.updateMany(collection, scopeToTrash(filter), {
+            [DELETED_AT]: new Date(),
+            [DELETED_BY]: this.deletedBy ?? null,
+          });
+        }
+        await relations.deleteLinks(collection, filter);
+        return this.dbStrategy.deleteMany(collection, filter);
+      }
+    }
+  }
+
+  /** Result of an update that only changes `many-to-many` links */
+  private async linkTargets(filter: Filter): Promise<WriteResult> {
+    const records = await this.dbStrategy.read(this.collection, filter);
+    return {
+      affected: records.length,
+      ids: records.map((record: any) => record.id),
+      records,
+    };
+  }
+}
@@ -1,9 +1,26 @@
 // packages/core/commands/CommandExecutor.ts
 
 import type { ICommand } from "./ICommand";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import { trackRevisions } from "../database/revisions/trackRevisions";
 
 export class CommandExecutor {
   static async execute<T>(command: ICommand<T>): Promise<T> {
     return await command.execute();
   }
+
+  /**
+   * Builds the command against a transaction-scoped strategy; any error
+   * thrown by the command rolls the transaction back and is rethrown.
+   * Records the command changes get revisions credited to `author`.
+   */
+  static async executeInTransaction<T>(
+    db: IDatabaseStrategy,
+    build: (tx: IDatabaseStrategy) => ICommand<T>,
+    { author }: { author?: string | null } = {}
+  ): Promise<T> {
+    return await db.transaction((tx) =>
+      build(trackRevisions(tx, author)).execute()
+    );
+  }
 }
@@ -1,29 +1,50 @@
 // packages/core/commands/CreateCommand.ts
 
-import bcrypt from "bcryptjs";
 import { ICommand } from "./ICommand";
 import { AppError } from "../errors/AppError";
-import { logger } from "../src/telemetry/logger";
+import { hashPasswordField } from "./hashPassword";
+import { validatePayload } from "./validatePayload";
+import { RelationService } from "../database/relations/RelationService";
+import { VERSION_FIELD, isVersioned } from "./recordVersion";
+import { FieldPolicy, assertWritableFields } from "./fieldPermissions";
+import { RowPolicy, assertRowAllowed } from "./rowPermissions";
+
 export class CreateCommand implements ICommand {
   constructor(
     private dbStrategy: any,
     private collection: string,
-    private data: Record<string, any>
+    private data: Record<string, any>,
+    /** Rejects fields the caller's role may not write */
+    private fieldPolicy?: FieldPolicy,
+    /** Rejects records outside the caller's create condition */
+    private rowPolicy?: RowPolicy
   ) {}
 
   async execute() {
     try {
-      const payload = { ...this.data };
-
-      if (this.collection === "users" && payload.password) {
-        const salt = await bcrypt.genSalt(10);
-        payload.password = await bcrypt.hash(payload.password, salt);
-        logger.debug("🔐 Password hashed before insertion");
+      await assertWritableFields(
+        this.fieldPolicy,
+        this.collection,
+        "create",
+        this.data
+      );
+      await assertRowAllowed(this.rowPolicy, this.collection, this.data);
+      await validatePayload(this.dbStrategy, this.collection, this.data);
+      const relations = new RelationService(this.dbStrategy);
+      const { data, links } = await relations.splitLinks(
+        this.collection,
+        this.data
+      );
+      const payload = await hashPasswordField(this.collection, data);
+      if (await isVersioned(this.dbStrategy, this.collection)) {
+        payload[VERSION_FIELD] = 1;
       }
 
       const result = await this.dbStrategy.create(this.collection, payload);
-      return result;
+      await relations.writeLinks(this.collection, [result.id], links);
+      return { ...result, ...links };
     } catch (err) {
+      if (err instanceof AppError) throw err;
       throw AppError.internal("Create operation failed", err);
     }
   }
@@ -2,14 +2,30 @@
 import { ICommand } from "./ICommand";
 import { AppError } from "../errors/AppError";
 import { logger } from "../src/telemetry/logger";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
+import { RelationService } from "../database/relations/RelationService";
+import {
+  DELETED_AT,
+  DELETED_BY,
+  isSoftDeleting,
+  scopeToTrash,
+  trashScopedFilter,
+} from "./softDelete";
+import { assertVersion } from "./recordVersion";
+import { RowPolicy, rowScopedFilter } from "./rowPermissions";
 
 export class DeleteCommand implements ICommand<any> {
   constructor(
-    private dbStrategy: {
-      delete: (collection: string, filter: Record<string, any>) => Promise<any>;
-    },
+    private dbStrategy: IDatabaseStrategy,
     private collection: string,
-    private filter: Record<string, any>
+    private filter: Record<string, any>,
+    /** Recorded as `deleted_by` when the collection soft-deletes */
+    private deletedBy?: string,
+    /** Rejects the delete with `conflict` unless records are at this version */
+    private expectedVersion?: number,
+    /** Limits the delete to records the caller's role may delete */
+    private rowPolicy?: RowPolicy
   ) {}
 
   async execute(): Promise<any> {
@@ -19,7 +35,29 @@ export class DeleteCommand implements ICommand<any> {
     );
 
     try {
-      const result = await this.dbStrategy.delete(this.collection, this.filter);
+      const filter = await rowScopedFilter(
+        this.rowPolicy,
+        this.collection,
+        "delete",
+        this.filter
+      );
+      if (this.expectedVersion !== undefined) {
+        await assertVersion(
+          this.dbStrategy,
+          this.collection,
+          await trashScopedFilter(this.dbStrategy, this.collection, filter),
+          this.expectedVersion
+        );
+      }
+      if (await isSoftDeleting(this.dbStrategy, this.collection)) {
+        return await this.trash(filter);
+      }
+
+      await new RelationService(this.dbStrategy).deleteLinks(
+        this.collection,
+        filter
+      );
+      const result = await this.dbStrategy.delete(this.collection, filter);
 
       logger.debug(
         { collection: this.collection, result },
@@ -32,7 +70,22 @@ export class DeleteCommand implements ICommand<any> {
         { err, collection: this.collection },
         `❌ Delete failed from '${this.collection}'`
       );
+      if (err instanceof AppError) throw err;
       throw AppError.internal("Delete operation failed", err);
     }
   }
+
+  /** Moves live matches to the trash; their links stay for a restore */
+  private async trash(filter: Filter): Promise<any> {
+    const result = await this.dbStrategy.updateMany(
+      this.collection,
+      scopeToTrash(filter),
+      { [DELETED_AT]: new Date(), [DELETED_BY]: this.deletedBy ?? null }
+    );
+    logger.debug(
+      { collection: this.collection, affected: result.affected },
+      `🗑️ Moved records of '${this.collection}' to the trash`
+    );
+    return result;
+  }
 }
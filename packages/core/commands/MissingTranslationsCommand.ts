@@ -0,0 +1,77 @@
+// packages/core/commands/MissingTranslationsCommand.ts
+
+import { ICommand } from "./ICommand";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
+import { MongoStrategy } from "../database/strategies/mongo/MongoStrategy";
+import { trashScopedFilter } from "./softDelete";
+import { asLocalized, hasLocale, localizedFields } from "./localization";
+
+/** A record with localized fields that have no value in a locale yet */
+export interface MissingTranslation {
+  id: unknown;
+  missing: string[];
+}
+
+/**
+ * Lists the records matching the filter whose localized fields have a
+ * value in some locale but none in `locale`, drafts included.
+ */
+export class MissingTranslationsCommand
+  implements ICommand<MissingTranslation[]>
+{
+  constructor(
+    private dbStrategy: Pick<IDatabaseStrategy, "read">,
+    private collection: string,
+    private locale: string,
+    private filter: Filter = {}
+  ) {}
+
+  async execute(): Promise<MissingTranslation[]> {
+    const { collection, locale } = this;
+    logger.debug(
+      { collection, locale, filter: this.filter },
+      `🌐 Listing missing '${locale}' translations in '${collection}'`
+    );
+
+    try {
+      const fields = await localizedFields(this.dbStrategy, collection);
+      if (fields.length === 0) {
+        throw AppError.validationError(
+          `'${collection}' has no localized fields`,
+          {
+            collection,
+          }
+        );
+      }
+
+      const idField = this.dbStrategy instanceof MongoStrategy ? "_id" : "id";
+      const records = await this.dbStrategy.read(
+        collection,
+        await trashScopedFilter(this.dbStrategy, collection, this.filter)
+      );
+
+      return records.flatMap((record: any) => {
+        const missing = fields
+          .filter(({ name }) => {
+            const values = asLocalized(record[name]);
+            return (
+              !hasLocale(values, locale) &&
+              Object.keys(values).some((l) => hasLocale(values, l))
+            );
+          })
+          .map((f) => f.name);
+        return missing.length ? [{ id: record[idField], missing }] : [];
+      });
+    } catch (err) {
+      logger.error(
+        { err, collection },
+        `❌ Listing missing translations failed in '${collection}'`
+      );
+      if (err instanceof AppError) throw err;
+      throw AppError.internal("Listing missing translations failed", err);
+    }
+  }
+}
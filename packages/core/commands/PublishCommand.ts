@@ -0,0 +1,81 @@
+// packages/core/commands/PublishCommand.ts
+
+import { ICommand } from "./ICommand";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
+import type { WriteResult } from "../database/types/WriteResult";
+import { trashScopedFilter } from "./softDelete";
+import { updateVersioned } from "./recordVersion";
+import { stripHiddenFields } from "./hiddenFields";
+import { PUBLISHED_AT, PUBLISH_AT, assertPublishable } from "./publication";
+import { RowPolicy, rowScopedFilter } from "./rowPermissions";
+
+/**
+ * Publishes the records matching the filter, or schedules them to be
+ * published at `at` when that lies in the future. Publishing now drops a
+ * pending schedule; a pending unpublish is kept.
+ */
+export class PublishCommand implements ICommand<WriteResult> {
+  constructor(
+    private dbStrategy: IDatabaseStrategy,
+    private collection: string,
+    private filter: Filter,
+    private at?: Date,
+    /** Limits the change to records the caller's role may publish */
+    private rowPolicy?: RowPolicy
+  ) {}
+
+  async execute(): Promise<WriteResult> {
+    const now = new Date();
+    const scheduled = !!this.at && this.at > now;
+    logger.debug(
+      { collection: this.collection, filter: this.filter, at: this.at },
+      scheduled
+        ? `⏰ Scheduling publication in '${this.collection}'`
+        : `📢 Publishing record(s) in '${this.collection}'`
+    );
+
+    try {
+      await assertPublishable(this.dbStrategy, this.collection);
+      const filter = await trashScopedFilter(
+        this.dbStrategy,
+        this.collection,
+        await rowScopedFilter(
+          this.rowPolicy,
+          this.collection,
+          "publish",
+          this.filter
+        )
+      );
+      const result = await updateVersioned(
+        this.dbStrategy,
+        this.collection,
+        filter,
+        scheduled
+          ? { [PUBLISH_AT]: this.at }
+          : { [PUBLISHED_AT]: this.at ?? now, [PUBLISH_AT]: null }
+      );
+
+      logger.debug(
+        { collection: this.collection, affected: result.affected },
+        `✅ Publish completed in '${this.collection}'`
+      );
+
+      return {
+        ...result,
+        records: result.records?.map((r) =>
+          stripHiddenFields(this.collection, r)
+        ),
+      };
+    } catch (err) {
+      logger.error(
+        { err, collection: this.collection },
+        `❌ Publish failed in '${this.collection}'`
+      );
+      if (err instanceof AppError) throw err;
+      throw AppError.internal("Publish operation failed", err);
+    }
+  }
+}
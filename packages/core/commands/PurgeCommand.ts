@@ -0,0 +1,75 @@
+// packages/core/commands/PurgeCommand.ts
+
+import { ICommand } from "./ICommand";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
+import type { WriteResult } from "../database/types/WriteResult";
+import { RelationService } from "../database/relations/RelationService";
+import { stripHiddenFields } from "./hiddenFields";
+import { DELETED_AT, assertSoftDeleting, scopeToTrash } from "./softDelete";
+import { RowPolicy, rowScopedFilter } from "./rowPermissions";
+
+/**
+ * Permanently deletes trashed records matching the filter, optionally
+ * only those trashed before `olderThan`. Live records are never touched.
+ */
+export class PurgeCommand implements ICommand<WriteResult> {
+  constructor(
+    private dbStrategy: IDatabaseStrategy,
+    private collection: string,
+    private filter: Filter = {},
+    private olderThan?: Date,
+    /** Limits the purge to records the caller's role may purge */
+    private rowPolicy?: RowPolicy
+  ) {}
+
+  async execute(): Promise<WriteResult> {
+    logger.debug(
+      { collection: this.collection, filter: this.filter },
+      `🔥 Purging trash of '${this.collection}'`
+    );
+
+    try {
+      await assertSoftDeleting(this.dbStrategy, this.collection);
+      const scoped = await rowScopedFilter(
+        this.rowPolicy,
+        this.collection,
+        "purge",
+        this.filter
+      );
+      const filter = scopeToTrash(
+        this.olderThan
+          ? { and: [scoped, { [DELETED_AT]: { lt: this.olderThan } }] }
+          : scoped,
+        "only"
+      );
+
+      await new RelationService(this.dbStrategy).deleteLinks(
+        this.collection,
+        filter
+      );
+      const result = await this.dbStrategy.deleteMany(this.collection, filter);
+
+      logger.debug(
+        { collection: this.collection, affected: result.affected },
+        `✅ Purge completed in '${this.collection}'`
+      );
+
+      return {
+        ...result,
+        records: result.records?.map((r) =>
+          stripHiddenFields(this.collection, r)
+        ),
+      };
+    } catch (err) {
+      logger.error(
+        { err, collection: this.collection },
+        `❌ Purge failed in '${this.collection}'`
+      );
+      if (err instanceof AppError) throw err;
+      throw AppError.internal("Purge operation failed", err);
+    }
+  }
+}
@@ -3,24 +3,89 @@
 import { ICommand } from "./ICommand";
 import { AppError } from "../errors/AppError";
 import { logger } from "../src/telemetry/logger";
+import type { Filter } from "../database/types/Filter";
+import type {
+  PublicationMode,
+  QueryOptions,
+} from "../database/types/QueryOptions";
+import { HIDDEN_FIELDS, assertReadableQuery } from "./hiddenFields";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import { RelationService } from "../database/relations/RelationService";
+import { trashScopedFilter } from "./softDelete";
+import { publicationScopedFilter } from "./publication";
+import { localeChain, localizeRecords, localizedFields } from "./localization";
+import type { FieldPolicy } from "./fieldPermissions";
+import { RowPolicy, rowScopedFilter } from "./rowPermissions";
 
 export class ReadCommand implements ICommand<any> {
   constructor(
-    private dbStrategy: {
-      read: (collection: string, filter?: Record<string, any>) => Promise<any>;
-    },
+    private dbStrategy: IDatabaseStrategy,
     private collection: string,
-    private filter?: Record<string, any>
+    private filter: Filter = {},
+    private options?: QueryOptions,
+    /** Checks read access to each collection `expand` reaches into */
+    private authorize?: (collection: string) => Promise<void>,
+    /** Fields the caller's role may not read, here and in expanded records */
+    private fieldPolicy?: FieldPolicy,
+    /** Records the caller's role may read, here and in expanded records */
+    private rowPolicy?: RowPolicy
   ) {}
 
   async execute(): Promise<any> {
     logger.debug(
-      { collection: this.collection, filter: this.filter },
+      {
+        collection: this.collection,
+        filter: this.filter,
+        options: this.options,
+      },
       `🔍 Reading from '${this.collection}'`
     );
 
     try {
-      const result = await this.dbStrategy.read(this.collection, this.filter);
+      const {
+        expand,
+        trash,
+        publication,
+        locale,
+        fallbackLocales,
+        ...options
+      } =
+        this.withHiddenFields(
+          (await this.fieldPolicy?.(this.collection, "read")) ?? []
+        ) ?? {};
+      const locales = localeChain({ locale, fallbackLocales });
+      if (expand?.length && options.distinct) {
+        throw AppError.validationError(
+          "'expand' cannot be used with 'distinct'"
+        );
+      }
+
+      const records = await this.dbStrategy.read(
+        this.collection,
+        await trashScopedFilter(
+          this.dbStrategy,
+          this.collection,
+          await publicationScopedFilter(
+            this.dbStrategy,
+            this.collection,
+            await rowScopedFilter(
+              this.rowPolicy,
+              this.collection,
+              "read",
+              this.filter
+            ),
+            publication
+          ),
+          trash
+        ),
+        options
+      );
+      const result = options.distinct
+        ? records
+        : await this.localize(records, locales);
+      if (expand?.length) {
+        return await this.expand(result, expand, publication, locales);
+      }
 
       logger.debug(
         { collection: this.collection, result },
@@ -33,7 +98,55 @@ export class ReadCommand implements ICommand<any> {
         { err, collection: this.collection },
         `❌ Read failed from '${this.collection}'`
       );
+      if (err instanceof AppError) throw err;
       throw AppError.internal("Read operation failed", err);
     }
   }
+
+  /** Parses or resolves localized fields of arrays and `Page` items */
+  private async localize(result: any, locales: string[]): Promise<any> {
+    const fields = await localizedFields(this.dbStrategy, this.collection);
+    if (fields.length === 0) return result;
+    return Array.isArray(result)
+      ? localizeRecords(fields, result, locales)
+      : { ...result, items: localizeRecords(fields, result.items, locales) };
+  }
+
+  /** Expands plain arrays and the items of a `Page` alike */
+  private async expand(
+    result: any,
+    paths: string[],
+    publication?: PublicationMode,
+    locales?: string[]
+  ): Promise<any> {
+    const relations = new RelationService(this.dbStrategy);
+    const expand = (records: any[]) =>
+      relations.expand(this.collection, records, paths, {
+        authorize: this.authorize,
+        fieldPolicy: this.fieldPolicy,
+        rowPolicy: this.rowPolicy,
+        publication,
+        locales,
+      });
+
+    return Array.isArray(result)
+      ? expand(result)
+      : { ...result, items: await expand(result.items) };
+  }
+
+  private withHiddenFields(restricted: string[]): QueryOptions | undefined {
+    const hidden = [...(HIDDEN_FIELDS[this.collection] ?? []), ...restricted];
+    if (hidden.length === 0) return this.options;
+
+    assertReadableQuery(this.collection, this.filter, this.options, restricted);
+
+    // Exclusions also strip these fields from an `include` list
+    return {
+      ...this.options,
+      fields: {
+        ...this.options?.fields,
+        exclude: [...(this.options?.fields?.exclude ?? []), ...hidden],
+      },
+    };
+  }
 }
@@ -0,0 +1,64 @@
+// packages/core/commands/RestoreCommand.ts
+
+import { ICommand } from "./ICommand";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
+import type { WriteResult } from "../database/types/WriteResult";
+import {
+  DELETED_AT,
+  DELETED_BY,
+  assertSoftDeleting,
+  scopeToTrash,
+} from "./softDelete";
+import { RowPolicy, rowScopedFilter } from "./rowPermissions";
+
+/** Brings trashed records matching the filter back to life */
+export class RestoreCommand implements ICommand<WriteResult> {
+  constructor(
+    private dbStrategy: Pick<IDatabaseStrategy, "updateMany" | "read">,
+    private collection: string,
+    private filter: Filter,
+    /** Limits the restore to records the caller's role may restore */
+    private rowPolicy?: RowPolicy
+  ) {}
+
+  async execute(): Promise<WriteResult> {
+    logger.debug(
+      { collection: this.collection, filter: this.filter },
+      `♻️ Restoring trashed records of '${this.collection}'`
+    );
+
+    try {
+      await assertSoftDeleting(this.dbStrategy, this.collection);
+      const result = await this.dbStrategy.updateMany(
+        this.collection,
+        scopeToTrash(
+          await rowScopedFilter(
+            this.rowPolicy,
+            this.collection,
+            "restore",
+            this.filter
+          ),
+          "only"
+        ),
+        { [DELETED_AT]: null, [DELETED_BY]: null }
+      );
+
+      logger.debug(
+        { collection: this.collection, affected: result.affected },
+        `✅ Restore completed in '${this.collection}'`
+      );
+
+      return result;
+    } catch (err) {
+      logger.error(
+        { err, collection: this.collection },
+        `❌ Restore failed in '${this.collection}'`
+      );
+      if (err instanceof AppError) throw err;
+      throw AppError.internal("Restore operation failed", err);
+    }
+  }
+}
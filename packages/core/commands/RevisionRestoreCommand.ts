@@ -0,0 +1,140 @@
+// packages/core/commands/RevisionRestoreCommand.ts
+
+import { ICommand } from "./ICommand";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { FieldDefinition } from "../database/types/CollectionSchema";
+import { MongoStrategy } from "../database/strategies/mongo/MongoStrategy";
+import { isStoredField } from "../database/relations/relationFields";
+import { getRevision } from "../database/revisions/recordRevisions";
+import { loadCollectionDefinition } from "./validatePayload";
+import { asLocalized } from "./localization";
+import { CreateCommand } from "./CreateCommand";
+import { UpdateCommand } from "./UpdateCommand";
+import type { FieldPolicy } from "./fieldPermissions";
+import { RowPolicy, assertRecordAllowed } from "./rowPermissions";
+
+/** Snapshots hold values as the engine returned them, e.g. SQLite 0/1 */
+const fromStored = (field: FieldDefinition, value: unknown): unknown => {
+  if (value === null || value === undefined) return value;
+  if (field.localized) return asLocalized(value);
+  switch (field.type) {
+    case "boolean":
+      return typeof value === "number" ? value === 1 : value;
+    case "integer":
+    case "number":
+      return typeof value === "string" ? Number(value) : value;
+    case "json":
+      return typeof value === "string" ? JSON.parse(value) : value;
+    default:
+      return value;
+  }
+};
+
+/**
+ * Writes a record back to the state of one of its revisions, through the
+ * usual validation, so the restore becomes a revision of its own. A
+ * deleted record is created again.
+ */
+export class RevisionRestoreCommand implements ICommand<any> {
+  constructor(
+    private dbStrategy: IDatabaseStrategy,
+    private collection: string,
+    private recordId: string,
+    private revision: number,
+    /** Fields the caller's role may not write keep their current value */
+    private fieldPolicy?: FieldPolicy,
+    /** Checks the record against the caller's update or create condition */
+    private rowPolicy?: RowPolicy
+  ) {}
+
+  async execute(): Promise<any> {
+    const { collection, recordId, revision } = this;
+    logger.debug(
+      { collection, recordId, revision },
+      `⏪ Restoring revision ${revision} of '${recordId}' in '${collection}'`
+    );
+
+    try {
+      const definition = await loadCollectionDefinition(
+        this.dbStrategy,
+        collection
+      );
+      if (!definition) {
+        throw AppError.validationError(
+          `'${collection}' does not keep revisions`,
+          { collection }
+        );
+      }
+
+      const { snapshot } = await getRevision(
+        this.dbStrategy,
+        collection,
+        recordId,
+        revision
+      );
+      const idField = this.dbStrategy instanceof MongoStrategy ? "_id" : "id";
+      const filter = { [idField]: snapshot[idField] };
+      const [existing] = await this.dbStrategy.read(collection, filter);
+      // A deleted record comes back through the create condition instead
+      if (existing) {
+        await assertRecordAllowed(
+          this.dbStrategy,
+          this.rowPolicy,
+          collection,
+          "update",
+          filter,
+          existing
+        );
+      }
+
+      const restricted =
+        (await this.fieldPolicy?.(
+          collection,
+          existing ? "update" : "create"
+        )) ?? [];
+      const data = Object.fromEntries(
+        definition.fields
+          .filter(
+            (field) =>
+              isStoredField(field) &&
+              field.name in snapshot &&
+              !restricted.includes(field.name)
+          )
+          .map((field) => [field.name, fromStored(field, snapshot[field.name])])
+      );
+
+      const result = existing
+        ? await new UpdateCommand(
+            this.dbStrategy,
+            collection,
+            filter,
+            data,
+            undefined,
+            undefined,
+            this.rowPolicy
+          ).execute()
+        : await new CreateCommand(
+            this.dbStrategy,
+            collection,
+            data,
+            undefined,
+            this.rowPolicy
+          ).execute();
+
+      logger.debug(
+        { collection, recordId, revision },
+        `✅ Revision ${revision} restored in '${collection}'`
+      );
+      return result;
+    } catch (err) {
+      logger.error(
+        { err, collection, recordId },
+        `❌ Revision restore failed in '${collection}'`
+      );
+      if (err instanceof AppError) throw err;
+      throw AppError.internal("Revision restore failed", err);
+    }
+  }
+}
@@ -0,0 +1,148 @@
+// packages/core/commands/TranslateCommand.ts
+
+import { ICommand } from "./ICommand";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
+import type { WriteResult } from "../database/types/WriteResult";
+import { MongoStrategy } from "../database/strategies/mongo/MongoStrategy";
+import { validatePayload } from "./validatePayload";
+import { trashScopedFilter } from "./softDelete";
+import { updateVersioned } from "./recordVersion";
+import { stripHiddenFields } from "./hiddenFields";
+import { asLocalized, hasLocale, localizedFields } from "./localization";
+import { FieldPolicy, assertWritableFields } from "./fieldPermissions";
+import { RowPolicy, rowScopedFilter } from "./rowPermissions";
+
+/**
+ * Creates the `to` translation of the records matching the filter from
+ * their `from` values. Values in `data` are written to `to` instead of
+ * the copied ones; without them, fields already translated are kept.
+ * Fields the caller's role may not update are left untranslated.
+ */
+export class TranslateCommand implements ICommand<WriteResult> {
+  constructor(
+    private dbStrategy: IDatabaseStrategy,
+    private collection: string,
+    private filter: Filter,
+    private from: string,
+    private to: string,
+    private data: Record<string, any> = {},
+    private fieldPolicy?: FieldPolicy,
+    private rowPolicy?: RowPolicy
+  ) {}
+
+  async execute(): Promise<WriteResult> {
+    const { collection, from, to } = this;
+    logger.debug(
+      { collection, filter: this.filter, from, to },
+      `🌐 Translating records of '${collection}' from '${from}' to '${to}'`
+    );
+
+    try {
+      const fields = await localizedFields(this.dbStrategy, collection);
+      if (fields.length === 0) {
+        throw AppError.validationError(
+          `'${collection}' has no localized fields`,
+          {
+            collection,
+          }
+        );
+      }
+      if (from === to) {
+        throw AppError.validationError("A translation needs another locale", {
+          locale: to,
+        });
+      }
+      const names = new Set(fields.map((f) => f.name));
+      const unknown = Object.keys(this.data).filter((key) => !names.has(key));
+      if (unknown.length > 0) {
+        throw AppError.validationError(`Invalid payload for '${collection}'`, {
+          collection,
+          issues: unknown.map((field) => ({
+            field,
+            message: "Not a localized field",
+          })),
+        });
+      }
+
+      await assertWritableFields(
+        this.fieldPolicy,
+        collection,
+        "update",
+        this.data
+      );
+      const restricted = (await this.fieldPolicy?.(collection, "update")) ?? [];
+
+      const idField = this.dbStrategy instanceof MongoStrategy ? "_id" : "id";
+      const records = await this.dbStrategy.read(
+        collection,
+        await trashScopedFilter(
+          this.dbStrategy,
+          collection,
+          await rowScopedFilter(
+            this.rowPolicy,
+            collection,
+            "update",
+            this.filter
+          )
+        )
+      );
+
+      const result: WriteResult = { affected: 0, ids: [], records: [] };
+      for (const record of records) {
+        const changes = this.translation(
+          fields.map((f) => f.name).filter((n) => !restricted.includes(n)),
+          record
+        );
+        if (Object.keys(changes).length === 0) continue;
+
+        await validatePayload(this.dbStrategy, collection, changes, {
+          partial: true,
+        });
+        const written = await updateVersioned(
+          this.dbStrategy,
+          collection,
+          { [idField]: record[idField] },
+          changes
+        );
+        result.affected += written.affected;
+        result.ids.push(...written.ids);
+        result.records!.push(
+          ...(written.records ?? []).map((r) =>
+            stripHiddenFields(collection, r)
+          )
+        );
+      }
+
+      logger.debug(
+        { collection, affected: result.affected },
+        `✅ Translation to '${to}' completed in '${collection}'`
+      );
+
+      return result;
+    } catch (err) {
+      logger.error(
+        { err, collection },
+        `❌ Translation failed in '${collection}'`
+      );
+      if (err instanceof AppError) throw err;
+      throw AppError.internal("Translate operation failed", err);
+    }
+  }
+
+  /** New locale maps of one record's fields that gain a `to` value */
+  private translation(names: string[], record: any): Record<string, any> {
+    const changes: Record<string, any> = {};
+    for (const name of names) {
+      const values = asLocalized(record[name]);
+      if (name in this.data) {
+        changes[name] = { ...values, [this.to]: this.data[name] };
+      } else if (hasLocale(values, this.from) && !hasLocale(values, this.to)) {
+        changes[name] = { ...values, [this.to]: values[this.from] };
+      }
+    }
+    return changes;
+  }
+}
@@ -0,0 +1,85 @@
+// packages/core/commands/UnpublishCommand.ts
+
+import { ICommand } from "./ICommand";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
+import type { WriteResult } from "../database/types/WriteResult";
+import { trashScopedFilter } from "./softDelete";
+import { updateVersioned } from "./recordVersion";
+import { stripHiddenFields } from "./hiddenFields";
+import {
+  PUBLISHED_AT,
+  PUBLISH_AT,
+  UNPUBLISH_AT,
+  assertPublishable,
+} from "./publication";
+import { RowPolicy, rowScopedFilter } from "./rowPermissions";
+
+/**
+ * Turns the records matching the filter back into drafts, or schedules
+ * that for `at` when it lies in the future. Unpublishing now also drops
+ * any pending schedule, so the drafts stay drafts.
+ */
+export class UnpublishCommand implements ICommand<WriteResult> {
+  constructor(
+    private dbStrategy: IDatabaseStrategy,
+    private collection: string,
+    private filter: Filter,
+    private at?: Date,
+    /** Limits the change to records the caller's role may unpublish */
+    private rowPolicy?: RowPolicy
+  ) {}
+
+  async execute(): Promise<WriteResult> {
+    const scheduled = !!this.at && this.at > new Date();
+    logger.debug(
+      { collection: this.collection, filter: this.filter, at: this.at },
+      scheduled
+        ? `⏰ Scheduling unpublication in '${this.collection}'`
+        : `📥 Unpublishing record(s) in '${this.collection}'`
+    );
+
+    try {
+      await assertPublishable(this.dbStrategy, this.collection);
+      const filter = await trashScopedFilter(
+        this.dbStrategy,
+        this.collection,
+        await rowScopedFilter(
+          this.rowPolicy,
+          this.collection,
+          "unpublish",
+          this.filter
+        )
+      );
+      const result = await updateVersioned(
+        this.dbStrategy,
+        this.collection,
+        filter,
+        scheduled
+          ? { [UNPUBLISH_AT]: this.at }
+          : { [PUBLISHED_AT]: null, [PUBLISH_AT]: null, [UNPUBLISH_AT]: null }
+      );
+
+      logger.debug(
+        { collection: this.collection, affected: result.affected },
+        `✅ Unpublish completed in '${this.collection}'`
+      );
+
+      return {
+        ...result,
+        records: result.records?.map((r) =>
+          stripHiddenFields(this.collection, r)
+        ),
+      };
+    } catch (err) {
+      logger.error(
+        { err, collection: this.collection },
+        `❌ Unpublish failed in '${this.collection}'`
+      );
+      if (err instanceof AppError) throw err;
+      throw AppError.internal("Unpublish operation failed", err);
+    }
+  }
+}
@@ -3,19 +3,30 @@
 import { ICommand } from "./ICommand";
 import { AppError } from "../errors/AppError";
 import { logger } from "../src/telemetry/logger";
+import { validatePayload } from "./validatePayload";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import { RelationService } from "../database/relations/RelationService";
+import { trashScopedFilter } from "./softDelete";
+import { assertVersion, isVersioned, updateVersioned } from "./recordVersion";
+import { FieldPolicy, assertWritableFields } from "./fieldPermissions";
+import {
+  RowPolicy,
+  assertUpdateAllowed,
+  rowScopedFilter,
+} from "./rowPermissions";
 
 export class UpdateCommand implements ICommand<any> {
   constructor(
-    private dbStrategy: {
-      update: (
-        collection: string,
-        filter: Record<string, any>,
-        data: Record<string, any>
-      ) => Promise<any>;
-    },
+    private dbStrategy: IDatabaseStrategy,
     private collection: string,
     private filter: Record<string, any>,
-    private data: Record<string, any>
+    private data: Record<string, any>,
+    /** Rejects the update with `conflict` unless records are at this version */
+    private expectedVersion?: number,
+    /** Rejects fields the caller's role may not write */
+    private fieldPolicy?: FieldPolicy,
+    /** Limits the update to records the caller's role may update */
+    private rowPolicy?: RowPolicy
   ) {}
 
   async execute(): Promise<any> {
@@ -25,11 +36,61 @@ export class UpdateCommand implements ICommand<any> {
     );
 
     try {
-      const result = await this.dbStrategy.update(
+      await assertWritableFields(
+        this.fieldPolicy,
         this.collection,
-        this.filter,
+        "update",
         this.data
       );
+      await validatePayload(this.dbStrategy, this.collection, this.data, {
+        partial: true,
+      });
+      const relations = new RelationService(this.dbStrategy);
+      const { data, links } = await relations.splitLinks(
+        this.collection,
+        this.data
+      );
+      // Trashed records stay as they were deleted until restored
+      const filter = await trashScopedFilter(
+        this.dbStrategy,
+        this.collection,
+        await rowScopedFilter(
+          this.rowPolicy,
+          this.collection,
+          "update",
+          this.filter
+        )
+      );
+      await assertUpdateAllowed(
+        this.dbStrategy,
+        this.rowPolicy,
+        this.collection,
+        filter,
+        this.data
+      );
+      if (this.expectedVersion !== undefined) {
+        await assertVersion(
+          this.dbStrategy,
+          this.collection,
+          filter,
+          this.expectedVersion
+        );
+      }
+      // Match the records before the update can change what the filter hits
+      const ids =
+        Object.keys(links).length > 0
+          ? (await this.dbStrategy.read(this.collection, filter)).map(
+              (record: any) => record.id
+            )
+          : [];
+
+      // Versioned records report their new version, even for link changes
+      const result = (await isVersioned(this.dbStrategy, this.collection))
+        ? await updateVersioned(this.dbStrategy, this.collection, filter, data)
+        : Object.keys(data).length > 0
+          ? await this.dbStrategy.update(this.collection, filter, data)
+          : links;
+      await relations.writeLinks(this.collection, ids, links);
 
       logger.debug(
         { collection: this.collection, result },
@@ -42,6 +103,7 @@ export class UpdateCommand implements ICommand<any> {
         { err, collection: this.collection },
         `❌ Update failed in '${this.collection}'`
       );
+      if (err instanceof AppError) throw err;
       throw AppError.internal("Update operation failed", err);
     }
   }
@@ -0,0 +1,138 @@
+// packages/core/commands/UpsertCommand.ts
+
+import { ICommand } from "./ICommand";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import { hashPasswordField } from "./hashPassword";
+import { stripHiddenFields } from "./hiddenFields";
+import { validatePayload } from "./validatePayload";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import { RelationService } from "../database/relations/RelationService";
+import type { WriteResult } from "../database/types/WriteResult";
+import { VERSION_FIELD, isVersioned, versionOf } from "./recordVersion";
+import { FieldPolicy, assertWritableFields } from "./fieldPermissions";
+import {
+  RowPolicy,
+  assertRowAllowed,
+  assertUpdateAllowed,
+  scopeToCondition,
+} from "./rowPermissions";
+import type { Filter } from "../database/types/Filter";
+
+export class UpsertCommand implements ICommand<WriteResult> {
+  constructor(
+    private dbStrategy: IDatabaseStrategy,
+    private collection: string,
+    private conflictKeys: string[],
+    private data: Record<string, any>,
+    /** Rejects fields the caller's role may not write */
+    private fieldPolicy?: FieldPolicy,
+    /** Checks the insert and the overwrite against the caller's conditions */
+    private rowPolicy?: RowPolicy
+  ) {}
+
+  async execute(): Promise<WriteResult> {
+    logger.debug(
+      { collection: this.collection, conflictKeys: this.conflictKeys },
+      `🔁 Upserting into '${this.collection}'`
+    );
+
+    try {
+      // Either path may be taken, so the payload must pass both
+      for (const operation of ["create", "update"] as const) {
+        await assertWritableFields(
+          this.fieldPolicy,
+          this.collection,
+          operation,
+          this.data
+        );
+      }
+      await assertRowAllowed(this.rowPolicy, this.collection, this.data);
+      await this.assertUpdatable();
+      await validatePayload(this.dbStrategy, this.collection, this.data);
+      const relations = new RelationService(this.dbStrategy);
+      const { data, links } = await relations.splitLinks(
+        this.collection,
+        this.data
+      );
+      const payload = await hashPasswordField(this.collection, data);
+      if (await isVersioned(this.dbStrategy, this.collection)) {
+        payload[VERSION_FIELD] = await this.nextVersion();
+      }
+      const result = await this.dbStrategy.upsert(
+        this.collection,
+        this.conflictKeys,
+        payload
+      );
+      await relations.writeLinks(this.collection, result.ids, links);
+
+      logger.debug(
+        { collection: this.collection, ids: result.ids },
+        `✅ Upsert completed in '${this.collection}'`
+      );
+
+      return {
+        ...result,
+        records: result.records?.map((r) =>
+          stripHiddenFields(this.collection, r)
+        ),
+      };
+    } catch (err) {
+      logger.error(
+        { err, collection: this.collection },
+        `❌ Upsert failed in '${this.collection}'`
+      );
+      if (err instanceof AppError) throw err;
+      throw AppError.internal("Upsert operation failed", err);
+    }
+  }
+
+  /** Version the upserted record ends up at: 1 when it is inserted */
+  private async nextVersion(): Promise<number> {
+    const [existing] = await this.dbStrategy.read(
+      this.collection,
+      this.conflictFilter(),
+      { limit: 1 }
+    );
+    return existing ? versionOf(existing) + 1 : 1;
+  }
+
+  /**
+   * Rejects overwriting a record outside the caller's update condition, or
+   * moving it out of that condition
+   */
+  private async assertUpdatable(): Promise<void> {
+    const condition = await this.rowPolicy?.(this.collection, "update");
+    if (!condition) return;
+
+    const filter = this.conflictFilter();
+    const [existing] = await this.dbStrategy.read(this.collection, filter, {
+      limit: 1,
+    });
+    if (!existing) return;
+    const [allowed] = await this.dbStrategy.read(
+      this.collection,
+      scopeToCondition(filter, condition),
+      { limit: 1 }
+    );
+    if (!allowed) {
+      throw AppError.forbidden(
+        `Record does not meet the update condition of '${this.collection}'`
+      );
+    }
+    await assertUpdateAllowed(
+      this.dbStrategy,
+      this.rowPolicy,
+      this.collection,
+      filter,
+      this.data
+    );
+  }
+
+  /** Matches the record the upsert would overwrite */
+  private conflictFilter(): Filter {
+    return Object.fromEntries(
+      this.conflictKeys.map((key) => [key, this.data[key]])
+    );
+  }
+}
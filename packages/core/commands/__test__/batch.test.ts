@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { DatabaseStrategyFactory } from "../../database/DatabaseStrategyFactory";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+import { RoleCreateCommand } from "../roles/RoleCommands";
+import { CollectionPermissionCreateCommand } from "../collection_permissions/CollectionPermissionCommands";
+import { BatchCommand, BatchEntry } from "../BatchCommand";
+import { CommandExecutor } from "../CommandExecutor";
+import { CreateCommand } from "../CreateCommand";
+import { UpdateCommand } from "../UpdateCommand";
+import {
+  authorizeCollectionAction,
+  CollectionOperation,
+} from "../../middleware/authorizeCollectionActionMiddleware";
+import { AppError, ErrorType } from "../../errors/AppError";
+
+describe("batch commands", () => {
+  let db: IDatabaseStrategy;
+  let built: BatchEntry[];
+
+  /** Runs the batch in a transaction, as the batch route does */
+  const run = (entries: BatchEntry[], role?: string) =>
+    CommandExecutor.executeInTransaction(
+      db,
+      (tx) =>
+        new BatchCommand(
+          entries,
+          (entry) => {
+            built.push(entry);
+            return entry.operation === "create"
+              ? new CreateCommand(tx, entry.collection, entry.data!)
+              : new UpdateCommand(
+                  tx,
+                  entry.collection,
+                  entry.filter!,
+                  entry.data!
+                );
+          },
+          role
+            ? ({ collection, operation }) =>
+                authorizeCollectionAction(
+                  { id: "1", username: "someone", role },
+                  collection,
+                  operation as CollectionOperation
+                )
+            : undefined
+        )
+    );
+
+  const failure = (entries: BatchEntry[], role?: string) =>
+    run(entries, role).then(
+      () => expect.fail("batch should have failed"),
+      (err: AppError) => err
+    );
+
+  beforeEach(async () => {
+    db = await DatabaseStrategyFactory.create("mock", {});
+    built = [];
+    await new RoleCreateCommand({ name: "admin" }, db).execute();
+    await new RoleCreateCommand({ name: "editor" }, db).execute();
+    for (const operation of ["create", "update"]) {
+      await new CollectionPermissionCreateCommand(
+        "collection_permissions",
+        {
+          collection_name: "posts",
+          operation,
+          allowed_roles: ["editor"],
+        },
+        db
+      ).execute();
+    }
+  });
+
+  it("resolves references to earlier results", async () => {
+    const results = await run([
+      {
+        ref: "author",
+        operation: "create",
+        collection: "authors",
+        data: { name: "Ann" },
+      },
+      {
+        ref: "post",
+        operation: "create",
+        collection: "posts",
+        data: { title: "Hello", author_id: { $ref: "author.id" } },
+      },
+      {
+        operation: "update",
+        collection: "posts",
+        filter: { id: { $ref: "post.id" } },
+        data: { tags: [{ $ref: "author.name" }] },
+      },
+    ]);
+
+    expect(results.map((r) => r.ref)).toEqual(["author", "post", undefined]);
+    const [author] = await db.read("authors", {});
+    const [post] = await db.read("posts", {});
+    expect(post).toMatchObject({ author_id: author.id, tags: ["Ann"] });
+  });
+
+  it("rolls back every entry when one fails", async () => {
+    const error = await failure([
+      {
+        ref: "author",
+        operation: "create",
+        collection: "authors",
+        data: { name: "Ann" },
+      },
+      {
+        operation: "create",
+        collection: "posts",
+        data: { author_id: { $ref: "editor.id" } },
+      },
+    ]);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.code).toBe(ErrorType.VALIDATION_FAILED);
+    expect(error.message).toBe("Unknown batch reference 'editor'");
+    expect(error.details).toMatchObject({ index: 1 });
+    expect(await db.read("authors", {})).toEqual([]);
+  });
+
+  it("rejects duplicate reference names before running anything", async () => {
+    const error = await failure([
+      {
+        ref: "post",
+        operation: "create",
+        collection: "posts",
+        data: { title: "A" },
+      },
+      {
+        ref: "post",
+        operation: "create",
+        collection: "posts",
+        data: { title: "B" },
+      },
+    ]);
+
+    expect(error.code).toBe(ErrorType.VALIDATION_FAILED);
+    expect(built).toEqual([]);
+  });
+
+  it("authorizes every entry before the first one runs", async () => {
+    const entries: BatchEntry[] = [
+      { operation: "create", collection: "posts", data: { title: "A" } },
+      { operation: "create", collection: "authors", data: { name: "Ann" } },
+    ];
+
+    const error = await failure(entries, "editor");
+    expect(error.code).toBe(ErrorType.FORBIDDEN);
+    expect(error.details).toMatchObject({ index: 1 });
+    expect(built).toEqual([]);
+
+    await run(entries, "admin");
+    expect(await db.read("posts", {})).toHaveLength(1);
+    expect(await db.read("authors", {})).toHaveLength(1);
+  });
+});
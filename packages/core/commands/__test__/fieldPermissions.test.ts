@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { DatabaseStrategyFactory } from "../../database/DatabaseStrategyFactory";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+import { RoleCreateCommand } from "../roles/RoleCommands";
+import {
+  CollectionPermissionCreateCommand,
+  CollectionPermissionUpdateCommand,
+} from "../collection_permissions/CollectionPermissionCommands";
+import { fieldPolicyFor } from "../fieldPermissions";
+import { ReadCommand } from "../ReadCommand";
+import { AggregateCommand } from "../AggregateCommand";
+import { CreateCommand } from "../CreateCommand";
+import { UpdateCommand } from "../UpdateCommand";
+import { AppError, ErrorType } from "../../errors/AppError";
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+describe("field permissions", () => {
+  let db: IDatabaseStrategy;
+
+  const policy = (role: string) => fieldPolicyFor(db, { role });
+
+  const read = (role: string, options?: Record<string, any>) =>
+    new ReadCommand(
+      db,
+      "posts",
+      {},
+      options,
+      undefined,
+      policy(role)
+    ).execute();
+
+  beforeEach(async () => {
+    db = await DatabaseStrategyFactory.create("mock", {});
+    await new RoleCreateCommand({ name: "admin" }, db).execute();
+    await new RoleCreateCommand({ name: "viewer" }, db).execute();
+    await new RoleCreateCommand(
+      { name: "editor", parents: ["viewer"] },
+      db
+    ).execute();
+    await new RoleCreateCommand(
+      { name: "chief", parents: ["editor"] },
+      db
+    ).execute();
+
+    await new CollectionPermissionCreateCommand(
+      "collection_permissions",
+      {
+        collection_name: "posts",
+        operation: "read",
+        allowed_roles: ["viewer"],
+        field_roles: { email: ["editor"] },
+      },
+      db
+    ).execute();
+    await new CollectionPermissionCreateCommand(
+      "collection_permissions",
+      {
+        collection_name: "posts",
+        operation: "update",
+        allowed_roles: ["editor"],
+        field_roles: { status: ["chief"] },
+      },
+      db
+    ).execute();
+    await db.create("posts", {
+      title: "Hello",
+      email: "author@example.com",
+      status: "draft",
+    });
+  });
+
+  it("strips fields a role may not read", async () => {
+    const [asViewer] = await read("viewer");
+    expect(asViewer).toMatchObject({ title: "Hello" });
+    expect(asViewer.email).toBeUndefined();
+
+    // Inherited roles and admins see the field
+    expect((await read("chief"))[0].email).toBe("author@example.com");
+    expect((await read("admin"))[0].email).toBe("author@example.com");
+  });
+
+  it("rejects distinct values of a restricted field", async () => {
+    await expectAppError(
+      read("viewer", { distinct: "email" }),
+      ErrorType.FORBIDDEN
+    );
+  });
+
+  it("rejects filters and sorts on a restricted field", async () => {
+    await expectAppError(
+      new ReadCommand(
+        db,
+        "posts",
+        { email: { like: "a%" } },
+        undefined,
+        undefined,
+        policy("viewer")
+      ).execute(),
+      ErrorType.FORBIDDEN
+    );
+    await expectAppError(
+      read("viewer", { sort: { field: "email" }, paginate: true }),
+      ErrorType.FORBIDDEN
+    );
+    await expectAppError(
+      new AggregateCommand(
+        db,
+        "posts",
+        {
+          filter: { email: "author@example.com" },
+          metrics: [{ fn: "count", as: "total" }],
+        },
+        undefined,
+        policy("viewer")
+      ).execute(),
+      ErrorType.FORBIDDEN
+    );
+    expect(
+      await read("editor", { sort: { field: "email" }, limit: 1 })
+    ).toHaveLength(1);
+  });
+
+  it("rejects writes to fields a role may not change", async () => {
+    await expectAppError(
+      new UpdateCommand(
+        db,
+        "posts",
+        { title: "Hello" },
+        { status: "published" },
+        undefined,
+        policy("editor")
+      ).execute(),
+      ErrorType.FORBIDDEN
+    );
+    await new UpdateCommand(
+      db,
+      "posts",
+      { title: "Hello" },
+      { title: "Hi" },
+      undefined,
+      policy("editor")
+    ).execute();
+    await new UpdateCommand(
+      db,
+      "posts",
+      { title: "Hi" },
+      { status: "published" },
+      undefined,
+      policy("chief")
+    ).execute();
+
+    const [post] = await db.read("posts", {});
+    expect(post).toMatchObject({ title: "Hi", status: "published" });
+    // Create has no field rules, so nothing is restricted there
+    await new CreateCommand(
+      db,
+      "posts",
+      { title: "Other", status: "draft" },
+      policy("editor")
+    ).execute();
+  });
+
+  it("merges and replaces field rules through the permission commands", async () => {
+    await new CollectionPermissionCreateCommand(
+      "collection_permissions",
+      {
+        collection_name: "posts",
+        operation: "read",
+        allowed_roles: ["viewer"],
+        field_roles: { email: ["viewer"] },
+      },
+      db
+    ).execute();
+    expect((await read("viewer"))[0].email).toBe("author@example.com");
+
+    await new CollectionPermissionUpdateCommand(
+      "collection_permissions",
+      {
+        collection_name: "posts",
+        operation: "read",
+        field_roles: { title: ["chief"] },
+      },
+      db
+    ).execute();
+    const [asEditor] = await read("editor");
+    expect(asEditor.title).toBeUndefined();
+    expect(asEditor.email).toBe("author@example.com");
+
+    await expectAppError(
+      new CollectionPermissionUpdateCommand(
+        "collection_permissions",
+        { collection_name: "posts", operation: "read" },
+        db
+      ).execute(),
+      ErrorType.VALIDATION_FAILED
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MockDatabaseStrategy } from "../../database/strategies/mock/MockDatabaseStrategy";
+import { ReadCommand } from "../ReadCommand";
+import { AppError, ErrorType } from "../../errors/AppError";
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+describe("hidden fields", () => {
+  let db: MockDatabaseStrategy;
+
+  const read = (filter: Record<string, any>, options?: Record<string, any>) =>
+    new ReadCommand(db, "users", filter, options).execute();
+
+  beforeEach(async () => {
+    db = new MockDatabaseStrategy();
+    for (const username of ["ann", "bob"]) {
+      await db.create("users", {
+        username,
+        password: `$2b$10$${username}-hash`,
+        refresh_token: `${username}-refresh`,
+      });
+    }
+  });
+
+  it("leaves hidden fields out of records and cursors", async () => {
+    const page = await read({}, { sort: { field: "username" }, limit: 1 });
+    expect(page[0]).toEqual({ id: expect.anything(), username: "ann" });
+
+    const { pageInfo } = await read(
+      {},
+      { sort: { field: "username" }, paginate: true, limit: 1 }
+    );
+    const cursor = Buffer.from(pageInfo.nextCursor, "base64url").toString();
+    expect(cursor).not.toContain("hash");
+  });
+
+  it("rejects filters and sorts on hidden fields", async () => {
+    await expectAppError(
+      read({ password: { like: "$2b$10$a%" } }),
+      ErrorType.FORBIDDEN
+    );
+    await expectAppError(
+      read({ or: [{ username: "ann" }, { not: { refresh_token: null } }] }),
+      ErrorType.FORBIDDEN
+    );
+    await expectAppError(
+      read({}, { sort: [{ field: "username" }, { field: "password" }] }),
+      ErrorType.FORBIDDEN
+    );
+    await expectAppError(
+      read({}, { or: [{ field: "password", value: "x" }] }),
+      ErrorType.FORBIDDEN
+    );
+    await expectAppError(
+      read({ "password.length": { gt: 0 } }),
+      ErrorType.FORBIDDEN
+    );
+  });
+});
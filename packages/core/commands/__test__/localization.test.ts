@@ -0,0 +1,202 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { SqliteStrategy } from "../../database/strategies/sqlite/SqliteStrategy";
+import { MockDatabaseStrategy } from "../../database/strategies/mock/MockDatabaseStrategy";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+import type { QueryOptions } from "../../database/types/QueryOptions";
+import {
+  CollectionSchemaCreateCommand,
+  CollectionSchemaUpdateCommand,
+} from "../collection_schemas/CollectionSchemaCommands";
+import { CreateCommand } from "../CreateCommand";
+import { ReadCommand } from "../ReadCommand";
+import { TranslateCommand } from "../TranslateCommand";
+import { MissingTranslationsCommand } from "../MissingTranslationsCommand";
+import { AppError, ErrorType } from "../../errors/AppError";
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+const fields = [
+  { name: "slug", type: "string", required: true },
+  { name: "title", type: "string", required: true, localized: true },
+  { name: "body", type: "text", localized: true },
+];
+
+/** Same scenarios on SQL storage and on a schemaless engine */
+function describeLocalization(
+  name: string,
+  setup: () => Promise<{ db: IDatabaseStrategy; close?: () => Promise<void> }>
+) {
+  describe(`localization on ${name}`, () => {
+    let db: IDatabaseStrategy;
+    let close: (() => Promise<void>) | undefined;
+
+    const read = async (slug: string, options?: QueryOptions) => {
+      const [page] = await new ReadCommand(
+        db,
+        "pages",
+        { slug },
+        options
+      ).execute();
+      return page;
+    };
+
+    beforeAll(async () => {
+      ({ db, close } = await setup());
+      await new CollectionSchemaCreateCommand(
+        { collection_name: "pages", fields },
+        db
+      ).execute();
+      await new CreateCommand(db, "pages", {
+        slug: "home",
+        title: { en: "Home", fr: "Accueil" },
+        body: { en: "Welcome" },
+      }).execute();
+      await new CreateCommand(db, "pages", {
+        slug: "about",
+        title: { en: "About" },
+      }).execute();
+    });
+
+    afterAll(async () => {
+      await close?.();
+    });
+
+    it("returns every locale without a requested one", async () => {
+      expect(await read("home")).toMatchObject({
+        title: { en: "Home", fr: "Accueil" },
+        body: { en: "Welcome" },
+      });
+    });
+
+    it("resolves fields through the locale and its fallbacks", async () => {
+      expect(await read("home", { locale: "fr" })).toMatchObject({
+        slug: "home",
+        title: "Accueil",
+        body: null,
+      });
+      expect(
+        await read("home", { locale: "fr", fallbackLocales: ["de", "en"] })
+      ).toMatchObject({ title: "Accueil", body: "Welcome" });
+    });
+
+    it("rejects values that are not maps of locales", async () => {
+      await expectAppError(
+        new CreateCommand(db, "pages", { slug: "x", title: "Plain" }).execute(),
+        ErrorType.VALIDATION_FAILED
+      );
+      await expectAppError(
+        new CreateCommand(db, "pages", {
+          slug: "x",
+          title: { "not a locale": "Plain" },
+        }).execute(),
+        ErrorType.VALIDATION_FAILED
+      );
+      await expectAppError(
+        new CreateCommand(db, "pages", { slug: "x", title: {} }).execute(),
+        ErrorType.VALIDATION_FAILED
+      );
+    });
+
+    it("lists records missing translations", async () => {
+      const missing = await new MissingTranslationsCommand(
+        db,
+        "pages",
+        "fr"
+      ).execute();
+      expect(missing.map((m) => m.missing)).toEqual([["body"], ["title"]]);
+    });
+
+    it("creates a translation from an existing locale", async () => {
+      await new TranslateCommand(db, "pages", { slug: "about" }, "en", "fr", {
+        body: "À propos de nous",
+      }).execute();
+      await new TranslateCommand(
+        db,
+        "pages",
+        { slug: "home" },
+        "en",
+        "fr"
+      ).execute();
+
+      expect(await read("about", { locale: "fr" })).toMatchObject({
+        title: "About",
+        body: "À propos de nous",
+      });
+      // Existing translations are kept
+      expect(await read("home", { locale: "fr" })).toMatchObject({
+        title: "Accueil",
+        body: "Welcome",
+      });
+      expect(
+        await new MissingTranslationsCommand(db, "pages", "fr").execute()
+      ).toEqual([]);
+    });
+
+    it("rejects translations of fields that are not localized", async () => {
+      await expectAppError(
+        new TranslateCommand(db, "pages", {}, "en", "fr", {
+          slug: "x",
+        }).execute(),
+        ErrorType.VALIDATION_FAILED
+      );
+    });
+
+    it("refuses to change whether a field is localized", async () => {
+      await expectAppError(
+        new CollectionSchemaUpdateCommand(
+          { collection_name: "pages" },
+          {
+            fields: fields.map((f) =>
+              f.name === "body" ? { ...f, localized: false } : f
+            ),
+          },
+          db
+        ).execute(),
+        ErrorType.VALIDATION_FAILED
+      );
+    });
+  });
+}
+
+let tmpDir: string;
+
+describeLocalization("SQLite", async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "localization-"));
+  const db = new SqliteStrategy({ filepath: path.join(tmpDir, "i18n.db") });
+  await db.ready;
+  await db.executeRaw(
+    `CREATE TABLE collection_schemas (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection_name TEXT NOT NULL UNIQUE,
+      fields TEXT NOT NULL
+    )`
+  );
+  await db.executeRaw(
+    `CREATE TABLE collection_schema_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection_name TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      base_version INTEGER,
+      status TEXT NOT NULL,
+      fields TEXT NOT NULL,
+      migration TEXT NOT NULL,
+      created_at TEXT
+    )`
+  );
+  return {
+    db,
+    close: async () => {
+      await db.disconnect();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    },
+  };
+});
+
+describeLocalization("mock", async () => ({ db: new MockDatabaseStrategy() }));
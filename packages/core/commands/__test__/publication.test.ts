@@ -0,0 +1,198 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import { SqliteStrategy } from "../../database/strategies/sqlite/SqliteStrategy";
+import type { PublicationMode } from "../../database/types/QueryOptions";
+import { CollectionSchemaCreateCommand } from "../collection_schemas/CollectionSchemaCommands";
+import { CreateCommand } from "../CreateCommand";
+import { ReadCommand } from "../ReadCommand";
+import { AggregateCommand } from "../AggregateCommand";
+import { PublishCommand } from "../PublishCommand";
+import { UnpublishCommand } from "../UnpublishCommand";
+import { publishDueContent } from "../publishScheduled";
+import { assertDraftEdit, publishedRevisions } from "../publication";
+import type { Revision } from "../../database/types/Revision";
+import { AppError, ErrorType } from "../../errors/AppError";
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+const titles = (records: any[]) => records.map((r) => r.title).sort();
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("draft and publish", () => {
+  let tmpDir: string;
+  let db: SqliteStrategy;
+
+  const read = (collection: string, publication?: PublicationMode) =>
+    new ReadCommand(db, collection, {}, { publication }).execute();
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "publication-"));
+    db = new SqliteStrategy({ filepath: path.join(tmpDir, "publish.db") });
+    await db.ready;
+    await db.executeRaw(
+      `CREATE TABLE collection_schemas (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection_name TEXT NOT NULL UNIQUE,
+        fields TEXT NOT NULL,
+        publishable INTEGER NOT NULL DEFAULT 0
+      )`
+    );
+    await db.executeRaw(
+      `CREATE TABLE collection_schema_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection_name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        base_version INTEGER,
+        status TEXT NOT NULL,
+        fields TEXT NOT NULL,
+        migration TEXT NOT NULL,
+        created_at TEXT
+      )`
+    );
+    await db.executeRaw(
+      `CREATE TABLE record_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection_name TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        action TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        diff TEXT NOT NULL,
+        author TEXT,
+        created_at TEXT
+      )`
+    );
+    const fields = [{ name: "title", type: "string", required: true }];
+    await new CollectionSchemaCreateCommand(
+      { collection_name: "articles", fields, publishable: true },
+      db
+    ).execute();
+    await new CollectionSchemaCreateCommand(
+      { collection_name: "notes", fields },
+      db
+    ).execute();
+  });
+
+  beforeEach(async () => {
+    await db.deleteMany("articles", {});
+    for (const title of ["a", "b", "c"]) {
+      await new CreateCommand(db, "articles", { title }).execute();
+    }
+  });
+
+  afterAll(async () => {
+    await db.disconnect();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("creates drafts that only draft reads see", async () => {
+    expect(await read("articles")).toEqual([]);
+    expect(titles(await read("articles", "draft"))).toEqual(["a", "b", "c"]);
+    expect(await read("articles", "all")).toHaveLength(3);
+  });
+
+  it("publishes and unpublishes records", async () => {
+    await new PublishCommand(db, "articles", {
+      title: { in: ["a", "b"] },
+    }).execute();
+    expect(titles(await read("articles"))).toEqual(["a", "b"]);
+    expect(titles(await read("articles", "draft"))).toEqual(["c"]);
+
+    await new UnpublishCommand(db, "articles", { title: "a" }).execute();
+    expect(titles(await read("articles"))).toEqual(["b"]);
+  });
+
+  it("counts published records only in aggregates", async () => {
+    await new PublishCommand(db, "articles", { title: "a" }).execute();
+    const [row] = await new AggregateCommand(db, "articles", {
+      metrics: [{ fn: "count", as: "total" }],
+    }).execute();
+    expect(Number(row.total)).toBe(1);
+  });
+
+  it("publishes and unpublishes on schedule", async () => {
+    const now = new Date();
+    const later = new Date(now.getTime() + HOUR_MS);
+    await new PublishCommand(db, "articles", { title: "a" }, later).execute();
+    await new PublishCommand(db, "articles", { title: "b" }).execute();
+    await new UnpublishCommand(db, "articles", { title: "b" }, later).execute();
+
+    expect(titles(await read("articles"))).toEqual(["b"]);
+    expect(await publishDueContent(db, now)).toEqual({
+      articles: { published: 0, unpublished: 0 },
+    });
+
+    const due = new Date(later.getTime() + 1000);
+    expect(await publishDueContent(db, due)).toEqual({
+      articles: { published: 1, unpublished: 1 },
+    });
+    const [article] = await read("articles");
+    expect(article).toMatchObject({ title: "a", publish_at: null });
+  });
+
+  it("shows readers the published revisions of live records only", async () => {
+    const revision = (n: number, published: boolean): Revision => ({
+      collection_name: "articles",
+      record_id: "1",
+      revision: n,
+      action: "update",
+      snapshot: {
+        id: 1,
+        title: `v${n}`,
+        published_at: published ? new Date() : null,
+      },
+      diff: {},
+      author: null,
+    });
+    const numbers = async (collection: string, revisions: Revision[]) =>
+      (await publishedRevisions(db, collection, revisions)).map(
+        (r) => r.revision
+      );
+
+    const live = [revision(3, true), revision(2, false), revision(1, true)];
+    expect(await numbers("articles", live)).toEqual([3, 1]);
+    // Drafts, and records unpublished since, have no history for readers
+    const unpublished = [revision(2, false), revision(1, true)];
+    expect(await numbers("articles", unpublished)).toEqual([]);
+    expect(await numbers("notes", unpublished)).toEqual([2, 1]);
+  });
+
+  it("keeps edits of live content to roles that may publish", async () => {
+    await new PublishCommand(db, "articles", { title: "a" }).execute();
+    const edit = (
+      collection: string,
+      filter: Record<string, any> | null,
+      write: Record<string, any>,
+      canPublish = false
+    ) =>
+      assertDraftEdit(db, collection, filter, [write], async () => canPublish);
+
+    await edit("articles", { title: "b" }, { title: "b2" });
+    await expectAppError(
+      edit("articles", { title: "a" }, { title: "a2" }),
+      ErrorType.FORBIDDEN
+    );
+    await expectAppError(
+      edit("articles", null, { title: "d", published_at: new Date() }),
+      ErrorType.FORBIDDEN
+    );
+    await edit("articles", { title: "a" }, { title: "a2" }, true);
+    await edit("notes", {}, { published_at: new Date() });
+  });
+
+  it("rejects publication on collections that are not publishable", async () => {
+    await expectAppError(
+      new PublishCommand(db, "notes", { title: "a" }).execute(),
+      ErrorType.VALIDATION_FAILED
+    );
+    await expectAppError(read("notes", "draft"), ErrorType.VALIDATION_FAILED);
+    expect(await read("notes")).toEqual([]);
+  });
+});
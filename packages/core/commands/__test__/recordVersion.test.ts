@@ -0,0 +1,169 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import { SqliteStrategy } from "../../database/strategies/sqlite/SqliteStrategy";
+import { MockDatabaseStrategy } from "../../database/strategies/mock/MockDatabaseStrategy";
+import { CollectionSchemaCreateCommand } from "../collection_schemas/CollectionSchemaCommands";
+import { CreateCommand } from "../CreateCommand";
+import { UpdateCommand } from "../UpdateCommand";
+import { DeleteCommand } from "../DeleteCommand";
+import { UpsertCommand } from "../UpsertCommand";
+import { BulkCommand } from "../BulkCommand";
+import { parseIfMatch, recordETag } from "../recordVersion";
+import { AppError } from "../../errors/AppError";
+
+const fields = [
+  { name: "slug", type: "string", required: true, unique: true },
+  { name: "title", type: "string" },
+];
+
+const errorOf = (promise: Promise<unknown>) => promise.catch((err) => err);
+
+describe("record versions on SQLite", () => {
+  let tmpDir: string;
+  let db: SqliteStrategy;
+
+  const versionOf = async (slug: string) =>
+    (await db.read("pages", { slug }))[0].version;
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "versions-"));
+    db = new SqliteStrategy({ filepath: path.join(tmpDir, "versions.db") });
+    await db.ready;
+    await db.executeRaw(
+      `CREATE TABLE collection_schemas (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection_name TEXT NOT NULL UNIQUE,
+        fields TEXT NOT NULL
+      )`
+    );
+    await db.executeRaw(
+      `CREATE TABLE collection_schema_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection_name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        base_version INTEGER,
+        status TEXT NOT NULL,
+        fields TEXT NOT NULL,
+        migration TEXT NOT NULL,
+        created_at TEXT
+      )`
+    );
+    await new CollectionSchemaCreateCommand(
+      { collection_name: "pages", fields },
+      db
+    ).execute();
+  });
+
+  beforeEach(async () => {
+    await db.deleteMany("pages", {});
+    await new CreateCommand(db, "pages", { slug: "home" }).execute();
+  });
+
+  afterAll(async () => {
+    await db.disconnect();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("starts records at version 1 and bumps it on every update", async () => {
+    expect(await versionOf("home")).toBe(1);
+
+    const result = await new UpdateCommand(
+      db,
+      "pages",
+      { slug: "home" },
+      { title: "Home" },
+      1
+    ).execute();
+    expect(result.records[0]).toMatchObject({ title: "Home", version: 2 });
+    expect(recordETag(result.records[0])).toBe('"2"');
+
+    await new UpdateCommand(
+      db,
+      "pages",
+      { slug: "home" },
+      { title: "Start" }
+    ).execute();
+    expect(await versionOf("home")).toBe(3);
+  });
+
+  it("rejects a stale update with the current version", async () => {
+    const edit = (title: string) =>
+      new UpdateCommand(db, "pages", { slug: "home" }, { title }, 1).execute();
+    await edit("first");
+    const error = await errorOf(edit("second"));
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toMatchObject({
+      statusCode: 409,
+      details: { expected: 1, current: 2 },
+    });
+    expect((await db.read("pages", { slug: "home" }))[0].title).toBe("first");
+  });
+
+  it("checks the version on delete", async () => {
+    const stale = await errorOf(
+      new DeleteCommand(db, "pages", { slug: "home" }, undefined, 5).execute()
+    );
+    expect(stale).toMatchObject({ statusCode: 409 });
+
+    await new DeleteCommand(
+      db,
+      "pages",
+      { slug: "home" },
+      undefined,
+      1
+    ).execute();
+    expect(await db.count("pages")).toBe(0);
+  });
+
+  it("bumps versions on upserts and bulk updates", async () => {
+    await new UpsertCommand(db, "pages", ["slug"], {
+      slug: "home",
+      title: "Again",
+    }).execute();
+    await new UpsertCommand(db, "pages", ["slug"], { slug: "about" }).execute();
+    expect(await versionOf("home")).toBe(2);
+    expect(await versionOf("about")).toBe(1);
+
+    const result = await new BulkCommand(db, "pages", {
+      action: "update",
+      filter: { slug: { in: ["home", "about"] } },
+      data: { title: "Bulk" },
+    }).execute();
+    expect(result.affected).toBe(2);
+    expect(await versionOf("home")).toBe(3);
+    expect(await versionOf("about")).toBe(2);
+  });
+});
+
+describe("record versions on schemaless engines", () => {
+  it("treats records written before versioning as version 1", async () => {
+    const db = new MockDatabaseStrategy();
+    await new CollectionSchemaCreateCommand(
+      { collection_name: "notes", fields },
+      db
+    ).execute();
+    await db.create("notes", { slug: "legacy" });
+
+    await new UpdateCommand(
+      db,
+      "notes",
+      { slug: "legacy" },
+      { title: "Now versioned" },
+      1
+    ).execute();
+    expect((await db.read("notes", { slug: "legacy" }))[0].version).toBe(2);
+  });
+});
+
+describe("parseIfMatch", () => {
+  it("reads record ETags and rejects anything else", () => {
+    expect(parseIfMatch('"3"')).toBe(3);
+    expect(parseIfMatch('W/"12"')).toBe(12);
+    expect(parseIfMatch(undefined)).toBeUndefined();
+    expect(parseIfMatch("*")).toBeUndefined();
+    expect(() => parseIfMatch("abc")).toThrow(AppError);
+  });
+});
@@ -0,0 +1,298 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { SqliteStrategy } from "../../database/strategies/sqlite/SqliteStrategy";
+import { MockDatabaseStrategy } from "../../database/strategies/mock/MockDatabaseStrategy";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+import type { User } from "../../types/User";
+import { CollectionSchemaCreateCommand } from "../collection_schemas/CollectionSchemaCommands";
+import {
+  CollectionPermissionCreateCommand,
+  CollectionPermissionUpdateCommand,
+} from "../collection_permissions/CollectionPermissionCommands";
+import { RoleCreateCommand } from "../roles/RoleCommands";
+import { rowPolicyFor } from "../rowPermissions";
+import { CreateCommand } from "../CreateCommand";
+import { ReadCommand } from "../ReadCommand";
+import { UpdateCommand } from "../UpdateCommand";
+import { DeleteCommand } from "../DeleteCommand";
+import { RestoreCommand } from "../RestoreCommand";
+import { AppError, ErrorType } from "../../errors/AppError";
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+const alice: User = { id: "1", role: "author" };
+const bob: User = { id: "2", role: "author" };
+const reader: User = { id: "3", role: "viewer" };
+const chief: User = { id: "4", role: "editor" };
+
+/** Same scenarios on SQL storage and on a schemaless engine */
+function describeRowPermissions(
+  name: string,
+  setup: () => Promise<{ db: IDatabaseStrategy; close?: () => Promise<void> }>
+) {
+  describe(`row permissions on ${name}`, () => {
+    let db: IDatabaseStrategy;
+    let close: (() => Promise<void>) | undefined;
+
+    const permit = (data: Record<string, any>) =>
+      new CollectionPermissionCreateCommand(
+        "collection_permissions",
+        { collection_name: "articles", allowed_roles: ["editor"], ...data },
+        db
+      ).execute();
+
+    const titles = async (user: User) => {
+      const records = await new ReadCommand(
+        db,
+        "articles",
+        {},
+        { sort: { field: "title" } },
+        undefined,
+        undefined,
+        rowPolicyFor(db, user)
+      ).execute();
+      return records.map((r: any) => r.title);
+    };
+
+    beforeAll(async () => {
+      ({ db, close } = await setup());
+      await new CollectionSchemaCreateCommand(
+        {
+          collection_name: "articles",
+          fields: [
+            { name: "title", type: "string", required: true },
+            { name: "author_id", type: "string", required: true },
+            { name: "status", type: "string" },
+          ],
+        },
+        db
+      ).execute();
+      for (const role of [
+        { name: "admin" },
+        { name: "viewer" },
+        { name: "author", parents: ["viewer"] },
+        { name: "editor", parents: ["author"] },
+      ]) {
+        await new RoleCreateCommand(role, db).execute();
+      }
+
+      const own = { author_id: "$user.id" };
+      await permit({
+        operation: "read",
+        conditions: { viewer: { status: "published" }, author: own },
+      });
+      await permit({ operation: "create", conditions: { author: own } });
+      await permit({ operation: "update", conditions: { author: own } });
+      await permit({
+        operation: "delete",
+        conditions: { author: { ...own, status: { in: ["draft"] } } },
+      });
+
+      for (const [title, author_id, status] of [
+        ["a-published", "2", "published"],
+        ["b-draft", "1", "draft"],
+        ["c-draft", "2", "draft"],
+      ]) {
+        await db.create("articles", { title, author_id, status });
+      }
+    });
+
+    afterAll(async () => {
+      await close?.();
+    });
+
+    it("merges read conditions into the filter", async () => {
+      expect(await titles(reader)).toEqual(["a-published"]);
+      // Both the viewer's and the author's condition apply
+      expect(await titles(alice)).toEqual(["a-published", "b-draft"]);
+      // Granted without a condition, so nothing is filtered
+      expect(await titles(chief)).toEqual([
+        "a-published",
+        "b-draft",
+        "c-draft",
+      ]);
+    });
+
+    it("limits updates and deletes to matching records", async () => {
+      const update = (user: User, title: string) =>
+        new UpdateCommand(
+          db,
+          "articles",
+          { title },
+          { status: "review" },
+          undefined,
+          undefined,
+          rowPolicyFor(db, user)
+        ).execute();
+
+      await update(alice, "c-draft");
+      await update(alice, "b-draft");
+      const statuses = await db.read(
+        "articles",
+        {},
+        { sort: { field: "title" } }
+      );
+      expect(statuses.map((r: any) => r.status)).toEqual([
+        "published",
+        "review",
+        "draft",
+      ]);
+
+      await new DeleteCommand(
+        db,
+        "articles",
+        { title: { in: ["b-draft", "c-draft"] } },
+        undefined,
+        undefined,
+        rowPolicyFor(db, bob)
+      ).execute();
+      expect(await titles(chief)).toEqual(["a-published", "b-draft"]);
+    });
+
+    it("keeps updates from moving records out of the condition", async () => {
+      const update = (data: Record<string, any>) =>
+        new UpdateCommand(
+          db,
+          "articles",
+          { title: "b-draft" },
+          data,
+          undefined,
+          undefined,
+          rowPolicyFor(db, alice)
+        ).execute();
+
+      await expectAppError(update({ author_id: "2" }), ErrorType.FORBIDDEN);
+      await update({ author_id: "1", status: "draft" });
+      const [record] = await db.read("articles", { title: "b-draft" });
+      expect(record).toMatchObject({ author_id: "1", status: "draft" });
+    });
+
+    it("checks new records against the create condition", async () => {
+      const create = (user: User, author_id: string) =>
+        new CreateCommand(
+          db,
+          "articles",
+          { title: `by-${author_id}`, author_id },
+          undefined,
+          rowPolicyFor(db, user)
+        ).execute();
+
+      await expectAppError(create(alice, "2"), ErrorType.FORBIDDEN);
+      await create(alice, "1");
+      await create(chief, "2");
+    });
+
+    it("limits restores to matching records", async () => {
+      await new CollectionSchemaCreateCommand(
+        {
+          collection_name: "notes",
+          soft_delete: true,
+          fields: [
+            { name: "title", type: "string", required: true },
+            { name: "author_id", type: "string", required: true },
+          ],
+        },
+        db
+      ).execute();
+      await permit({
+        collection_name: "notes",
+        operation: "restore",
+        conditions: { author: { author_id: "$user.id" } },
+      });
+      await db.create("notes", { title: "mine", author_id: "1" });
+      await db.create("notes", { title: "theirs", author_id: "2" });
+      await new DeleteCommand(db, "notes", {
+        author_id: { in: ["1", "2"] },
+      }).execute();
+
+      await new RestoreCommand(
+        db,
+        "notes",
+        { title: { in: ["mine", "theirs"] } },
+        rowPolicyFor(db, alice)
+      ).execute();
+      const live = await new ReadCommand(db, "notes", {}).execute();
+      expect(live.map((r: any) => r.title)).toEqual(["mine"]);
+    });
+
+    it("validates conditions when they are stored", async () => {
+      await expectAppError(
+        new CollectionPermissionUpdateCommand(
+          "collection_permissions",
+          {
+            collection_name: "articles",
+            operation: "update",
+            conditions: { author: { author_id: "$user.token" } },
+          },
+          db
+        ).execute(),
+        ErrorType.VALIDATION_FAILED
+      );
+    });
+  });
+}
+
+let tmpDir: string;
+
+describeRowPermissions("SQLite", async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "row-permissions-"));
+  const db = new SqliteStrategy({ filepath: path.join(tmpDir, "rows.db") });
+  await db.ready;
+  await db.executeRaw(
+    `CREATE TABLE collection_schemas (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection_name TEXT NOT NULL UNIQUE,
+      fields TEXT NOT NULL,
+      soft_delete INTEGER NOT NULL DEFAULT 0
+    )`
+  );
+  await db.executeRaw(
+    `CREATE TABLE collection_schema_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection_name TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      base_version INTEGER,
+      status TEXT NOT NULL,
+      fields TEXT NOT NULL,
+      migration TEXT NOT NULL,
+      created_at TEXT
+    )`
+  );
+  await db.executeRaw(
+    `CREATE TABLE collection_permissions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection_name TEXT NOT NULL,
+      operation TEXT NOT NULL,
+      allowed_roles TEXT NOT NULL,
+      field_roles TEXT,
+      conditions TEXT
+    )`
+  );
+  await db.executeRaw(
+    `CREATE TABLE roles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT,
+      parents TEXT NOT NULL,
+      permissions TEXT NOT NULL,
+      created_at TEXT
+    )`
+  );
+  return {
+    db,
+    close: async () => {
+      await db.disconnect();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    },
+  };
+});
+
+describeRowPermissions("mock", async () => ({
+  db: new MockDatabaseStrategy(),
+}));
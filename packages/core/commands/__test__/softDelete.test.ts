@@ -0,0 +1,156 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import { SqliteStrategy } from "../../database/strategies/sqlite/SqliteStrategy";
+import { CollectionSchemaCreateCommand } from "../collection_schemas/CollectionSchemaCommands";
+import { ReadCommand } from "../ReadCommand";
+import { DeleteCommand } from "../DeleteCommand";
+import { BulkCommand } from "../BulkCommand";
+import { UpdateCommand } from "../UpdateCommand";
+import { RestoreCommand } from "../RestoreCommand";
+import { PurgeCommand } from "../PurgeCommand";
+import { purgeExpiredTrash } from "../purgeExpiredTrash";
+import { AppError, ErrorType } from "../../errors/AppError";
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+const titles = (records: any[]) => records.map((r) => r.title).sort();
+
+describe("soft delete", () => {
+  let tmpDir: string;
+  let db: SqliteStrategy;
+
+  const read = (collection: string, trash?: "include" | "only") =>
+    new ReadCommand(db, collection, {}, { trash }).execute();
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "soft-delete-"));
+    db = new SqliteStrategy({ filepath: path.join(tmpDir, "trash.db") });
+    await db.ready;
+    await db.executeRaw(
+      `CREATE TABLE collection_schemas (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection_name TEXT NOT NULL UNIQUE,
+        fields TEXT NOT NULL,
+        soft_delete INTEGER NOT NULL DEFAULT 0
+      )`
+    );
+    await db.executeRaw(
+      `CREATE TABLE collection_schema_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection_name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        base_version INTEGER,
+        status TEXT NOT NULL,
+        fields TEXT NOT NULL,
+        migration TEXT NOT NULL,
+        created_at TEXT
+      )`
+    );
+    await db.executeRaw(
+      `CREATE TABLE record_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection_name TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        action TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        diff TEXT NOT NULL,
+        author TEXT,
+        created_at TEXT
+      )`
+    );
+    const fields = [{ name: "title", type: "string", required: true }];
+    await new CollectionSchemaCreateCommand(
+      { collection_name: "posts", fields, soft_delete: true },
+      db
+    ).execute();
+    await new CollectionSchemaCreateCommand(
+      { collection_name: "notes", fields },
+      db
+    ).execute();
+  });
+
+  beforeEach(async () => {
+    await db.deleteMany("posts", {});
+    await db.createMany("posts", [
+      { title: "a" },
+      { title: "b" },
+      { title: "c" },
+    ]);
+  });
+
+  afterAll(async () => {
+    await db.disconnect();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("moves deleted records to the trash and hides them from reads", async () => {
+    await new DeleteCommand(db, "posts", { title: "a" }, "7").execute();
+
+    expect(titles(await read("posts"))).toEqual(["b", "c"]);
+    const [trashed] = await read("posts", "only");
+    expect(trashed).toMatchObject({ title: "a", deleted_by: "7" });
+    expect(trashed.deleted_at).toBeTruthy();
+    expect(await read("posts", "include")).toHaveLength(3);
+  });
+
+  it("soft-deletes in bulk and leaves trashed records out of updates", async () => {
+    await new BulkCommand(
+      db,
+      "posts",
+      { action: "delete", filter: { title: { in: ["a", "b"] } } },
+      "7"
+    ).execute();
+    await new UpdateCommand(db, "posts", {}, { title: "x" }).execute();
+
+    expect(titles(await read("posts"))).toEqual(["x"]);
+    expect(titles(await read("posts", "only"))).toEqual(["a", "b"]);
+  });
+
+  it("restores trashed records", async () => {
+    await new DeleteCommand(db, "posts", { title: "a" }).execute();
+    const result = await new RestoreCommand(db, "posts", {
+      title: "a",
+    }).execute();
+
+    expect(result.affected).toBe(1);
+    expect(titles(await read("posts"))).toEqual(["a", "b", "c"]);
+    expect(await read("posts", "only")).toEqual([]);
+  });
+
+  it("purges only trashed records, optionally by age", async () => {
+    await new DeleteCommand(db, "posts", {
+      title: { in: ["a", "b"] },
+    }).execute();
+    await db.update("posts", { title: "a" }, { deleted_at: "2020-01-01" });
+
+    const expired = await purgeExpiredTrash(
+      db,
+      30,
+      new Date("2020-03-01T00:00:00Z")
+    );
+    expect(expired).toEqual({ posts: 1 });
+
+    const purged = await new PurgeCommand(db, "posts").execute();
+    expect(purged.affected).toBe(1);
+    expect(titles(await read("posts", "include"))).toEqual(["c"]);
+  });
+
+  it("rejects trash operations on collections without soft delete", async () => {
+    await expectAppError(read("notes", "only"), ErrorType.VALIDATION_FAILED);
+    await expectAppError(
+      new RestoreCommand(db, "notes", {}).execute(),
+      ErrorType.VALIDATION_FAILED
+    );
+    await expectAppError(
+      new PurgeCommand(db, "notes").execute(),
+      ErrorType.VALIDATION_FAILED
+    );
+  });
+});
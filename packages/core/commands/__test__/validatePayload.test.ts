@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MockDatabaseStrategy } from "../../database/strategies/mock/MockDatabaseStrategy";
+import { CreateCommand } from "../CreateCommand";
+import { UpdateCommand } from "../UpdateCommand";
+import { CollectionSchemaCreateCommand } from "../collection_schemas/CollectionSchemaCommands";
+import { compileCollectionSchema } from "../../schemas/compileCollectionSchema";
+import { AppError, ErrorType } from "../../errors/AppError";
+import type { CollectionDefinition } from "../../database/types/CollectionSchema";
+
+const products: CollectionDefinition = {
+  collection_name: "products",
+  fields: [
+    { name: "title", type: "string", required: true },
+    { name: "price", type: "number", required: true },
+    { name: "stock", type: "integer", required: true, default: 0 },
+    { name: "status", type: "enum", values: ["draft", "live"] },
+    { name: "contact", type: "email" },
+    { name: "homepage", type: "url" },
+    { name: "released", type: "date" },
+    { name: "featured", type: "boolean" },
+    { name: "meta", type: "json" },
+    { name: "category", type: "relation", collection: "categories" },
+  ],
+};
+
+const validationIssues = async (promise: Promise<unknown>) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(ErrorType.VALIDATION_FAILED);
+  return error.details.issues.map((issue: any) => issue.field).sort();
+};
+
+describe("compileCollectionSchema", () => {
+  const validator = compileCollectionSchema(products);
+
+  it("accepts a payload matching every field type", () => {
+    const result = validator.safeParse({
+      title: "Lamp",
+      price: 19.5,
+      status: "live",
+      contact: "sales@example.com",
+      homepage: "https://example.com",
+      released: "2024-05-01",
+      featured: true,
+      meta: { color: "red" },
+      category: 3,
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("allows omitted fields only when optional or defaulted", () => {
+    expect(validator.safeParse({ title: "Lamp", price: 1 }).success).toBe(true);
+    expect(validator.safeParse({ title: "Lamp" }).success).toBe(false);
+    expect(
+      validator.safeParse({ title: "Lamp", price: 1, stock: null }).success
+    ).toBe(false);
+  });
+});
+
+describe("schema-driven command validation", () => {
+  let db: MockDatabaseStrategy;
+
+  beforeEach(async () => {
+    db = new MockDatabaseStrategy();
+    await new CollectionSchemaCreateCommand(products, db).execute();
+  });
+
+  it("rejects creates with field-level issues", async () => {
+    const fields = await validationIssues(
+      new CreateCommand(db, "products", {
+        title: "Lamp",
+        price: "cheap",
+        status: "archived",
+        contact: "not-an-email",
+        colour: "red",
+      }).execute()
+    );
+    expect(fields).toEqual(["colour", "contact", "price", "status"]);
+    expect(await db.count("products")).toBe(0);
+  });
+
+  it("validates only the fields an update sends", async () => {
+    await new CreateCommand(db, "products", {
+      title: "Lamp",
+      price: 5,
+    }).execute();
+
+    await new UpdateCommand(
+      db,
+      "products",
+      { title: "Lamp" },
+      { price: 6 }
+    ).execute();
+    const fields = await validationIssues(
+      new UpdateCommand(
+        db,
+        "products",
+        { title: "Lamp" },
+        { title: null }
+      ).execute()
+    );
+    expect(fields).toEqual(["title"]);
+  });
+
+  it("leaves collections without a definition unchecked", async () => {
+    const record = await new CreateCommand(db, "notes", {
+      anything: 1,
+    }).execute();
+    expect(record.anything).toBe(1);
+  });
+});
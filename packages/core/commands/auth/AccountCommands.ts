@@ -0,0 +1,177 @@
+// packages/core/commands/auth/AccountCommands.ts
+
+import { ICommand } from "../ICommand";
+import { AppError } from "../../errors/AppError";
+import { logger } from "../../src/telemetry/logger";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+import type { IMailer } from "../../mail/IMailer";
+import { hashPasswordField } from "../hashPassword";
+import { consumeAccountToken, issueAccountToken } from "./accountTokens";
+
+/** Column set once a user proves they own their email address */
+export const EMAIL_VERIFIED_AT = "email_verified_at";
+
+export interface AccountMailOptions {
+  /** Base URL of the page the emailed link opens, e.g. the admin UI */
+  appUrl: string;
+  /** How long the emailed token stays valid */
+  ttlMs: number;
+}
+
+const linkTo = (appUrl: string, page: string, token: string) =>
+  `${appUrl.replace(/\/+$/, "")}/${page}?token=${encodeURIComponent(token)}`;
+
+const escapeHtml = (value: string) =>
+  value.replace(
+    /[&<>"]/g,
+    (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!
+  );
+
+async function findUser(
+  db: Pick<IDatabaseStrategy, "read">,
+  userId: unknown
+): Promise<any> {
+  const [user] = await db.read("users", { id: userId as any });
+  if (!user) throw AppError.notFound(`User '${userId}' does not exist`);
+  return user;
+}
+
+/**
+ * Emails a password reset link when the address belongs to a user. Unknown
+ * addresses succeed silently, so the endpoint cannot be used to probe them.
+ */
+export class PasswordResetRequestCommand implements ICommand<void> {
+  constructor(
+    private db: IDatabaseStrategy,
+    private mailer: IMailer,
+    private email: string,
+    private options: AccountMailOptions
+  ) {}
+
+  async execute(): Promise<void> {
+    const [user] = await this.db.read("users", { email: this.email });
+    if (!user) {
+      logger.debug(`🔑 Password reset requested for an unknown address`);
+      return;
+    }
+
+    const { token } = await issueAccountToken(
+      this.db,
+      user.id,
+      "password_reset",
+      this.options.ttlMs
+    );
+    const link = linkTo(this.options.appUrl, "reset-password", token);
+    const minutes = Math.round(this.options.ttlMs / 60_000);
+    await this.mailer.send({
+      to: user.email,
+      subject: "Reset your password",
+      text: `Someone asked to reset the password of ${user.username}.\n\nOpen this link within ${minutes} minutes to choose a new one:\n${link}\n\nIf it was not you, ignore this message.`,
+      html: `<p>Someone asked to reset the password of ${escapeHtml(user.username)}.</p><p><a href="${escapeHtml(link)}">Choose a new password</a> within ${minutes} minutes.</p><p>If it was not you, ignore this message.</p>`,
+    });
+    logger.info({ userId: user.id }, `🔑 Password reset link sent`);
+  }
+}
+
+/**
+ * Sets a new password with a reset token and signs the user out of other
+ * sessions. The token proves the address, so it counts as verified too.
+ */
+export class PasswordResetCommand implements ICommand<{ id: unknown }> {
+  constructor(
+    private db: IDatabaseStrategy,
+    private token: string,
+    private password: string
+  ) {}
+
+  async execute(): Promise<{ id: unknown }> {
+    const userId = await consumeAccountToken(
+      this.db,
+      this.token,
+      "password_reset"
+    );
+    const user = await findUser(this.db, userId);
+
+    const { password } = await hashPasswordField("users", {
+      password: this.password,
+    });
+    await this.db.update(
+      "users",
+      { id: user.id },
+      {
+        password,
+        refresh_token: null,
+        ...(user[EMAIL_VERIFIED_AT] == null && {
+          [EMAIL_VERIFIED_AT]: new Date(),
+        }),
+      }
+    );
+    logger.info({ userId: user.id }, `🔑 Password reset`);
+    return { id: user.id };
+  }
+}
+
+/** Emails a verification link to a user whose address is not verified */
+export class EmailVerificationRequestCommand implements ICommand<void> {
+  constructor(
+    private db: IDatabaseStrategy,
+    private mailer: IMailer,
+    private userId: unknown,
+    private options: AccountMailOptions
+  ) {}
+
+  async execute(): Promise<void> {
+    const user = await findUser(this.db, this.userId);
+    if (user[EMAIL_VERIFIED_AT] != null) {
+      throw AppError.conflict("Email address is already verified");
+    }
+    if (!user.email) {
+      throw AppError.validationError("User has no email address");
+    }
+
+    const { token } = await issueAccountToken(
+      this.db,
+      user.id,
+      "email_verification",
+      this.options.ttlMs
+    );
+    const link = linkTo(this.options.appUrl, "verify-email", token);
+    await this.mailer.send({
+      to: user.email,
+      subject: "Confirm your email address",
+      text: `Confirm that ${user.email} belongs to ${user.username}:\n${link}`,
+      html: `<p>Confirm that ${escapeHtml(user.email)} belongs to ${escapeHtml(user.username)}.</p><p><a href="${escapeHtml(link)}">Confirm email address</a></p>`,
+    });
+    logger.info({ userId: user.id }, `📧 Verification link sent`);
+  }
+}
+
+/** Marks the address of the token's user verified */
+export class EmailVerifyCommand
+  implements ICommand<{ id: unknown; email_verified_at: Date }>
+{
+  constructor(
+    private db: IDatabaseStrategy,
+    private token: string
+  ) {}
+
+  async execute(): Promise<{ id: unknown; email_verified_at: Date }> {
+    const userId = await consumeAccountToken(
+      this.db,
+      this.token,
+      "email_verification"
+    );
+    const user = await findUser(this.db, userId);
+
+    const verifiedAt = user[EMAIL_VERIFIED_AT] ?? new Date();
+    if (user[EMAIL_VERIFIED_AT] == null) {
+      await this.db.update(
+        "users",
+        { id: user.id },
+        { [EMAIL_VERIFIED_AT]: verifiedAt }
+      );
+    }
+    logger.info({ userId: user.id }, `✅ Email address verified`);
+    return { id: user.id, email_verified_at: verifiedAt };
+  }
+}
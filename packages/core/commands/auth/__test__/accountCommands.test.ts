@@ -0,0 +1,145 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import bcrypt from "bcryptjs";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { MockDatabaseStrategy } from "../../../database/strategies/mock/MockDatabaseStrategy";
+import { FileMailer } from "../../../mail/FileMailer";
+import {
+  EMAIL_VERIFIED_AT,
+  EmailVerificationRequestCommand,
+  EmailVerifyCommand,
+  PasswordResetCommand,
+  PasswordResetRequestCommand,
+} from "../AccountCommands";
+import {
+  ACCOUNT_TOKENS,
+  consumeAccountToken,
+  issueAccountToken,
+} from "../accountTokens";
+import { AppError, ErrorType } from "../../../errors/AppError";
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+const options = { appUrl: "https://cms.example.com/", ttlMs: 60_000 };
+
+describe("account recovery", () => {
+  let db: MockDatabaseStrategy;
+  let mailDir: string;
+  let mailer: FileMailer;
+  let user: any;
+
+  /** Token of the link in the newest mail written */
+  const lastToken = () => {
+    const [latest] = fs.readdirSync(mailDir).sort().reverse();
+    const mail = JSON.parse(
+      fs.readFileSync(path.join(mailDir, latest), "utf8")
+    );
+    return new URL(/https:\S+/.exec(mail.text)![0]).searchParams.get("token")!;
+  };
+
+  beforeEach(async () => {
+    db = new MockDatabaseStrategy();
+    mailDir = fs.mkdtempSync(path.join(os.tmpdir(), "mail-"));
+    mailer = new FileMailer({ from: "cms@example.com", directory: mailDir });
+    user = await db.create("users", {
+      username: "reader01",
+      email: "reader@example.com",
+      password: await bcrypt.hash("old-secret", 4),
+      role: "viewer",
+      refresh_token: "refresh",
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(mailDir, { recursive: true, force: true });
+  });
+
+  it("resets a password with the emailed single-use token", async () => {
+    await new PasswordResetRequestCommand(
+      db,
+      mailer,
+      "reader@example.com",
+      options
+    ).execute();
+    const token = lastToken();
+    const [stored] = await db.read(ACCOUNT_TOKENS, {});
+    expect(stored.token_hash).not.toBe(token);
+
+    await new PasswordResetCommand(db, token, "new-secret").execute();
+    const [updated] = await db.read("users", { id: user.id });
+    expect(await bcrypt.compare("new-secret", updated.password)).toBe(true);
+    expect(updated.refresh_token).toBeNull();
+    expect(updated[EMAIL_VERIFIED_AT]).toBeInstanceOf(Date);
+
+    await expectAppError(
+      new PasswordResetCommand(db, token, "again-secret").execute(),
+      ErrorType.BAD_REQUEST
+    );
+  });
+
+  it("sends nothing for unknown addresses", async () => {
+    await new PasswordResetRequestCommand(
+      db,
+      mailer,
+      "nobody@example.com",
+      options
+    ).execute();
+    expect(fs.readdirSync(mailDir)).toEqual([]);
+  });
+
+  it("rejects expired tokens and those replaced by a newer one", async () => {
+    const now = new Date();
+    const { token: first } = await issueAccountToken(
+      db,
+      user.id,
+      "password_reset",
+      1_000,
+      now
+    );
+    const { token: second } = await issueAccountToken(
+      db,
+      user.id,
+      "password_reset",
+      1_000,
+      now
+    );
+    await expectAppError(
+      consumeAccountToken(db, first, "password_reset", now),
+      ErrorType.BAD_REQUEST
+    );
+    await expectAppError(
+      consumeAccountToken(
+        db,
+        second,
+        "password_reset",
+        new Date(now.getTime() + 1_000)
+      ),
+      ErrorType.BAD_REQUEST
+    );
+    // Tokens only serve the purpose they were issued for
+    await expectAppError(
+      consumeAccountToken(db, second, "email_verification", now),
+      ErrorType.BAD_REQUEST
+    );
+  });
+
+  it("verifies an email address once", async () => {
+    const request = () =>
+      new EmailVerificationRequestCommand(
+        db,
+        mailer,
+        user.id,
+        options
+      ).execute();
+
+    await request();
+    const verified = await new EmailVerifyCommand(db, lastToken()).execute();
+    expect(verified.email_verified_at).toBeInstanceOf(Date);
+    await expectAppError(request(), ErrorType.CONFLICT);
+  });
+});
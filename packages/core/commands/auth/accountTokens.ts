@@ -0,0 +1,74 @@
+// packages/core/commands/auth/accountTokens.ts
+
+import crypto from "node:crypto";
+import { AppError } from "../../errors/AppError";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+
+export const ACCOUNT_TOKENS = "account_tokens";
+
+export type AccountTokenPurpose = "password_reset" | "email_verification";
+
+/** Tokens are random, so a fast hash is enough to keep them out of storage */
+export const hashAccountToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const invalidToken = () => AppError.badRequest("Invalid or expired token");
+
+/**
+ * Issues a single-use token for `purpose`, closing any earlier one the
+ * user still holds for it. Only the hash is stored.
+ */
+export async function issueAccountToken(
+  db: Pick<IDatabaseStrategy, "create" | "updateMany">,
+  userId: unknown,
+  purpose: AccountTokenPurpose,
+  ttlMs: number,
+  now = new Date()
+): Promise<{ token: string; expiresAt: Date }> {
+  await db.updateMany(
+    ACCOUNT_TOKENS,
+    { user_id: userId as any, purpose, used_at: { isNull: true } },
+    { used_at: now }
+  );
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(now.getTime() + ttlMs);
+  await db.create(ACCOUNT_TOKENS, {
+    user_id: userId,
+    purpose,
+    token_hash: hashAccountToken(token),
+    expires_at: expiresAt,
+    used_at: null,
+    created_at: now,
+  });
+  return { token, expiresAt };
+}
+
+/**
+ * Marks a valid token used and returns the id of its user. Unknown,
+ * used and expired tokens are rejected alike.
+ */
+export async function consumeAccountToken(
+  db: Pick<IDatabaseStrategy, "read" | "updateMany">,
+  token: string,
+  purpose: AccountTokenPurpose,
+  now = new Date()
+): Promise<any> {
+  const [row] = await db.read(ACCOUNT_TOKENS, {
+    token_hash: hashAccountToken(token),
+    purpose,
+  });
+  if (!row || row.used_at != null) throw invalidToken();
+  if (new Date(row.expires_at).getTime() <= now.getTime()) {
+    throw invalidToken();
+  }
+
+  // Guarded on `used_at`, so of two concurrent uses only one succeeds
+  const { affected } = await db.updateMany(
+    ACCOUNT_TOKENS,
+    { id: row.id, used_at: { isNull: true } },
+    { used_at: now }
+  );
+  if (affected !== 1) throw invalidToken();
+  return row.user_id;
+}
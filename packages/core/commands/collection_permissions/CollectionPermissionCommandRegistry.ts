@@ -8,20 +8,25 @@ import {
 } from "./CollectionPermissionCommands";
 
 import type { ICommand } from "../ICommand";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
 
-type CommandFactoryFn = (collection: string, data: any) => ICommand;
+type CommandFactoryFn = (
+  collection: string,
+  data: any,
+  db?: IDatabaseStrategy
+) => ICommand;
 
 // Main registry with all operations
 export const collectionPermissionRegistry: Record<
   "create" | "update" | "delete" | "reset",
   CommandFactoryFn
 > = {
-  create: (collection, data) =>
-    new CollectionPermissionCreateCommand(collection, data),
-  update: (collection, data) =>
-    new CollectionPermissionUpdateCommand(collection, data),
-  delete: (collection, data) =>
-    new CollectionPermissionDeleteCommand(collection, data),
-  reset: (collection, data) =>
-    new CollectionPermissionResetCommand(collection, data),
+  create: (collection, data, db) =>
+    new CollectionPermissionCreateCommand(collection, data, db),
+  update: (collection, data, db) =>
+    new CollectionPermissionUpdateCommand(collection, data, db),
+  delete: (collection, data, db) =>
+    new CollectionPermissionDeleteCommand(collection, data, db),
+  reset: (collection, data, db) =>
+    new CollectionPermissionResetCommand(collection, data, db),
 };
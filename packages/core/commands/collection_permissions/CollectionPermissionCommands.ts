@@ -3,21 +3,76 @@
 import { ICommand } from "../ICommand";
 import { AppError } from "../../errors/AppError";
 import { DatabaseStrategyFactory } from "../../database/DatabaseStrategyFactory";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
 import { z } from "zod";
+import { FieldRoles, parseFieldRoles } from "../fieldPermissions";
+import {
+  CONDITIONAL_OPERATIONS,
+  RowConditions,
+  assertValidConditions,
+  parseRowConditions,
+} from "../rowPermissions";
+
+/** Per-field role lists; listed fields are restricted to those roles */
+const fieldRolesSchema = z.record(
+  z.string().min(1),
+  z.array(z.string().min(1)).min(1)
+);
+
+/** Adds the roles of `added` to those already allowed per field */
+const mergeFieldRoles = (current: FieldRoles, added: FieldRoles): FieldRoles =>
+  Object.fromEntries(
+    [...new Set([...Object.keys(current), ...Object.keys(added)])].map(
+      (field) => [
+        field,
+        [...new Set([...(current[field] ?? []), ...(added[field] ?? [])])],
+      ]
+    )
+  );
+
+/** Per-role record filters, e.g. `{ author: { author_id: "$user.id" } }` */
+const conditionsSchema = z.record(z.string().min(1), z.record(z.any()));
+
+/** Rejects conditions that are malformed or that `operation` cannot carry */
+function assertConditions(
+  operation: string,
+  conditions: RowConditions | null | undefined
+): void {
+  if (!conditions) return;
+  if (!CONDITIONAL_OPERATIONS.includes(operation as any)) {
+    throw AppError.validationError(
+      `'${operation}' permissions cannot carry row conditions`,
+      { operation }
+    );
+  }
+  assertValidConditions(conditions);
+}
 
 // ===================
 // CREATE PERMISSION
 // ===================
 const createSchema = z.object({
   collection_name: z.string().min(1),
-  operation: z.enum(["create", "read", "update", "delete"]),
+  operation: z.enum([
+    "create",
+    "read",
+    "update",
+    "delete",
+    "restore",
+    "purge",
+    "publish",
+    "unpublish",
+  ]),
   allowed_roles: z.array(z.string().min(1)).min(1),
+  field_roles: fieldRolesSchema.optional(),
+  conditions: conditionsSchema.optional(),
 });
 
 export class CollectionPermissionCreateCommand implements ICommand {
   constructor(
     private collection: string,
-    private data: Record<string, any>
+    private data: Record<string, any>,
+    private db?: IDatabaseStrategy
   ) {}
 
   async execute(): Promise<any> {
@@ -29,8 +84,15 @@ export class CollectionPermissionCreateCommand implements ICommand {
       );
     }
 
-    const { collection_name, operation, allowed_roles } = parsed.data;
-    const db = await DatabaseStrategyFactory.getRequiredStrategy();
+    const {
+      collection_name,
+      operation,
+      allowed_roles,
+      field_roles,
+      conditions,
+    } = parsed.data;
+    assertConditions(operation, conditions);
+    const db = this.db ?? DatabaseStrategyFactory.getRequiredStrategy();
 
     const existing = await db.read("collection_permissions", {
       collection_name,
@@ -44,16 +106,34 @@ export class CollectionPermissionCreateCommand implements ICommand {
       const mergedRoles = Array.from(
         new Set([...currentRoles, ...newRoles])
       ) as string[];
-
-      const isChanged = mergedRoles.length !== current.allowed_roles.length;
-
-      if (isChanged) {
+      const currentFields = parseFieldRoles(current.field_roles);
+      const mergedFields = mergeFieldRoles(currentFields, field_roles ?? {});
+      // A role's new condition replaces its old one
+      const currentConditions = parseRowConditions(current.conditions);
+      const mergedConditions = { ...currentConditions, ...conditions };
+
+      const rolesChanged = mergedRoles.length !== current.allowed_roles.length;
+      const fieldsChanged =
+        JSON.stringify(mergedFields) !== JSON.stringify(currentFields);
+      const conditionsChanged =
+        JSON.stringify(mergedConditions) !== JSON.stringify(currentConditions);
+
+      if (rolesChanged || fieldsChanged || conditionsChanged) {
         await db.update(
           "collection_permissions",
           { collection_name, operation },
-          { allowed_roles: JSON.stringify(mergedRoles) }
+          {
+            allowed_roles: JSON.stringify(mergedRoles),
+            field_roles: JSON.stringify(mergedFields),
+            conditions: JSON.stringify(mergedConditions),
+          }
         );
-        return { updated: true, merged_roles: mergedRoles };
+        return {
+          updated: true,
+          merged_roles: mergedRoles,
+          field_roles: mergedFields,
+          conditions: mergedConditions,
+        };
       } else {
         return { updated: false, message: "No role changes detected" };
       }
@@ -63,6 +143,8 @@ export class CollectionPermissionCreateCommand implements ICommand {
       collection_name,
       operation,
       allowed_roles: JSON.stringify(allowed_roles),
+      field_roles: field_roles ? JSON.stringify(field_roles) : null,
+      conditions: conditions ? JSON.stringify(conditions) : null,
     });
 
     return { inserted: result };
@@ -72,16 +154,38 @@ export class CollectionPermissionCreateCommand implements ICommand {
 // ===================
 // UPDATE PERMISSION
 // ===================
-const updateSchema = z.object({
-  collection_name: z.string().min(1),
-  operation: z.enum(["create", "read", "update", "delete"]),
-  allowed_roles: z.array(z.string().min(1)).min(1),
-});
+const updateSchema = z
+  .object({
+    collection_name: z.string().min(1),
+    operation: z.enum([
+      "create",
+      "read",
+      "update",
+      "delete",
+      "restore",
+      "purge",
+      "publish",
+      "unpublish",
+    ]),
+    allowed_roles: z.array(z.string().min(1)).min(1).optional(),
+    // `null` lifts every field restriction
+    field_roles: fieldRolesSchema.nullable().optional(),
+    // `null` lifts every row condition
+    conditions: conditionsSchema.nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      data.allowed_roles !== undefined ||
+      data.field_roles !== undefined ||
+      data.conditions !== undefined,
+    "One of 'allowed_roles', 'field_roles' or 'conditions' is required"
+  );
 
 export class CollectionPermissionUpdateCommand implements ICommand {
   constructor(
     private collection: string,
-    private data: Record<string, any>
+    private data: Record<string, any>,
+    private db?: IDatabaseStrategy
   ) {}
 
   async execute(): Promise<any> {
@@ -93,8 +197,15 @@ export class CollectionPermissionUpdateCommand implements ICommand {
       );
     }
 
-    const { collection_name, operation, allowed_roles } = parsed.data;
-    const db = await DatabaseStrategyFactory.getRequiredStrategy();
+    const {
+      collection_name,
+      operation,
+      allowed_roles,
+      field_roles,
+      conditions,
+    } = parsed.data;
+    assertConditions(operation, conditions);
+    const db = this.db ?? DatabaseStrategyFactory.getRequiredStrategy();
 
     const existing = await db.read("collection_permissions", {
       collection_name,
@@ -109,13 +220,21 @@ export class CollectionPermissionUpdateCommand implements ICommand {
 
     const current = existing[0];
     const currentRoles = new Set(current.allowed_roles);
-    const newRoles = new Set(allowed_roles);
+    const newRoles = new Set(allowed_roles ?? current.allowed_roles);
 
     const mergedRoles = Array.from(new Set([...newRoles])) as string[];
+    const currentFields = parseFieldRoles(current.field_roles);
+    const newFields =
+      field_roles === undefined ? currentFields : (field_roles ?? {});
+    const currentConditions = parseRowConditions(current.conditions);
+    const newConditions =
+      conditions === undefined ? currentConditions : (conditions ?? {});
 
     const isChanged =
       mergedRoles.length !== current.allowed_roles.length ||
-      !mergedRoles.every((r) => currentRoles.has(r));
+      !mergedRoles.every((r) => currentRoles.has(r)) ||
+      JSON.stringify(newFields) !== JSON.stringify(currentFields) ||
+      JSON.stringify(newConditions) !== JSON.stringify(currentConditions);
 
     if (!isChanged) {
       return { updated: false, message: "No role changes detected" };
@@ -124,7 +243,11 @@ export class CollectionPermissionUpdateCommand implements ICommand {
     await db.update(
       "collection_permissions",
       { collection_name, operation },
-      { allowed_roles: JSON.stringify(mergedRoles) }
+      {
+        allowed_roles: JSON.stringify(mergedRoles),
+        field_roles: JSON.stringify(newFields),
+        conditions: JSON.stringify(newConditions),
+      }
     );
 
     return {
@@ -132,6 +255,8 @@ export class CollectionPermissionUpdateCommand implements ICommand {
       collection_name,
       operation,
       allowed_roles: mergedRoles,
+      field_roles: newFields,
+      conditions: newConditions,
     };
   }
 }
@@ -141,13 +266,23 @@ export class CollectionPermissionUpdateCommand implements ICommand {
 // ===================
 const deleteSchema = z.object({
   collection_name: z.string().min(1),
-  operation: z.enum(["create", "read", "update", "delete"]),
+  operation: z.enum([
+    "create",
+    "read",
+    "update",
+    "delete",
+    "restore",
+    "purge",
+    "publish",
+    "unpublish",
+  ]),
 });
 
 export class CollectionPermissionDeleteCommand implements ICommand {
   constructor(
     private collection: string,
-    private data: Record<string, any>
+    private data: Record<string, any>,
+    private db?: IDatabaseStrategy
   ) {}
 
   async execute(): Promise<any> {
@@ -160,7 +295,7 @@ export class CollectionPermissionDeleteCommand implements ICommand {
     }
 
     const { collection_name, operation } = parsed.data;
-    const db = await DatabaseStrategyFactory.getRequiredStrategy();
+    const db = this.db ?? DatabaseStrategyFactory.getRequiredStrategy();
 
     const existing = await db.read("collection_permissions", {
       collection_name,
@@ -185,13 +320,23 @@ export class CollectionPermissionDeleteCommand implements ICommand {
 
 const resetSchema = z.object({
   collection_name: z.string().min(1),
-  operation: z.enum(["create", "read", "update", "reset"]),
+  operation: z.enum([
+    "create",
+    "read",
+    "update",
+    "reset",
+    "restore",
+    "purge",
+    "publish",
+    "unpublish",
+  ]),
 });
 
 export class CollectionPermissionResetCommand implements ICommand {
   constructor(
     private collection: string,
-    private data: Record<string, any>
+    private data: Record<string, any>,
+    private db?: IDatabaseStrategy
   ) {}
 
   async execute(): Promise<any> {
@@ -204,7 +349,7 @@ export class CollectionPermissionResetCommand implements ICommand {
     }
 
     const { collection_name, operation } = parsed.data;
-    const db = await DatabaseStrategyFactory.getRequiredStrategy();
+    const db = this.db ?? DatabaseStrategyFactory.getRequiredStrategy();
 
     const existing = await db.read("collection_permissions", {
       collection_name,
@@ -224,7 +369,11 @@ export class CollectionPermissionResetCommand implements ICommand {
     await db.update(
       "collection_permissions",
       { id: record.id },
-      { allowed_roles: JSON.stringify(newRoles) }
+      {
+        allowed_roles: JSON.stringify(newRoles),
+        field_roles: null,
+        conditions: null,
+      }
     );
 
     return {
@@ -232,6 +381,8 @@ export class CollectionPermissionResetCommand implements ICommand {
       collection_name,
       operation,
       allowed_roles: newRoles,
+      field_roles: null,
+      conditions: null,
       message: `Permissions reset for '${operation}' on '${collection_name}', admin retained.`,
     };
   }
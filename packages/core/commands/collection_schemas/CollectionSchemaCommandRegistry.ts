@@ -0,0 +1,26 @@
+// packages/core/commands/collection_schemas/CollectionSchemaCommandRegistry.ts
+
+import {
+  CollectionSchemaCreateCommand,
+  CollectionSchemaUpdateCommand,
+} from "./CollectionSchemaCommands";
+
+import type { ICommand } from "../ICommand";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+
+type CommandFactoryFn = (
+  data: any,
+  filter: any,
+  db?: IDatabaseStrategy
+) => ICommand;
+
+// Writes that change a definition also apply its DDL. Deleting a schema
+// record leaves the table and its data in place.
+export const collectionSchemaRegistry: Record<
+  "create" | "update",
+  CommandFactoryFn
+> = {
+  create: (data, _filter, db) => new CollectionSchemaCreateCommand(data, db),
+  update: (data, filter, db) =>
+    new CollectionSchemaUpdateCommand(filter, data, db),
+};
@@ -0,0 +1,325 @@
+// packages/core/commands/collection_schemas/CollectionSchemaCommands.ts
+
+import { ICommand } from "../ICommand";
+import { AppError } from "../../errors/AppError";
+import { DatabaseStrategyFactory } from "../../database/DatabaseStrategyFactory";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+import type { Filter } from "../../database/types/Filter";
+import type {
+  CollectionDefinition,
+  FieldDefinition,
+  MigrationPlan,
+} from "../../database/types/CollectionSchema";
+import { SchemaService } from "../../database/schema/SchemaService";
+import {
+  planMigration,
+  renameHints,
+  stripRenameHints,
+} from "../../database/schema/diffSchema";
+import {
+  currentSchemaVersion,
+  getSchemaVersion,
+  recordSchemaVersion,
+  setSchemaVersionStatus,
+} from "../../database/schema/schemaVersions";
+import { collectionDefinitionSchema } from "../../schemas/collectionSchemaDefinition";
+import { invalidateCollectionValidator } from "../validatePayload";
+
+const parseDefinition = (input: unknown): CollectionDefinition => {
+  const parsed = collectionDefinitionSchema.safeParse(input);
+  if (!parsed.success) {
+    throw AppError.validationError(
+      "Invalid collection schema definition",
+      parsed.error.flatten()
+    );
+  }
+  return parsed.data;
+};
+
+/** Stored definition of a collection, if it has one */
+const findDefinition = async (
+  db: IDatabaseStrategy,
+  collection_name: string
+): Promise<CollectionDefinition | undefined> => {
+  const [record] = await db.read("collection_schemas", { collection_name });
+  return record && parseDefinition(record);
+};
+
+/**
+ * Definition and migration plan for a change. `data` holds the new
+ * definition or, when one exists, the properties that change.
+ */
+const planChange = (
+  previous: CollectionDefinition | undefined,
+  data: Record<string, any>
+): { definition: CollectionDefinition; plan: MigrationPlan } => {
+  const proposed = parseDefinition({ ...previous, ...data });
+  if (previous && proposed.collection_name !== previous.collection_name) {
+    throw AppError.validationError("Collections cannot be renamed", {
+      collection_name: previous.collection_name,
+    });
+  }
+
+  const definition = stripRenameHints(proposed);
+  const plan = planMigration(previous, definition, renameHints(proposed));
+  return { definition, plan };
+};
+
+/** Collection settings stored beside the fields; `null` clears one */
+type CollectionSettings = {
+  soft_delete?: boolean;
+  publishable?: boolean;
+  revision_limit?: number | null;
+};
+
+/** Settings an update sets, as they end up in `definition` */
+const changedSettings = (
+  data: Record<string, any>,
+  definition: CollectionDefinition
+): CollectionSettings => ({
+  ...("soft_delete" in data && { soft_delete: !!definition.soft_delete }),
+  ...("publishable" in data && { publishable: !!definition.publishable }),
+  ...("revision_limit" in data && {
+    revision_limit: definition.revision_limit ?? null,
+  }),
+});
+
+const storeFields = async (
+  db: IDatabaseStrategy,
+  collection_name: string,
+  fields: FieldDefinition[],
+  settings: CollectionSettings = {}
+) => {
+  const updated = await db.update(
+    "collection_schemas",
+    { collection_name },
+    { fields, ...settings }
+  );
+  invalidateCollectionValidator(collection_name);
+  return updated;
+};
+
+// ===================
+// CREATE SCHEMA
+// ===================
+export class CollectionSchemaCreateCommand implements ICommand {
+  constructor(
+    private data: Record<string, any>,
+    private db?: IDatabaseStrategy
+  ) {}
+
+  async execute(): Promise<any> {
+    const db = this.db ?? DatabaseStrategyFactory.getRequiredStrategy();
+    const { definition, plan } = planChange(undefined, this.data);
+    const { collection_name } = definition;
+
+    if (await findDefinition(db, collection_name)) {
+      throw AppError.conflict(
+        `A schema for '${collection_name}' already exists`,
+        { collection_name }
+      );
+    }
+
+    const applied = await new SchemaService(db).applySteps(
+      definition,
+      plan.forward
+    );
+    const inserted = await db.create("collection_schemas", definition);
+    invalidateCollectionValidator(collection_name);
+    const { version } = await recordSchemaVersion(
+      db,
+      collection_name,
+      definition.fields,
+      plan
+    );
+
+    return { inserted, applied, version };
+  }
+}
+
+// ===================
+// UPDATE SCHEMA
+// ===================
+export class CollectionSchemaUpdateCommand implements ICommand {
+  constructor(
+    private filter: Filter,
+    private data: Record<string, any>,
+    private db?: IDatabaseStrategy
+  ) {}
+
+  async execute(): Promise<any> {
+    const db = this.db ?? DatabaseStrategyFactory.getRequiredStrategy();
+
+    const existing = await db.read("collection_schemas", this.filter);
+    if (existing.length === 0) {
+      throw AppError.notFound("No collection schema matches the filter");
+    }
+    if (existing.length > 1) {
+      throw AppError.validationError(
+        "Collection schemas must be updated one at a time"
+      );
+    }
+
+    const previous = parseDefinition(existing[0]);
+    const { collection_name } = previous;
+    const { definition, plan } = planChange(previous, this.data);
+
+    // Schemas defined before versioning get their state as a baseline
+    if (!(await currentSchemaVersion(db, collection_name))) {
+      await recordSchemaVersion(
+        db,
+        collection_name,
+        previous.fields,
+        planMigration(undefined, previous)
+      );
+    }
+
+    const applied = await new SchemaService(db).applySteps(
+      definition,
+      plan.forward
+    );
+    const updated = await storeFields(
+      db,
+      collection_name,
+      definition.fields,
+      changedSettings(this.data, definition)
+    );
+    const { version } = await recordSchemaVersion(
+      db,
+      collection_name,
+      definition.fields,
+      plan
+    );
+
+    return { updated, applied, version };
+  }
+}
+
+// ===================
+// PREVIEW SCHEMA CHANGE
+// ===================
+export class CollectionSchemaPreviewCommand implements ICommand {
+  constructor(
+    private collection_name: string,
+    private data: Record<string, any>,
+    private db?: IDatabaseStrategy
+  ) {}
+
+  async execute(): Promise<any> {
+    const db = this.db ?? DatabaseStrategyFactory.getRequiredStrategy();
+    const previous = await findDefinition(db, this.collection_name);
+    const { definition, plan } = planChange(previous, {
+      ...this.data,
+      collection_name: this.collection_name,
+    });
+
+    const statements = await new SchemaService(db).applySteps(
+      definition,
+      plan.forward,
+      { dryRun: true }
+    );
+
+    return { ...plan, statements };
+  }
+}
+
+// ===================
+// REVERT SCHEMA VERSION
+// ===================
+export class CollectionSchemaRevertCommand implements ICommand {
+  constructor(
+    private collection_name: string,
+    private version: number,
+    private db?: IDatabaseStrategy
+  ) {}
+
+  async execute(): Promise<any> {
+    const db = this.db ?? DatabaseStrategyFactory.getRequiredStrategy();
+    const { collection_name } = this;
+
+    const target = await getSchemaVersion(db, collection_name, this.version);
+    if (target.status !== "current") {
+      throw AppError.conflict(
+        `Only the current version of '${collection_name}' can be reverted`,
+        { version: target.version, status: target.status }
+      );
+    }
+    if (target.base_version === null) {
+      throw AppError.validationError(
+        `Version ${target.version} of '${collection_name}' has nothing to revert to`
+      );
+    }
+
+    const base = await getSchemaVersion(
+      db,
+      collection_name,
+      target.base_version
+    );
+    const applied = await new SchemaService(db).applySteps(
+      { collection_name, fields: base.fields },
+      target.migration.reverse
+    );
+    await storeFields(db, collection_name, base.fields);
+    await setSchemaVersionStatus(
+      db,
+      collection_name,
+      target.version,
+      "reverted"
+    );
+    await setSchemaVersionStatus(db, collection_name, base.version, "current");
+
+    return { reverted: target.version, version: base.version, applied };
+  }
+}
+
+// ===================
+// APPLY SCHEMA VERSION
+// ===================
+export class CollectionSchemaApplyCommand implements ICommand {
+  constructor(
+    private collection_name: string,
+    private version: number,
+    private db?: IDatabaseStrategy
+  ) {}
+
+  async execute(): Promise<any> {
+    const db = this.db ?? DatabaseStrategyFactory.getRequiredStrategy();
+    const { collection_name } = this;
+
+    const target = await getSchemaVersion(db, collection_name, this.version);
+    if (target.status !== "reverted") {
+      throw AppError.conflict(
+        `Only reverted versions of '${collection_name}' can be applied`,
+        { version: target.version, status: target.status }
+      );
+    }
+
+    const current = await currentSchemaVersion(db, collection_name);
+    if (current?.version !== target.base_version) {
+      throw AppError.conflict(
+        `Version ${target.version} of '${collection_name}' is based on version ${target.base_version}, which is not current`,
+        { version: target.version, current: current?.version }
+      );
+    }
+
+    const applied = await new SchemaService(db).applySteps(
+      { collection_name, fields: target.fields },
+      target.migration.forward
+    );
+    await storeFields(db, collection_name, target.fields);
+    await setSchemaVersionStatus(
+      db,
+      collection_name,
+      current.version,
+      "superseded"
+    );
+    await setSchemaVersionStatus(
+      db,
+      collection_name,
+      target.version,
+      "current"
+    );
+
+    return { version: target.version, applied };
+  }
+}
@@ -0,0 +1,67 @@
+// packages/core/commands/fieldPermissions.ts
+
+import { AppError } from "../errors/AppError";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { User } from "../types/User";
+import type { CollectionOperation } from "../middleware/authorizeCollectionActionMiddleware";
+import { ADMIN_ROLE, inheritedRoles, loadRoles } from "./roles/roleHierarchy";
+
+/** Roles allowed to read or write each restricted field, by field name */
+export type FieldRoles = Record<string, string[]>;
+
+/** Fields of `collection` the caller may not touch through `operation` */
+export type FieldPolicy = (
+  collection: string,
+  operation: CollectionOperation
+) => Promise<string[]>;
+
+// SQL engines hand JSON columns back as text
+export const parseFieldRoles = (value: unknown): FieldRoles =>
+  (typeof value === "string" ? JSON.parse(value) : value) ?? {};
+
+/**
+ * The field policy of `user`. A field listed in the `field_roles` of a
+ * permission is restricted to those roles and the roles inheriting them;
+ * unlisted fields and admins are unrestricted.
+ */
+export function fieldPolicyFor(
+  db: Pick<IDatabaseStrategy, "read">,
+  user: Pick<User, "role">
+): FieldPolicy {
+  let roles: Promise<string[]> | undefined;
+  return async (collection, operation) => {
+    if (user.role === ADMIN_ROLE) return [];
+    const [permission] = await db.read(
+      "collection_permissions",
+      { collection_name: collection, operation },
+      { limit: 1 }
+    );
+    const restricted = Object.entries(parseFieldRoles(permission?.field_roles));
+    if (restricted.length === 0) return [];
+
+    roles ??= loadRoles(db).then((all) => inheritedRoles(all, user.role));
+    const own = await roles;
+    if (own.includes(ADMIN_ROLE)) return [];
+    return restricted
+      .filter(([, allowed]) => !allowed.some((role) => own.includes(role)))
+      .map(([field]) => field);
+  };
+}
+
+/** Rejects a payload that writes a field the caller may not write */
+export async function assertWritableFields(
+  policy: FieldPolicy | undefined,
+  collection: string,
+  operation: "create" | "update",
+  data: Record<string, any>
+): Promise<void> {
+  if (!policy) return;
+  const written = (await policy(collection, operation)).filter(
+    (field) => field in data
+  );
+  if (written.length > 0) {
+    throw AppError.forbidden(
+      `Field(s) ${written.map((f) => `'${f}'`).join(", ")} of '${collection}' cannot be written`
+    );
+  }
+}
@@ -0,0 +1,16 @@
+// packages/core/commands/hashPassword.ts
+
+import bcrypt from "bcryptjs";
+import { logger } from "../src/telemetry/logger";
+
+/** Hashes a plain `password` before a users record is written */
+export async function hashPasswordField(
+  collection: string,
+  data: Record<string, any>
+): Promise<Record<string, any>> {
+  if (collection !== "users" || !data.password) return data;
+
+  const salt = await bcrypt.genSalt(10);
+  logger.debug("🔐 Password hashed before insertion");
+  return { ...data, password: await bcrypt.hash(data.password, salt) };
+}
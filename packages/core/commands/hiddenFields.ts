@@ -0,0 +1,66 @@
+// packages/core/commands/hiddenFields.ts
+
+import { AppError } from "../errors/AppError";
+import type { Filter } from "../database/types/Filter";
+import type { QueryOptions } from "../database/types/QueryOptions";
+import { filterFields, parseFilter } from "../database/filters/parseFilter";
+
+/** Fields that are never returned through the generic read path */
+export const HIDDEN_FIELDS: Record<string, string[]> = {
+  users: ["password", "refresh_token"],
+  api_keys: ["key_hash"],
+  account_tokens: ["token_hash"],
+};
+
+/**
+ * Rejects reads that would expose a hidden field's values, or those of a
+ * field the caller's role is `restricted` from
+ */
+export function assertReadableField(
+  collection: string,
+  field: string,
+  restricted: string[] = []
+): void {
+  // A nested path reads part of its top-level field
+  const root = field.split(".")[0];
+  if (HIDDEN_FIELDS[collection]?.includes(root) || restricted.includes(root)) {
+    throw AppError.forbidden(`Field '${field}' cannot be read`);
+  }
+}
+
+/**
+ * Rejects filters and sort keys on unreadable fields. Matching or ordering
+ * by a value reveals it, and sort values end up in pagination cursors.
+ */
+export function assertReadableQuery(
+  collection: string,
+  filter: Filter | undefined,
+  options: QueryOptions = {},
+  restricted: string[] = []
+): void {
+  const sort = options.sort
+    ? [options.sort].flat().flatMap((key) => key?.field ?? [])
+    : [];
+  for (const field of [
+    ...filterFields(parseFilter(filter)),
+    ...sort,
+    ...(options.or ?? []).map((clause) => clause.field),
+    ...(options.distinct ? [options.distinct] : []),
+  ]) {
+    assertReadableField(collection, field, restricted);
+  }
+}
+
+/** Removes hidden and `restricted` fields from records */
+export function stripHiddenFields<T extends Record<string, any>>(
+  collection: string,
+  record: T,
+  restricted: string[] = []
+): T {
+  const hidden = [...(HIDDEN_FIELDS[collection] ?? []), ...restricted];
+  if (hidden.length === 0 || !record) return record;
+
+  const copy: Record<string, any> = { ...record };
+  hidden.forEach((field) => delete copy[field]);
+  return copy as T;
+}
@@ -0,0 +1,64 @@
+// packages/core/commands/localization.ts
+
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { FieldDefinition } from "../database/types/CollectionSchema";
+import type { QueryOptions } from "../database/types/QueryOptions";
+import { loadCollectionDefinition } from "./validatePayload";
+
+/** Values of a localized field by locale code */
+export type LocalizedValue = Record<string, unknown>;
+
+/** Locales a read resolves localized fields through, first match wins */
+export const localeChain = ({
+  locale,
+  fallbackLocales = [],
+}: Pick<QueryOptions, "locale" | "fallbackLocales">): string[] =>
+  locale ? [...new Set([locale, ...fallbackLocales])] : [];
+
+/** The collection's localized fields; none for undefined collections */
+export async function localizedFields(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string
+): Promise<FieldDefinition[]> {
+  const definition = await loadCollectionDefinition(db, collection);
+  return definition?.fields.filter((f) => f.localized) ?? [];
+}
+
+// SQLite and MariaDB hand JSON columns back as text
+export const asLocalized = (value: unknown): LocalizedValue => {
+  const parsed = typeof value === "string" ? JSON.parse(value) : value;
+  return parsed && typeof parsed === "object" ? parsed : {};
+};
+
+/** Whether the map holds a value for `locale` */
+export const hasLocale = (value: LocalizedValue, locale: string) =>
+  value[locale] !== undefined && value[locale] !== null;
+
+/** The value in the first locale of `chain` that has one, else null */
+export const resolveLocale = (value: LocalizedValue, chain: string[]) => {
+  const locale = chain.find((l) => hasLocale(value, l));
+  return locale ? value[locale] : null;
+};
+
+/**
+ * Parses the localized fields of `records` into maps, or, with a non-empty
+ * `chain`, resolves each to a single value. Other fields are untouched.
+ */
+export function localizeRecords(
+  fields: FieldDefinition[],
+  records: any[],
+  chain: string[] = []
+): any[] {
+  if (fields.length === 0) return records;
+  return records.map((record) => {
+    if (!record || typeof record !== "object") return record;
+    const localized = { ...record };
+    for (const { name } of fields) {
+      if (!(name in record)) continue;
+      if (record[name] === null) continue;
+      const value = asLocalized(record[name]);
+      localized[name] = chain.length ? resolveLocale(value, chain) : value;
+    }
+    return localized;
+  });
+}
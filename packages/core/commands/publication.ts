@@ -0,0 +1,109 @@
+// packages/core/commands/publication.ts
+
+import { AppError } from "../errors/AppError";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
+import type { PublicationMode } from "../database/types/QueryOptions";
+import type { Revision } from "../database/types/Revision";
+import { matchesFilter, parseFilter } from "../database/filters";
+import { loadCollectionDefinition } from "./validatePayload";
+
+/** Columns a `publishable` collection keeps its publication state in */
+export const PUBLISHED_AT = "published_at";
+export const PUBLISH_AT = "publish_at";
+export const UNPUBLISH_AT = "unpublish_at";
+
+const PUBLICATION_FIELDS = [PUBLISHED_AT, PUBLISH_AT, UNPUBLISH_AT];
+
+/** Whether the collection's records go through draft and publish */
+export async function isPublishable(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string
+): Promise<boolean> {
+  return !!(await loadCollectionDefinition(db, collection))?.publishable;
+}
+
+/** Narrows `filter` to published records, drafts, or both */
+export function scopeToPublication(
+  filter: Filter,
+  mode: PublicationMode = "published"
+): Filter {
+  if (mode === "all") return filter;
+  return { and: [filter, { [PUBLISHED_AT]: { isNull: mode === "draft" } }] };
+}
+
+const notPublishable = (collection: string) =>
+  AppError.validationError(`'${collection}' has no draft and publish states`, {
+    collection,
+  });
+
+/** Rejects publication operations on collections without `publishable` */
+export async function assertPublishable(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string
+): Promise<void> {
+  if (!(await isPublishable(db, collection))) {
+    throw notPublishable(collection);
+  }
+}
+
+/**
+ * `filter` limited to `mode` on publishable collections. Asking for the
+ * drafts of any other collection is an error; `all` is a no-op.
+ */
+export async function publicationScopedFilter(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string,
+  filter: Filter,
+  mode: PublicationMode = "published"
+): Promise<Filter> {
+  if (await isPublishable(db, collection)) {
+    return scopeToPublication(filter, mode);
+  }
+  if (mode === "draft") throw notPublishable(collection);
+  return filter;
+}
+
+/**
+ * The revisions, newest first, a reader of published content may see: none
+ * unless the record is live, and only the published snapshots of one that is
+ */
+export async function publishedRevisions(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string,
+  revisions: Revision[]
+): Promise<Revision[]> {
+  const node = parseFilter(await publicationScopedFilter(db, collection, {}));
+  const published = revisions.filter((r) => matchesFilter(r.snapshot, node));
+  return published[0] === revisions[0] ? published : [];
+}
+
+/**
+ * Publication is the single `published_at` flag, not a separate draft copy,
+ * so editing a published record changes live content at once. Roles that
+ * cannot publish may therefore only change drafts, and never write the
+ * publication fields. `filter` picks the records changed, if any.
+ */
+export async function assertDraftEdit(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string,
+  filter: Filter | null,
+  writes: Record<string, any>[],
+  canPublish: () => Promise<boolean>
+): Promise<void> {
+  if (!(await isPublishable(db, collection))) return;
+
+  const publishes = writes.some((write) =>
+    PUBLICATION_FIELDS.some((field) => field in write)
+  );
+  const live =
+    !publishes &&
+    filter !== null &&
+    (await db.read(collection, scopeToPublication(filter), { limit: 1 }))
+      .length > 0;
+  if ((publishes || live) && !(await canPublish())) {
+    throw AppError.forbidden(
+      `Only roles that may publish '${collection}' can change published records or publication state`
+    );
+  }
+}
@@ -0,0 +1,70 @@
+// packages/core/commands/publishScheduled.ts
+
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import { logger } from "../src/telemetry/logger";
+import { CommandExecutor } from "./CommandExecutor";
+import { PublishCommand } from "./PublishCommand";
+import { UnpublishCommand } from "./UnpublishCommand";
+import { PUBLISH_AT, UNPUBLISH_AT } from "./publication";
+
+/**
+ * Publishes and unpublishes every record whose schedule is due by `now`,
+ * across all publishable collections. Returns the counts per collection.
+ */
+export async function publishDueContent(
+  db: IDatabaseStrategy,
+  now = new Date()
+): Promise<Record<string, { published: number; unpublished: number }>> {
+  const schemas = await db.read("collection_schemas", { publishable: true });
+  const changed: Record<string, { published: number; unpublished: number }> =
+    {};
+
+  for (const { collection_name } of schemas) {
+    const published = await CommandExecutor.executeInTransaction(
+      db,
+      (tx) =>
+        new PublishCommand(tx, collection_name, {
+          [PUBLISH_AT]: { lte: now },
+        })
+    );
+    const unpublished = await CommandExecutor.executeInTransaction(
+      db,
+      (tx) =>
+        new UnpublishCommand(tx, collection_name, {
+          [UNPUBLISH_AT]: { lte: now },
+        })
+    );
+    changed[collection_name] = {
+      published: published.affected,
+      unpublished: unpublished.affected,
+    };
+  }
+  return changed;
+}
+
+/**
+ * Runs `publishDueContent` every `intervalMs` until the returned function
+ * is called. A worker losing the race to another sees a version conflict
+ * and leaves the records to the winner.
+ */
+export function schedulePublishing(
+  db: IDatabaseStrategy,
+  { intervalMs }: { intervalMs: number }
+): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const changed = await publishDueContent(db);
+      logger.debug({ changed }, "⏰ Ran scheduled publishing");
+    } catch (err) {
+      logger.error({ err }, "❌ Scheduled publishing failed");
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
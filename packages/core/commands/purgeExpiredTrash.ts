@@ -0,0 +1,57 @@
+// packages/core/commands/purgeExpiredTrash.ts
+
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import { logger } from "../src/telemetry/logger";
+import { CommandExecutor } from "./CommandExecutor";
+import { PurgeCommand } from "./PurgeCommand";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Purges trash older than `retentionDays` from every soft-delete
+ * collection. Returns the number of records removed per collection.
+ */
+export async function purgeExpiredTrash(
+  db: IDatabaseStrategy,
+  retentionDays: number,
+  now = new Date()
+): Promise<Record<string, number>> {
+  const olderThan = new Date(now.getTime() - retentionDays * DAY_MS);
+  const schemas = await db.read("collection_schemas", { soft_delete: true });
+  const purged: Record<string, number> = {};
+
+  for (const { collection_name } of schemas) {
+    const { affected } = await CommandExecutor.executeInTransaction(
+      db,
+      (tx) => new PurgeCommand(tx, collection_name, {}, olderThan)
+    );
+    purged[collection_name] = affected;
+  }
+  return purged;
+}
+
+/**
+ * Runs `purgeExpiredTrash` every `intervalMs` until the returned function
+ * is called. Purging is idempotent, so every worker may run its own.
+ */
+export function scheduleTrashPurge(
+  db: IDatabaseStrategy,
+  { retentionDays, intervalMs }: { retentionDays: number; intervalMs: number }
+): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const purged = await purgeExpiredTrash(db, retentionDays);
+      logger.info({ purged, retentionDays }, "🗑️ Purged expired trash");
+    } catch (err) {
+      logger.error({ err }, "❌ Scheduled trash purge failed");
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,124 @@
+// packages/core/commands/recordVersion.ts
+
+import { createHash } from "node:crypto";
+import { AppError } from "../errors/AppError";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
+import type { WriteResult } from "../database/types/WriteResult";
+import { MongoStrategy } from "../database/strategies/mongo/MongoStrategy";
+import { loadCollectionDefinition } from "./validatePayload";
+
+/** Field every defined collection counts its record changes in */
+export const VERSION_FIELD = "version";
+
+/** Collections with a definition keep a version on every record */
+export async function isVersioned(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string
+): Promise<boolean> {
+  return !!(await loadCollectionDefinition(db, collection));
+}
+
+/** Records written before versioning have none and count as version 1 */
+export const versionOf = (record: any): number =>
+  Number(record?.[VERSION_FIELD] ?? 1);
+
+const versionIs = (version: number): Filter =>
+  version === 1
+    ? { or: [{ [VERSION_FIELD]: 1 }, { [VERSION_FIELD]: { isNull: true } }] }
+    : { [VERSION_FIELD]: version };
+
+/**
+ * Throws `conflict` with the current version unless every record matching
+ * `filter` is still at `expected`, and `notFound` when none matches.
+ */
+export async function assertVersion(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string,
+  filter: Filter,
+  expected: number
+): Promise<void> {
+  if (!(await isVersioned(db, collection))) {
+    throw AppError.validationError(
+      `'${collection}' does not keep record versions`,
+      { collection }
+    );
+  }
+
+  const records = await db.read(collection, filter);
+  if (records.length === 0) {
+    throw AppError.notFound(`No record in '${collection}' matches the filter`);
+  }
+
+  const stale = records.find((record: any) => versionOf(record) !== expected);
+  if (stale) {
+    throw AppError.conflict(
+      `Record in '${collection}' was changed since version ${expected}`,
+      { id: stale.id ?? stale._id, expected, current: versionOf(stale) }
+    );
+  }
+}
+
+/**
+ * Updates the records matching `filter` and bumps each one's version.
+ * Records are written in one pass per version they are at, each pass
+ * guarded by that version, so a concurrent writer surfaces as `conflict`.
+ */
+export async function updateVersioned(
+  db: IDatabaseStrategy,
+  collection: string,
+  filter: Filter,
+  data: Record<string, any>
+): Promise<WriteResult> {
+  const idField = db instanceof MongoStrategy ? "_id" : "id";
+  const records = await db.read(collection, filter);
+  const byVersion = new Map<number, any[]>();
+  for (const record of records) {
+    const ids = byVersion.get(versionOf(record)) ?? [];
+    byVersion.set(versionOf(record), [...ids, record[idField]]);
+  }
+
+  const result: WriteResult = { affected: 0, ids: [], records: [] };
+  for (const [version, ids] of byVersion) {
+    const written = await db.updateMany(
+      collection,
+      { and: [{ [idField]: { in: ids } }, versionIs(version)] },
+      { ...data, [VERSION_FIELD]: version + 1 }
+    );
+    if (written.affected !== ids.length) {
+      throw AppError.conflict(
+        `Records in '${collection}' were changed concurrently`,
+        { expected: version }
+      );
+    }
+    result.affected += written.affected;
+    result.ids.push(...written.ids);
+    result.records!.push(...(written.records ?? []));
+  }
+  return result;
+}
+
+/**
+ * Reads `If-Match` as an expected version. Record ETags are the quoted
+ * version, e.g. `"3"`; the weak form is accepted as well.
+ */
+export function parseIfMatch(header: string | undefined): number | undefined {
+  if (!header || header.trim() === "*") return undefined;
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header.trim());
+  if (!match) {
+    throw AppError.validationError(
+      'If-Match must be a record ETag such as "3"',
+      { ifMatch: header }
+    );
+  }
+  return Number(match[1]);
+}
+
+/** ETag of a single record, its quoted version */
+export const recordETag = (record: any): string => `"${versionOf(record)}"`;
+
+/** Weak ETag of a read result, for conditional reads */
+export const resultETag = (result: unknown): string =>
+  `W/"${createHash("sha1")
+    .update(JSON.stringify(result ?? null))
+    .digest("base64url")}"`;
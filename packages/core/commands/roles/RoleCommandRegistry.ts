@@ -0,0 +1,30 @@
+// packages/core/commands/roles/RoleCommandRegistry.ts
+
+import {
+  RoleCreateCommand,
+  RoleDeleteCommand,
+  RoleUpdateCommand,
+} from "./RoleCommands";
+
+import type { ICommand } from "../ICommand";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+import type { User } from "../../types/User";
+
+type CommandFactoryFn = (
+  data: any,
+  filter: any,
+  db?: IDatabaseStrategy,
+  caller?: User
+) => ICommand;
+
+// Reads go through the generic read path
+export const roleRegistry: Record<
+  "create" | "update" | "delete",
+  CommandFactoryFn
+> = {
+  create: (data, _filter, db, caller) =>
+    new RoleCreateCommand(data, db, caller),
+  update: (data, filter, db, caller) =>
+    new RoleUpdateCommand(filter, data, db, caller),
+  delete: (_data, filter, db) => new RoleDeleteCommand(filter, db),
+};
@@ -0,0 +1,263 @@
+// packages/core/commands/roles/RoleCommands.ts
+
+import { z } from "zod";
+import { ICommand } from "../ICommand";
+import { AppError } from "../../errors/AppError";
+import { logger } from "../../src/telemetry/logger";
+import { DatabaseStrategyFactory } from "../../database/DatabaseStrategyFactory";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+import type { Filter } from "../../database/types/Filter";
+import type { RoleDefinition } from "../../types/Role";
+import type { User } from "../../types/User";
+import { authorizeCollectionAction } from "../../middleware/authorizeCollectionActionMiddleware";
+import { collectionOperationSchema } from "../../schemas/collectionPermissionSchema";
+import {
+  ADMIN_ROLE,
+  ROLES,
+  fromRoleRow,
+  inheritedRoles,
+  isAdminRole,
+  loadRoles,
+} from "./roleHierarchy";
+
+const roleName = z
+  .string()
+  .regex(/^[a-z][a-z0-9_-]*$/, "Must be lowercase letters, digits, _ or -")
+  .max(50);
+
+const roleFields = {
+  description: z.string().max(500).nullable().optional(),
+  parents: z.array(roleName),
+  permissions: z.record(z.string().min(1), z.array(collectionOperationSchema)),
+};
+
+const createSchema = z.object({
+  name: roleName,
+  ...roleFields,
+  parents: roleFields.parents.default([]),
+  permissions: roleFields.permissions.default({}),
+});
+
+const updateSchema = z.object(roleFields).partial().strict();
+
+const parse = <T extends z.ZodTypeAny>(schema: T, data: unknown) => {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw AppError.validationError(
+      "Invalid role input",
+      parsed.error.flatten()
+    );
+  }
+  return parsed.data as z.infer<T>;
+};
+
+/** Parents must exist, and a role may not end up inheriting itself */
+function assertParents(
+  roles: Map<string, RoleDefinition>,
+  name: string,
+  parents: string[]
+): void {
+  const unknown = parents.filter((parent) => !roles.has(parent));
+  if (unknown.length > 0) {
+    throw AppError.validationError(`Unknown parent roles of '${name}'`, {
+      parents: unknown,
+    });
+  }
+  if (parents.some((parent) => inheritedRoles(roles, parent).includes(name))) {
+    throw AppError.validationError(`Role '${name}' cannot inherit itself`, {
+      parents,
+    });
+  }
+}
+
+/** Some user must still be an administrator once `roles` is in place */
+async function assertAdminRemains(
+  db: Pick<IDatabaseStrategy, "read">,
+  roles: Map<string, RoleDefinition>
+): Promise<void> {
+  const users = await db.read("users", {});
+  if (!users.some((user: any) => isAdminRole(roles, user.role))) {
+    throw AppError.conflict("The change would leave no administrator");
+  }
+}
+
+/**
+ * Callers below admin only hand out what they hold: parents among their
+ * own roles and permissions they are granted, so no role, their own
+ * included, can be lifted above them. Internal callers pass no `caller`.
+ */
+async function assertGrantable(
+  roles: Map<string, RoleDefinition>,
+  caller: User | undefined,
+  parents: string[],
+  permissions: RoleDefinition["permissions"]
+): Promise<void> {
+  if (!caller) return;
+  const own = inheritedRoles(roles, caller.role);
+  if (own.includes(ADMIN_ROLE)) return;
+
+  const foreign = parents.filter((parent) => !own.includes(parent));
+  if (foreign.length > 0) {
+    throw AppError.forbidden(
+      `Role '${caller.role}' cannot grant roles it does not hold: ${foreign.join(", ")}`
+    );
+  }
+  for (const [collection, operations] of Object.entries(permissions)) {
+    for (const operation of operations) {
+      await authorizeCollectionAction(caller, collection, operation).catch(
+        () => {
+          throw AppError.forbidden(
+            `Role '${caller.role}' cannot grant '${operation}' on '${collection}'`
+          );
+        }
+      );
+    }
+  }
+}
+
+async function findRole(
+  db: Pick<IDatabaseStrategy, "read">,
+  filter: Filter
+): Promise<RoleDefinition> {
+  const matches = await db.read(ROLES, filter);
+  if (matches.length !== 1) {
+    throw matches.length === 0
+      ? AppError.notFound("No role matches the filter")
+      : AppError.validationError("The filter must match a single role");
+  }
+  return fromRoleRow(matches[0]);
+}
+
+export class RoleCreateCommand implements ICommand<RoleDefinition> {
+  constructor(
+    private data: Record<string, any>,
+    private db?: IDatabaseStrategy,
+    private caller?: User
+  ) {}
+
+  async execute(): Promise<RoleDefinition> {
+    const { name, description, parents, permissions } = parse(
+      createSchema,
+      this.data
+    );
+    const db = this.db ?? DatabaseStrategyFactory.getRequiredStrategy();
+
+    const roles = await loadRoles(db);
+    if (roles.has(name)) {
+      throw AppError.conflict(`Role '${name}' already exists`);
+    }
+    assertParents(roles, name, parents);
+    await assertGrantable(roles, this.caller, parents, permissions);
+
+    const row = await db.create(ROLES, {
+      name,
+      description: description ?? null,
+      parents: JSON.stringify(parents),
+      permissions: JSON.stringify(permissions),
+      created_at: new Date(),
+    });
+    logger.info({ name, parents }, `🎭 Role '${name}' created`);
+    return fromRoleRow(row);
+  }
+}
+
+/** Changes a role's description, parents or permissions; names are fixed */
+export class RoleUpdateCommand implements ICommand<RoleDefinition> {
+  constructor(
+    private filter: Filter,
+    private data: Record<string, any>,
+    private db?: IDatabaseStrategy,
+    private caller?: User
+  ) {}
+
+  async execute(): Promise<RoleDefinition> {
+    const { name: renamed, ...data } = this.data;
+    const db = this.db ?? DatabaseStrategyFactory.getRequiredStrategy();
+    const role = await findRole(db, this.filter);
+    if (renamed !== undefined && renamed !== role.name) {
+      throw AppError.validationError("Roles cannot be renamed", {
+        name: role.name,
+      });
+    }
+    const changes = parse(updateSchema, data);
+
+    const roles = await loadRoles(db);
+    // Only what is added counts, so holders of less may still trim a role
+    await assertGrantable(
+      roles,
+      this.caller,
+      (changes.parents ?? []).filter((p) => !role.parents.includes(p)),
+      Object.fromEntries(
+        Object.entries(changes.permissions ?? {}).map(([key, operations]) => [
+          key,
+          operations.filter((op) => !role.permissions[key]?.includes(op)),
+        ])
+      )
+    );
+    const updated: RoleDefinition = { ...role, ...changes };
+    if (changes.parents) {
+      assertParents(roles, role.name, changes.parents);
+      roles.set(role.name, updated);
+      await assertAdminRemains(db, roles);
+    }
+
+    await db.update(
+      ROLES,
+      { name: role.name },
+      {
+        ...(changes.description !== undefined && {
+          description: changes.description,
+        }),
+        ...(changes.parents && { parents: JSON.stringify(changes.parents) }),
+        ...(changes.permissions && {
+          permissions: JSON.stringify(changes.permissions),
+        }),
+      }
+    );
+    logger.info({ name: role.name }, `🎭 Role '${role.name}' updated`);
+    return updated;
+  }
+}
+
+/**
+ * Deletes a role nobody holds or inherits from. The built-in admin role
+ * is never deleted, nor the last role an administrator holds.
+ */
+export class RoleDeleteCommand implements ICommand {
+  constructor(
+    private filter: Filter,
+    private db?: IDatabaseStrategy
+  ) {}
+
+  async execute(): Promise<any> {
+    const db = this.db ?? DatabaseStrategyFactory.getRequiredStrategy();
+    const { name } = await findRole(db, this.filter);
+    if (name === ADMIN_ROLE) {
+      throw AppError.conflict(`The '${ADMIN_ROLE}' role cannot be deleted`);
+    }
+
+    const roles = await loadRoles(db);
+    const children = [...roles.values()]
+      .filter((role) => role.parents.includes(name))
+      .map((role) => role.name);
+    if (children.length > 0) {
+      throw AppError.conflict(`Role '${name}' is inherited by other roles`, {
+        roles: children,
+      });
+    }
+    for (const collection of ["users", "service_accounts"]) {
+      const [holder] = await db.read(collection, { role: name }, { limit: 1 });
+      if (holder) {
+        throw AppError.conflict(
+          `Role '${name}' is still assigned in '${collection}'`
+        );
+      }
+    }
+    roles.delete(name);
+    await assertAdminRemains(db, roles);
+
+    await db.delete(ROLES, { name });
+    logger.info({ name }, `🎭 Role '${name}' deleted`);
+    return { deleted: true, name };
+  }
+}
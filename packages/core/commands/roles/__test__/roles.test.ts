@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { DatabaseStrategyFactory } from "../../../database/DatabaseStrategyFactory";
+import type { IDatabaseStrategy } from "../../../database/IDatabaseStrategy";
+import {
+  RoleCreateCommand,
+  RoleDeleteCommand,
+  RoleUpdateCommand,
+} from "../RoleCommands";
+import { inheritedRoles, loadRoles } from "../roleHierarchy";
+import { authorizeCollectionAction } from "../../../middleware/authorizeCollectionActionMiddleware";
+import { AppError, ErrorType } from "../../../errors/AppError";
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+describe("roles", () => {
+  let db: IDatabaseStrategy;
+
+  const createRole = (data: Record<string, any>) =>
+    new RoleCreateCommand(data, db).execute();
+
+  beforeEach(async () => {
+    // Authorization reads through the factory's current strategy
+    db = await DatabaseStrategyFactory.create("mock", {});
+    await createRole({ name: "admin" });
+    await createRole({
+      name: "viewer",
+      permissions: { posts: ["read"] },
+    });
+    await createRole({ name: "editor", parents: ["viewer"] });
+    await db.create("users", { username: "root", role: "admin" });
+    await db.create("collection_permissions", {
+      collection_name: "posts",
+      operation: "update",
+      allowed_roles: ["editor"],
+    });
+  });
+
+  it("resolves parents transitively", async () => {
+    await createRole({ name: "chief", parents: ["editor"] });
+    expect(inheritedRoles(await loadRoles(db), "chief")).toEqual([
+      "chief",
+      "editor",
+      "viewer",
+    ]);
+  });
+
+  it("authorizes through inherited permissions", async () => {
+    const editor = { id: "2", role: "editor" };
+    // From the viewer's permission matrix
+    await authorizeCollectionAction(editor, "posts", "read");
+    // From collection_permissions
+    await authorizeCollectionAction(editor, "posts", "update");
+    await expectAppError(
+      authorizeCollectionAction({ id: "3", role: "viewer" }, "posts", "update"),
+      ErrorType.FORBIDDEN
+    );
+    await expectAppError(
+      authorizeCollectionAction(editor, "posts", "delete"),
+      ErrorType.FORBIDDEN
+    );
+  });
+
+  it("keeps the wildcard off core collections", async () => {
+    await createRole({ name: "manager", permissions: { "*": ["update"] } });
+    const manager = { id: "4", role: "manager" };
+    await authorizeCollectionAction(manager, "posts", "update");
+    for (const collection of ["users", "roles", "collection_permissions"]) {
+      await expectAppError(
+        authorizeCollectionAction(manager, collection, "update"),
+        ErrorType.FORBIDDEN
+      );
+    }
+  });
+
+  it("rejects unknown parents and inheritance cycles", async () => {
+    await expectAppError(
+      createRole({ name: "ghost", parents: ["nobody"] }),
+      ErrorType.VALIDATION_FAILED
+    );
+    await expectAppError(
+      new RoleUpdateCommand(
+        { name: "viewer" },
+        { parents: ["editor"] },
+        db
+      ).execute(),
+      ErrorType.VALIDATION_FAILED
+    );
+  });
+
+  it("never leaves the system without an administrator", async () => {
+    await createRole({ name: "owner", parents: ["admin"] });
+    await db.update("users", { username: "root" }, { role: "owner" });
+
+    await expectAppError(
+      new RoleUpdateCommand({ name: "owner" }, { parents: [] }, db).execute(),
+      ErrorType.CONFLICT
+    );
+    await expectAppError(
+      new RoleDeleteCommand({ name: "admin" }, db).execute(),
+      ErrorType.CONFLICT
+    );
+    await expectAppError(
+      new RoleDeleteCommand({ name: "owner" }, db).execute(),
+      ErrorType.CONFLICT
+    );
+  });
+
+  it("lets callers grant only roles and permissions they hold", async () => {
+    const editor = { id: "2", username: "ed", role: "editor" };
+    const update = (data: Record<string, any>) =>
+      new RoleUpdateCommand({ name: "editor" }, data, db, editor).execute();
+
+    await expectAppError(
+      update({ parents: ["viewer", "admin"] }),
+      ErrorType.FORBIDDEN
+    );
+    await expectAppError(
+      update({ permissions: { posts: ["delete"] } }),
+      ErrorType.FORBIDDEN
+    );
+    await expectAppError(
+      new RoleCreateCommand(
+        { name: "boss", parents: ["admin"] },
+        db,
+        editor
+      ).execute(),
+      ErrorType.FORBIDDEN
+    );
+    expect(inheritedRoles(await loadRoles(db), "editor")).not.toContain(
+      "admin"
+    );
+
+    await new RoleCreateCommand(
+      {
+        name: "proofreader",
+        parents: ["viewer"],
+        permissions: { posts: ["update"] },
+      },
+      db,
+      editor
+    ).execute();
+    await update({ parents: [] });
+    const root = { id: "1", username: "root", role: "admin" };
+    await new RoleUpdateCommand(
+      { name: "editor" },
+      { parents: ["admin"] },
+      db,
+      root
+    ).execute();
+    expect(inheritedRoles(await loadRoles(db), "editor")).toContain("admin");
+  });
+
+  it("deletes roles nobody holds or inherits", async () => {
+    await expectAppError(
+      new RoleDeleteCommand({ name: "viewer" }, db).execute(),
+      ErrorType.CONFLICT
+    );
+    await createRole({ name: "guest" });
+    await new RoleDeleteCommand({ name: "guest" }, db).execute();
+    expect((await loadRoles(db)).has("guest")).toBe(false);
+  });
+});
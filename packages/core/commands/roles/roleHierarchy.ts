@@ -0,0 +1,83 @@
+// packages/core/commands/roles/roleHierarchy.ts
+
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+import type { RoleDefinition } from "../../types/Role";
+import type { CollectionOperation } from "../../middleware/authorizeCollectionActionMiddleware";
+import { CORE_COLLECTIONS } from "../../database/schema/SchemaService";
+
+export const ROLES = "roles";
+
+/** Built-in role that passes every permission check */
+export const ADMIN_ROLE = "admin";
+
+// SQL engines hand JSON columns back as text
+const parseJson = (value: unknown, fallback: unknown) =>
+  typeof value === "string" ? JSON.parse(value) : (value ?? fallback);
+
+export const fromRoleRow = (row: any): RoleDefinition => ({
+  ...row,
+  parents: parseJson(row.parents, []),
+  permissions: parseJson(row.permissions, {}),
+});
+
+/** Every role by name */
+export async function loadRoles(
+  db: Pick<IDatabaseStrategy, "read">
+): Promise<Map<string, RoleDefinition>> {
+  const rows = await db.read(ROLES, {});
+  return new Map(rows.map((row: any) => [row.name, fromRoleRow(row)] as const));
+}
+
+/**
+ * `role` and every role it inherits from, nearest first. Unknown roles
+ * only stand for themselves; cycles are cut where they close.
+ */
+export function inheritedRoles(
+  roles: Map<string, RoleDefinition>,
+  role: string
+): string[] {
+  const seen = new Set<string>();
+  const queue = [role];
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    if (seen.has(name)) continue;
+    seen.add(name);
+    queue.push(...(roles.get(name)?.parents ?? []));
+  }
+  return [...seen];
+}
+
+/** Whether `role` is or inherits the built-in admin role */
+export const isAdminRole = (roles: Map<string, RoleDefinition>, role: string) =>
+  inheritedRoles(roles, role).includes(ADMIN_ROLE);
+
+/**
+ * Whether the permission matrix of `role` itself grants the operation.
+ * `"*"` covers content collections only; users, roles, keys and the other
+ * core collections must be granted by name, or a wildcard would let a
+ * role rewrite its own rights.
+ */
+export function roleGrants(
+  roles: Map<string, RoleDefinition>,
+  role: string,
+  collection: string,
+  operation: CollectionOperation
+): boolean {
+  const permissions = roles.get(role)?.permissions ?? {};
+  const keys = CORE_COLLECTIONS.has(collection)
+    ? [collection]
+    : [collection, "*"];
+  return keys.some((key) => permissions[key]?.includes(operation));
+}
+
+/** Whether the permission matrix of `role` or an ancestor grants the operation */
+export function matrixAllows(
+  roles: Map<string, RoleDefinition>,
+  role: string,
+  collection: string,
+  operation: CollectionOperation
+): boolean {
+  return inheritedRoles(roles, role).some((name) =>
+    roleGrants(roles, name, collection, operation)
+  );
+}
@@ -0,0 +1,237 @@
+// packages/core/commands/rowPermissions.ts
+
+import { AppError } from "../errors/AppError";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
+import type { User } from "../types/User";
+import type { CollectionOperation } from "../middleware/authorizeCollectionActionMiddleware";
+import { filterFields, matchesFilter, parseFilter } from "../database/filters";
+import {
+  ADMIN_ROLE,
+  inheritedRoles,
+  loadRoles,
+  roleGrants,
+} from "./roles/roleHierarchy";
+
+/**
+ * Records each role is limited to, e.g. `{ author: { author_id: "$user.id" } }`.
+ * A role listed here is granted the operation on matching records only.
+ */
+export type RowConditions = Record<string, Filter>;
+
+/** Operations a permission may carry row conditions for */
+export const CONDITIONAL_OPERATIONS: CollectionOperation[] = [
+  "create",
+  "read",
+  "update",
+  "delete",
+  "restore",
+  "purge",
+  "publish",
+  "unpublish",
+];
+
+/**
+ * Condition the records `collection` exposes to the caller through
+ * `operation` must match, or null when the caller is not limited
+ */
+export type RowPolicy = (
+  collection: string,
+  operation: CollectionOperation
+) => Promise<Filter | null>;
+
+/** Caller attributes a condition can refer to as `$user.<name>` */
+const USER_REFS = ["id", "role", "username", "email", "serviceAccountId"];
+
+const USER_REF = /^\$user\.(\w+)$/;
+
+// SQL engines hand JSON columns back as text
+const parseJson = (value: unknown, fallback: unknown) =>
+  typeof value === "string" ? JSON.parse(value) : (value ?? fallback);
+
+export const parseRowConditions = (value: unknown): RowConditions =>
+  parseJson(value, {});
+
+/** Rejects malformed filters and references to unknown caller attributes */
+export function assertValidConditions(conditions: RowConditions): void {
+  const refsOf = (value: unknown): string[] => {
+    if (typeof value === "string") {
+      const ref = USER_REF.exec(value)?.[1];
+      return ref ? [ref] : [];
+    }
+    return value && typeof value === "object"
+      ? Object.values(value).flatMap(refsOf)
+      : [];
+  };
+
+  for (const [role, condition] of Object.entries(conditions)) {
+    parseFilter(condition);
+    const unknown = refsOf(condition).filter((ref) => !USER_REFS.includes(ref));
+    if (unknown.length > 0) {
+      throw AppError.validationError(
+        `Condition of '${role}' refers to unknown caller attributes`,
+        { role, unknown: unknown.map((ref) => `$user.${ref}`) }
+      );
+    }
+  }
+}
+
+/** `condition` with each `$user.<name>` replaced by the caller's value */
+export function resolveUserRefs(condition: Filter, user: User): Filter {
+  const resolve = (value: any): any => {
+    if (typeof value === "string") {
+      const ref = USER_REF.exec(value)?.[1];
+      if (!ref) return value;
+      if (user[ref] === undefined || user[ref] === null) {
+        // An unset attribute must not turn into a match on null
+        throw AppError.forbidden(
+          `Permission condition needs '$user.${ref}', which the caller lacks`
+        );
+      }
+      return user[ref];
+    }
+    if (Array.isArray(value)) return value.map(resolve);
+    if (value && typeof value === "object" && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, v]) => [key, resolve(v)])
+      );
+    }
+    return value;
+  };
+  return resolve(condition);
+}
+
+/**
+ * The row policy of `user`. Roles listed in the `conditions` of a
+ * permission only reach records matching their condition; a role the
+ * caller has that is granted the operation without one lifts the limit.
+ * Admins are never limited.
+ */
+export function rowPolicyFor(
+  db: Pick<IDatabaseStrategy, "read">,
+  user: User
+): RowPolicy {
+  let roles: ReturnType<typeof loadRoles> | undefined;
+  return async (collection, operation) => {
+    if (user.role === ADMIN_ROLE) return null;
+    const [permission] = await db.read(
+      "collection_permissions",
+      { collection_name: collection, operation },
+      { limit: 1 }
+    );
+    const conditions = parseRowConditions(permission?.conditions);
+    if (Object.keys(conditions).length === 0) return null;
+
+    roles ??= loadRoles(db);
+    const all = await roles;
+    const own = inheritedRoles(all, user.role);
+    if (own.includes(ADMIN_ROLE)) return null;
+
+    const limited = new Set(Object.keys(conditions));
+    const allowed: string[] = parseJson(permission.allowed_roles, []);
+    const unconditional = own.some(
+      (role) =>
+        !limited.has(role) &&
+        (allowed.includes(role) || roleGrants(all, role, collection, operation))
+    );
+    if (unconditional) return null;
+
+    // Callers with no granting role at all are stopped by authorization
+    const filters = own
+      .filter((role) => limited.has(role))
+      .map((role) => resolveUserRefs(conditions[role], user));
+    if (filters.length === 0) return null;
+    return filters.length === 1 ? filters[0] : { or: filters };
+  };
+}
+
+/** Narrows `filter` to the records `condition` allows */
+export const scopeToCondition = (
+  filter: Filter,
+  condition: Filter | null
+): Filter => (condition ? { and: [filter, condition] } : filter);
+
+/** `filter` limited to the records the caller may reach by `operation` */
+export async function rowScopedFilter(
+  policy: RowPolicy | undefined,
+  collection: string,
+  operation: CollectionOperation,
+  filter: Filter
+): Promise<Filter> {
+  return scopeToCondition(
+    filter,
+    (await policy?.(collection, operation)) ?? null
+  );
+}
+
+/**
+ * Rejects acting through `operation` on the record `match` finds unless it
+ * meets the caller's condition. A record that no longer exists is judged
+ * by `lastKnown`, its state when it was deleted.
+ */
+export async function assertRecordAllowed(
+  db: Pick<IDatabaseStrategy, "read">,
+  policy: RowPolicy | undefined,
+  collection: string,
+  operation: CollectionOperation,
+  match: Filter,
+  lastKnown: Record<string, any>
+): Promise<void> {
+  const condition = await policy?.(collection, operation);
+  if (!condition) return;
+
+  const [current] = await db.read(collection, match, { limit: 1 });
+  const allowed = current
+    ? (
+        await db.read(collection, scopeToCondition(match, condition), {
+          limit: 1,
+        })
+      ).length > 0
+    : matchesFilter(lastKnown, parseFilter(condition));
+  if (!allowed) {
+    throw AppError.forbidden(
+      `Record does not meet the ${operation} condition of '${collection}'`
+    );
+  }
+}
+
+/** Rejects new records that fall outside the caller's create condition */
+export async function assertRowAllowed(
+  policy: RowPolicy | undefined,
+  collection: string,
+  record: Record<string, any>
+): Promise<void> {
+  const condition = await policy?.(collection, "create");
+  if (condition && !matchesFilter(record, parseFilter(condition))) {
+    throw AppError.forbidden(
+      `Record does not meet the create condition of '${collection}'`
+    );
+  }
+}
+
+/**
+ * Rejects updates that would move records out of the caller's update
+ * condition, e.g. handing an article to another author. Only writes to
+ * fields the condition looks at can do that.
+ */
+export async function assertUpdateAllowed(
+  db: Pick<IDatabaseStrategy, "read">,
+  policy: RowPolicy | undefined,
+  collection: string,
+  filter: Filter,
+  data: Record<string, any>
+): Promise<void> {
+  const condition = await policy?.(collection, "update");
+  if (!condition) return;
+  const node = parseFilter(condition);
+  if (!filterFields(node).some((field) => field.split(".")[0] in data)) return;
+
+  const records = await db.read(collection, filter);
+  if (
+    records.some((record: any) => !matchesFilter({ ...record, ...data }, node))
+  ) {
+    throw AppError.forbidden(
+      `Update would move records out of the update condition of '${collection}'`
+    );
+  }
+}
@@ -0,0 +1,270 @@
+// packages/core/commands/service_accounts/ServiceAccountCommands.ts
+
+import { z } from "zod";
+import { ICommand } from "../ICommand";
+import { AppError } from "../../errors/AppError";
+import { logger } from "../../src/telemetry/logger";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+import type { ApiKey, ServiceAccount } from "../../types/ServiceAccount";
+import type { User } from "../../types/User";
+import { ADMIN_ROLE, inheritedRoles, loadRoles } from "../roles/roleHierarchy";
+import {
+  API_KEYS,
+  SERVICE_ACCOUNTS,
+  fromKeyRow,
+  generateApiKey,
+} from "./apiKeys";
+
+const createAccountSchema = z.object({
+  name: z.string().min(1).max(100),
+  role: z.string().min(1),
+  description: z.string().max(500).optional(),
+});
+
+const scopeSchema = z.object({
+  collection: z.string().min(1),
+  operations: z
+    .array(
+      z.enum([
+        "create",
+        "read",
+        "update",
+        "delete",
+        "reset",
+        "restore",
+        "purge",
+        "publish",
+        "unpublish",
+      ])
+    )
+    .min(1),
+});
+
+const createKeySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  scopes: z.array(scopeSchema).min(1),
+  expiresAt: z.coerce
+    .date()
+    .refine((date) => date > new Date(), "Must lie in the future")
+    .optional(),
+});
+
+/** An issued key: the plain `key` is returned this once and never stored */
+export interface IssuedApiKey {
+  key: string;
+  apiKey: ApiKey;
+}
+
+async function findAccount(
+  db: Pick<IDatabaseStrategy, "read">,
+  accountId: string
+): Promise<ServiceAccount> {
+  const [account] = await db.read(SERVICE_ACCOUNTS, { id: accountId });
+  if (!account) {
+    throw AppError.notFound(`Service account '${accountId}' does not exist`);
+  }
+  return account;
+}
+
+async function findKey(
+  db: Pick<IDatabaseStrategy, "read">,
+  accountId: string,
+  keyId: string
+): Promise<ApiKey> {
+  const [row] = await db.read(API_KEYS, {
+    id: keyId,
+    service_account_id: accountId,
+  });
+  if (!row) {
+    throw AppError.notFound(
+      `API key '${keyId}' of service account '${accountId}' does not exist`
+    );
+  }
+  return fromKeyRow(row);
+}
+
+/**
+ * Only admins act for roles their own role does not include, so no one
+ * holds a service account, or its keys, that outranks them
+ */
+async function assertActsFor(
+  db: Pick<IDatabaseStrategy, "read">,
+  actor: User | undefined,
+  role: string,
+  action: string
+): Promise<void> {
+  if (!actor) return;
+  const own = inheritedRoles(await loadRoles(db), actor.role);
+  if (!own.includes(ADMIN_ROLE) && !own.includes(role)) {
+    throw AppError.forbidden(
+      `Role '${actor.role}' cannot ${action} '${role}' service accounts`
+    );
+  }
+}
+
+async function issueKey(
+  db: Pick<IDatabaseStrategy, "create">,
+  accountId: string,
+  { name, scopes, expiresAt }: z.infer<typeof createKeySchema>
+): Promise<IssuedApiKey> {
+  const { key, prefix, hash } = generateApiKey();
+  const row = await db.create(API_KEYS, {
+    service_account_id: accountId,
+    name: name ?? null,
+    prefix,
+    key_hash: hash,
+    scopes: JSON.stringify(scopes),
+    expires_at: expiresAt ?? null,
+    created_at: new Date(),
+  });
+  return { key, apiKey: fromKeyRow(row) };
+}
+
+export async function listServiceAccounts(
+  db: Pick<IDatabaseStrategy, "read">
+): Promise<ServiceAccount[]> {
+  return db.read(SERVICE_ACCOUNTS, {}, { sort: { field: "name" } });
+}
+
+/** Keys of a service account, newest first, without their hashes */
+export async function listApiKeys(
+  db: Pick<IDatabaseStrategy, "read">,
+  accountId: string
+): Promise<ApiKey[]> {
+  await findAccount(db, accountId);
+  const rows = await db.read(
+    API_KEYS,
+    { service_account_id: accountId },
+    { sort: { field: "id", order: "desc" } }
+  );
+  return rows.map(fromKeyRow);
+}
+
+/** Creates a service account with a role its creator holds */
+export class ServiceAccountCreateCommand implements ICommand<ServiceAccount> {
+  constructor(
+    private db: IDatabaseStrategy,
+    private data: Record<string, any>,
+    private creator?: User
+  ) {}
+
+  async execute(): Promise<ServiceAccount> {
+    const parsed = createAccountSchema.safeParse(this.data);
+    if (!parsed.success) {
+      throw AppError.validationError(
+        "Invalid service account input",
+        parsed.error.flatten()
+      );
+    }
+
+    const { name, role, description } = parsed.data;
+    const roles = await loadRoles(this.db);
+    if (!roles.has(role)) {
+      throw AppError.validationError(`Unknown role '${role}'`, { role });
+    }
+    await assertActsFor(this.db, this.creator, role, "create");
+    const existing = await this.db.read(SERVICE_ACCOUNTS, { name });
+    if (existing.length > 0) {
+      throw AppError.conflict(`Service account '${name}' already exists`);
+    }
+
+    const account = await this.db.create(SERVICE_ACCOUNTS, {
+      name,
+      role,
+      description: description ?? null,
+      created_by: this.creator ? String(this.creator.id) : null,
+      created_at: new Date(),
+    });
+    logger.info({ name, role }, `🤖 Service account '${name}' created`);
+    return account;
+  }
+}
+
+/** Issues a new API key for a service account the caller may act for */
+export class ApiKeyCreateCommand implements ICommand<IssuedApiKey> {
+  constructor(
+    private db: IDatabaseStrategy,
+    private accountId: string,
+    private data: Record<string, any>,
+    private caller?: User
+  ) {}
+
+  async execute(): Promise<IssuedApiKey> {
+    const parsed = createKeySchema.safeParse(this.data);
+    if (!parsed.success) {
+      throw AppError.validationError(
+        "Invalid API key input",
+        parsed.error.flatten()
+      );
+    }
+
+    const account = await findAccount(this.db, this.accountId);
+    await assertActsFor(this.db, this.caller, account.role, "issue keys for");
+    const issued = await issueKey(this.db, this.accountId, parsed.data);
+    logger.info(
+      { accountId: this.accountId, prefix: issued.apiKey.prefix },
+      `🔑 API key issued`
+    );
+    return issued;
+  }
+}
+
+/** Revokes an API key; revoking it again is a no-op */
+export class ApiKeyRevokeCommand implements ICommand<ApiKey> {
+  constructor(
+    private db: IDatabaseStrategy,
+    private accountId: string,
+    private keyId: string,
+    private caller?: User
+  ) {}
+
+  async execute(): Promise<ApiKey> {
+    const account = await findAccount(this.db, this.accountId);
+    await assertActsFor(this.db, this.caller, account.role, "revoke keys of");
+    const key = await findKey(this.db, this.accountId, this.keyId);
+    if (key.revoked_at != null) return key;
+
+    const revokedAt = new Date();
+    await this.db.update(API_KEYS, { id: key.id }, { revoked_at: revokedAt });
+    logger.info({ prefix: key.prefix }, `🔒 API key revoked`);
+    return { ...key, revoked_at: revokedAt };
+  }
+}
+
+/**
+ * Replaces an API key by a new one with the same name, scopes and expiry,
+ * revoking the old key.
+ */
+export class ApiKeyRotateCommand implements ICommand<IssuedApiKey> {
+  constructor(
+    private db: IDatabaseStrategy,
+    private accountId: string,
+    private keyId: string,
+    private caller?: User
+  ) {}
+
+  async execute(): Promise<IssuedApiKey> {
+    const account = await findAccount(this.db, this.accountId);
+    await assertActsFor(this.db, this.caller, account.role, "rotate keys of");
+    const key = await findKey(this.db, this.accountId, this.keyId);
+    if (key.revoked_at != null) {
+      throw AppError.conflict(`API key '${this.keyId}' is revoked`);
+    }
+    const expiresAt = key.expires_at ? new Date(key.expires_at) : undefined;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw AppError.conflict(`API key '${this.keyId}' has expired`);
+    }
+
+    await this.db.update(API_KEYS, { id: key.id }, { revoked_at: new Date() });
+    const issued = await issueKey(this.db, this.accountId, {
+      name: key.name ?? undefined,
+      scopes: key.scopes,
+      expiresAt,
+    });
+    logger.info(
+      { from: key.prefix, to: issued.apiKey.prefix },
+      `🔄 API key rotated`
+    );
+    return issued;
+  }
+}
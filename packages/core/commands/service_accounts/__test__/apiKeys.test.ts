@@ -0,0 +1,214 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { SqliteStrategy } from "../../../database/strategies/sqlite/SqliteStrategy";
+import {
+  ApiKeyCreateCommand,
+  ApiKeyRevokeCommand,
+  ApiKeyRotateCommand,
+  ServiceAccountCreateCommand,
+  listApiKeys,
+} from "../ServiceAccountCommands";
+import { scopeAllows, verifyApiKey } from "../apiKeys";
+import { commandFactory } from "../../../routes/commandRouter";
+import { AppError, ErrorType } from "../../../errors/AppError";
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+const scopes = [{ collection: "posts", operations: ["read"] }];
+
+describe("service accounts and API keys", () => {
+  let tmpDir: string;
+  let db: SqliteStrategy;
+  let accountId: string;
+
+  const issue = (data: Record<string, any> = { scopes }) =>
+    new ApiKeyCreateCommand(db, accountId, data).execute();
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "api-keys-"));
+    db = new SqliteStrategy({ filepath: path.join(tmpDir, "keys.db") });
+    await db.ready;
+    await db.executeRaw(
+      `CREATE TABLE service_accounts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL,
+        description TEXT,
+        created_by TEXT,
+        created_at TEXT
+      )`
+    );
+    await db.executeRaw(
+      `CREATE TABLE api_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        service_account_id INTEGER NOT NULL,
+        name TEXT,
+        prefix TEXT NOT NULL UNIQUE,
+        key_hash TEXT NOT NULL,
+        scopes TEXT NOT NULL,
+        expires_at TEXT,
+        last_used_at TEXT,
+        revoked_at TEXT,
+        created_at TEXT
+      )`
+    );
+    await db.executeRaw(
+      `CREATE TABLE roles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        parents TEXT NOT NULL,
+        permissions TEXT NOT NULL,
+        created_at TEXT
+      )`
+    );
+    for (const [name, parents] of [
+      ["admin", []],
+      ["viewer", []],
+      ["editor", ["viewer"]],
+    ] as const) {
+      await db.create("roles", {
+        name,
+        parents: JSON.stringify(parents),
+        permissions: "{}",
+      });
+    }
+    const account = await new ServiceAccountCreateCommand(db, {
+      name: "site-builder",
+      role: "viewer",
+    }).execute();
+    accountId = String(account.id);
+  });
+
+  afterAll(async () => {
+    await db.disconnect();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("authenticates a key as its service account and tracks its use", async () => {
+    const { key, apiKey } = await issue();
+    expect(key.startsWith(`shk_${apiKey.prefix}_`)).toBe(true);
+    expect(apiKey).not.toHaveProperty("key_hash");
+
+    const user = await verifyApiKey(db, key);
+    expect(user).toMatchObject({
+      role: "viewer",
+      serviceAccountId: accountId,
+      scopes,
+    });
+    const [listed] = await listApiKeys(db, accountId);
+    expect(listed.last_used_at).toBeTruthy();
+  });
+
+  it("rejects unknown, tampered, revoked and expired keys", async () => {
+    const { key, apiKey } = await issue();
+    expect(await verifyApiKey(db, `${key}x`)).toBeNull();
+    expect(await verifyApiKey(db, "shk_nope")).toBeNull();
+
+    await new ApiKeyRevokeCommand(db, accountId, String(apiKey.id)).execute();
+    expect(await verifyApiKey(db, key)).toBeNull();
+
+    const expiring = await issue({
+      scopes,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    const later = new Date(Date.now() + 120_000);
+    expect(await verifyApiKey(db, expiring.key, later)).toBeNull();
+  });
+
+  it("rotates a key into a new one with the same scopes", async () => {
+    const old = await issue({ name: "ci", scopes });
+    const rotated = await new ApiKeyRotateCommand(
+      db,
+      accountId,
+      String(old.apiKey.id)
+    ).execute();
+
+    expect(rotated.apiKey).toMatchObject({ name: "ci", scopes });
+    expect(await verifyApiKey(db, old.key)).toBeNull();
+    expect(await verifyApiKey(db, rotated.key)).not.toBeNull();
+    await expectAppError(
+      new ApiKeyRotateCommand(db, accountId, String(old.apiKey.id)).execute(),
+      ErrorType.CONFLICT
+    );
+  });
+
+  it("keeps accounts from outranking their creator", async () => {
+    await expectAppError(
+      new ServiceAccountCreateCommand(
+        db,
+        { name: "escalated", role: "admin" },
+        { id: "3", role: "editor" }
+      ).execute(),
+      ErrorType.FORBIDDEN
+    );
+  });
+
+  it("keeps keys of higher-ranked accounts from lower roles", async () => {
+    const editor = { id: "3", role: "editor" };
+    const admin = await new ServiceAccountCreateCommand(db, {
+      name: "deployer",
+      role: "admin",
+    }).execute();
+    const adminId = String(admin.id);
+    const { apiKey } = await new ApiKeyCreateCommand(db, adminId, {
+      scopes,
+    }).execute();
+
+    await expectAppError(
+      new ApiKeyCreateCommand(db, adminId, { scopes }, editor).execute(),
+      ErrorType.FORBIDDEN
+    );
+    await expectAppError(
+      new ApiKeyRotateCommand(db, adminId, String(apiKey.id), editor).execute(),
+      ErrorType.FORBIDDEN
+    );
+    await expectAppError(
+      new ApiKeyRevokeCommand(db, adminId, String(apiKey.id), editor).execute(),
+      ErrorType.FORBIDDEN
+    );
+    // Inherited roles still count
+    await new ApiKeyCreateCommand(db, accountId, { scopes }, editor).execute();
+  });
+
+  it("keeps accounts and keys out of generic writes", async () => {
+    // A key of a low-ranked account must not be promoted to admin later
+    const editor = { id: "3", role: "editor" };
+    const build = (operation: any, collection: string) => () =>
+      commandFactory(
+        db,
+        {
+          operation,
+          collection,
+          filter: { id: accountId },
+          data: { role: "admin" },
+        },
+        editor
+      );
+
+    for (const collection of ["service_accounts", "api_keys"]) {
+      for (const operation of ["create", "update", "upsert", "delete"]) {
+        expect(build(operation, collection)).toThrow(
+          `Unsupported operation '${operation}' for ${collection}`
+        );
+      }
+    }
+    expect(build("read", "service_accounts")).not.toThrow();
+  });
+
+  it("matches scopes by collection and operation", () => {
+    const granted = [
+      { collection: "posts", operations: ["read" as const] },
+      { collection: "*", operations: ["create" as const] },
+    ];
+    expect(scopeAllows(granted, "posts", "read")).toBe(true);
+    expect(scopeAllows(granted, "pages", "create")).toBe(true);
+    expect(scopeAllows(granted, "posts", "delete")).toBe(false);
+  });
+});
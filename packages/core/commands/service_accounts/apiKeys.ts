@@ -0,0 +1,103 @@
+// packages/core/commands/service_accounts/apiKeys.ts
+
+import crypto from "node:crypto";
+import type { IDatabaseStrategy } from "../../database/IDatabaseStrategy";
+import type { ApiKey, ApiKeyScope } from "../../types/ServiceAccount";
+import type { User } from "../../types/User";
+import type { CollectionOperation } from "../../middleware/authorizeCollectionActionMiddleware";
+
+export const SERVICE_ACCOUNTS = "service_accounts";
+export const API_KEYS = "api_keys";
+
+/** Marks a bearer token as an API key rather than a JWT */
+export const API_KEY_PREFIX = "shk_";
+
+/** How stale `last_used_at` may get before a request refreshes it */
+const LAST_USED_PRECISION_MS = 60_000;
+
+/** Keys are random, so a fast hash is enough to keep them out of storage */
+export const hashApiKey = (key: string) =>
+  crypto.createHash("sha256").update(key).digest("hex");
+
+/** A new key as `shk_<prefix>_<secret>`, its lookup prefix and hash */
+export function generateApiKey(): {
+  key: string;
+  prefix: string;
+  hash: string;
+} {
+  const prefix = crypto.randomBytes(6).toString("hex");
+  const secret = crypto.randomBytes(24).toString("base64url");
+  const key = `${API_KEY_PREFIX}${prefix}_${secret}`;
+  return { key, prefix, hash: hashApiKey(key) };
+}
+
+export const isApiKey = (token: string) => token.startsWith(API_KEY_PREFIX);
+
+const prefixOf = (key: string): string | null =>
+  /^shk_([0-9a-f]{12})_[A-Za-z0-9_-]+$/.exec(key)?.[1] ?? null;
+
+// SQL engines hand JSON columns back as text
+export const fromKeyRow = ({ key_hash: _, ...row }: any): ApiKey => ({
+  ...row,
+  scopes: typeof row.scopes === "string" ? JSON.parse(row.scopes) : row.scopes,
+});
+
+/** Whether one of the scopes grants `operation` on `collection` */
+export const scopeAllows = (
+  scopes: ApiKeyScope[],
+  collection: string,
+  operation: CollectionOperation
+) =>
+  scopes.some(
+    (scope) =>
+      (scope.collection === "*" || scope.collection === collection) &&
+      scope.operations.includes(operation)
+  );
+
+const timestamp = (value: unknown): number | null =>
+  value == null ? null : new Date(value as string | Date).getTime();
+
+/**
+ * The user an API key authenticates as, or null when the key is unknown,
+ * revoked or expired. Records when the key was last used.
+ */
+export async function verifyApiKey(
+  db: Pick<IDatabaseStrategy, "read" | "update">,
+  key: string,
+  now = new Date()
+): Promise<User | null> {
+  const prefix = prefixOf(key);
+  if (!prefix) return null;
+
+  const [row] = await db.read(API_KEYS, { prefix });
+  if (!row) return null;
+  const expected = Buffer.from(String(row.key_hash), "hex");
+  const actual = Buffer.from(hashApiKey(key), "hex");
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+  if (row.revoked_at != null) return null;
+  const expiresAt = timestamp(row.expires_at);
+  if (expiresAt !== null && expiresAt <= now.getTime()) return null;
+
+  const [account] = await db.read(SERVICE_ACCOUNTS, {
+    id: row.service_account_id,
+  });
+  if (!account) return null;
+
+  const lastUsed = timestamp(row.last_used_at);
+  if (lastUsed === null || now.getTime() - lastUsed > LAST_USED_PRECISION_MS) {
+    await db.update(API_KEYS, { id: row.id }, { last_used_at: now });
+  }
+
+  return {
+    id: `service:${account.id}`,
+    role: account.role,
+    username: account.name,
+    serviceAccountId: String(account.id),
+    scopes: fromKeyRow(row).scopes,
+  };
+}
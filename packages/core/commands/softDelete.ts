@@ -0,0 +1,58 @@
+// packages/core/commands/softDelete.ts
+
+import { AppError } from "../errors/AppError";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
+import type { TrashScope } from "../database/types/QueryOptions";
+import { loadCollectionDefinition } from "./validatePayload";
+
+/** Columns a `soft_delete` collection keeps its trash state in */
+export const DELETED_AT = "deleted_at";
+export const DELETED_BY = "deleted_by";
+
+/** Whether deletes on the collection move records to the trash */
+export async function isSoftDeleting(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string
+): Promise<boolean> {
+  return !!(await loadCollectionDefinition(db, collection))?.soft_delete;
+}
+
+/** Narrows `filter` to live records, trashed ones, or both */
+export function scopeToTrash(
+  filter: Filter,
+  scope: TrashScope = "exclude"
+): Filter {
+  if (scope === "include") return filter;
+  return { and: [filter, { [DELETED_AT]: { isNull: scope === "exclude" } }] };
+}
+
+const notSoftDeleting = (collection: string) =>
+  AppError.validationError(`'${collection}' does not keep deleted records`, {
+    collection,
+  });
+
+/** Rejects trash operations on collections without `soft_delete` */
+export async function assertSoftDeleting(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string
+): Promise<void> {
+  if (!(await isSoftDeleting(db, collection))) {
+    throw notSoftDeleting(collection);
+  }
+}
+
+/**
+ * `filter` limited to `scope` on soft-delete collections. Asking for the
+ * trash of any other collection is an error; `include` is a no-op.
+ */
+export async function trashScopedFilter(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string,
+  filter: Filter,
+  scope: TrashScope = "exclude"
+): Promise<Filter> {
+  if (await isSoftDeleting(db, collection)) return scopeToTrash(filter, scope);
+  if (scope === "only") throw notSoftDeleting(collection);
+  return filter;
+}
@@ -0,0 +1,94 @@
+// packages/core/commands/validatePayload.ts
+
+import type { ZodError, ZodObject, ZodRawShape } from "zod";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { CollectionDefinition } from "../database/types/CollectionSchema";
+import { CORE_COLLECTIONS } from "../database/schema/SchemaService";
+import { collectionDefinitionSchema } from "../schemas/collectionSchemaDefinition";
+import { compileCollectionSchema } from "../schemas/compileCollectionSchema";
+
+interface CompiledCollection {
+  definition: CollectionDefinition;
+  validator: ZodObject<ZodRawShape>;
+}
+
+/** Compiled definitions by collection; `null` when it has none */
+const compiled = new Map<string, CompiledCollection | null>();
+
+/** Drops a cached validator after its definition changed */
+export function invalidateCollectionValidator(collection: string): void {
+  compiled.delete(collection);
+}
+
+async function loadCompiled(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string
+): Promise<CompiledCollection | null> {
+  if (compiled.has(collection)) return compiled.get(collection)!;
+
+  const [record] = await db.read("collection_schemas", {
+    collection_name: collection,
+  });
+  let entry: CompiledCollection | null = null;
+  if (record) {
+    const parsed = collectionDefinitionSchema.safeParse(record);
+    if (!parsed.success) {
+      throw AppError.internal(
+        `Stored schema for '${collection}' is invalid`,
+        parsed.error
+      );
+    }
+    entry = {
+      definition: parsed.data,
+      validator: compileCollectionSchema(parsed.data),
+    };
+    logger.debug(`🧩 Compiled validator for '${collection}'`);
+  }
+
+  compiled.set(collection, entry);
+  return entry;
+}
+
+/** The collection's `collection_schemas` definition, cached like validators */
+export async function loadCollectionDefinition(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string
+): Promise<CollectionDefinition | null> {
+  if (CORE_COLLECTIONS.has(collection)) return null;
+  return (await loadCompiled(db, collection))?.definition ?? null;
+}
+
+const toIssues = (error: ZodError) =>
+  error.issues.flatMap((issue) =>
+    issue.code === "unrecognized_keys"
+      ? issue.keys.map((key) => ({ field: key, message: "Unknown field" }))
+      : [{ field: issue.path.join("."), message: issue.message }]
+  );
+
+/**
+ * Checks a write payload against the collection's `collection_schemas`
+ * definition. `partial` validates only the fields present, for updates.
+ * Collections without a definition, and the core collections, which
+ * have their own commands, are written as sent.
+ */
+export async function validatePayload(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string,
+  data: Record<string, any>,
+  { partial = false } = {}
+): Promise<void> {
+  if (CORE_COLLECTIONS.has(collection)) return;
+
+  const validator = (await loadCompiled(db, collection))?.validator;
+  if (!validator) return;
+
+  const result = (partial ? validator.partial() : validator).safeParse(data);
+  if (!result.success) {
+    throw AppError.validationError(`Invalid payload for '${collection}'`, {
+      collection,
+      issues: toIssues(result.error),
+    });
+  }
+}
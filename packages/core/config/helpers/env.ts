@@ -2,7 +2,7 @@ import { Config } from "../config";
 import type { ModuleConfigSchema } from "../types";
 
 export function loadResolvedConfigForModule(
-  engine: "postgres" | "mongo" | "sqlite" | "mock"
+  engine: "postgres" | "mongo" | "sqlite" | "mock" | "mysql"
 ): Record<string, any> {
   const schema: ModuleConfigSchema | undefined = Config.getModuleSchema(engine);
 
@@ -9,12 +9,14 @@ import type {
   PostgresConfig,
   MongoConfig,
   SqliteConfig,
+  MysqlConfig,
 } from "./types";
 
 import { MockDatabaseStrategy } from "./strategies/mock/MockDatabaseStrategy";
 import { PostgresStrategy } from "./strategies/postgres/PostgresStrategy";
 import { MongoStrategy } from "./strategies/mongo/MongoStrategy";
 import { SqliteStrategy } from "./strategies/sqlite/SqliteStrategy";
+import { MysqlStrategy } from "./strategies/mysql/MysqlStrategy";
 import { Config } from "../config/config";
 import { IDatabaseStrategy } from "./IDatabaseStrategy";
 import { loadEnvConfigValue } from "../utils/envLoader";
@@ -35,6 +37,7 @@ export class DatabaseStrategyFactory {
     postgres: (config, logger) => new PostgresStrategy(config, logger),
     mongo: (config, logger) => new MongoStrategy(config, logger),
     sqlite: (config, logger) => new SqliteStrategy(config, logger),
+    mysql: (config, logger) => new MysqlStrategy(config, logger),
   };
   AppError;
 
@@ -59,6 +62,10 @@ export class DatabaseStrategyFactory {
     engine: "sqlite",
     config: SqliteConfig
   ): Promise<SqliteStrategy>;
+  static async create(
+    engine: "mysql",
+    config: MysqlConfig
+  ): Promise<MysqlStrategy>;
   static async create(
     engine: CustomEngine,
     config: any
@@ -73,7 +80,9 @@ export class DatabaseStrategyFactory {
           ? MongoConfig
           : T extends "sqlite"
             ? SqliteConfig
-            : any
+            : T extends "mysql"
+              ? MysqlConfig
+              : any
   ): Promise<IDatabaseStrategy>;
 
   static async create(
@@ -1,5 +1,8 @@
 // /packages/core/database/IDatabaseStrategy.ts
 import { QueryOptions } from "./types/QueryOptions";
+import type { Filter } from "./types/Filter";
+import type { AggregateQuery, AggregateRow } from "./types/Aggregate";
+import type { WriteResult } from "./types/WriteResult";
 export type ConnectionStatus = "connecting" | "ready" | "error";
 export interface IDatabaseStrategy {
   ready: Promise<void>;
@@ -9,9 +12,32 @@ export interface IDatabaseStrategy {
   disconnect(): Promise<void>;
 
   create(collection: string, data: any): Promise<any>;
-  read(collection: string, query: any, options?: QueryOptions): Promise<any>;
-  update(collection: string, query: any, data: any): Promise<any>;
-  delete(collection: string, query: any): Promise<any>;
+  read(collection: string, query: Filter, options?: QueryOptions): Promise<any>;
+  update(collection: string, query: Filter, data: any): Promise<any>;
+  delete(collection: string, query: Filter): Promise<any>;
+  count(collection: string, query?: Filter): Promise<number>;
+
+  createMany(collection: string, items: any[]): Promise<WriteResult>;
+  /** Inserts `data`, or updates the record whose `conflictKeys` match */
+  upsert(
+    collection: string,
+    conflictKeys: string[],
+    data: any
+  ): Promise<WriteResult>;
+  updateMany(
+    collection: string,
+    query: Filter,
+    data: any
+  ): Promise<WriteResult>;
+  deleteMany(collection: string, query: Filter): Promise<WriteResult>;
+
+  aggregate(collection: string, query: AggregateQuery): Promise<AggregateRow[]>;
+
+  /**
+   * Runs `work` against a strategy scoped to one transaction. The
+   * transaction commits when `work` resolves and rolls back when it throws.
+   */
+  transaction<T>(work: (tx: IDatabaseStrategy) => Promise<T>): Promise<T>;
 
   healthCheck(): Promise<{ ok: boolean; latency: number }>;
   on(event: "connect" | "disconnect", listener: () => void): void;
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { MockDatabaseStrategy } from "../../strategies/mock/MockDatabaseStrategy";
+import { SqliteStrategy } from "../../strategies/sqlite/SqliteStrategy";
+import { AppError } from "../../../errors/AppError";
+import type { Filter } from "../../types/Filter";
+
+const rows = [
+  { id: 1, title: "Hello World", status: "published", views: 10 },
+  { id: 2, title: "hello there", status: "draft", views: 3 },
+  { id: 3, title: "Goodbye", status: "published", views: null },
+  { id: 4, title: "Draft 100%", status: null, views: 42 },
+];
+
+const cases: [string, Filter, number[]][] = [
+  ["equality", { status: "published" }, [1, 3]],
+  ["eq null", { status: null }, [4]],
+  ["ne keeps nulls", { status: { ne: "draft" } }, [1, 3, 4]],
+  ["range", { views: { gt: 3, lte: 42 } }, [1, 4]],
+  ["in", { id: { in: [2, 4] } }, [2, 4]],
+  ["in with null", { status: { in: ["draft", null] } }, [2, 4]],
+  ["nin keeps nulls", { status: { nin: ["draft"] } }, [1, 3, 4]],
+  ["like is case-sensitive", { title: { like: "Hello%" } }, [1]],
+  ["ilike", { title: { ilike: "hello%" } }, [1, 2]],
+  ["isNull", { views: { isNull: true } }, [3]],
+  ["or", { or: [{ status: "draft" }, { views: { gte: 40 } }] }, [2, 4]],
+  ["not", { not: { status: "published" } }, [2, 4]],
+  ["not range", { not: { views: { gt: 5 } } }, [2, 3]],
+  ["empty or", { or: [] }, []],
+];
+
+let dir: string;
+let mock: MockDatabaseStrategy;
+let sqlite: SqliteStrategy;
+
+beforeAll(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "shikor-filters-"));
+  mock = new MockDatabaseStrategy();
+  sqlite = new SqliteStrategy({ filepath: path.join(dir, "filters.db") });
+  await sqlite.ready;
+  await sqlite.executeRaw(
+    "CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT, status TEXT, views INTEGER)"
+  );
+
+  for (const row of rows) {
+    const { id, ...rest } = row;
+    await mock.create("posts", rest);
+    await sqlite.create("posts", row);
+  }
+});
+
+afterAll(async () => {
+  await sqlite.disconnect();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("filter DSL", () => {
+  it.each(cases)("%s", async (_name, filter, expected) => {
+    const fromMock = await mock.read("posts", filter, {
+      sort: { field: "id" },
+    });
+    const fromSqlite = await sqlite.read("posts", filter, {
+      sort: { field: "id" },
+    });
+
+    expect(fromMock.map((r: any) => r.id)).toEqual(expected);
+    expect(fromSqlite.map((r: any) => r.id)).toEqual(expected);
+  });
+
+  it("rejects unsupported operators with a validation error", async () => {
+    const attempt = mock.read("posts", { views: { $where: "1" } } as any);
+    await expect(attempt).rejects.toBeInstanceOf(AppError);
+    await expect(attempt).rejects.toMatchObject({ code: "VALIDATION_FAILED" });
+  });
+
+  it("rejects unsafe field names", async () => {
+    await expect(
+      sqlite.read("posts", { "id; DROP TABLE posts": 1 })
+    ).rejects.toMatchObject({ code: "VALIDATION_FAILED" });
+  });
+});
@@ -0,0 +1,6 @@
+// packages/core/database/filters/index.ts
+export * from "./parseFilter";
+export * from "./knexFilter";
+export * from "./sqlFilter";
+export * from "./mongoFilter";
+export * from "./matchFilter";
@@ -0,0 +1,89 @@
+// packages/core/database/filters/knexFilter.ts
+import type { Knex } from "knex";
+import type { FilterNode } from "../types/Filter";
+
+type Builder = Knex.QueryBuilder | Knex.QueryInterface;
+
+// NULL never satisfies `<>` / `NOT IN` in SQL, while the document stores treat
+// missing values as "not equal". Including NULLs keeps results identical.
+function applyCondition(
+  qb: Knex.QueryBuilder,
+  node: Extract<FilterNode, { kind: "condition" }>
+): void {
+  const { field, op, value } = node;
+
+  switch (op) {
+    case "eq":
+      if (value === null) qb.whereNull(field);
+      else qb.where(field, value);
+      return;
+    case "ne":
+      if (value === null) qb.whereNotNull(field);
+      else qb.where((b) => b.whereNot(field, value).orWhereNull(field));
+      return;
+    case "gt":
+      qb.where(field, ">", value);
+      return;
+    case "gte":
+      qb.where(field, ">=", value);
+      return;
+    case "lt":
+      qb.where(field, "<", value);
+      return;
+    case "lte":
+      qb.where(field, "<=", value);
+      return;
+    case "in":
+      if (value.length === 0) qb.whereRaw("1 = 0");
+      else qb.whereIn(field, value);
+      return;
+    case "nin":
+      if (value.length > 0) {
+        qb.where((b) => b.whereNotIn(field, value).orWhereNull(field));
+      }
+      return;
+    case "like":
+      qb.whereLike(field, value);
+      return;
+    case "ilike":
+      qb.whereILike(field, value);
+      return;
+    case "isNull":
+      if (value) qb.whereNull(field);
+      else qb.whereNotNull(field);
+      return;
+  }
+}
+
+function applyNode(qb: Knex.QueryBuilder, node: FilterNode): void {
+  switch (node.kind) {
+    case "condition":
+      applyCondition(qb, node);
+      return;
+    case "and":
+      for (const child of node.nodes) {
+        qb.where((b) => applyNode(b, child));
+      }
+      return;
+    case "or":
+      if (node.nodes.length === 0) {
+        qb.whereRaw("1 = 0");
+        return;
+      }
+      qb.where((group) => {
+        for (const child of node.nodes) {
+          group.orWhere((b) => applyNode(b, child));
+        }
+      });
+      return;
+    case "not":
+      qb.whereNot((b) => applyNode(b, node.node));
+      return;
+  }
+}
+
+/** Applies a parsed filter to a Knex query builder */
+export function applyKnexFilter<T extends Builder>(qb: T, node: FilterNode): T {
+  applyNode(qb as Knex.QueryBuilder, node);
+  return qb;
+}
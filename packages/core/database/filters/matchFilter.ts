@@ -0,0 +1,82 @@
+// packages/core/database/filters/matchFilter.ts
+import type { FilterNode } from "../types/Filter";
+import { likeToRegExp } from "./mongoFilter";
+
+function getPath(record: Record<string, any>, field: string): any {
+  return field
+    .split(".")
+    .reduce((value, key) => (value == null ? undefined : value[key]), record);
+}
+
+function comparable(value: any): any {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function equals(a: any, b: any): boolean {
+  if (a == null || b == null) return a == null && b == null;
+  return comparable(a) === comparable(b);
+}
+
+function compare(a: any, b: any): number | undefined {
+  if (a == null || b == null) return undefined;
+  const left = comparable(a);
+  const right = comparable(b);
+  if (left < right) return -1;
+  if (left > right) return 1;
+  return 0;
+}
+
+function matchCondition(
+  record: Record<string, any>,
+  node: Extract<FilterNode, { kind: "condition" }>
+): boolean {
+  const actual = getPath(record, node.field);
+  const { op, value } = node;
+
+  switch (op) {
+    case "eq":
+      return equals(actual, value);
+    case "ne":
+      return !equals(actual, value);
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      const cmp = compare(actual, value);
+      if (cmp === undefined) return false;
+      if (op === "gt") return cmp > 0;
+      if (op === "gte") return cmp >= 0;
+      if (op === "lt") return cmp < 0;
+      return cmp <= 0;
+    }
+    case "in":
+      return value.some((v: any) => equals(actual, v));
+    case "nin":
+      return !value.some((v: any) => equals(actual, v));
+    case "like":
+    case "ilike":
+      return (
+        typeof actual === "string" &&
+        likeToRegExp(value, op === "ilike").test(actual)
+      );
+    case "isNull":
+      return (actual == null) === value;
+  }
+}
+
+/** Evaluates a parsed filter against an in-memory record */
+export function matchesFilter(
+  record: Record<string, any>,
+  node: FilterNode
+): boolean {
+  switch (node.kind) {
+    case "condition":
+      return matchCondition(record, node);
+    case "and":
+      return node.nodes.every((child) => matchesFilter(record, child));
+    case "or":
+      return node.nodes.some((child) => matchesFilter(record, child));
+    case "not":
+      return !matchesFilter(record, node.node);
+  }
+}
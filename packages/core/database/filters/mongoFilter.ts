@@ -0,0 +1,73 @@
+// packages/core/database/filters/mongoFilter.ts
+import { ObjectId, type Document } from "mongodb";
+import type { FilterNode } from "../types/Filter";
+
+/** Turns an SQL LIKE pattern into an anchored regular expression */
+export function likeToRegExp(pattern: string, caseInsensitive = false): RegExp {
+  const source = pattern
+    .split("")
+    .map((ch) => {
+      if (ch === "%") return ".*";
+      if (ch === "_") return ".";
+      return ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, caseInsensitive ? "is" : "s");
+}
+
+// Clients only ever see ids as strings, so convert them back for `_id`
+function toMongoValue(field: string, value: any): any {
+  if (field === "_id" && typeof value === "string" && ObjectId.isValid(value)) {
+    return new ObjectId(value);
+  }
+  return value;
+}
+
+function compileCondition(
+  node: Extract<FilterNode, { kind: "condition" }>
+): Document {
+  const { field, op, value } = node;
+
+  switch (op) {
+    case "eq":
+      return { [field]: { $eq: toMongoValue(field, value) } };
+    case "ne":
+      return { [field]: { $ne: toMongoValue(field, value) } };
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte":
+      return { [field]: { [`$${op}`]: toMongoValue(field, value) } };
+    case "in":
+    case "nin":
+      return {
+        [field]: {
+          [`$${op}`]: value.map((v: any) => toMongoValue(field, v)),
+        },
+      };
+    case "like":
+      return { [field]: { $regex: likeToRegExp(value) } };
+    case "ilike":
+      return { [field]: { $regex: likeToRegExp(value, true) } };
+    case "isNull":
+      return value ? { [field]: { $eq: null } } : { [field]: { $ne: null } };
+  }
+}
+
+/** Translates a parsed filter into a MongoDB query document */
+export function toMongoFilter(node: FilterNode): Document {
+  switch (node.kind) {
+    case "condition":
+      return compileCondition(node);
+    case "and":
+      if (node.nodes.length === 0) return {};
+      if (node.nodes.length === 1) return toMongoFilter(node.nodes[0]);
+      return { $and: node.nodes.map(toMongoFilter) };
+    case "or":
+      // `$or` rejects an empty array; an empty OR matches nothing
+      if (node.nodes.length === 0) return { $expr: false };
+      return { $or: node.nodes.map(toMongoFilter) };
+    case "not":
+      return { $nor: [toMongoFilter(node.node)] };
+  }
+}
@@ -0,0 +1,262 @@
+// packages/core/database/filters/parseFilter.ts
+import { AppError } from "../../errors/AppError";
+import type { Filter, FilterNode, FilterOperator } from "../types/Filter";
+
+const OPERATORS: FilterOperator[] = [
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "nin",
+  "like",
+  "ilike",
+  "isNull",
+];
+
+const LOGICAL_KEYS = ["and", "or", "not"];
+
+// Plain column names, optionally dotted for nested (Mongo) paths
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/;
+
+export function isValidFieldName(field: string): boolean {
+  return FIELD_PATTERN.test(field);
+}
+
+export function assertValidFieldName(field: string): void {
+  if (!isValidFieldName(field)) {
+    throw AppError.validationError(`Invalid field name '${field}'`, { field });
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function isScalar(value: unknown): boolean {
+  return (
+    value === null ||
+    value instanceof Date ||
+    ["string", "number", "boolean"].includes(typeof value)
+  );
+}
+
+function parseCondition(field: string, op: string, value: unknown): FilterNode {
+  if (!OPERATORS.includes(op as FilterOperator)) {
+    throw AppError.validationError(
+      `Unsupported filter operator '${op}' on field '${field}'`,
+      { field, operator: op, supported: OPERATORS }
+    );
+  }
+
+  switch (op) {
+    case "in":
+    case "nin":
+      if (!Array.isArray(value) || !value.every(isScalar)) {
+        throw AppError.validationError(
+          `Operator '${op}' on '${field}' expects an array of values`,
+          { field, operator: op }
+        );
+      }
+      break;
+    case "like":
+    case "ilike":
+      if (typeof value !== "string") {
+        throw AppError.validationError(
+          `Operator '${op}' on '${field}' expects a string pattern`,
+          { field, operator: op }
+        );
+      }
+      break;
+    case "isNull":
+      if (typeof value !== "boolean") {
+        throw AppError.validationError(
+          `Operator 'isNull' on '${field}' expects a boolean`,
+          { field, operator: op }
+        );
+      }
+      break;
+    default:
+      if (!isScalar(value)) {
+        throw AppError.validationError(
+          `Operator '${op}' on '${field}' expects a scalar value`,
+          { field, operator: op }
+        );
+      }
+  }
+
+  // SQL never matches NULL inside IN lists, so split it into an isNull check
+  if ((op === "in" || op === "nin") && (value as unknown[]).includes(null)) {
+    const rest = (value as unknown[]).filter((v) => v !== null);
+    const nullCheck: FilterNode = {
+      kind: "condition",
+      field,
+      op: "isNull",
+      value: op === "in",
+    };
+    return {
+      kind: op === "in" ? "or" : "and",
+      nodes: [{ kind: "condition", field, op, value: rest }, nullCheck],
+    };
+  }
+
+  return { kind: "condition", field, op: op as FilterOperator, value };
+}
+
+function condition(
+  field: string,
+  op: FilterOperator,
+  value: unknown
+): FilterNode {
+  return { kind: "condition", field, op, value };
+}
+
+const RANGE_INVERSE: Partial<Record<FilterOperator, FilterOperator>> = {
+  gt: "lte",
+  gte: "lt",
+  lt: "gte",
+  lte: "gt",
+};
+
+/**
+ * Pushes a negation down to the leaves. Missing/NULL values never match a
+ * comparison but always match its negation, the way MongoDB evaluates them,
+ * so the SQL translators don't have to reason about three-valued logic.
+ * Only `like`/`ilike` keep an explicit `not` node.
+ */
+function negate(node: FilterNode): FilterNode {
+  switch (node.kind) {
+    case "not":
+      return node.node;
+    case "and":
+      return { kind: "or", nodes: node.nodes.map(negate) };
+    case "or":
+      return { kind: "and", nodes: node.nodes.map(negate) };
+  }
+
+  const { field, op, value } = node;
+  const orNull = (inner: FilterNode): FilterNode => ({
+    kind: "or",
+    nodes: [inner, condition(field, "isNull", true)],
+  });
+
+  switch (op) {
+    case "eq":
+      return value === null
+        ? condition(field, "isNull", false)
+        : condition(field, "ne", value);
+    case "ne":
+      return value === null
+        ? condition(field, "isNull", true)
+        : condition(field, "eq", value);
+    case "in":
+      return condition(field, "nin", value);
+    case "nin":
+      return condition(field, "in", value);
+    case "isNull":
+      return condition(field, "isNull", !value);
+    case "like":
+    case "ilike":
+      return orNull({ kind: "not", node });
+    default:
+      return orNull(condition(field, RANGE_INVERSE[op]!, value));
+  }
+}
+
+function parseField(field: string, value: unknown): FilterNode {
+  assertValidFieldName(field);
+
+  if (isPlainObject(value)) {
+    const ops = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (ops.length === 0) {
+      throw AppError.validationError(`Empty condition for field '${field}'`, {
+        field,
+      });
+    }
+    const nodes = ops.map(([op, v]) => parseCondition(field, op, v));
+    return nodes.length === 1 ? nodes[0] : { kind: "and", nodes };
+  }
+
+  if (Array.isArray(value)) {
+    return parseCondition(field, "in", value);
+  }
+
+  return parseCondition(field, "eq", value);
+}
+
+function parseList(key: string, value: unknown): FilterNode[] {
+  if (!Array.isArray(value) || !value.every(isPlainObject)) {
+    throw AppError.validationError(`'${key}' expects an array of filters`);
+  }
+  return value.map((entry) => parseFilter(entry as Filter));
+}
+
+/**
+ * Validates a filter and normalizes it into a `FilterNode` tree.
+ * Throws `AppError.validationError` for unknown operators or malformed input.
+ */
+export function parseFilter(filter: Filter | undefined | null): FilterNode {
+  if (filter == null) return { kind: "and", nodes: [] };
+
+  if (!isPlainObject(filter)) {
+    throw AppError.validationError("Filter must be an object");
+  }
+
+  const nodes: FilterNode[] = [];
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+
+    if (LOGICAL_KEYS.includes(key)) {
+      if (key === "not") {
+        if (!isPlainObject(value)) {
+          throw AppError.validationError("'not' expects a filter object");
+        }
+        nodes.push(negate(parseFilter(value as Filter)));
+      } else {
+        nodes.push({
+          kind: key as "and" | "or",
+          nodes: parseList(key, value),
+        });
+      }
+      continue;
+    }
+
+    nodes.push(parseField(key, value));
+  }
+
+  return nodes.length === 1 ? nodes[0] : { kind: "and", nodes };
+}
+
+/** Combines several filters with AND, skipping empty ones */
+export function andFilters(...filters: (FilterNode | undefined)[]): FilterNode {
+  const nodes = filters.filter(
+    (node): node is FilterNode =>
+      !!node && !(node.kind === "and" && node.nodes.length === 0)
+  );
+  return nodes.length === 1 ? nodes[0] : { kind: "and", nodes };
+}
+
+/** True when the node matches every record */
+export function isEmptyFilter(node: FilterNode): boolean {
+  return node.kind === "and" && node.nodes.length === 0;
+}
+
+/** Every field a filter tree compares, in tree order */
+export function filterFields(node: FilterNode): string[] {
+  switch (node.kind) {
+    case "condition":
+      return [node.field];
+    case "not":
+      return filterFields(node.node);
+    default:
+      return node.nodes.flatMap(filterFields);
+  }
+}
@@ -0,0 +1,112 @@
+// packages/core/database/filters/sqlFilter.ts
+import type { FilterNode } from "../types/Filter";
+
+export interface CompiledSql {
+  sql: string;
+  params: unknown[];
+}
+
+/** Quotes a (possibly dotted) identifier for SQLite */
+export function quoteIdentifier(field: string): string {
+  return field
+    .split(".")
+    .map((part) => `"${part.replace(/"/g, '""')}"`)
+    .join(".");
+}
+
+/** Rewrites an SQL LIKE pattern as a (case-sensitive) SQLite GLOB pattern */
+export function likeToGlob(pattern: string): string {
+  return pattern
+    .split("")
+    .map((ch) => {
+      if (ch === "%") return "*";
+      if (ch === "_") return "?";
+      if (ch === "*" || ch === "?" || ch === "[") return `[${ch}]`;
+      return ch;
+    })
+    .join("");
+}
+
+/** Converts JS values into something better-sqlite3 can bind */
+export function toSqliteValue(value: unknown): unknown {
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (value !== null && typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+function compileCondition(
+  node: Extract<FilterNode, { kind: "condition" }>
+): CompiledSql {
+  const col = quoteIdentifier(node.field);
+  const { op, value } = node;
+
+  switch (op) {
+    case "eq":
+      return value === null
+        ? { sql: `${col} IS NULL`, params: [] }
+        : { sql: `${col} = ?`, params: [toSqliteValue(value)] };
+    case "ne":
+      return value === null
+        ? { sql: `${col} IS NOT NULL`, params: [] }
+        : {
+            sql: `(${col} <> ? OR ${col} IS NULL)`,
+            params: [toSqliteValue(value)],
+          };
+    case "gt":
+      return { sql: `${col} > ?`, params: [toSqliteValue(value)] };
+    case "gte":
+      return { sql: `${col} >= ?`, params: [toSqliteValue(value)] };
+    case "lt":
+      return { sql: `${col} < ?`, params: [toSqliteValue(value)] };
+    case "lte":
+      return { sql: `${col} <= ?`, params: [toSqliteValue(value)] };
+    case "in":
+    case "nin": {
+      if (value.length === 0) {
+        return { sql: op === "in" ? "1 = 0" : "1 = 1", params: [] };
+      }
+      const placeholders = value.map(() => "?").join(", ");
+      const params = value.map(toSqliteValue);
+      return op === "in"
+        ? { sql: `${col} IN (${placeholders})`, params }
+        : {
+            sql: `(${col} NOT IN (${placeholders}) OR ${col} IS NULL)`,
+            params,
+          };
+    }
+    // SQLite's LIKE ignores case, GLOB matches Postgres' LIKE semantics
+    case "like":
+      return { sql: `${col} GLOB ?`, params: [likeToGlob(value)] };
+    case "ilike":
+      return { sql: `LOWER(${col}) LIKE LOWER(?)`, params: [value] };
+    case "isNull":
+      return { sql: `${col} IS ${value ? "" : "NOT "}NULL`, params: [] };
+  }
+}
+
+/** Compiles a parsed filter into a parameterized SQLite WHERE expression */
+export function compileSqlFilter(node: FilterNode): CompiledSql {
+  switch (node.kind) {
+    case "condition":
+      return compileCondition(node);
+    case "and":
+    case "or": {
+      if (node.nodes.length === 0) {
+        return { sql: node.kind === "and" ? "1 = 1" : "1 = 0", params: [] };
+      }
+      const parts = node.nodes.map(compileSqlFilter);
+      const joiner = node.kind === "and" ? " AND " : " OR ";
+      return {
+        sql: `(${parts.map((p) => p.sql).join(joiner)})`,
+        params: parts.flatMap((p) => p.params),
+      };
+    }
+    case "not": {
+      const inner = compileSqlFilter(node.node);
+      return { sql: `NOT ${inner.sql}`, params: inner.params };
+    }
+  }
+}
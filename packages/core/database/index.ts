@@ -2,3 +2,12 @@
 export * from "./IDatabaseStrategy";
 export * from "./types";
 export * from "./DatabaseStrategyFactory";
+export * from "./types/Filter";
+export * from "./types/QueryOptions";
+export * from "./types/Pagination";
+export * from "./types/Aggregate";
+export * from "./types/WriteResult";
+export * from "./types/CollectionSchema";
+export * from "./types/Migration";
+export * from "./types/Seed";
+export * from "./types/Revision";
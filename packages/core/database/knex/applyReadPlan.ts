@@ -0,0 +1,93 @@
+// packages/core/database/knex/applyReadPlan.ts
+import type { Knex } from "knex";
+import type { ReadPlan } from "../types/QueryOptions";
+import type { FilterNode } from "../types/Filter";
+import type { AggregatePlan, AggregateRow } from "../types/Aggregate";
+import { applyKnexFilter } from "../filters/knexFilter";
+
+/**
+ * Applies filter, ordering, paging and included columns of a `ReadPlan`
+ * to a Knex query. Exclusions are left to `applyExclusions`.
+ */
+export function applyReadPlan(
+  qb: Knex.QueryBuilder,
+  plan: ReadPlan
+): Knex.QueryBuilder {
+  let query = applyKnexFilter(qb, plan.filter);
+
+  if (plan.projection && "include" in plan.projection) {
+    query = query.select(plan.projection.include);
+  }
+
+  for (const { field, order } of plan.sort) {
+    query = query.orderBy(field, order ?? "asc");
+  }
+
+  if (typeof plan.limit === "number") {
+    query = query.limit(plan.limit);
+  }
+
+  if (typeof plan.offset === "number") {
+    query = query.offset(plan.offset);
+  }
+
+  return query;
+}
+
+/** Counts rows matching a filter; drivers may report the count as a string */
+export async function countKnexRows(
+  qb: Knex.QueryBuilder,
+  filter: FilterNode
+): Promise<number> {
+  const [row] = await applyKnexFilter(qb, filter).count({ count: "*" });
+  return Number(row?.count ?? 0);
+}
+
+/** Lists the distinct values of a column among rows matching a filter */
+export async function distinctKnexValues(
+  qb: Knex.QueryBuilder,
+  field: string,
+  filter: FilterNode
+): Promise<any[]> {
+  const rows = await applyKnexFilter(qb, filter)
+    .distinct(field)
+    .orderBy(field, "asc");
+  return rows.map((row: Record<string, any>) => row[field]);
+}
+
+/**
+ * Runs an aggregation with GROUP BY. Counts, sums and averages come back
+ * as strings from some drivers and are converted to numbers.
+ */
+export async function aggregateKnexRows(
+  qb: Knex.QueryBuilder,
+  plan: AggregatePlan
+): Promise<AggregateRow[]> {
+  let query = applyKnexFilter(qb, plan.filter);
+
+  if (plan.groupBy.length > 0) {
+    query = query
+      .select(Object.fromEntries(plan.groupBy.map((field) => [field, field])))
+      .groupBy(plan.groupBy)
+      .orderBy(plan.groupBy);
+  }
+
+  for (const { fn, field, as } of plan.metrics) {
+    const column = { [as]: field ?? "*" };
+    if (fn === "count") query = query.count(column);
+    else if (fn === "sum") query = query.sum(column);
+    else if (fn === "avg") query = query.avg(column);
+    else if (fn === "min") query = query.min(column);
+    else query = query.max(column);
+  }
+
+  const rows: AggregateRow[] = await query;
+  return rows.map((row) => {
+    for (const { fn, as } of plan.metrics) {
+      if (fn !== "min" && fn !== "max" && row[as] != null) {
+        row[as] = Number(row[as]);
+      }
+    }
+    return row;
+  });
+}
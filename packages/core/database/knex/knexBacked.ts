@@ -0,0 +1,22 @@
+// packages/core/database/knex/knexBacked.ts
+
+import type { Knex } from "knex";
+import type { IDatabaseStrategy } from "../IDatabaseStrategy";
+
+/** Strategies that run their queries through a Knex instance */
+export interface KnexBacked {
+  getDb(): Knex;
+}
+
+/**
+ * Whether `db` exposes its Knex instance. SQLite and MongoDB also have a
+ * `getDb`, returning their own driver handles, so the result is checked.
+ */
+export function isKnexBacked(
+  db: IDatabaseStrategy
+): db is IDatabaseStrategy & KnexBacked {
+  const getDb = (db as Partial<KnexBacked>).getDb;
+  if (typeof getDb !== "function") return false;
+  const knex: unknown = getDb.call(db);
+  return typeof knex === "function" && "schema" in knex;
+}
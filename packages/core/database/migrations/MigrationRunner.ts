@@ -0,0 +1,232 @@
+// packages/core/database/migrations/MigrationRunner.ts
+
+import os from "node:os";
+import type { Knex } from "knex";
+import type {
+  AppliedMigration,
+  Migration,
+  MigrationStatus,
+} from "../types/Migration";
+import { AppError } from "../../errors/AppError";
+import { dbLogger } from "../../src/telemetry/logger";
+
+export interface MigrationRunnerOptions {
+  /** Ledger table; the lock lives in `<tableName>_lock` */
+  tableName?: string;
+  /** How long to wait for another process to release the lock */
+  lockTimeoutMs?: number;
+  lockRetryMs?: number;
+}
+
+const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+/**
+ * Applies and rolls back migrations on a Knex-backed database, recording
+ * each in a `schema_migrations` ledger. A lock row keeps concurrent
+ * processes, such as cluster workers, from migrating at the same time.
+ */
+export class MigrationRunner {
+  private table: string;
+  private lockTable: string;
+  private lockTimeoutMs: number;
+  private lockRetryMs: number;
+
+  constructor(
+    private knex: Knex,
+    private migrations: Migration[],
+    options: MigrationRunnerOptions = {}
+  ) {
+    this.table = options.tableName ?? "schema_migrations";
+    this.lockTable = `${this.table}_lock`;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 60_000;
+    this.lockRetryMs = options.lockRetryMs ?? 500;
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureTables();
+    const applied = await this.applied();
+    const byId = new Map(applied.map((m) => [m.id, m]));
+
+    const statuses: MigrationStatus[] = this.migrations.map((migration) => {
+      const record = byId.get(migration.id);
+      if (!record) return { id: migration.id, state: "pending" };
+      return {
+        id: migration.id,
+        state: record.checksum === migration.checksum ? "applied" : "changed",
+        applied_at: record.applied_at,
+      };
+    });
+
+    const known = new Set(this.migrations.map((m) => m.id));
+    for (const record of applied.filter((m) => !known.has(m.id))) {
+      statuses.push({
+        id: record.id,
+        state: "missing",
+        applied_at: record.applied_at,
+      });
+    }
+    return statuses.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /** Applies pending migrations in order, up to and including `to` */
+  async up({ to }: { to?: string } = {}): Promise<string[]> {
+    return this.withLock(async () => {
+      const applied = new Set((await this.verify()).map((m) => m.id));
+      const pending = this.migrations.filter(
+        (m) => !applied.has(m.id) && (!to || m.id <= to)
+      );
+
+      for (const migration of pending) {
+        await this.run(migration, "up");
+      }
+      return pending.map((m) => m.id);
+    });
+  }
+
+  /** Rolls back the last `steps` applied migrations, newest first */
+  async down({ steps = 1 }: { steps?: number } = {}): Promise<string[]> {
+    return this.withLock(async () => {
+      const applied = await this.verify();
+      const byId = new Map(this.migrations.map((m) => [m.id, m]));
+      const targets = applied
+        .map((m) => m.id)
+        .sort()
+        .reverse()
+        .slice(0, steps);
+
+      // Check everything first so a rollback never stops halfway
+      const migrations = targets.map((id) => {
+        const migration = byId.get(id);
+        if (!migration) {
+          throw AppError.notFound(`Applied migration '${id}' has no file`);
+        }
+        if (!migration.down) {
+          throw AppError.validationError(
+            `Migration '${id}' cannot be rolled back`
+          );
+        }
+        return migration;
+      });
+
+      for (const migration of migrations) {
+        await this.run(migration, "down");
+      }
+      return targets;
+    });
+  }
+
+  /** Releases a lock left behind by a crashed process */
+  async unlock(): Promise<void> {
+    await this.ensureTables();
+    await this.knex(this.lockTable)
+      .where({ id: 1 })
+      .update({ is_locked: 0, locked_at: null, locked_by: null });
+    dbLogger.warn("Migration lock released manually");
+  }
+
+  private async run(migration: Migration, direction: "up" | "down") {
+    const start = Date.now();
+    await this.knex.transaction(async (trx) => {
+      if (direction === "up") {
+        await migration.up(trx);
+        await trx(this.table).insert({
+          id: migration.id,
+          checksum: migration.checksum,
+          applied_at: new Date(),
+        });
+      } else {
+        await migration.down!(trx);
+        await trx(this.table).where({ id: migration.id }).delete();
+      }
+    });
+    dbLogger.info(
+      { migration: migration.id, ms: Date.now() - start },
+      `Migration ${direction === "up" ? "applied" : "rolled back"}`
+    );
+  }
+
+  private async applied(): Promise<AppliedMigration[]> {
+    return this.knex(this.table).select("id", "checksum", "applied_at");
+  }
+
+  /** Applied migrations, after checking none was edited since */
+  private async verify(): Promise<AppliedMigration[]> {
+    const applied = await this.applied();
+    const checksums = new Map(this.migrations.map((m) => [m.id, m.checksum]));
+    const changed = applied
+      .filter((m) => checksums.has(m.id) && checksums.get(m.id) !== m.checksum)
+      .map((m) => m.id);
+
+    if (changed.length > 0) {
+      throw AppError.conflict(
+        "Applied migrations were edited; restore them or add a new migration",
+        { migrations: changed }
+      );
+    }
+    return applied;
+  }
+
+  private async withLock<T>(work: () => Promise<T>): Promise<T> {
+    await this.ensureTables();
+    const owner = `${os.hostname()}:${process.pid}`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    while (true) {
+      const acquired = await this.knex(this.lockTable)
+        .where({ id: 1, is_locked: 0 })
+        .update({ is_locked: 1, locked_at: new Date(), locked_by: owner });
+      if (acquired === 1) break;
+
+      if (Date.now() > deadline) {
+        throw AppError.conflict(
+          "Migrations are locked by another process; run 'unlock' if it crashed"
+        );
+      }
+      dbLogger.debug("Waiting for the migration lock");
+      await sleep(this.lockRetryMs);
+    }
+
+    try {
+      return await work();
+    } finally {
+      await this.knex(this.lockTable)
+        .where({ id: 1 })
+        .update({ is_locked: 0, locked_at: null, locked_by: null });
+    }
+  }
+
+  /** Creates the ledger and lock tables unless another process already did */
+  private async ensureTables(): Promise<void> {
+    const createTable = async (
+      table: string,
+      build: (table: Knex.CreateTableBuilder) => void
+    ) => {
+      if (await this.knex.schema.hasTable(table)) return;
+      try {
+        await this.knex.schema.createTable(table, build);
+      } catch (err) {
+        // Lost the race to another process creating it
+        if (!(await this.knex.schema.hasTable(table))) throw err;
+      }
+    };
+
+    await createTable(this.table, (table) => {
+      table.string("id").primary();
+      table.string("checksum", 64).notNullable();
+      table.timestamp("applied_at").notNullable();
+    });
+    await createTable(this.lockTable, (table) => {
+      table.integer("id").primary();
+      table.integer("is_locked").notNullable();
+      table.timestamp("locked_at").nullable();
+      table.string("locked_by").nullable();
+    });
+
+    const [row] = await this.knex(this.lockTable).where({ id: 1 });
+    if (!row) {
+      await this.knex(this.lockTable)
+        .insert({ id: 1, is_locked: 0 })
+        .catch(() => undefined); // another process inserted it first
+    }
+  }
+}
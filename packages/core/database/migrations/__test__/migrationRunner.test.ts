@@ -0,0 +1,163 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { Knex } from "knex";
+import { createKnexInstance } from "../../knex/createKnexInstance";
+import { loadMigrations } from "../loadMigrations";
+import { MigrationRunner } from "../MigrationRunner";
+import { AppError, ErrorType } from "../../../errors/AppError";
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+const POSTS = `-- migrate:up
+CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT NOT NULL);
+CREATE INDEX idx_posts_title ON posts(title);
+
+-- migrate:down
+DROP TABLE posts;
+`;
+
+const TAGS_SCRIPT = `
+exports.up = (knex) =>
+  knex.schema.createTable("tags", (t) => { t.increments("id"); t.string("name"); });
+exports.down = (knex) => knex.schema.dropTable("tags");
+`;
+
+describe("MigrationRunner", () => {
+  let tmpDir: string;
+  let dir: string;
+  let knex: Knex;
+
+  const write = (file: string, content: string) =>
+    fs.writeFileSync(path.join(dir, file), content);
+
+  const runner = async (options = {}) =>
+    new MigrationRunner(knex, await loadMigrations(dir), options);
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "migrations-"));
+    dir = path.join(tmpDir, "migrations");
+    fs.mkdirSync(dir);
+    knex = createKnexInstance({
+      client: "better-sqlite3",
+      connection: { filename: path.join(tmpDir, "app.db") },
+      debug: false,
+    });
+
+    write("001_create_posts.sql", POSTS);
+    write("002_seed_posts.sql", "INSERT INTO posts (title) VALUES ('hello');");
+    write("003_create_tags.js", TAGS_SCRIPT);
+  });
+
+  afterEach(async () => {
+    await knex.destroy();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("applies pending migrations in order and records them", async () => {
+    const applied = await (await runner()).up();
+
+    expect(applied).toEqual([
+      "001_create_posts",
+      "002_seed_posts",
+      "003_create_tags",
+    ]);
+    expect(await knex("posts").select("title")).toEqual([{ title: "hello" }]);
+    expect(await knex.schema.hasTable("tags")).toBe(true);
+
+    const ledger = await knex("schema_migrations").orderBy("id");
+    expect(ledger.map((m) => m.id)).toEqual(applied);
+    expect(ledger[0].checksum).toHaveLength(64);
+
+    expect(await (await runner()).up()).toEqual([]);
+  });
+
+  it("stops at the `to` migration", async () => {
+    await (await runner()).up({ to: "001_create_posts" });
+    const status = await (await runner()).status();
+
+    expect(status.map((m) => m.state)).toEqual([
+      "applied",
+      "pending",
+      "pending",
+    ]);
+  });
+
+  it("rolls back the latest migrations", async () => {
+    await (await runner()).up({ to: "001_create_posts" });
+    write(
+      "002_seed_posts.sql",
+      "-- migrate:up\nSELECT 1;\n-- migrate:down\nSELECT 1;"
+    );
+    await (await runner()).up();
+
+    const reverted = await (await runner()).down({ steps: 2 });
+
+    expect(reverted).toEqual(["003_create_tags", "002_seed_posts"]);
+    expect(await knex.schema.hasTable("tags")).toBe(false);
+    expect(await knex.schema.hasTable("posts")).toBe(true);
+  });
+
+  it("refuses to roll back up-only migrations", async () => {
+    await (await runner()).up();
+
+    await expectAppError(
+      (await runner()).down({ steps: 2 }),
+      ErrorType.VALIDATION_FAILED
+    );
+    // Nothing ran, not even the reversible migration
+    expect(await knex.schema.hasTable("tags")).toBe(true);
+  });
+
+  it("detects migrations edited after they were applied", async () => {
+    await (await runner()).up();
+    write("002_seed_posts.sql", "INSERT INTO posts (title) VALUES ('edited');");
+
+    const status = await (await runner()).status();
+    expect(status.find((m) => m.id === "002_seed_posts")?.state).toBe(
+      "changed"
+    );
+    await expectAppError((await runner()).up(), ErrorType.CONFLICT);
+  });
+
+  it("reports applied migrations whose file is gone", async () => {
+    await (await runner()).up();
+    fs.rmSync(path.join(dir, "003_create_tags.js"));
+
+    const status = await (await runner()).status();
+    expect(status.at(-1)).toMatchObject({
+      id: "003_create_tags",
+      state: "missing",
+    });
+  });
+
+  it("waits for the lock and gives up after the timeout", async () => {
+    const first = await runner();
+    await first.status();
+    await knex("schema_migrations_lock").update({ is_locked: 1 });
+
+    const second = await runner({ lockTimeoutMs: 50, lockRetryMs: 10 });
+    await expectAppError(second.up(), ErrorType.CONFLICT);
+    expect(await knex.schema.hasTable("posts")).toBe(false);
+
+    await second.unlock();
+    expect(await second.up()).toHaveLength(3);
+  });
+
+  it("runs one migration at a time across runners", async () => {
+    const [a, b] = await Promise.all([runner(), runner()]);
+    const [appliedA, appliedB] = await Promise.all([a.up(), b.up()]);
+
+    expect([...appliedA, ...appliedB].sort()).toEqual([
+      "001_create_posts",
+      "002_seed_posts",
+      "003_create_tags",
+    ]);
+    expect(await knex("posts").count({ n: "*" })).toEqual([{ n: 1 }]);
+  });
+});
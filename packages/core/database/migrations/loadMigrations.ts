@@ -0,0 +1,93 @@
+// packages/core/database/migrations/loadMigrations.ts
+
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { Knex } from "knex";
+import type { Migration, MigrationFn } from "../types/Migration";
+import { AppError } from "../../errors/AppError";
+
+/** `<number>_<name>.sql|ts|js`, e.g. `003_add_posts.sql` */
+const MIGRATION_FILE = /^(\d+[_-][\w-]+)\.(sql|ts|js)$/;
+
+const UP_MARKER = /^--\s*migrate:up\s*$/im;
+const DOWN_MARKER = /^--\s*migrate:down\s*$/im;
+
+/**
+ * Statements end with a semicolon at the end of a line; drivers such as
+ * better-sqlite3 only accept one statement per query.
+ */
+const splitStatements = (sql: string) =>
+  sql
+    .split(/;\s*$/m)
+    .map((statement) => statement.trim())
+    .filter((statement) => statement && !/^(--[^\n]*\s*)+$/.test(statement));
+
+const runSql =
+  (sql: string): MigrationFn =>
+  async (knex: Knex) => {
+    for (const statement of splitStatements(sql)) {
+      await knex.raw(statement);
+    }
+  };
+
+/**
+ * Splits a SQL file on `-- migrate:up` and `-- migrate:down` markers.
+ * A file without markers is all `up` and cannot be rolled back.
+ */
+export function parseSqlMigration(content: string): {
+  up: MigrationFn;
+  down?: MigrationFn;
+} {
+  if (!UP_MARKER.test(content)) return { up: runSql(content) };
+
+  const [, afterUp] = content.split(UP_MARKER);
+  const [up, down] = afterUp.split(DOWN_MARKER);
+  return {
+    up: runSql(up),
+    down: down?.trim() ? runSql(down) : undefined,
+  };
+}
+
+async function loadScriptMigration(
+  file: string
+): Promise<{ up: MigrationFn; down?: MigrationFn }> {
+  const mod = await import(file);
+  const { up, down } = mod.up ? mod : (mod.default ?? {});
+  if (typeof up !== "function") {
+    throw AppError.validationError(
+      `Migration '${path.basename(file)}' must export an 'up' function`
+    );
+  }
+  return { up, down: typeof down === "function" ? down : undefined };
+}
+
+/** Reads the migrations of a directory, ordered by file name */
+export async function loadMigrations(directory: string): Promise<Migration[]> {
+  const files = fs
+    .readdirSync(directory)
+    .filter((file) => MIGRATION_FILE.test(file))
+    .sort();
+
+  const migrations: Migration[] = [];
+  for (const file of files) {
+    const [, id, extension] = MIGRATION_FILE.exec(file)!;
+    if (migrations.some((m) => m.id === id)) {
+      throw AppError.validationError(`Duplicate migration '${id}'`, { file });
+    }
+
+    const fullPath = path.join(directory, file);
+    const content = fs.readFileSync(fullPath, "utf-8");
+    const steps =
+      extension === "sql"
+        ? parseSqlMigration(content)
+        : await loadScriptMigration(fullPath);
+
+    migrations.push({
+      id,
+      ...steps,
+      checksum: crypto.createHash("sha256").update(content).digest("hex"),
+    });
+  }
+  return migrations;
+}
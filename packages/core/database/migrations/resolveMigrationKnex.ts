@@ -0,0 +1,44 @@
+// packages/core/database/migrations/resolveMigrationKnex.ts
+
+import type { Knex } from "knex";
+import { AppError } from "../../errors/AppError";
+import { loadResolvedConfigForModule } from "../../config/helpers/env";
+import { createKnexInstance } from "../knex/createKnexInstance";
+import { isKnexBacked } from "../knex/knexBacked";
+import { resolveDatabaseStrategy } from "../utils/resolveStrategy";
+
+type Engine = "mock" | "postgres" | "mongo" | "sqlite" | "mysql";
+
+/**
+ * Opens a Knex connection for `engine` to run migrations through. Call
+ * `close` when done. Only SQL engines have migrations.
+ */
+export async function resolveMigrationKnex(
+  engine: Engine
+): Promise<{ knex: Knex; close: () => Promise<void> }> {
+  switch (engine) {
+    case "postgres":
+    case "mysql": {
+      const db = await resolveDatabaseStrategy(engine);
+      if (!isKnexBacked(db)) {
+        throw AppError.internal(`Engine '${engine}' has no Knex instance`);
+      }
+      return { knex: db.getDb(), close: () => db.disconnect() };
+    }
+    case "sqlite": {
+      // SqliteStrategy talks to better-sqlite3 directly, without Knex
+      const { filepath } = loadResolvedConfigForModule("sqlite");
+      const knex = createKnexInstance({
+        client: "better-sqlite3",
+        connection: { filename: filepath },
+        debug: false,
+      });
+      return { knex, close: () => knex.destroy() };
+    }
+    default:
+      throw AppError.validationError(
+        `Engine '${engine}' does not support migrations`,
+        { engine }
+      );
+  }
+}
@@ -0,0 +1,298 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { MockDatabaseStrategy } from "../../strategies/mock/MockDatabaseStrategy";
+import { SqliteStrategy } from "../../strategies/sqlite/SqliteStrategy";
+import type { IDatabaseStrategy } from "../../IDatabaseStrategy";
+import { AppError } from "../../../errors/AppError";
+
+let dir: string;
+const strategies: Record<string, IDatabaseStrategy> = {};
+
+beforeAll(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "shikor-pages-"));
+  const sqlite = new SqliteStrategy({ filepath: path.join(dir, "pages.db") });
+  await sqlite.ready;
+  await sqlite.executeRaw(
+    "CREATE TABLE items (id INTEGER PRIMARY KEY, rank INTEGER)"
+  );
+  strategies.mock = new MockDatabaseStrategy();
+  strategies.sqlite = sqlite;
+
+  // Ranks repeat so the id tie-breaker matters
+  for (let i = 1; i <= 7; i++) {
+    await strategies.mock.create("items", { rank: i % 3 });
+    await sqlite.create("items", { id: i, rank: i % 3 });
+  }
+});
+
+afterAll(async () => {
+  await strategies.sqlite.disconnect();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe.each(["mock", "sqlite"])("cursor pagination (%s)", (name) => {
+  const ids = (page: any) => page.items.map((r: any) => r.id);
+
+  it("walks forward and back without gaps or duplicates", async () => {
+    const db = strategies[name];
+    const options = { sort: { field: "rank" }, limit: 3 } as const;
+
+    const first = await db.read("items", {}, { ...options, count: true });
+    expect(ids(first)).toEqual([3, 6, 1]);
+    expect(first.pageInfo).toMatchObject({
+      hasMore: true,
+      prevCursor: null,
+      total: 7,
+    });
+
+    const second = await db.read(
+      "items",
+      {},
+      { ...options, after: first.pageInfo.nextCursor }
+    );
+    expect(ids(second)).toEqual([4, 7, 2]);
+
+    const third = await db.read(
+      "items",
+      {},
+      { ...options, after: second.pageInfo.nextCursor }
+    );
+    expect(ids(third)).toEqual([5]);
+    expect(third.pageInfo).toMatchObject({ hasMore: false, nextCursor: null });
+
+    const back = await db.read(
+      "items",
+      {},
+      { ...options, before: third.pageInfo.prevCursor }
+    );
+    expect(ids(back)).toEqual([4, 7, 2]);
+    expect(back.pageInfo.hasMore).toBe(true);
+  });
+
+  it("applies the filter to items and total", async () => {
+    const page = await strategies[name].read(
+      "items",
+      { rank: { gt: 0 } },
+      { limit: 2, count: true }
+    );
+    expect(ids(page)).toEqual([1, 2]);
+    expect(page.pageInfo.total).toBe(5);
+  });
+
+  it("walks past records with null sort values", async () => {
+    const db = strategies[name];
+    if (db instanceof SqliteStrategy) {
+      await db.executeRaw(
+        "CREATE TABLE notes (id INTEGER PRIMARY KEY, tag TEXT)"
+      );
+    }
+    for (const [id, tag] of [
+      [1, "b"],
+      [2, null],
+      [3, "a"],
+      [4, null],
+    ]) {
+      await db.create("notes", { id, tag });
+    }
+
+    // NULL sorts below every value on both engines
+    for (const [order, expected] of [
+      ["asc", [2, 4, 3, 1]],
+      ["desc", [1, 3, 4, 2]],
+    ] as const) {
+      const seen: number[] = [];
+      let after: string | undefined;
+      do {
+        const page = await db.read(
+          "notes",
+          {},
+          { sort: { field: "tag", order }, limit: 1, paginate: true, after }
+        );
+        seen.push(...ids(page));
+        after = page.pageInfo.nextCursor ?? undefined;
+      } while (after);
+      expect(seen).toEqual(expected);
+    }
+  });
+
+  it("rejects tampered cursors", async () => {
+    await expect(
+      strategies[name].read("items", {}, { after: "not-a-cursor" })
+    ).rejects.toMatchObject({ code: "VALIDATION_FAILED" });
+  });
+});
+
+describe.each(["mock", "sqlite"])("read options (%s)", (name) => {
+  it("sorts by several keys", async () => {
+    const rows = await strategies[name].read(
+      "items",
+      {},
+      {
+        sort: [
+          { field: "rank", order: "desc" },
+          { field: "id", order: "desc" },
+        ],
+      }
+    );
+    expect(rows.map((r: any) => r.id)).toEqual([5, 2, 7, 4, 1, 6, 3]);
+  });
+
+  it("projects fields and keeps the id", async () => {
+    const rows = await strategies[name].read(
+      "items",
+      { id: 1 },
+      { fields: { exclude: ["rank"] } }
+    );
+    expect(rows).toEqual([{ id: 1 }]);
+
+    const page = await strategies[name].read(
+      "items",
+      {},
+      {
+        sort: { field: "rank" },
+        limit: 2,
+        paginate: true,
+        fields: { include: ["id"] },
+      }
+    );
+    expect(page.items).toEqual([{ id: 3 }, { id: 6 }]);
+    expect(page.pageInfo.nextCursor).toEqual(expect.any(String));
+  });
+
+  it("lists distinct values of a field", async () => {
+    const values = await strategies[name].read(
+      "items",
+      { id: { ne: 3 } },
+      { distinct: "rank" }
+    );
+    expect(values).toEqual([0, 1, 2]);
+  });
+});
+
+describe.each(["mock", "sqlite"])("aggregate (%s)", (name) => {
+  it("groups and reduces matching records", async () => {
+    const rows = await strategies[name].aggregate("items", {
+      filter: { id: { lte: 6 } },
+      groupBy: ["rank"],
+      metrics: [
+        { fn: "count", as: "total" },
+        { fn: "sum", field: "id", as: "idSum" },
+        { fn: "avg", field: "id", as: "idAvg" },
+        { fn: "max", field: "id", as: "lastId" },
+      ],
+    });
+    expect(rows).toEqual([
+      { rank: 0, total: 2, idSum: 9, idAvg: 4.5, lastId: 6 },
+      { rank: 1, total: 2, idSum: 5, idAvg: 2.5, lastId: 4 },
+      { rank: 2, total: 2, idSum: 7, idAvg: 3.5, lastId: 5 },
+    ]);
+  });
+
+  it("returns a single row when nothing matches", async () => {
+    const rows = await strategies[name].aggregate("items", {
+      filter: { rank: 99 },
+      metrics: [
+        { fn: "count", as: "total" },
+        { fn: "min", field: "id", as: "firstId" },
+      ],
+    });
+    expect(rows).toEqual([{ total: 0, firstId: null }]);
+  });
+
+  it("rejects metrics without a field", async () => {
+    await expect(
+      strategies[name].aggregate("items", {
+        metrics: [{ fn: "sum", as: "s" }],
+      })
+    ).rejects.toMatchObject({ code: "VALIDATION_FAILED" });
+  });
+});
+
+describe.each(["mock", "sqlite"])("transaction (%s)", (name) => {
+  it("commits when the work resolves", async () => {
+    const db = strategies[name];
+    await db.transaction(async (tx) => {
+      await tx.create("items", { id: 8, rank: 9 });
+    });
+    expect(await db.count("items", { rank: 9 })).toBe(1);
+  });
+
+  it("rolls back when the work throws", async () => {
+    const db = strategies[name];
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.update("items", { rank: 9 }, { rank: 10 });
+        throw AppError.conflict("abort");
+      })
+    ).rejects.toBeInstanceOf(AppError);
+
+    expect(await db.count("items", { rank: 10 })).toBe(0);
+    await db.delete("items", { rank: 9 });
+  });
+
+  it("rolls back only the failed nested transaction", async () => {
+    const db = strategies[name];
+    await db.transaction(async (tx) => {
+      await tx.create("items", { id: 9, rank: 11 });
+      await tx
+        .transaction(async (inner) => {
+          await inner.create("items", { id: 10, rank: 11 });
+          throw new Error("inner");
+        })
+        .catch(() => undefined);
+    });
+
+    expect(await db.count("items", { rank: 11 })).toBe(1);
+    await db.delete("items", { rank: 11 });
+  });
+});
+
+describe.each(["mock", "sqlite"])("bulk writes (%s)", (name) => {
+  beforeAll(async () => {
+    if (name === "sqlite") {
+      await (strategies.sqlite as SqliteStrategy).executeRaw(
+        "CREATE TABLE tags (id INTEGER PRIMARY KEY, slug TEXT UNIQUE, label TEXT)"
+      );
+    }
+  });
+
+  it("creates, updates and deletes many records", async () => {
+    const db = strategies[name];
+    const created = await db.createMany("tags", [
+      { slug: "a", label: "A" },
+      { slug: "b", label: "B" },
+      { slug: "c", label: "C" },
+    ]);
+    expect(created).toMatchObject({ affected: 3, ids: [1, 2, 3] });
+
+    const updated = await db.updateMany(
+      "tags",
+      { slug: { in: ["a", "b"] } },
+      { label: "AB" }
+    );
+    expect(updated.affected).toBe(2);
+    expect(updated.ids.sort()).toEqual([1, 2]);
+
+    const deleted = await db.deleteMany("tags", { label: "AB" });
+    expect(deleted.affected).toBe(2);
+    expect(await db.count("tags")).toBe(1);
+  });
+
+  it("upserts on the conflict keys", async () => {
+    const db = strategies[name];
+    const inserted = await db.upsert("tags", ["slug"], {
+      slug: "d",
+      label: "D",
+    });
+    const merged = await db.upsert("tags", ["slug"], {
+      slug: "d",
+      label: "D2",
+    });
+
+    expect(merged.ids).toEqual(inserted.ids);
+    expect(merged.records?.[0]).toMatchObject({ slug: "d", label: "D2" });
+    expect(await db.count("tags", { slug: "d" })).toBe(1);
+  });
+});
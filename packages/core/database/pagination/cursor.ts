@@ -0,0 +1,125 @@
+// packages/core/database/pagination/cursor.ts
+import { AppError } from "../../errors/AppError";
+import type { FilterNode } from "../types/Filter";
+import type { SortKey } from "../types/QueryOptions";
+
+type CursorValue = string | number | boolean | null | { $date: string };
+
+function getPath(record: Record<string, any>, field: string): any {
+  return field
+    .split(".")
+    .reduce((value, key) => (value == null ? undefined : value[key]), record);
+}
+
+function serialize(value: any): CursorValue {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (value == null) return null;
+  if (typeof value === "object") return String(value); // e.g. ObjectId
+  return value;
+}
+
+function revive(value: CursorValue): any {
+  if (value && typeof value === "object" && "$date" in value) {
+    return new Date(value.$date);
+  }
+  return value;
+}
+
+/** Encodes the sort-key values of a record into an opaque cursor */
+export function encodeCursor(
+  record: Record<string, any>,
+  sort: SortKey[]
+): string {
+  const values = sort.map(({ field }) => serialize(getPath(record, field)));
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+/** Decodes a cursor produced by `encodeCursor` for the same sort keys */
+export function decodeCursor(cursor: string, sort: SortKey[]): any[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw AppError.validationError("Invalid pagination cursor");
+  }
+
+  if (!Array.isArray(values) || values.length !== sort.length) {
+    throw AppError.validationError(
+      "Pagination cursor does not match the requested sort"
+    );
+  }
+
+  return values.map(revive);
+}
+
+const isNull = (field: string, value: boolean): FilterNode => ({
+  kind: "condition",
+  field,
+  op: "isNull",
+  value,
+});
+
+/**
+ * Builds the keyset condition "strictly after `values` in `sort` order":
+ * (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+ *
+ * `nullsLow` says where the engine sorts NULL: below every value (SQLite,
+ * MySQL, MongoDB) or above it (PostgreSQL). NULL never compares with `>`
+ * or `=`, so keys holding it get explicit isNull/notNull branches.
+ */
+export function keysetFilter(
+  sort: SortKey[],
+  values: any[],
+  nullsLow = true
+): FilterNode {
+  const branches = sort.flatMap(({ field, order }, i): FilterNode[] => {
+    const nullsFirst = (order === "desc") !== nullsLow;
+    const value = values[i];
+    let after: FilterNode;
+    if (value == null) {
+      // Nothing sorts after a trailing NULL
+      if (!nullsFirst) return [];
+      after = isNull(field, false);
+    } else {
+      after = {
+        kind: "condition",
+        field,
+        op: order === "desc" ? "lt" : "gt",
+        value,
+      };
+      if (!nullsFirst) {
+        after = { kind: "or", nodes: [after, isNull(field, true)] };
+      }
+    }
+
+    return [
+      {
+        kind: "and",
+        nodes: [
+          ...sort.slice(0, i).map(
+            (prev, j): FilterNode =>
+              values[j] == null
+                ? isNull(prev.field, true)
+                : {
+                    kind: "condition",
+                    field: prev.field,
+                    op: "eq",
+                    value: values[j],
+                  }
+          ),
+          after,
+        ],
+      },
+    ];
+  });
+
+  return { kind: "or", nodes: branches };
+}
+
+/** Flips every sort key, used to walk backwards from a `before` cursor */
+export function reverseSort(sort: SortKey[]): SortKey[] {
+  return sort.map(({ field, order }) => ({
+    field,
+    order: order === "desc" ? "asc" : "desc",
+  }));
+}
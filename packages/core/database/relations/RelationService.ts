@@ -0,0 +1,329 @@
+// packages/core/database/relations/RelationService.ts
+
+import type { IDatabaseStrategy } from "../IDatabaseStrategy";
+import type { FieldDefinition } from "../types/CollectionSchema";
+import type { PublicationMode } from "../types/QueryOptions";
+import { MongoStrategy } from "../strategies/mongo/MongoStrategy";
+import { sqlSchemaTarget } from "../schema/SchemaService";
+import { assertValidFieldName } from "../filters/parseFilter";
+import { AppError } from "../../errors/AppError";
+import { loadCollectionDefinition } from "../../commands/validatePayload";
+import { stripHiddenFields } from "../../commands/hiddenFields";
+import { trashScopedFilter } from "../../commands/softDelete";
+import { publicationScopedFilter } from "../../commands/publication";
+import { localizeRecords, localizedFields } from "../../commands/localization";
+import type { FieldPolicy } from "../../commands/fieldPermissions";
+import { RowPolicy, rowScopedFilter } from "../../commands/rowPermissions";
+import {
+  JOIN_SOURCE,
+  JOIN_TARGET,
+  joinTableName,
+  manyToManyFields,
+  relationKind,
+} from "./relationFields";
+
+/** Deepest `expand` path accepted, e.g. `author.company.country` */
+export const MAX_EXPAND_DEPTH = 3;
+
+type ExpandTree = Map<string, ExpandTree>;
+
+export interface ExpandOptions {
+  /** Called before each related collection is read; throws to deny */
+  authorize?: (collection: string) => Promise<void>;
+  /** Fields stripped from related records the reader's role may not read */
+  fieldPolicy?: FieldPolicy;
+  /** Limits related records to those the reader's role may read */
+  rowPolicy?: RowPolicy;
+  /**
+   * Publication mode of the read; related records are published ones
+   * unless drafts were asked for
+   */
+  publication?: PublicationMode;
+  /** Locale chain the localized fields of related records resolve through */
+  locales?: string[];
+}
+
+/** `many-to-many` values taken out of a payload, by field */
+export type Links = Record<string, any[]>;
+
+const unique = <T>(values: T[]) => [
+  ...new Map(values.map((v) => [String(v), v])).values(),
+];
+
+/** Turns `["author", "tags.author"]` into a tree of fields to expand */
+export function parseExpand(paths: string[]): ExpandTree {
+  const tree: ExpandTree = new Map();
+  for (const path of paths) {
+    const segments = path.split(".");
+    if (segments.length > MAX_EXPAND_DEPTH) {
+      throw AppError.validationError(
+        `Cannot expand '${path}': at most ${MAX_EXPAND_DEPTH} levels deep`,
+        { path }
+      );
+    }
+    let node = tree;
+    for (const segment of segments) {
+      assertValidFieldName(segment);
+      if (!node.has(segment)) node.set(segment, new Map());
+      node = node.get(segment)!;
+    }
+  }
+  return tree;
+}
+
+/**
+ * Reads and writes the records behind `relation` fields. `many-to-many`
+ * links live in join tables on SQL engines and as id lists in the record
+ * on schemaless ones, so only SQL engines need `splitLinks`/`writeLinks`.
+ */
+export class RelationService {
+  private idField: string;
+  private joinTables: boolean;
+
+  constructor(private db: IDatabaseStrategy) {
+    this.idField = db instanceof MongoStrategy ? "_id" : "id";
+    this.joinTables = sqlSchemaTarget(db) !== null;
+  }
+
+  /** Takes `many-to-many` values out of a payload bound for a join table */
+  async splitLinks(
+    collection: string,
+    data: Record<string, any>
+  ): Promise<{ data: Record<string, any>; links: Links }> {
+    const fields = await this.joinFields(collection);
+    const row = { ...data };
+    const links: Links = {};
+    for (const field of fields) {
+      if (!(field.name in row)) continue;
+      links[field.name] = row[field.name] ?? [];
+      delete row[field.name];
+    }
+    return { data: row, links };
+  }
+
+  /** Replaces the links of the records `ids` for each field in `links` */
+  async writeLinks(
+    collection: string,
+    ids: any[],
+    links: Links
+  ): Promise<void> {
+    if (ids.length === 0) return;
+    for (const [field, targets] of Object.entries(links)) {
+      const table = joinTableName(collection, field);
+      await this.db.deleteMany(table, { [JOIN_SOURCE]: ids });
+      const rows = ids.flatMap((source) =>
+        unique(targets).map((target) => ({
+          [JOIN_SOURCE]: source,
+          [JOIN_TARGET]: target,
+        }))
+      );
+      if (rows.length > 0) await this.db.createMany(table, rows);
+    }
+  }
+
+  /** Removes the links of records about to be deleted */
+  async deleteLinks(
+    collection: string,
+    filter: Record<string, any>
+  ): Promise<void> {
+    const fields = await this.joinFields(collection);
+    if (fields.length === 0) return;
+
+    const ids = (
+      await this.db.read(collection, filter, {
+        fields: { include: [this.idField] },
+      })
+    ).map((record: any) => record[this.idField]);
+    if (ids.length === 0) return;
+
+    for (const field of fields) {
+      await this.db.deleteMany(joinTableName(collection, field.name), {
+        [JOIN_SOURCE]: ids,
+      });
+    }
+  }
+
+  /**
+   * Replaces relation fields of `records` with the related records, e.g.
+   * `["author", "tags.author"]`. Returns copies; the input is untouched.
+   */
+  async expand(
+    collection: string,
+    records: any[],
+    paths: string[],
+    options: ExpandOptions = {}
+  ): Promise<any[]> {
+    return this.expandTree(collection, records, parseExpand(paths), options);
+  }
+
+  private async expandTree(
+    collection: string,
+    records: any[],
+    tree: ExpandTree,
+    options: ExpandOptions
+  ): Promise<any[]> {
+    const result = records.map((record) => ({ ...record }));
+    if (result.length === 0 || tree.size === 0) return result;
+
+    const definition = await loadCollectionDefinition(this.db, collection);
+    for (const [name, children] of tree) {
+      const field = definition?.fields.find((f) => f.name === name);
+      if (!field || !relationKind(field)) {
+        throw AppError.validationError(
+          `'${name}' is not a relation of '${collection}'`,
+          { collection, field: name }
+        );
+      }
+      await options.authorize?.(field.collection!);
+      await this.expandField(collection, result, field, children, options);
+    }
+    return result;
+  }
+
+  private async expandField(
+    collection: string,
+    records: any[],
+    field: FieldDefinition,
+    children: ExpandTree,
+    options: ExpandOptions
+  ): Promise<void> {
+    const { name } = field;
+    const target = field.collection!;
+    const key = (id: unknown) => String(id);
+    const ownIds = records
+      .map((r) => r[this.idField])
+      .filter((id) => id != null);
+
+    switch (relationKind(field)) {
+      case "many-to-one": {
+        const byId = await this.readById(
+          target,
+          records.map((r) => r[name]),
+          children,
+          options
+        );
+        records.forEach((r) => {
+          if (r[name] != null) r[name] = byId.get(key(r[name])) ?? null;
+        });
+        return;
+      }
+
+      case "one-to-many": {
+        const via = field.via!;
+        const raw =
+          ownIds.length > 0
+            ? await this.readRelated(
+                target,
+                { [via]: ownIds.map((id) => this.ref(id)) },
+                options
+              )
+            : [];
+        const related = await this.expandTree(target, raw, children, options);
+        const groups = new Map<string, any[]>();
+        raw.forEach((r, i) => {
+          const group = groups.get(key(r[via])) ?? [];
+          groups.set(key(r[via]), [...group, related[i]]);
+        });
+        records.forEach((r) => {
+          r[name] = groups.get(key(r[this.idField])) ?? [];
+        });
+        return;
+      }
+
+      case "many-to-many": {
+        const linked = new Map<string, unknown[]>();
+        if (this.joinTables) {
+          const rows =
+            ownIds.length > 0
+              ? await this.db.read(joinTableName(collection, name), {
+                  [JOIN_SOURCE]: ownIds,
+                })
+              : [];
+          rows.forEach((row: any) => {
+            const list = linked.get(key(row[JOIN_SOURCE])) ?? [];
+            linked.set(key(row[JOIN_SOURCE]), [...list, row[JOIN_TARGET]]);
+          });
+        } else {
+          records.forEach((r) =>
+            linked.set(key(r[this.idField]), r[name] ?? [])
+          );
+        }
+
+        const byId = await this.readById(
+          target,
+          [...linked.values()].flat(),
+          children,
+          options
+        );
+        records.forEach((r) => {
+          r[name] = (linked.get(key(r[this.idField])) ?? [])
+            .map((id) => byId.get(key(id)))
+            .filter(Boolean);
+        });
+        return;
+      }
+    }
+  }
+
+  /** Related records by id, expanded further by `children` */
+  private async readById(
+    collection: string,
+    ids: unknown[],
+    children: ExpandTree,
+    options: ExpandOptions
+  ): Promise<Map<string, any>> {
+    const wanted: any[] = unique(ids.filter((id) => id != null));
+    const raw =
+      wanted.length > 0
+        ? await this.readRelated(
+            collection,
+            { [this.idField]: wanted.map((id) => this.ref(id)) },
+            options
+          )
+        : [];
+    const related = await this.expandTree(collection, raw, children, options);
+    return new Map(related.map((r) => [String(r[this.idField]), r]));
+  }
+
+  private async readRelated(
+    collection: string,
+    filter: Record<string, any>,
+    {
+      publication = "published",
+      locales,
+      fieldPolicy,
+      rowPolicy,
+    }: ExpandOptions
+  ): Promise<any[]> {
+    const restricted = (await fieldPolicy?.(collection, "read")) ?? [];
+    const records = await this.db.read(
+      collection,
+      await trashScopedFilter(
+        this.db,
+        collection,
+        await publicationScopedFilter(
+          this.db,
+          collection,
+          await rowScopedFilter(rowPolicy, collection, "read", filter),
+          publication === "published" ? "published" : "all"
+        )
+      )
+    );
+    return localizeRecords(
+      await localizedFields(this.db, collection),
+      records.map((r: any) => stripHiddenFields(collection, r, restricted)),
+      locales
+    );
+  }
+
+  /** MongoDB stores references as id strings */
+  private ref(id: any): any {
+    return this.db instanceof MongoStrategy ? String(id) : id;
+  }
+
+  private async joinFields(collection: string): Promise<FieldDefinition[]> {
+    if (!this.joinTables) return [];
+    const definition = await loadCollectionDefinition(this.db, collection);
+    return definition ? manyToManyFields(definition) : [];
+  }
+}
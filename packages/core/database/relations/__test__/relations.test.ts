@@ -0,0 +1,225 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { SqliteStrategy } from "../../strategies/sqlite/SqliteStrategy";
+import { MockDatabaseStrategy } from "../../strategies/mock/MockDatabaseStrategy";
+import type { IDatabaseStrategy } from "../../IDatabaseStrategy";
+import { CollectionSchemaCreateCommand } from "../../../commands/collection_schemas/CollectionSchemaCommands";
+import { CreateCommand } from "../../../commands/CreateCommand";
+import { ReadCommand } from "../../../commands/ReadCommand";
+import { UpdateCommand } from "../../../commands/UpdateCommand";
+import { DeleteCommand } from "../../../commands/DeleteCommand";
+import { AppError, ErrorType } from "../../../errors/AppError";
+import { parseExpand } from "../RelationService";
+import { joinTableName } from "../relationFields";
+import type { CollectionDefinition } from "../../types/CollectionSchema";
+
+const definitions: CollectionDefinition[] = [
+  {
+    collection_name: "authors",
+    fields: [
+      { name: "name", type: "string", required: true },
+      {
+        name: "articles",
+        type: "relation",
+        collection: "articles",
+        relation: "one-to-many",
+        via: "author",
+      },
+    ],
+  },
+  {
+    collection_name: "tags",
+    fields: [{ name: "label", type: "string", required: true }],
+  },
+  {
+    collection_name: "articles",
+    fields: [
+      { name: "title", type: "string", required: true },
+      { name: "author", type: "relation", collection: "authors" },
+      {
+        name: "tags",
+        type: "relation",
+        collection: "tags",
+        relation: "many-to-many",
+      },
+    ],
+  },
+];
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+const labels = (record: any) => record.tags.map((t: any) => t.label).sort();
+
+/** Same scenarios on an engine with join tables and on a schemaless one */
+function describeRelations(
+  name: string,
+  setup: () => Promise<{ db: IDatabaseStrategy; close?: () => Promise<void> }>
+) {
+  describe(`relations on ${name}`, () => {
+    let db: IDatabaseStrategy;
+    let close: (() => Promise<void>) | undefined;
+    let author: any;
+    let tags: any[];
+
+    const read = (filter: any, expand: string[], authorize?: any) =>
+      new ReadCommand(db, "articles", filter, { expand }, authorize).execute();
+
+    beforeAll(async () => {
+      ({ db, close } = await setup());
+      for (const definition of definitions) {
+        await new CollectionSchemaCreateCommand(definition, db).execute();
+      }
+      author = await new CreateCommand(db, "authors", {
+        name: "Ann",
+      }).execute();
+      tags = [
+        await db.create("tags", { label: "news" }),
+        await db.create("tags", { label: "tech" }),
+      ];
+      await new CreateCommand(db, "articles", {
+        title: "First",
+        author: author.id,
+        tags: tags.map((t) => t.id),
+      }).execute();
+      await new CreateCommand(db, "articles", {
+        title: "Second",
+        author: author.id,
+      }).execute();
+    });
+
+    afterAll(async () => {
+      await close?.();
+    });
+
+    it("expands many-to-one and many-to-many fields", async () => {
+      const [article] = await read({ title: "First" }, ["author", "tags"]);
+
+      expect(article.author).toMatchObject({ id: author.id, name: "Ann" });
+      expect(labels(article)).toEqual(["news", "tech"]);
+    });
+
+    it("expands one-to-many relations and nested paths", async () => {
+      const [record] = await new ReadCommand(
+        db,
+        "authors",
+        {},
+        { expand: ["articles.tags"] }
+      ).execute();
+
+      const titles = record.articles.map((a: any) => a.title).sort();
+      expect(titles).toEqual(["First", "Second"]);
+      const first = record.articles.find((a: any) => a.title === "First");
+      expect(labels(first)).toEqual(["news", "tech"]);
+    });
+
+    it("expands the items of a page", async () => {
+      const page = await new ReadCommand(
+        db,
+        "articles",
+        {},
+        { expand: ["author"], paginate: true, sort: { field: "title" } }
+      ).execute();
+      expect(page.items.map((a: any) => a.author.name)).toEqual(["Ann", "Ann"]);
+    });
+
+    it("replaces many-to-many links on update", async () => {
+      await new UpdateCommand(
+        db,
+        "articles",
+        { title: "Second" },
+        { tags: [tags[1].id] }
+      ).execute();
+
+      const [article] = await read({ title: "Second" }, ["tags"]);
+      expect(labels(article)).toEqual(["tech"]);
+    });
+
+    it("checks read access to every related collection", async () => {
+      const authorize = vi.fn(async (collection: string) => {
+        if (collection === "tags") throw AppError.forbidden("no tags");
+      });
+
+      await read({}, ["author"], authorize);
+      expect(authorize).toHaveBeenCalledWith("authors");
+      await expectAppError(
+        read({}, ["author", "tags"], authorize),
+        ErrorType.FORBIDDEN
+      );
+    });
+
+    it("rejects unknown relations and one-to-many writes", async () => {
+      await expectAppError(read({}, ["title"]), ErrorType.VALIDATION_FAILED);
+      await expectAppError(
+        new CreateCommand(db, "authors", {
+          name: "Bo",
+          articles: [1],
+        }).execute(),
+        ErrorType.VALIDATION_FAILED
+      );
+    });
+
+    it.runIf(name === "SQLite")(
+      "drops the links of deleted records",
+      async () => {
+        const join = joinTableName("articles", "tags");
+        expect(await db.count(join)).toBe(3);
+
+        await new DeleteCommand(db, "articles", { title: "First" }).execute();
+        expect(await db.count(join)).toBe(1);
+      }
+    );
+  });
+}
+
+let tmpDir: string;
+
+describeRelations("SQLite", async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "relations-"));
+  const db = new SqliteStrategy({ filepath: path.join(tmpDir, "rel.db") });
+  await db.ready;
+  await db.executeRaw(
+    `CREATE TABLE collection_schemas (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection_name TEXT NOT NULL UNIQUE,
+      fields TEXT NOT NULL
+    )`
+  );
+  await db.executeRaw(
+    `CREATE TABLE collection_schema_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection_name TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      base_version INTEGER,
+      status TEXT NOT NULL,
+      fields TEXT NOT NULL,
+      migration TEXT NOT NULL,
+      created_at TEXT
+    )`
+  );
+  return {
+    db,
+    close: async () => {
+      await db.disconnect();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    },
+  };
+});
+
+describeRelations("mock", async () => ({ db: new MockDatabaseStrategy() }));
+
+describe("parseExpand", () => {
+  it("builds a tree and enforces the depth limit", () => {
+    const tree = parseExpand(["author", "tags.author", "tags"]);
+    expect([...tree.keys()]).toEqual(["author", "tags"]);
+    expect([...tree.get("tags")!.keys()]).toEqual(["author"]);
+
+    expect(() => parseExpand(["a.b.c.d"])).toThrow(AppError);
+    expect(() => parseExpand(["a;drop"])).toThrow(AppError);
+  });
+});
@@ -0,0 +1,29 @@
+// packages/core/database/relations/relationFields.ts
+
+import type {
+  CollectionDefinition,
+  FieldDefinition,
+  RelationKind,
+} from "../types/CollectionSchema";
+
+/** Join table columns holding the owning and the related record's id */
+export const JOIN_SOURCE = "source_id";
+export const JOIN_TARGET = "target_id";
+
+export const relationKind = (field: FieldDefinition): RelationKind | null =>
+  field.type === "relation" ? (field.relation ?? "many-to-one") : null;
+
+/** Join table of a `many-to-many` field on SQL engines */
+export const joinTableName = (collection: string, field: string) =>
+  `${collection}__${field}`;
+
+/** Whether the field has a column; `one-to-many` relations are derived */
+export const isStoredField = (field: FieldDefinition) =>
+  relationKind(field) !== "one-to-many";
+
+/** Whether SQL engines keep the field in its table, not a join table */
+export const hasColumn = (field: FieldDefinition) =>
+  isStoredField(field) && relationKind(field) !== "many-to-many";
+
+export const manyToManyFields = (definition: CollectionDefinition) =>
+  definition.fields.filter((f) => relationKind(f) === "many-to-many");
@@ -0,0 +1,185 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { SqliteStrategy } from "../../strategies/sqlite/SqliteStrategy";
+import { MockDatabaseStrategy } from "../../strategies/mock/MockDatabaseStrategy";
+import type { IDatabaseStrategy } from "../../IDatabaseStrategy";
+import type { ICommand } from "../../../commands/ICommand";
+import { CommandExecutor } from "../../../commands/CommandExecutor";
+import { CollectionSchemaCreateCommand } from "../../../commands/collection_schemas/CollectionSchemaCommands";
+import { CreateCommand } from "../../../commands/CreateCommand";
+import { UpdateCommand } from "../../../commands/UpdateCommand";
+import { DeleteCommand } from "../../../commands/DeleteCommand";
+import { RevisionRestoreCommand } from "../../../commands/RevisionRestoreCommand";
+import {
+  compareRevisions,
+  diffRecords,
+  listRevisions,
+} from "../recordRevisions";
+
+/** Same scenarios on SQL storage and on a schemaless engine */
+function describeRevisions(
+  name: string,
+  setup: () => Promise<{ db: IDatabaseStrategy; close?: () => Promise<void> }>
+) {
+  describe(`revisions on ${name}`, () => {
+    let db: IDatabaseStrategy;
+    let close: (() => Promise<void>) | undefined;
+
+    const run = <T>(
+      build: (tx: IDatabaseStrategy) => ICommand<T>,
+      author = "7"
+    ) => CommandExecutor.executeInTransaction(db, build, { author });
+
+    const create = (collection: string, data: Record<string, any>) =>
+      run((tx) => new CreateCommand(tx, collection, data));
+
+    const update = (collection: string, id: any, data: Record<string, any>) =>
+      run((tx) => new UpdateCommand(tx, collection, { id }, data));
+
+    beforeAll(async () => {
+      ({ db, close } = await setup());
+      await new CollectionSchemaCreateCommand(
+        {
+          collection_name: "posts",
+          fields: [
+            { name: "title", type: "string", required: true },
+            { name: "published", type: "boolean" },
+            { name: "meta", type: "json" },
+          ],
+        },
+        db
+      ).execute();
+      await new CollectionSchemaCreateCommand(
+        {
+          collection_name: "drafts",
+          fields: [{ name: "title", type: "string" }],
+          revision_limit: 2,
+        },
+        db
+      ).execute();
+    });
+
+    afterAll(async () => {
+      await close?.();
+    });
+
+    it("records who changed what on create, update and delete", async () => {
+      const post = await create("posts", { title: "One", published: false });
+      await update("posts", post.id, { title: "Two" });
+      await run((tx) => new DeleteCommand(tx, "posts", { id: post.id }), "8");
+
+      const revisions = await listRevisions(db, "posts", post.id);
+      expect(revisions.map((r) => [r.revision, r.action, r.author])).toEqual([
+        [3, "delete", "8"],
+        [2, "update", "7"],
+        [1, "create", "7"],
+      ]);
+      expect(revisions[1].diff).toMatchObject({
+        title: { from: "One", to: "Two" },
+      });
+      expect(revisions[0].snapshot).toMatchObject({ title: "Two" });
+    });
+
+    it("compares two revisions", async () => {
+      const post = await create("posts", { title: "A", meta: { tags: [1] } });
+      await update("posts", post.id, { title: "B" });
+
+      // The mock reuses deleted ids, so the history may not start here
+      const [to, from] = await listRevisions(db, "posts", post.id);
+      const { diff } = await compareRevisions(
+        db,
+        "posts",
+        post.id,
+        from.revision,
+        to.revision
+      );
+      expect(diff).toMatchObject({ title: { from: "A", to: "B" } });
+      expect(diff.meta).toBeUndefined();
+    });
+
+    it("restores a revision as a new revision", async () => {
+      const post = await create("posts", {
+        title: "Original",
+        published: true,
+        meta: { lang: "en" },
+      });
+      await update("posts", post.id, { title: "Edited", published: false });
+
+      await run((tx) => new RevisionRestoreCommand(tx, "posts", post.id, 1));
+
+      const [record] = await db.read("posts", { id: post.id });
+      expect(record.title).toBe("Original");
+      const [latest] = await listRevisions(db, "posts", post.id);
+      expect(latest).toMatchObject({ revision: 3, action: "update" });
+    });
+
+    it("keeps only the collection's revision limit", async () => {
+      const draft = await create("drafts", { title: "v1" });
+      await update("drafts", draft.id, { title: "v2" });
+      await update("drafts", draft.id, { title: "v3" });
+
+      const revisions = await listRevisions(db, "drafts", draft.id);
+      expect(revisions.map((r) => r.revision)).toEqual([3, 2]);
+    });
+  });
+}
+
+let tmpDir: string;
+
+describeRevisions("SQLite", async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "revisions-"));
+  const db = new SqliteStrategy({ filepath: path.join(tmpDir, "rev.db") });
+  await db.ready;
+  await db.executeRaw(
+    `CREATE TABLE collection_schemas (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection_name TEXT NOT NULL UNIQUE,
+      fields TEXT NOT NULL,
+      revision_limit INTEGER
+    )`
+  );
+  await db.executeRaw(
+    `CREATE TABLE collection_schema_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection_name TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      base_version INTEGER,
+      status TEXT NOT NULL,
+      fields TEXT NOT NULL,
+      migration TEXT NOT NULL,
+      created_at TEXT
+    )`
+  );
+  await db.executeRaw(
+    `CREATE TABLE record_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection_name TEXT NOT NULL,
+      record_id TEXT NOT NULL,
+      revision INTEGER NOT NULL,
+      action TEXT NOT NULL,
+      snapshot TEXT NOT NULL,
+      diff TEXT NOT NULL,
+      author TEXT,
+      created_at TEXT
+    )`
+  );
+  return {
+    db,
+    close: async () => {
+      await db.disconnect();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    },
+  };
+});
+
+describeRevisions("mock", async () => ({ db: new MockDatabaseStrategy() }));
+
+describe("diffRecords", () => {
+  it("lists changed fields only, treating missing as null", () => {
+    expect(
+      diffRecords({ a: 1, b: { x: 1 }, c: null }, { a: 2, b: { x: 1 } })
+    ).toEqual({ a: { from: 1, to: 2 } });
+  });
+});
@@ -0,0 +1,136 @@
+// packages/core/database/revisions/recordRevisions.ts
+
+import type { IDatabaseStrategy } from "../IDatabaseStrategy";
+import type { RecordDiff, Revision, RevisionAction } from "../types/Revision";
+import { AppError } from "../../errors/AppError";
+
+export const REVISIONS = "record_revisions";
+
+/** Revisions kept per record when a collection sets no `revision_limit` */
+export const DEFAULT_REVISION_LIMIT = 50;
+
+type RevisionStore = Pick<IDatabaseStrategy, "read" | "create" | "deleteMany">;
+
+// SQLite and MariaDB hand JSON columns back as text
+const parseJson = (value: unknown) =>
+  typeof value === "string" ? JSON.parse(value) : value;
+
+const fromRow = (row: any): Revision => ({
+  ...row,
+  revision: Number(row.revision),
+  snapshot: parseJson(row.snapshot),
+  diff: parseJson(row.diff),
+});
+
+/** Fields whose values differ between two states of a record */
+export function diffRecords(
+  before: Record<string, any> = {},
+  after: Record<string, any> = {}
+): RecordDiff {
+  const diff: RecordDiff = {};
+  for (const field of new Set([
+    ...Object.keys(before),
+    ...Object.keys(after),
+  ])) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      diff[field] = { from, to };
+    }
+  }
+  return diff;
+}
+
+/** Revisions of a record, newest first */
+export async function listRevisions(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string,
+  recordId: string
+): Promise<Revision[]> {
+  const rows = await db.read(
+    REVISIONS,
+    { collection_name: collection, record_id: String(recordId) },
+    { sort: { field: "revision", order: "desc" } }
+  );
+  return rows.map(fromRow);
+}
+
+export async function getRevision(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string,
+  recordId: string,
+  revision: number
+): Promise<Revision> {
+  const [row] = await db.read(REVISIONS, {
+    collection_name: collection,
+    record_id: String(recordId),
+    revision,
+  });
+  if (!row) {
+    throw AppError.notFound(
+      `Revision ${revision} of record '${recordId}' in '${collection}' does not exist`
+    );
+  }
+  return fromRow(row);
+}
+
+/** What changed from one revision of a record to another */
+export async function compareRevisions(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string,
+  recordId: string,
+  from: number,
+  to: number
+): Promise<{ from: Revision; to: Revision; diff: RecordDiff }> {
+  const [older, newer] = await Promise.all([
+    getRevision(db, collection, recordId, from),
+    getRevision(db, collection, recordId, to),
+  ]);
+  return {
+    from: older,
+    to: newer,
+    diff: diffRecords(older.snapshot, newer.snapshot),
+  };
+}
+
+/**
+ * Stores one change of a record as its next revision, then prunes the
+ * oldest ones beyond `limit`.
+ */
+export async function recordRevision(
+  db: RevisionStore,
+  change: {
+    collection: string;
+    recordId: string;
+    action: RevisionAction;
+    snapshot: Record<string, any>;
+    diff: RecordDiff;
+    author?: string | null;
+  },
+  limit: number
+): Promise<void> {
+  const collection_name = change.collection;
+  const record_id = String(change.recordId);
+  const revisions = await listRevisions(db, collection_name, record_id);
+
+  await db.create(REVISIONS, {
+    collection_name,
+    record_id,
+    revision: (revisions[0]?.revision ?? 0) + 1,
+    action: change.action,
+    snapshot: change.snapshot,
+    diff: change.diff,
+    author: change.author ?? null,
+    created_at: new Date(),
+  });
+
+  // The new revision counts towards the limit
+  const expired = revisions.slice(Math.max(limit - 1, 0));
+  if (expired.length > 0) {
+    await db.deleteMany(REVISIONS, {
+      collection_name,
+      record_id,
+      revision: { in: expired.map((r) => r.revision) },
+    });
+  }
+}
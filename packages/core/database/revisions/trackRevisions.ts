@@ -0,0 +1,157 @@
+// packages/core/database/revisions/trackRevisions.ts
+
+import type { IDatabaseStrategy } from "../IDatabaseStrategy";
+import type { Filter } from "../types/Filter";
+import type { RevisionAction } from "../types/Revision";
+import type { WriteResult } from "../types/WriteResult";
+import { MongoStrategy } from "../strategies/mongo/MongoStrategy";
+import { loadCollectionDefinition } from "../../commands/validatePayload";
+import {
+  DEFAULT_REVISION_LIMIT,
+  diffRecords,
+  recordRevision,
+} from "./recordRevisions";
+
+/**
+ * Wraps `db` so every write to a defined collection also stores a
+ * revision of each record it touched, credited to `author`. Like the
+ * transaction-scoped strategies, the wrapper inherits from `db`, so
+ * engine checks keep working.
+ */
+export function trackRevisions(
+  db: IDatabaseStrategy,
+  author?: string | null
+): IDatabaseStrategy {
+  const idField = db instanceof MongoStrategy ? "_id" : "id";
+  const tracked: IDatabaseStrategy = Object.create(db);
+
+  const limitOf = async (collection: string): Promise<number> => {
+    const definition = await loadCollectionDefinition(db, collection);
+    return definition
+      ? (definition.revision_limit ?? DEFAULT_REVISION_LIMIT)
+      : 0;
+  };
+
+  const record = async (
+    collection: string,
+    limit: number,
+    action: RevisionAction,
+    before: any,
+    after: any
+  ) => {
+    const diff = diffRecords(before ?? undefined, after ?? undefined);
+    if (action === "update" && Object.keys(diff).length === 0) return;
+    // Copied, as engines like the mock hand out their live records
+    const snapshot = { ...(after ?? before) };
+    await recordRevision(
+      db,
+      {
+        collection,
+        recordId: String(snapshot[idField]),
+        action,
+        snapshot,
+        diff,
+        author,
+      },
+      limit
+    );
+  };
+
+  /** Runs a write on records matched up front, recording each of them */
+  const around = async <T>(
+    collection: string,
+    filter: Filter,
+    action: "update" | "delete",
+    write: () => Promise<T>
+  ): Promise<T> => {
+    const limit = await limitOf(collection);
+    if (!limit) return write();
+
+    const before: any[] = (await db.read(collection, filter)).map((r: any) => ({
+      ...r,
+    }));
+    const result = await write();
+    const ids = before.map((r) => r[idField]);
+    const after: any[] =
+      action === "delete" || ids.length === 0
+        ? []
+        : await db.read(collection, { [idField]: { in: ids } });
+
+    for (const previous of before) {
+      const id = String(previous[idField]);
+      const current = after.find((r) => String(r[idField]) === id);
+      // A record the write no longer matches by id was deleted
+      await record(
+        collection,
+        limit,
+        current ? action : "delete",
+        previous,
+        current
+      );
+    }
+    return result;
+  };
+
+  const created = async (collection: string, records: any[] = []) => {
+    const limit = await limitOf(collection);
+    if (!limit) return;
+    for (const created of records) {
+      await record(collection, limit, "create", undefined, created);
+    }
+  };
+
+  Object.assign(tracked, {
+    async create(collection: string, data: any) {
+      const result = await db.create(collection, data);
+      await created(collection, [result]);
+      return result;
+    },
+    async createMany(collection: string, items: any[]) {
+      const result = await db.createMany(collection, items);
+      await created(collection, result.records);
+      return result;
+    },
+    update: (collection: string, query: Filter, data: any) =>
+      around(collection, query, "update", () =>
+        db.update(collection, query, data)
+      ),
+    updateMany: (collection: string, query: Filter, data: any) =>
+      around(collection, query, "update", () =>
+        db.updateMany(collection, query, data)
+      ),
+    delete: (collection: string, query: Filter) =>
+      around(collection, query, "delete", () => db.delete(collection, query)),
+    deleteMany: (collection: string, query: Filter) =>
+      around(collection, query, "delete", () =>
+        db.deleteMany(collection, query)
+      ),
+    async upsert(collection: string, conflictKeys: string[], data: any) {
+      const limit = await limitOf(collection);
+      if (!limit) return db.upsert(collection, conflictKeys, data);
+
+      const [existing] = await db.read(
+        collection,
+        Object.fromEntries(conflictKeys.map((key) => [key, data[key]])),
+        { limit: 1 }
+      );
+      const previous = existing && { ...existing };
+      const result: WriteResult = await db.upsert(
+        collection,
+        conflictKeys,
+        data
+      );
+      for (const current of result.records ?? []) {
+        await record(
+          collection,
+          limit,
+          previous ? "update" : "create",
+          previous,
+          current
+        );
+      }
+      return result;
+    },
+  });
+
+  return tracked;
+}
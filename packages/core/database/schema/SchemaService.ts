@@ -0,0 +1,142 @@
+// packages/core/database/schema/SchemaService.ts
+
+import type { IDatabaseStrategy } from "../IDatabaseStrategy";
+import type {
+  CollectionDefinition,
+  MigrationStep,
+} from "../types/CollectionSchema";
+import { MockDatabaseStrategy } from "../strategies/mock/MockDatabaseStrategy";
+import { MongoStrategy } from "../strategies/mongo/MongoStrategy";
+import { SqliteStrategy } from "../strategies/sqlite/SqliteStrategy";
+import { isKnexBacked } from "../knex/knexBacked";
+import { AppError } from "../../errors/AppError";
+import { dbLogger } from "../../src/telemetry/logger";
+import { applySqlSteps, knexSchemaTarget, SqlSchemaTarget } from "./sqlSchema";
+import { applyMongoSteps } from "./mongoSchema";
+import { planMigration } from "./diffSchema";
+
+/** Tables created by `bootstrapCoreTables`, never altered from definitions */
+export const CORE_COLLECTIONS = new Set([
+  "users",
+  "collection_schemas",
+  "collection_schema_versions",
+  "collection_permissions",
+  "record_revisions",
+  "service_accounts",
+  "api_keys",
+  "roles",
+  "account_tokens",
+]);
+
+/** SQLite has no Knex instance, so DDL runs through `executeRaw` */
+const sqliteSchemaTarget = (db: SqliteStrategy): SqlSchemaTarget => ({
+  client: "better-sqlite3",
+  hasTable: async (table) =>
+    (
+      await db.executeRaw(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+        [table]
+      )
+    ).length > 0,
+  columns: async (table) =>
+    (await db.executeRaw(`PRAGMA table_info("${table}")`)).map(
+      (column) => column.name
+    ),
+  execute: async (statements) => {
+    for (const { sql, bindings } of statements) {
+      await db.executeRaw(sql, [...bindings]);
+    }
+  },
+});
+
+/**
+ * SQL schema target for `db`, or `null` for schemaless engines (mock,
+ * MongoDB) and custom engines without a Knex instance.
+ */
+export function sqlSchemaTarget(db: IDatabaseStrategy): SqlSchemaTarget | null {
+  if (db instanceof MockDatabaseStrategy || db instanceof MongoStrategy) {
+    return null;
+  }
+  if (db instanceof SqliteStrategy) return sqliteSchemaTarget(db);
+
+  return isKnexBacked(db) ? knexSchemaTarget(db.getDb()) : null;
+}
+
+/**
+ * Turns `collection_schemas` definitions into real tables or collections
+ * on whichever engine `db` talks to.
+ */
+export class SchemaService {
+  constructor(private db: IDatabaseStrategy) {}
+
+  /**
+   * Applies a definition, given the one it replaces when it was changed.
+   * Returns the DDL that ran; engines without a schema return none.
+   */
+  async syncCollection(
+    definition: CollectionDefinition,
+    previous?: CollectionDefinition,
+    renames: { from: string; to: string }[] = []
+  ): Promise<string[]> {
+    const { forward } = planMigration(previous, definition, renames);
+    return this.applySteps(definition, forward);
+  }
+
+  /**
+   * Runs migration steps that lead to `definition`. With `dryRun` the DDL
+   * is only generated, for previews.
+   */
+  async applySteps(
+    definition: CollectionDefinition,
+    steps: MigrationStep[],
+    { dryRun = false } = {}
+  ): Promise<string[]> {
+    const collection = definition.collection_name;
+    if (CORE_COLLECTIONS.has(collection)) {
+      throw AppError.validationError(
+        `'${collection}' is a core collection and cannot be redefined`
+      );
+    }
+
+    try {
+      const applied = await this.apply(definition, steps, dryRun);
+      if (!dryRun) {
+        dbLogger.info(
+          { collection, applied },
+          `Synced schema for '${collection}'`
+        );
+      }
+      return applied;
+    } catch (err) {
+      if (err instanceof AppError) throw err;
+      throw AppError.databaseError(
+        `Failed to apply schema for '${collection}'`,
+        { collection, reason: err instanceof Error ? err.message : String(err) }
+      );
+    }
+  }
+
+  private async apply(
+    definition: CollectionDefinition,
+    steps: MigrationStep[],
+    dryRun: boolean
+  ): Promise<string[]> {
+    const db = this.db;
+
+    if (db instanceof MockDatabaseStrategy) return [];
+    if (db instanceof MongoStrategy) {
+      return applyMongoSteps(db.getDb(), definition, steps, { dryRun });
+    }
+
+    const target = sqlSchemaTarget(db);
+    if (target) {
+      return applySqlSteps(target, definition, steps, { dryRun });
+    }
+
+    dbLogger.warn(
+      { collection: definition.collection_name },
+      "Database engine has no schema support; skipping DDL"
+    );
+    return [];
+  }
+}
@@ -0,0 +1,166 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { DataType, newDb } from "pg-mem";
+import type { Knex } from "knex";
+import { SchemaService } from "../SchemaService";
+import { SqliteStrategy } from "../../strategies/sqlite/SqliteStrategy";
+import { PostgresStrategy } from "../../strategies/postgres/PostgresStrategy";
+import { MockDatabaseStrategy } from "../../strategies/mock/MockDatabaseStrategy";
+import { CollectionSchemaUpdateCommand } from "../../../commands/collection_schemas/CollectionSchemaCommands";
+import { AppError, ErrorType } from "../../../errors/AppError";
+import type { CollectionDefinition } from "../../types/CollectionSchema";
+
+const articles: CollectionDefinition = {
+  collection_name: "articles",
+  fields: [
+    { name: "title", type: "string", required: true },
+    { name: "slug", type: "string", required: true, unique: true },
+    { name: "views", type: "integer", default: 0 },
+  ],
+};
+
+const withSummary: CollectionDefinition = {
+  ...articles,
+  fields: [...articles.fields, { name: "summary", type: "text" }],
+};
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+describe("SchemaService on SQLite", () => {
+  let tmpDir: string;
+  let db: SqliteStrategy;
+  let schema: SchemaService;
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "schema-"));
+    db = new SqliteStrategy({ filepath: path.join(tmpDir, "schema.db") });
+    await db.ready;
+    schema = new SchemaService(db);
+  });
+
+  afterAll(async () => {
+    await db.disconnect();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("creates a table with required, default and unique columns", async () => {
+    await schema.syncCollection(articles);
+
+    const row = await db.create("articles", { title: "Hello", slug: "hello" });
+    expect(row).toMatchObject({ title: "Hello", views: 0 });
+
+    await expect(
+      db.create("articles", { title: "Again", slug: "hello" })
+    ).rejects.toThrow(/UNIQUE/);
+    await expect(db.create("articles", { slug: "untitled" })).rejects.toThrow(
+      /NOT NULL/
+    );
+  });
+
+  it("adds new fields and toggles unique constraints", async () => {
+    const applied = await schema.syncCollection(
+      {
+        ...withSummary,
+        fields: withSummary.fields.map((f) =>
+          f.name === "slug" ? { ...f, unique: false } : f
+        ),
+      },
+      articles
+    );
+    expect(applied.some((sql) => sql.includes("summary"))).toBe(true);
+
+    const row = await db.create("articles", {
+      title: "Dup",
+      slug: "hello",
+      summary: "short",
+    });
+    expect(row.summary).toBe("short");
+  });
+
+  it("rejects in-place column changes", async () => {
+    const retyped: CollectionDefinition = {
+      ...articles,
+      fields: articles.fields.map((f) =>
+        f.name === "views" ? { ...f, type: "string" } : f
+      ),
+    };
+    await expectAppError(
+      schema.syncCollection(retyped, articles),
+      ErrorType.VALIDATION_FAILED
+    );
+  });
+
+  it("refuses to redefine core collections", async () => {
+    await expectAppError(
+      schema.syncCollection({ ...articles, collection_name: "users" }),
+      ErrorType.VALIDATION_FAILED
+    );
+  });
+});
+
+describe("SchemaService on Postgres (pg-mem)", () => {
+  let knex: Knex;
+  let db: PostgresStrategy;
+
+  beforeAll(() => {
+    db = new PostgresStrategy({
+      host: "localhost",
+      port: 5432,
+      user: "schema",
+      password: "schema",
+      database: "schema",
+      connectionString: "postgres://schema@localhost:5432/schema",
+    });
+    const mem = newDb();
+    // Knex's column introspection calls a function pg-mem lacks
+    mem.public.registerFunction({
+      name: "current_database",
+      returns: DataType.text,
+      implementation: () => "pgmem",
+    });
+    knex = mem.adapters.createKnex();
+    (db as any).db = knex;
+  });
+
+  afterAll(() => knex.destroy());
+
+  it("creates and alters tables through Knex", async () => {
+    const schema = new SchemaService(db);
+    await schema.syncCollection(articles);
+    await schema.syncCollection(withSummary, articles);
+
+    expect(Object.keys(await knex("articles").columnInfo()).sort()).toEqual([
+      "id",
+      "slug",
+      "summary",
+      "title",
+      "version",
+      "views",
+    ]);
+    const row: any = await db.create("articles", { title: "Hi", slug: "hi" });
+    // pg-mem keeps Knex's quoted default as text; Postgres casts it
+    expect(Number(row.views)).toBe(0);
+  });
+});
+
+describe("CollectionSchemaUpdateCommand", () => {
+  it("rejects renaming a collection", async () => {
+    const db = new MockDatabaseStrategy();
+    await db.create("collection_schemas", articles);
+
+    await expectAppError(
+      new CollectionSchemaUpdateCommand(
+        { collection_name: "articles" },
+        { collection_name: "posts" },
+        db
+      ).execute(),
+      ErrorType.VALIDATION_FAILED
+    );
+  });
+});
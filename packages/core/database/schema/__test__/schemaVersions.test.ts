@@ -0,0 +1,170 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { planMigration } from "../diffSchema";
+import { listSchemaVersions } from "../schemaVersions";
+import { SqliteStrategy } from "../../strategies/sqlite/SqliteStrategy";
+import {
+  CollectionSchemaApplyCommand,
+  CollectionSchemaCreateCommand,
+  CollectionSchemaPreviewCommand,
+  CollectionSchemaRevertCommand,
+  CollectionSchemaUpdateCommand,
+} from "../../../commands/collection_schemas/CollectionSchemaCommands";
+import type { CollectionDefinition } from "../../types/CollectionSchema";
+
+const v1: CollectionDefinition = {
+  collection_name: "books",
+  fields: [
+    { name: "name", type: "string", required: true },
+    { name: "pages", type: "integer" },
+    { name: "isbn", type: "string" },
+  ],
+};
+
+describe("planMigration", () => {
+  it("reports added, removed, renamed and retyped fields", () => {
+    const next: CollectionDefinition = {
+      collection_name: "books",
+      fields: [
+        { name: "title", type: "string", required: true },
+        { name: "pages", type: "number" },
+        { name: "summary", type: "text" },
+      ],
+    };
+    const { diff, forward, reverse } = planMigration(v1, next, [
+      { from: "name", to: "title" },
+    ]);
+
+    expect(diff.added.map((f) => f.name)).toEqual(["summary"]);
+    expect(diff.removed.map((f) => f.name)).toEqual(["isbn"]);
+    expect(diff.renamed).toEqual([{ from: "name", to: "title" }]);
+    expect(diff.retyped).toEqual([
+      { field: "pages", from: "integer", to: "number" },
+    ]);
+    expect(forward.map((s) => s.op)).toEqual([
+      "renameField",
+      "alterField",
+      "addField",
+      "removeField",
+    ]);
+    expect(reverse).toContainEqual({
+      op: "renameField",
+      from: "title",
+      to: "name",
+    });
+    expect(reverse).toContainEqual({ op: "addField", field: v1.fields[2] });
+  });
+
+  it("plans a new collection without reverse steps", () => {
+    const { forward, reverse } = planMigration(undefined, v1);
+    expect(forward).toEqual([{ op: "createCollection", definition: v1 }]);
+    expect(reverse).toEqual([]);
+  });
+});
+
+describe("schema versions on SQLite", () => {
+  let tmpDir: string;
+  let db: SqliteStrategy;
+
+  const columns = async () =>
+    (await db.executeRaw(`PRAGMA table_info("books")`)).map((c) => c.name);
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "versions-"));
+    db = new SqliteStrategy({ filepath: path.join(tmpDir, "versions.db") });
+    await db.ready;
+    await db.executeRaw(
+      `CREATE TABLE collection_schemas (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection_name TEXT NOT NULL UNIQUE,
+        fields TEXT NOT NULL
+      )`
+    );
+    await db.executeRaw(
+      `CREATE TABLE collection_schema_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection_name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        base_version INTEGER,
+        status TEXT NOT NULL,
+        fields TEXT NOT NULL,
+        migration TEXT NOT NULL,
+        created_at TEXT
+      )`
+    );
+    await new CollectionSchemaCreateCommand(v1, db).execute();
+    await db.create("books", { name: "Dune", pages: 412 });
+  });
+
+  afterAll(async () => {
+    await db.disconnect();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const renamed = {
+    fields: [
+      { name: "title", type: "string", required: true, renamedFrom: "name" },
+      { name: "pages", type: "integer" },
+      { name: "isbn", type: "string" },
+      { name: "summary", type: "text" },
+    ],
+  };
+
+  it("previews a change without applying it", async () => {
+    const preview = await new CollectionSchemaPreviewCommand(
+      "books",
+      renamed,
+      db
+    ).execute();
+
+    expect(preview.diff.renamed).toEqual([{ from: "name", to: "title" }]);
+    expect(preview.statements.join("\n")).toMatch(/rename column/);
+    expect(await columns()).toContain("name");
+  });
+
+  it("records each change as a version", async () => {
+    const result = await new CollectionSchemaUpdateCommand(
+      { collection_name: "books" },
+      renamed,
+      db
+    ).execute();
+
+    expect(result.version).toBe(2);
+    expect(await columns()).toEqual(
+      expect.arrayContaining(["title", "summary"])
+    );
+    const [book] = await db.read("books", {});
+    expect(book.title).toBe("Dune");
+
+    const versions = await listSchemaVersions(db, "books");
+    expect(versions.map((v) => [v.version, v.status])).toEqual([
+      [1, "superseded"],
+      [2, "current"],
+    ]);
+    expect(versions[1].fields.some((f) => "renamedFrom" in f)).toBe(false);
+  });
+
+  it("reverts and re-applies a version", async () => {
+    await new CollectionSchemaRevertCommand("books", 2, db).execute();
+
+    const [book] = await db.read("books", {});
+    expect(book.name).toBe("Dune");
+    const [record] = await db.read("collection_schemas", {
+      collection_name: "books",
+    });
+    expect(JSON.parse(record.fields)).toEqual(v1.fields);
+
+    await new CollectionSchemaApplyCommand("books", 2, db).execute();
+    const versions = await listSchemaVersions(db, "books");
+    expect(versions.map((v) => v.status)).toEqual(["superseded", "current"]);
+    expect((await db.read("books", {}))[0].title).toBe("Dune");
+  });
+
+  it("only reverts the current version", async () => {
+    await expect(
+      new CollectionSchemaRevertCommand("books", 1, db).execute()
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
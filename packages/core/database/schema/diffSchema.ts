@@ -0,0 +1,146 @@
+// packages/core/database/schema/diffSchema.ts
+
+import { AppError } from "../../errors/AppError";
+import type {
+  CollectionDefinition,
+  FieldDefinition,
+  MigrationPlan,
+  MigrationStep,
+  SchemaDiff,
+} from "../types/CollectionSchema";
+
+type Rename = { from: string; to: string };
+
+/** Definition as stored, without the `renamedFrom` hints of an update */
+export function stripRenameHints(
+  definition: CollectionDefinition
+): CollectionDefinition {
+  return {
+    ...definition,
+    fields: definition.fields.map(({ renamedFrom: _, ...field }) => field),
+  };
+}
+
+/** Renames an update asks for through `renamedFrom` */
+export function renameHints(definition: CollectionDefinition): Rename[] {
+  return definition.fields
+    .filter((field) => field.renamedFrom)
+    .map((field) => ({ from: field.renamedFrom!, to: field.name }));
+}
+
+/** Field properties that matter for storage and validation */
+const signature = (field: FieldDefinition) =>
+  JSON.stringify({
+    type: field.type,
+    required: !!field.required,
+    unique: !!field.unique,
+    default: field.default,
+    values: field.values,
+    collection: field.collection,
+    relation: field.relation,
+    via: field.via,
+  });
+
+export function diffCollectionSchema(
+  previous: CollectionDefinition | undefined,
+  next: CollectionDefinition,
+  renames: Rename[] = []
+): SchemaDiff {
+  const diff: SchemaDiff = {
+    added: [],
+    removed: [],
+    renamed: [],
+    retyped: [],
+    changed: [],
+  };
+  const before = new Map(previous?.fields.map((f) => [f.name, f]));
+  const after = new Map(next.fields.map((f) => [f.name, f]));
+  const sources = new Map<string, string>();
+
+  for (const { from, to } of renames) {
+    if (!before.has(from) || before.has(to) || after.has(from)) {
+      throw AppError.validationError(
+        `Cannot rename field '${from}' to '${to}'`,
+        { from, to }
+      );
+    }
+    sources.set(to, from);
+    diff.renamed.push({ from, to });
+  }
+
+  for (const field of next.fields) {
+    const old = before.get(sources.get(field.name) ?? field.name);
+    if (!old) {
+      diff.added.push(field);
+      continue;
+    }
+    // Values would have to move in or out of a locale map
+    if (!!old.localized !== !!field.localized) {
+      throw AppError.validationError(
+        `Cannot change whether field '${field.name}' is localized`,
+        { field: field.name }
+      );
+    }
+    if (old.type !== field.type) {
+      diff.retyped.push({ field: field.name, from: old.type, to: field.type });
+    }
+    if (signature(old) !== signature(field)) {
+      diff.changed.push({ field: field.name, from: old, to: field });
+    }
+  }
+
+  const consumed = new Set(
+    next.fields.map((f) => sources.get(f.name) ?? f.name)
+  );
+  diff.removed = (previous?.fields ?? []).filter((f) => !consumed.has(f.name));
+
+  return diff;
+}
+
+function planSteps(
+  previous: CollectionDefinition | undefined,
+  next: CollectionDefinition,
+  diff: SchemaDiff
+): MigrationStep[] {
+  if (!previous) return [{ op: "createCollection", definition: next }];
+
+  return [
+    ...diff.renamed.map(
+      ({ from, to }): MigrationStep => ({ op: "renameField", from, to })
+    ),
+    ...diff.changed.map(
+      ({ field, from, to }): MigrationStep => ({
+        op: "alterField",
+        from: { ...from, name: field },
+        to,
+      })
+    ),
+    ...diff.added.map((field): MigrationStep => ({ op: "addField", field })),
+    ...diff.removed.map(
+      (field): MigrationStep => ({ op: "removeField", field })
+    ),
+  ];
+}
+
+/**
+ * Diffs two definitions and derives the steps that move storage forward
+ * and back again. A new collection has no reverse steps: dropping it
+ * would lose data.
+ */
+export function planMigration(
+  previous: CollectionDefinition | undefined,
+  next: CollectionDefinition,
+  renames: Rename[] = []
+): MigrationPlan {
+  const diff = diffCollectionSchema(previous, next, renames);
+  const forward = planSteps(previous, next, diff);
+  if (!previous) return { diff, forward, reverse: [] };
+
+  const inverse = renames.map(({ from, to }) => ({ from: to, to: from }));
+  const reverse = planSteps(
+    next,
+    previous,
+    diffCollectionSchema(next, previous, inverse)
+  );
+  return { diff, forward, reverse };
+}
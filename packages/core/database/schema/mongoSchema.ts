@@ -0,0 +1,133 @@
+// packages/core/database/schema/mongoSchema.ts
+
+import type { Db } from "mongodb";
+import type {
+  CollectionDefinition,
+  FieldDefinition,
+  FieldType,
+  MigrationStep,
+} from "../types/CollectionSchema";
+import { isStoredField, relationKind } from "../relations/relationFields";
+
+const BSON_TYPES: Record<FieldType, string[]> = {
+  string: ["string"],
+  text: ["string"],
+  integer: ["int", "long"],
+  number: ["double", "int", "long", "decimal"],
+  boolean: ["bool"],
+  date: ["date"],
+  datetime: ["date"],
+  json: ["object", "array"],
+  enum: ["string"],
+  email: ["string"],
+  url: ["string"],
+  relation: ["objectId", "string", "int", "long"],
+};
+
+const uniqueIndexName = (collection: string, field: string) =>
+  `${collection}_${field}_unique`;
+
+/**
+ * `$jsonSchema` validator for a definition. MongoDB has no column defaults,
+ * so `default` is only recorded as an annotation.
+ */
+export function toJsonSchemaValidator(definition: CollectionDefinition) {
+  const stored = definition.fields.filter(isStoredField);
+  const property = (field: FieldDefinition) => {
+    // Localized fields are stored as locale maps, `many-to-many`
+    // relations as lists of ids
+    const types = field.localized
+      ? ["object"]
+      : relationKind(field) === "many-to-many"
+        ? ["array"]
+        : BSON_TYPES[field.type];
+    return {
+      bsonType: field.required ? types : [...types, "null"],
+      ...(field.values &&
+        !field.localized && {
+          enum: [...field.values, ...(field.required ? [] : [null])],
+        }),
+      ...(field.default !== undefined && { default: field.default }),
+    };
+  };
+
+  return {
+    $jsonSchema: {
+      bsonType: "object",
+      required: stored.filter((f) => f.required).map((f) => f.name),
+      properties: Object.fromEntries(stored.map((f) => [f.name, property(f)])),
+    },
+  };
+}
+
+/**
+ * Creates the collection with a validator, or replaces the validator of an
+ * existing one, renames fields in stored documents, and reconciles unique
+ * indexes with the definition. With `dryRun` nothing is changed. Returns
+ * a description of each operation.
+ */
+export async function applyMongoSteps(
+  db: Db,
+  definition: CollectionDefinition,
+  steps: MigrationStep[],
+  { dryRun = false } = {}
+): Promise<string[]> {
+  const name = definition.collection_name;
+  const validator = toJsonSchemaValidator(definition);
+  const applied: string[] = [];
+  const run = async (description: string, op: () => Promise<unknown>) => {
+    applied.push(description);
+    if (!dryRun) await op();
+  };
+
+  const exists = await db.listCollections({ name }).hasNext();
+  if (exists) {
+    await run(`collMod ${name}`, () =>
+      db.command({ collMod: name, validator })
+    );
+  } else {
+    await run(`createCollection ${name}`, () =>
+      db.createCollection(name, { validator })
+    );
+  }
+
+  for (const step of steps) {
+    if (step.op !== "renameField") continue;
+    await run(`rename ${name}.${step.from} to ${step.to}`, () =>
+      db
+        .collection(name)
+        .updateMany(
+          { [step.from]: { $exists: true } },
+          { $rename: { [step.from]: step.to } }
+        )
+    );
+  }
+
+  const wanted = new Set(
+    definition.fields
+      .filter((f) => f.unique)
+      .map((f) => uniqueIndexName(name, f.name))
+  );
+  const existing = exists
+    ? (await db.collection(name).indexes())
+        .map((index) => index.name!)
+        .filter(
+          (index) => index.startsWith(`${name}_`) && index.endsWith("_unique")
+        )
+    : [];
+
+  for (const index of existing.filter((index) => !wanted.has(index))) {
+    await run(`dropIndex ${index}`, () => db.collection(name).dropIndex(index));
+  }
+  for (const field of definition.fields.filter((f) => f.unique)) {
+    const index = uniqueIndexName(name, field.name);
+    if (existing.includes(index)) continue;
+    await run(`createIndex ${index}`, () =>
+      db
+        .collection(name)
+        .createIndex({ [field.name]: 1 }, { unique: true, name: index })
+    );
+  }
+
+  return applied;
+}
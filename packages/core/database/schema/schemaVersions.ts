@@ -0,0 +1,108 @@
+// packages/core/database/schema/schemaVersions.ts
+
+import type { IDatabaseStrategy } from "../IDatabaseStrategy";
+import type {
+  FieldDefinition,
+  MigrationPlan,
+  SchemaVersion,
+  SchemaVersionStatus,
+} from "../types/CollectionSchema";
+import { AppError } from "../../errors/AppError";
+
+export const SCHEMA_VERSIONS = "collection_schema_versions";
+
+type VersionStore = Pick<IDatabaseStrategy, "read" | "create" | "update">;
+
+// SQLite and MariaDB hand JSON columns back as text
+const parseJson = (value: unknown) =>
+  typeof value === "string" ? JSON.parse(value) : value;
+
+const fromRow = (row: any): SchemaVersion => ({
+  ...row,
+  version: Number(row.version),
+  base_version: row.base_version == null ? null : Number(row.base_version),
+  fields: parseJson(row.fields),
+  migration: parseJson(row.migration),
+});
+
+/** Versions of a collection, oldest first */
+export async function listSchemaVersions(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string
+): Promise<SchemaVersion[]> {
+  const rows = await db.read(
+    SCHEMA_VERSIONS,
+    { collection_name: collection },
+    { sort: { field: "version", order: "asc" } }
+  );
+  return rows.map(fromRow);
+}
+
+export async function getSchemaVersion(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string,
+  version: number
+): Promise<SchemaVersion> {
+  const [row] = await db.read(SCHEMA_VERSIONS, {
+    collection_name: collection,
+    version,
+  });
+  if (!row) {
+    throw AppError.notFound(
+      `Version ${version} of '${collection}' does not exist`
+    );
+  }
+  return fromRow(row);
+}
+
+export async function currentSchemaVersion(
+  db: Pick<IDatabaseStrategy, "read">,
+  collection: string
+): Promise<SchemaVersion | undefined> {
+  const [row] = await db.read(SCHEMA_VERSIONS, {
+    collection_name: collection,
+    status: "current",
+  });
+  return row && fromRow(row);
+}
+
+export async function setSchemaVersionStatus(
+  db: VersionStore,
+  collection: string,
+  version: number,
+  status: SchemaVersionStatus
+): Promise<void> {
+  await db.update(
+    SCHEMA_VERSIONS,
+    { collection_name: collection, version },
+    { status }
+  );
+}
+
+/**
+ * Stores a change as the new current version, diffed against the
+ * current one, which is superseded.
+ */
+export async function recordSchemaVersion(
+  db: VersionStore,
+  collection: string,
+  fields: FieldDefinition[],
+  migration: MigrationPlan
+): Promise<SchemaVersion> {
+  const versions = await listSchemaVersions(db, collection);
+  const current = versions.find((v) => v.status === "current");
+  if (current) {
+    await setSchemaVersionStatus(db, collection, current.version, "superseded");
+  }
+
+  const row = await db.create(SCHEMA_VERSIONS, {
+    collection_name: collection,
+    version: (versions.at(-1)?.version ?? 0) + 1,
+    base_version: current?.version ?? null,
+    status: "current",
+    fields,
+    migration,
+    created_at: new Date(),
+  });
+  return fromRow(row);
+}
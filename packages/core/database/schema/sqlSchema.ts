@@ -0,0 +1,289 @@
+// packages/core/database/schema/sqlSchema.ts
+
+import knex, { Knex } from "knex";
+import { AppError } from "../../errors/AppError";
+import type {
+  CollectionDefinition,
+  FieldDefinition,
+  MigrationStep,
+} from "../types/CollectionSchema";
+import {
+  hasColumn,
+  JOIN_SOURCE,
+  JOIN_TARGET,
+  joinTableName,
+  relationKind,
+} from "../relations/relationFields";
+
+/** Connection a SQL schema sync introspects and runs its DDL through */
+export interface SqlSchemaTarget {
+  /** Knex client the DDL is compiled for */
+  client: string;
+  hasTable(table: string): Promise<boolean>;
+  columns(table: string): Promise<string[]>;
+  execute(statements: Knex.Sql[]): Promise<void>;
+}
+
+/** Wraps a live Knex instance or transaction */
+export const knexSchemaTarget = (db: Knex): SqlSchemaTarget => ({
+  client: String(db.client.config.client),
+  hasTable: (table) => db.schema.hasTable(table),
+  columns: async (table) => Object.keys(await db(table).columnInfo()),
+  execute: async (statements) => {
+    for (const { sql, bindings } of statements) {
+      await db.raw(sql, bindings as Knex.RawBinding[]);
+    }
+  },
+});
+
+const columnFor = (
+  table: Knex.TableBuilder,
+  { name, type, localized }: FieldDefinition
+): Knex.ColumnBuilder => {
+  // Maps of values by locale
+  if (localized) return table.json(name);
+  switch (type) {
+    case "string":
+    case "enum":
+    case "email":
+    case "url":
+      return table.string(name);
+    case "text":
+      return table.text(name);
+    case "integer":
+      return table.integer(name);
+    case "number":
+      return table.double(name);
+    case "boolean":
+      return table.boolean(name);
+    case "date":
+      return table.date(name);
+    case "datetime":
+      return table.timestamp(name);
+    case "json":
+      return table.json(name);
+    case "relation":
+      return table.integer(name);
+  }
+};
+
+const defineColumn = (
+  table: Knex.TableBuilder,
+  field: FieldDefinition
+): Knex.ColumnBuilder => {
+  const column = columnFor(table, field);
+  if (field.required) column.notNullable();
+  else column.nullable();
+
+  if (field.default !== undefined) {
+    column.defaultTo(
+      field.type === "json" || field.localized
+        ? JSON.stringify(field.default)
+        : field.default
+    );
+  }
+  return column;
+};
+
+/** Field types that share a column type; the rest map to their own */
+const storedAs = ({ type }: FieldDefinition) =>
+  type === "enum" || type === "email" || type === "url" ? "string" : type;
+
+const columnChanged = (before: FieldDefinition, after: FieldDefinition) =>
+  storedAs(before) !== storedAs(after) ||
+  !!before.required !== !!after.required ||
+  JSON.stringify(before.default) !== JSON.stringify(after.default);
+
+/**
+ * Runs migration steps against a SQL table, creating it from `definition`
+ * when it does not exist yet. Removed fields keep their columns so no
+ * data is lost, which also makes re-adding them lossless; the same goes
+ * for the join tables of `many-to-many` fields. With `dryRun` the
+ * statements are only compiled. Returns the statements.
+ */
+export async function applySqlSteps(
+  target: SqlSchemaTarget,
+  definition: CollectionDefinition,
+  steps: MigrationStep[],
+  { dryRun = false } = {}
+): Promise<string[]> {
+  // Compile-only instance: the SQL runs through the target's connection
+  const builder = knex({ client: target.client, useNullAsDefault: true });
+  const name = definition.collection_name;
+  const statements: Knex.Sql[] = [];
+
+  const addColumn = (table: Knex.TableBuilder, field: FieldDefinition) => {
+    if (!hasColumn(field)) return;
+    const column = defineColumn(table, field);
+    if (field.unique) column.unique();
+  };
+
+  const addJoinTable = async (field: FieldDefinition) => {
+    if (relationKind(field) !== "many-to-many") return;
+    const join = joinTableName(name, field.name);
+    if (await target.hasTable(join)) return;
+    statements.push(
+      ...builder.schema
+        .createTable(join, (table) => {
+          table.integer(JOIN_SOURCE).notNullable();
+          table.integer(JOIN_TARGET).notNullable();
+          table.primary([JOIN_SOURCE, JOIN_TARGET]);
+          table.index([JOIN_TARGET]);
+        })
+        .toSQL()
+    );
+  };
+
+  // Optimistic concurrency: commands bump it on every write
+  const addVersionColumn = (table: Knex.TableBuilder) => {
+    table.integer("version").notNullable().defaultTo(1);
+  };
+
+  const addTrashColumns = (table: Knex.TableBuilder) => {
+    table.timestamp("deleted_at").nullable().index();
+    table.string("deleted_by").nullable();
+  };
+
+  const addPublicationColumns = (table: Knex.TableBuilder) => {
+    table.timestamp("published_at").nullable().index();
+    table.timestamp("publish_at").nullable().index();
+    table.timestamp("unpublish_at").nullable().index();
+  };
+
+  if (!(await target.hasTable(name))) {
+    statements.push(
+      ...builder.schema
+        .createTable(name, (table) => {
+          table.increments("id").primary();
+          definition.fields.forEach((field) => addColumn(table, field));
+          addVersionColumn(table);
+          if (definition.soft_delete) addTrashColumns(table);
+          if (definition.publishable) addPublicationColumns(table);
+        })
+        .toSQL()
+    );
+    for (const field of definition.fields) await addJoinTable(field);
+  } else {
+    const columns = new Set(await target.columns(name));
+
+    // Renames go first so later steps see the new column names
+    for (const step of steps) {
+      if (step.op !== "renameField") continue;
+      const [from, to] = [step.from, step.to].map((f) =>
+        joinTableName(name, f)
+      );
+      if (await target.hasTable(from)) {
+        if (!(await target.hasTable(to))) {
+          statements.push(
+            builder.raw("alter table ?? rename to ??", [from, to]).toSQL()
+          );
+        }
+        continue;
+      }
+      if (!columns.has(step.from) || columns.has(step.to)) continue;
+      statements.push(
+        builder
+          .raw("alter table ?? rename column ?? to ??", [
+            name,
+            step.from,
+            step.to,
+          ])
+          .toSQL()
+      );
+      columns.delete(step.from);
+      columns.add(step.to);
+    }
+
+    for (const step of steps) {
+      if (step.op === "createCollection") {
+        for (const field of step.definition.fields) await addJoinTable(field);
+      }
+      if (step.op === "addField") await addJoinTable(step.field);
+      if (step.op === "alterField") {
+        assertSameRelationKind(name, step.from, step.to);
+      }
+    }
+
+    statements.push(
+      ...builder.schema
+        .alterTable(name, (table) => {
+          for (const step of steps) {
+            switch (step.op) {
+              case "createCollection":
+                step.definition.fields
+                  .filter((field) => !columns.has(field.name))
+                  .forEach((field) => addColumn(table, field));
+                break;
+              case "addField":
+                if (!columns.has(step.field.name)) {
+                  addColumn(table, step.field);
+                }
+                break;
+              case "alterField":
+                if (hasColumn(step.to)) {
+                  alterColumn(target.client, name, table, step.from, step.to);
+                }
+                break;
+            }
+          }
+          // Tables from before record versions start every row at 1
+          if (!columns.has("version")) addVersionColumn(table);
+          // Turning soft delete on adds the trash columns; off keeps them
+          if (definition.soft_delete && !columns.has("deleted_at")) {
+            addTrashColumns(table);
+          }
+          if (definition.publishable && !columns.has("published_at")) {
+            addPublicationColumns(table);
+          }
+        })
+        .toSQL()
+    );
+    // Content that was live before drafts existed stays live
+    if (definition.publishable && !columns.has("published_at")) {
+      statements.push(
+        builder(name).update({ published_at: builder.fn.now() }).toSQL()
+      );
+    }
+  }
+
+  if (!dryRun) await target.execute(statements);
+  return statements.map(({ sql }) => sql);
+}
+
+/** Only column-backed fields can change how they are stored */
+function assertSameRelationKind(
+  name: string,
+  from: FieldDefinition,
+  to: FieldDefinition
+): void {
+  if (hasColumn(from) && hasColumn(to)) return;
+  if (relationKind(from) === relationKind(to)) return;
+  throw AppError.validationError(
+    `Cannot change the relation kind of field '${to.name}' of '${name}'`,
+    { field: to.name }
+  );
+}
+
+function alterColumn(
+  client: string,
+  name: string,
+  table: Knex.TableBuilder,
+  from: FieldDefinition,
+  to: FieldDefinition
+): void {
+  if (columnChanged(from, to)) {
+    // SQLite can only alter a column by rebuilding the table
+    if (client === "better-sqlite3") {
+      throw AppError.validationError(
+        `Cannot change field '${to.name}' of '${name}' on SQLite`,
+        { field: to.name }
+      );
+    }
+    defineColumn(table, to).alter();
+  }
+
+  if (!!from.unique !== !!to.unique) {
+    if (to.unique) table.unique([to.name]);
+    else table.dropUnique([to.name]);
+  }
+}
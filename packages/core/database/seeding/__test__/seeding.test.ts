@@ -0,0 +1,168 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import bcrypt from "bcryptjs";
+import { describe, it, expect, beforeEach } from "vitest";
+import { MockDatabaseStrategy } from "../../strategies/mock/MockDatabaseStrategy";
+import { createRandom } from "../random";
+import { buildRecords, defineFactory, defineSeed } from "../defineFactory";
+import { runSeeds } from "../runSeeds";
+import { loadSeeds } from "../loadSeeds";
+import { AppError, ErrorType } from "../../../errors/AppError";
+
+const articleFactory = defineFactory({
+  collection: "articles",
+  key: ["slug"],
+  build: ({ random, sequence }) => ({
+    slug: `article-${sequence}`,
+    title: random.words(3),
+    views: random.int(0, 1000),
+  }),
+});
+
+const articles = defineSeed({
+  name: "002_articles",
+  environments: ["development"],
+  run: async ({ insert }) => {
+    await insert(articleFactory, 3);
+    await insert(articleFactory, 2, { views: 0 });
+  },
+});
+
+const admin = defineSeed({
+  name: "001_admin",
+  run: ({ upsert }) =>
+    upsert(
+      "users",
+      ["username"],
+      [{ username: "admin", password: "secret", role: "admin" }]
+    ).then(() => undefined),
+});
+
+describe("createRandom", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const draw = (r: typeof a) => [r.int(1, 100), r.words(2), r.uuid()];
+
+    expect(draw(a)).toEqual(draw(b));
+    expect(draw(createRandom(43))).not.toEqual(draw(createRandom(42)));
+  });
+
+  it("stays within the requested bounds", () => {
+    const random = createRandom("bounds");
+    for (let i = 0; i < 200; i++) {
+      const value = random.int(3, 5);
+      expect(value).toBeGreaterThanOrEqual(3);
+      expect(value).toBeLessThanOrEqual(5);
+    }
+    expect(random.uuid()).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    );
+  });
+});
+
+describe("defineFactory", () => {
+  it("requires a key", () => {
+    expect(() =>
+      defineFactory({ collection: "x", key: [], build: () => ({}) })
+    ).toThrow(AppError);
+  });
+
+  it("builds numbered records with overrides", async () => {
+    const records = await buildRecords(articleFactory, 2, {
+      random: createRandom(1),
+      overrides: { views: 5 },
+    });
+    expect(records).toMatchObject([
+      { slug: "article-1", views: 5 },
+      { slug: "article-2", views: 5 },
+    ]);
+  });
+});
+
+describe("runSeeds", () => {
+  let db: MockDatabaseStrategy;
+
+  beforeEach(async () => {
+    db = new MockDatabaseStrategy();
+    await db.connect();
+  });
+
+  it("runs the seeds of an environment in name order", async () => {
+    const results = await runSeeds(db, [articles, admin], {
+      env: "development",
+    });
+
+    expect(results).toEqual([
+      { name: "001_admin", records: 1 },
+      { name: "002_articles", records: 5 },
+    ]);
+    const slugs = (await db.read("articles", {})).map((a: any) => a.slug);
+    expect(slugs).toEqual([1, 2, 3, 4, 5].map((n) => `article-${n}`));
+
+    const prod = await runSeeds(new MockDatabaseStrategy(), [articles, admin], {
+      env: "production",
+    });
+    expect(prod.map((r) => r.name)).toEqual(["001_admin"]);
+  });
+
+  it("produces the same data for the same seed value", async () => {
+    const other = new MockDatabaseStrategy();
+    await runSeeds(db, [articles], { env: "development", seed: 7 });
+    await runSeeds(other, [articles], { env: "development", seed: 7 });
+
+    const strip = (rows: any[]) => rows.map(({ id, ...rest }) => rest);
+    expect(strip(await db.read("articles", {}))).toEqual(
+      strip(await other.read("articles", {}))
+    );
+  });
+
+  it("updates records in place when re-run", async () => {
+    await runSeeds(db, [articles, admin], { env: "development" });
+    await runSeeds(db, [articles, admin], { env: "development" });
+
+    expect(await db.count("articles")).toBe(5);
+    expect(await db.count("users")).toBe(1);
+  });
+
+  it("hashes user passwords like the write commands do", async () => {
+    await runSeeds(db, [admin], { env: "test" });
+    const [user] = await db.read("users", { username: "admin" });
+    expect(await bcrypt.compare("secret", user.password)).toBe(true);
+  });
+
+  it("wraps unexpected failures with the seed name", async () => {
+    const broken = defineSeed({
+      name: "broken",
+      run: () => {
+        throw new Error("boom");
+      },
+    });
+    const error: any = await runSeeds(db, [broken], { env: "test" }).catch(
+      (err) => err
+    );
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.message).toContain("broken");
+  });
+});
+
+describe("loadSeeds", () => {
+  it("imports seed files and rejects ones without a run function", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "seeds-"));
+    try {
+      fs.writeFileSync(
+        path.join(dir, "001_tags.seed.js"),
+        "exports.default = { run: () => {} };"
+      );
+      fs.writeFileSync(path.join(dir, "notes.txt"), "ignored");
+      expect((await loadSeeds(dir)).map((s) => s.name)).toEqual(["001_tags"]);
+
+      fs.writeFileSync(path.join(dir, "002_bad.seed.js"), "exports.x = 1;");
+      const error: any = await loadSeeds(dir).catch((err) => err);
+      expect(error.code).toBe(ErrorType.VALIDATION_FAILED);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,40 @@
+// packages/core/database/seeding/defineFactory.ts
+
+import type { Factory, Random, Seed } from "../types/Seed";
+import { AppError } from "../../errors/AppError";
+
+/** Declares a record factory; `key` must name at least one field */
+export function defineFactory<T extends Record<string, any>>(
+  factory: Factory<T>
+): Factory<T> {
+  if (factory.key.length === 0) {
+    throw AppError.validationError(
+      `Factory for '${factory.collection}' needs at least one key field`
+    );
+  }
+  return factory;
+}
+
+/** Declares a seed; a typed identity so seed files get checked */
+export const defineSeed = (seed: Seed): Seed => seed;
+
+/**
+ * Builds `count` records without writing them, numbering them from
+ * `start`. Useful in tests that need realistic data.
+ */
+export async function buildRecords<T extends Record<string, any>>(
+  factory: Factory<T>,
+  count: number,
+  {
+    random,
+    overrides,
+    start = 1,
+  }: { random: Random; overrides?: Partial<T>; start?: number }
+): Promise<T[]> {
+  const records: T[] = [];
+  for (let i = 0; i < count; i++) {
+    const record = await factory.build({ random, sequence: start + i });
+    records.push({ ...record, ...overrides });
+  }
+  return records;
+}
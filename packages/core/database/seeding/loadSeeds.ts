@@ -0,0 +1,30 @@
+// packages/core/database/seeding/loadSeeds.ts
+
+import fs from "node:fs";
+import path from "node:path";
+import type { Seed } from "../types/Seed";
+import { AppError } from "../../errors/AppError";
+
+/** `<name>.seed.ts|js`, e.g. `001_admin.seed.ts` */
+const SEED_FILE = /^([\w-]+)\.seed\.(ts|js)$/;
+
+/** Imports the seeds of a directory; each file exports one by default */
+export async function loadSeeds(directory: string): Promise<Seed[]> {
+  const files = fs
+    .readdirSync(directory)
+    .filter((file) => SEED_FILE.test(file))
+    .sort();
+
+  const seeds: Seed[] = [];
+  for (const file of files) {
+    const mod = await import(path.join(directory, file));
+    const seed: Seed | undefined = mod.default ?? mod.seed;
+    if (typeof seed?.run !== "function") {
+      throw AppError.validationError(
+        `Seed file '${file}' must export a seed with a 'run' function`
+      );
+    }
+    seeds.push({ ...seed, name: seed.name ?? SEED_FILE.exec(file)![1] });
+  }
+  return seeds;
+}
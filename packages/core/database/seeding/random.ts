@@ -0,0 +1,136 @@
+// packages/core/database/seeding/random.ts
+
+import type { Random } from "../types/Seed";
+
+const FIRST_NAMES = [
+  "Ada",
+  "Alan",
+  "Amina",
+  "Bruno",
+  "Chen",
+  "Dara",
+  "Elena",
+  "Farid",
+  "Grace",
+  "Hiro",
+  "Ines",
+  "Jonas",
+  "Kemi",
+  "Lena",
+  "Mateo",
+  "Nadia",
+  "Omar",
+  "Priya",
+  "Quinn",
+  "Rosa",
+  "Sami",
+  "Tariq",
+  "Uma",
+  "Yusuf",
+];
+
+const LAST_NAMES = [
+  "Ahmed",
+  "Berg",
+  "Costa",
+  "Dubois",
+  "Evans",
+  "Fischer",
+  "Garcia",
+  "Hossain",
+  "Ito",
+  "Jensen",
+  "Kowalski",
+  "Lopez",
+  "Moreau",
+  "Nakamura",
+  "Okafor",
+  "Patel",
+  "Rahman",
+  "Silva",
+  "Tanaka",
+  "Weber",
+];
+
+const WORDS = [
+  "lorem",
+  "ipsum",
+  "dolor",
+  "sit",
+  "amet",
+  "consectetur",
+  "adipiscing",
+  "elit",
+  "sed",
+  "do",
+  "eiusmod",
+  "tempor",
+  "incididunt",
+  "ut",
+  "labore",
+  "et",
+  "dolore",
+  "magna",
+  "aliqua",
+  "enim",
+  "minim",
+  "veniam",
+  "quis",
+];
+
+const ALPHANUMERIC = "abcdefghijklmnopqrstuvwxyz0123456789";
+
+/** FNV-1a, to turn a seed name into a number */
+export function hashSeed(value: string | number): number {
+  const text = String(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32: small, fast and good enough for fake data */
+export function createRandom(seed: string | number): Random {
+  let state = hashSeed(seed);
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number) =>
+    min + Math.floor(next() * (max - min + 1));
+  const pick = <T>(items: readonly T[]): T => items[int(0, items.length - 1)];
+  const string = (length: number) =>
+    Array.from({ length }, () => pick(ALPHANUMERIC.split(""))).join("");
+
+  return {
+    next,
+    int,
+    pick,
+    string,
+    bool: (probability = 0.5) => next() < probability,
+    words: (count) =>
+      Array.from({ length: count }, () => pick(WORDS)).join(" "),
+    firstName: () => pick(FIRST_NAMES),
+    lastName: () => pick(LAST_NAMES),
+    email: (name) =>
+      `${(name ?? `${pick(FIRST_NAMES)}.${pick(LAST_NAMES)}`)
+        .toLowerCase()
+        .replace(/[^a-z0-9.]+/g, ".")}@example.com`,
+    date: (from, to) =>
+      new Date(from.getTime() + next() * (to.getTime() - from.getTime())),
+    uuid: () => {
+      const hex = Array.from({ length: 32 }, () => int(0, 15).toString(16));
+      hex[12] = "4";
+      hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+      const s = hex.join("");
+      return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+    },
+  };
+}
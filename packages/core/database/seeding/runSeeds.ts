@@ -0,0 +1,79 @@
+// packages/core/database/seeding/runSeeds.ts
+
+import type { IDatabaseStrategy } from "../IDatabaseStrategy";
+import type { Factory, Seed, SeedContext, SeedResult } from "../types/Seed";
+import { AppError } from "../../errors/AppError";
+import { hashPasswordField } from "../../commands/hashPassword";
+import { dbLogger } from "../../src/telemetry/logger";
+import { buildRecords } from "./defineFactory";
+import { createRandom } from "./random";
+
+export interface RunSeedsOptions {
+  /** Only seeds listing this environment (or none) run */
+  env: string;
+  /** Same value, same data */
+  seed?: string | number;
+}
+
+/**
+ * Runs seeds in name order through `db`, so they work on any engine.
+ * Records are upserted on their factory's key, which makes re-running
+ * with the same seed value update records instead of duplicating them.
+ */
+export async function runSeeds(
+  db: IDatabaseStrategy,
+  seeds: Seed[],
+  { env, seed = 1 }: RunSeedsOptions
+): Promise<SeedResult[]> {
+  const selected = seeds
+    .filter((s) => !s.environments || s.environments.includes(env))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const results: SeedResult[] = [];
+  for (const current of selected) {
+    let records = 0;
+    // Each seed gets its own stream, so adding a seed leaves the others' data alone
+    const random = createRandom(`${seed}:${current.name}`);
+    const sequences = new Map<Factory<any>, number>();
+
+    const upsert: SeedContext["upsert"] = async (collection, key, items) => {
+      for (const item of items) {
+        await db.upsert(
+          collection,
+          key,
+          await hashPasswordField(collection, item)
+        );
+      }
+      records += items.length;
+      return items;
+    };
+
+    const context: SeedContext = {
+      db,
+      env,
+      random,
+      upsert,
+      insert: async (factory, count, overrides) => {
+        const start = (sequences.get(factory) ?? 0) + 1;
+        sequences.set(factory, start + count - 1);
+        const items = await buildRecords(factory, count, {
+          random,
+          overrides,
+          start,
+        });
+        return upsert(factory.collection, factory.key, items);
+      },
+    };
+
+    try {
+      await current.run(context);
+    } catch (err) {
+      if (err instanceof AppError) throw err;
+      throw AppError.internal(`Seed '${current.name}' failed`, err);
+    }
+
+    dbLogger.info({ seed: current.name, records }, "🌱 Seed applied");
+    results.push({ name: current.name, records });
+  }
+  return results;
+}
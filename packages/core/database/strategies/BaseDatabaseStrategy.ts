@@ -1,47 +1,371 @@
 // packages/core/database/strategies/BaseDatabaseStrategy.ts
 
 import { IDatabaseStrategy } from "../IDatabaseStrategy";
-import { QueryOptions } from "../types/QueryOptions";
+import {
+  FieldProjection,
+  Projection,
+  QueryOptions,
+  ReadPlan,
+  SortKey,
+} from "../types/QueryOptions";
+import type { Filter, FilterNode } from "../types/Filter";
+import type { Page } from "../types/Pagination";
+import type { WriteResult } from "../types/WriteResult";
+import type {
+  AggregatePlan,
+  AggregateQuery,
+  AggregateRow,
+} from "../types/Aggregate";
+import {
+  andFilters,
+  assertValidFieldName,
+  parseFilter,
+} from "../filters/parseFilter";
+import {
+  decodeCursor,
+  encodeCursor,
+  keysetFilter,
+  reverseSort,
+} from "../pagination/cursor";
+import { projectRecord, widenProjection } from "../utils/projection";
+import { AppError } from "../../errors/AppError";
+
+const DEFAULT_PAGE_SIZE = 50;
 
 export abstract class BaseDatabaseStrategy implements IDatabaseStrategy {
   abstract ready: Promise<void>;
   abstract status: "connecting" | "ready" | "error";
 
+  /** Primary key used as the pagination tie-breaker */
+  protected idField = "id";
+  /** Whether the engine sorts NULL below every other value */
+  protected nullsSortLow = true;
+
   abstract connect(): Promise<void>;
   abstract disconnect(): Promise<void>;
 
   abstract create(collection: string, data: any): Promise<any>;
-  abstract read(
+  abstract update(collection: string, query: Filter, data: any): Promise<any>;
+  abstract delete(collection: string, query: Filter): Promise<any>;
+
+  abstract createMany(collection: string, items: any[]): Promise<WriteResult>;
+  abstract upsert(
     collection: string,
-    query: any,
-    options?: QueryOptions
-  ): Promise<any>;
-  abstract update(collection: string, query: any, data: any): Promise<any>;
-  abstract delete(collection: string, query: any): Promise<any>;
+    conflictKeys: string[],
+    data: any
+  ): Promise<WriteResult>;
+  abstract updateMany(
+    collection: string,
+    query: Filter,
+    data: any
+  ): Promise<WriteResult>;
+  abstract deleteMany(collection: string, query: Filter): Promise<WriteResult>;
+
+  abstract transaction<T>(
+    work: (tx: IDatabaseStrategy) => Promise<T>
+  ): Promise<T>;
 
   abstract healthCheck(): Promise<{ ok: boolean; latency: number }>;
 
   abstract on(event: "connect" | "disconnect", listener: () => void): void;
 
+  /** Runs a normalized read against the underlying engine */
+  protected abstract find(collection: string, plan: ReadPlan): Promise<any[]>;
+
+  /** Returns the distinct values of `field` among matching records */
+  protected abstract findDistinct(
+    collection: string,
+    field: string,
+    filter: FilterNode
+  ): Promise<any[]>;
+
+  /** Runs a normalized aggregation, one row per group */
+  protected abstract runAggregate(
+    collection: string,
+    plan: AggregatePlan
+  ): Promise<AggregateRow[]>;
+
+  /** Counts the records matching a normalized filter */
+  protected abstract countRows(
+    collection: string,
+    filter: FilterNode
+  ): Promise<number>;
+
+  public async read(
+    collection: string,
+    query: Filter = {},
+    options: QueryOptions = {}
+  ): Promise<any> {
+    this.validateQueryOptions(options);
+    const filter = this.buildFilter(query, options);
+
+    if (options.distinct) {
+      return this.findDistinct(collection, options.distinct, filter);
+    }
+
+    if (this.isPageRequest(options)) {
+      return this.readPage(collection, filter, options);
+    }
+
+    return this.find(collection, {
+      filter,
+      sort: this.normalizeSort(options.sort),
+      limit: options.limit,
+      offset: options.offset,
+      projection: this.normalizeProjection(options.fields),
+    });
+  }
+
+  public async count(collection: string, query: Filter = {}): Promise<number> {
+    return this.countRows(collection, this.buildFilter(query));
+  }
+
+  public async aggregate(
+    collection: string,
+    query: AggregateQuery
+  ): Promise<AggregateRow[]> {
+    this.validateAggregateQuery(query);
+
+    const plan: AggregatePlan = {
+      filter: this.buildFilter(query.filter),
+      groupBy: query.groupBy ?? [],
+      metrics: query.metrics,
+    };
+    const rows = await this.runAggregate(collection, plan);
+
+    // Without groups, SQL yields one row even when nothing matched
+    if (rows.length === 0 && plan.groupBy.length === 0) {
+      return [
+        Object.fromEntries(
+          plan.metrics.map(({ fn, as }) => [as, fn === "count" ? 0 : null])
+        ),
+      ];
+    }
+
+    return rows;
+  }
+
+  /** Conflict keys must be valid fields carried by the upserted data */
+  protected assertUpsertKeys(conflictKeys: string[], data: any): void {
+    if (!conflictKeys?.length) {
+      throw AppError.validationError(
+        "Upsert requires at least one conflict key"
+      );
+    }
+
+    for (const key of conflictKeys) {
+      assertValidFieldName(key);
+      if (data?.[key] === undefined) {
+        throw AppError.validationError(
+          `Upsert data is missing conflict key '${key}'`
+        );
+      }
+    }
+  }
+
+  /** Wraps affected records into the shared `WriteResult` shape */
+  protected toWriteResult(records: any[]): WriteResult {
+    return {
+      affected: records.length,
+      ids: records.map((record) => record[this.idField]),
+      records,
+    };
+  }
+
+  protected validateAggregateQuery(query: AggregateQuery): void {
+    if (!query?.metrics?.length) {
+      throw AppError.validationError(
+        "Aggregation requires at least one metric"
+      );
+    }
+
+    const groupBy = query.groupBy ?? [];
+    groupBy.forEach(assertValidFieldName);
+
+    const aliases = new Set<string>(groupBy);
+    for (const { fn, field, as } of query.metrics) {
+      if (!["count", "sum", "avg", "min", "max"].includes(fn)) {
+        throw AppError.validationError(`Unknown aggregate function '${fn}'`);
+      }
+      if (field) assertValidFieldName(field);
+      else if (fn !== "count") {
+        throw AppError.validationError(`'${fn}' requires a field`);
+      }
+
+      assertValidFieldName(as);
+      if (as.includes(".") || aliases.has(as)) {
+        throw AppError.validationError(`Invalid or duplicate alias '${as}'`);
+      }
+      aliases.add(as);
+    }
+  }
+
   protected validateQueryOptions(options?: QueryOptions): void {
     if (!options) return;
 
     if (options.limit != null && (options.limit < 0 || options.limit > 1000)) {
-      throw new Error("Invalid limit: must be between 0 and 1000");
+      throw AppError.validationError(
+        "Invalid limit: must be between 0 and 1000"
+      );
     }
 
     if (options.offset != null && options.offset < 0) {
-      throw new Error("Invalid offset: must be >= 0");
+      throw AppError.validationError("Invalid offset: must be >= 0");
     }
 
-    if (options.sort) {
-      const { field, order } = options.sort;
+    for (const { field, order } of this.normalizeSort(options.sort)) {
       if (!field) {
-        throw new Error("Invalid sort options: missing field");
+        throw AppError.validationError("Invalid sort options: missing field");
       }
+      assertValidFieldName(field);
       if (order && !["asc", "desc"].includes(order)) {
-        throw new Error("Invalid sort options: order must be 'asc' or 'desc'");
+        throw AppError.validationError(
+          "Invalid sort options: order must be 'asc' or 'desc'"
+        );
       }
     }
+
+    for (const field of [
+      ...(options.fields?.include ?? []),
+      ...(options.fields?.exclude ?? []),
+    ]) {
+      assertValidFieldName(field);
+    }
+
+    if (options.distinct) {
+      assertValidFieldName(options.distinct);
+      if (this.isPageRequest(options)) {
+        throw AppError.validationError(
+          "'distinct' cannot be combined with pagination options"
+        );
+      }
+    }
+
+    if (options.after && options.before) {
+      throw AppError.validationError(
+        "Use either 'after' or 'before', not both"
+      );
+    }
+
+    if ((options.after || options.before) && options.offset != null) {
+      throw AppError.validationError("Cursors cannot be combined with offset");
+    }
+  }
+
+  /**
+   * Parses the query filter and folds in the legacy `options.or` list,
+   * so every strategy translates the same `FilterNode` tree.
+   */
+  protected buildFilter(query?: Filter, options?: QueryOptions): FilterNode {
+    const base = parseFilter(query);
+    if (!options?.or?.length) return base;
+
+    return andFilters(base, {
+      kind: "or",
+      nodes: options.or.map(({ field, value }) =>
+        parseFilter({ [field]: value })
+      ),
+    });
+  }
+
+  protected normalizeSort(sort?: SortKey | SortKey[]): SortKey[] {
+    if (!sort) return [];
+    return Array.isArray(sort) ? sort : [sort];
+  }
+
+  /**
+   * Resolves include/exclude lists into a single projection. Included
+   * projections always keep the id so records stay addressable.
+   */
+  protected normalizeProjection(
+    fields?: FieldProjection
+  ): Projection | undefined {
+    const exclude = fields?.exclude ?? [];
+
+    if (fields?.include?.length) {
+      return {
+        include: [...new Set([this.idField, ...fields.include])].filter(
+          (field) => !exclude.includes(field)
+        ),
+      };
+    }
+
+    return exclude.length > 0 ? { exclude } : undefined;
+  }
+
+  protected isPageRequest(options: QueryOptions): boolean {
+    return !!(
+      options.paginate ||
+      options.after ||
+      options.before ||
+      options.count
+    );
+  }
+
+  /**
+   * Keyset pagination over the requested sort plus the id tie-breaker.
+   * One extra row is fetched to tell whether another page exists.
+   */
+  protected async readPage(
+    collection: string,
+    filter: FilterNode,
+    options: QueryOptions
+  ): Promise<Page> {
+    const requested = this.normalizeSort(options.sort);
+    const sort: SortKey[] = [
+      ...requested,
+      { field: this.idField, order: requested[0]?.order ?? "asc" },
+    ].filter(
+      (key, i, keys) => keys.findIndex((k) => k.field === key.field) === i
+    );
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const backwards = !!options.before;
+    const cursor = options.after ?? options.before;
+    const walkSort = backwards ? reverseSort(sort) : sort;
+    const projection = this.normalizeProjection(options.fields);
+
+    const rows = await this.find(collection, {
+      filter: cursor
+        ? andFilters(
+            filter,
+            keysetFilter(
+              walkSort,
+              decodeCursor(cursor, sort),
+              this.nullsSortLow
+            )
+          )
+        : filter,
+      sort: walkSort,
+      limit: limit + 1,
+      offset: options.offset,
+      projection: widenProjection(
+        projection,
+        sort.map((key) => key.field)
+      ),
+    });
+
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit);
+    if (backwards) items.reverse();
+
+    const first = items[0];
+    const last = items[items.length - 1];
+    const total = options.count
+      ? await this.countRows(collection, filter)
+      : undefined;
+
+    return {
+      items: items.map((item) => projectRecord(item, projection)),
+      pageInfo: {
+        nextCursor:
+          last && (backwards || hasMore) ? encodeCursor(last, sort) : null,
+        prevCursor:
+          first && (backwards ? hasMore : !!cursor)
+            ? encodeCursor(first, sort)
+            : null,
+        hasMore,
+        ...(total !== undefined ? { total } : {}),
+      },
+    };
   }
 }
@@ -0,0 +1,95 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll } from "vitest";
+import { DatabaseStrategyFactory } from "../../DatabaseStrategyFactory";
+import { MockDatabaseStrategy } from "../mock/MockDatabaseStrategy";
+import { SqliteStrategy } from "../sqlite/SqliteStrategy";
+import { MysqlStrategy } from "../mysql/MysqlStrategy";
+import { PostgresStrategy } from "../postgres/PostgresStrategy";
+import {
+  CONFORMANCE_COLLECTION,
+  createKnexFixture,
+  runStrategyConformance,
+} from "./strategyConformance";
+
+runStrategyConformance({
+  name: "mock",
+  create: () => DatabaseStrategyFactory.create("mock", {}),
+});
+
+runStrategyConformance({
+  name: "custom engine",
+  create: async () => {
+    DatabaseStrategyFactory.registerCustomEngine("custom:conformance", {
+      strategyClass: MockDatabaseStrategy,
+    });
+    return DatabaseStrategyFactory.create("custom:conformance", {});
+  },
+});
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "conformance-"));
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+runStrategyConformance({
+  name: "sqlite",
+  create: () =>
+    DatabaseStrategyFactory.create("sqlite", {
+      filepath: path.join(tmpDir, "conformance.db"),
+    }),
+  prepare: async (db) => {
+    const sqlite = db as SqliteStrategy;
+    await sqlite.executeRaw(`DROP TABLE IF EXISTS ${CONFORMANCE_COLLECTION}`);
+    await sqlite.executeRaw(
+      `CREATE TABLE ${CONFORMANCE_COLLECTION} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        rank INTEGER NOT NULL,
+        category TEXT,
+        slug TEXT NOT NULL UNIQUE
+      )`
+    );
+  },
+});
+
+// Server-backed engines run only when a throwaway database is provided
+const { CONFORMANCE_MONGO_URL, CONFORMANCE_MYSQL_URL, CONFORMANCE_PG_URL } =
+  process.env;
+
+if (CONFORMANCE_MONGO_URL) {
+  runStrategyConformance({
+    name: "mongo",
+    idField: "_id",
+    create: () =>
+      DatabaseStrategyFactory.create("mongo", {
+        connectionString: CONFORMANCE_MONGO_URL,
+      }),
+  });
+}
+
+if (CONFORMANCE_MYSQL_URL) {
+  runStrategyConformance({
+    name: "mysql",
+    create: () =>
+      DatabaseStrategyFactory.create("mysql", {
+        connectionString: CONFORMANCE_MYSQL_URL,
+      }),
+    prepare: (db) => createKnexFixture((db as MysqlStrategy).getDb()),
+  });
+}
+
+if (CONFORMANCE_PG_URL) {
+  runStrategyConformance({
+    name: "postgres",
+    create: () =>
+      DatabaseStrategyFactory.create("postgres", {
+        host: "",
+        port: 5432,
+        user: "",
+        password: "",
+        database: "",
+        connectionString: CONFORMANCE_PG_URL,
+      }),
+    prepare: (db) => createKnexFixture((db as PostgresStrategy).getDb()),
+  });
+}
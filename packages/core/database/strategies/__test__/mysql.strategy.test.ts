@@ -0,0 +1,72 @@
+import knex from "knex";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { MysqlStrategy } from "../mysql/MysqlStrategy";
+import {
+  createKnexFixture,
+  runStrategyConformance,
+} from "./strategyConformance";
+
+/**
+ * MysqlStrategy running its queries against an in-memory SQLite through
+ * Knex. Inserts hand back the new id there as on MySQL, so the
+ * re-read-by-id writes run as they do against a server.
+ */
+async function inMemoryMysqlStrategy(): Promise<MysqlStrategy> {
+  const db = new MysqlStrategy(
+    { connectionString: "mysql://conformance@localhost/conformance" },
+    undefined,
+    knex({
+      client: "better-sqlite3",
+      connection: { filename: ":memory:" },
+      useNullAsDefault: true,
+    })
+  );
+  await db.connect();
+  return db;
+}
+
+runStrategyConformance({
+  name: "mysql (in-memory)",
+  create: inMemoryMysqlStrategy,
+  prepare: (db) => createKnexFixture((db as MysqlStrategy).getDb()),
+});
+
+describe("MysqlStrategy JSON columns", () => {
+  let db: MysqlStrategy;
+
+  beforeEach(async () => {
+    db = await inMemoryMysqlStrategy();
+    // MariaDB stores JSON as LONGTEXT
+    await db.getDb().schema.createTable("collection_permissions", (table) => {
+      table.increments("id").primary();
+      table.string("collection_name").notNullable();
+      table.string("operation").notNullable();
+      table.text("allowed_roles").notNullable();
+    });
+  });
+
+  afterEach(() => db.disconnect());
+
+  it("writes arrays as JSON text and parses them back", async () => {
+    const created = await db.create("collection_permissions", {
+      collection_name: "posts",
+      operation: "read",
+      allowed_roles: ["admin", "editor"],
+    });
+    expect(created.allowed_roles).toEqual(["admin", "editor"]);
+
+    const [stored] = await db.getDb()("collection_permissions");
+    expect(stored.allowed_roles).toBe('["admin","editor"]');
+
+    const { records } = await db.updateMany(
+      "collection_permissions",
+      { id: created.id },
+      { allowed_roles: ["viewer"] }
+    );
+    expect(records?.[0].allowed_roles).toEqual(["viewer"]);
+    const [read] = await db.read("collection_permissions", {
+      operation: "read",
+    });
+    expect(read.allowed_roles).toEqual(["viewer"]);
+  });
+});
@@ -1,29 +1,38 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { newDb } from "pg-mem";
 import { PostgresStrategy } from "../postgres/PostgresStrategy";
+import {
+  createKnexFixture,
+  runStrategyConformance,
+} from "./strategyConformance";
 
-let db: PostgresStrategy;
+// Runs only when a throwaway server is provided
+describe.skipIf(!process.env.POSTGRES_URL)("PostgresStrategy", () => {
+  let db: PostgresStrategy;
 
-beforeAll(async () => {
-  db = new PostgresStrategy({
-    host: process.env.POSTGRES_HOST!,
-    port: Number(process.env.POSTGRES_PORT!),
-    user: process.env.POSTGRES_USER!,
-    password: process.env.POSTGRES_PASSWORD!,
-    database: process.env.POSTGRES_DB!,
-    ssl: process.env.POSTGRES_SSL === "true",
+  beforeAll(async () => {
+    db = new PostgresStrategy({
+      host: process.env.POSTGRES_HOST!,
+      port: Number(process.env.POSTGRES_PORT!),
+      user: process.env.POSTGRES_USER!,
+      password: process.env.POSTGRES_PASSWORD!,
+      database: process.env.POSTGRES_DB!,
+      ssl: process.env.POSTGRES_SSL === "true",
+      connectionString: process.env.POSTGRES_URL,
+    });
+    await db.connect();
+    await db
+      .getDb()
+      .raw(
+        "CREATE TABLE IF NOT EXISTS test_items (id SERIAL PRIMARY KEY, name TEXT)"
+      );
   });
-  await db.connect();
-  await db.executeRaw(
-    "CREATE TABLE IF NOT EXISTS test_items (id SERIAL PRIMARY KEY, name TEXT)"
-  );
-});
 
-afterAll(async () => {
-  await db.executeRaw("DROP TABLE IF EXISTS test_items");
-  await db.disconnect();
-});
+  afterAll(async () => {
+    await db.getDb().raw("DROP TABLE IF EXISTS test_items");
+    await db.disconnect();
+  });
 
-describe("PostgresStrategy", () => {
   it("creates a record", async () => {
     const item = await db.create("test_items", { name: "item1" });
     expect(item).toHaveProperty("id");
@@ -60,3 +69,26 @@ describe("PostgresStrategy", () => {
     expect(typeof health.latency).toBe("number");
   });
 });
+
+// PostgresStrategy running its queries against an in-process pg-mem
+runStrategyConformance({
+  name: "postgres (pg-mem)",
+  create: async () => {
+    const db = new PostgresStrategy(
+      {
+        host: "localhost",
+        port: 5432,
+        user: "conformance",
+        password: "conformance",
+        database: "conformance",
+      },
+      undefined,
+      newDb().adapters.createKnex()
+    );
+    await db.connect();
+    return db;
+  },
+  prepare: (db) => createKnexFixture((db as PostgresStrategy).getDb()),
+  // pg-mem ignores ROLLBACK issued through its Knex adapter
+  skip: { transactions: true },
+});
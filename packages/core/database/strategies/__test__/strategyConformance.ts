@@ -0,0 +1,384 @@
+// packages/core/database/strategies/__test__/strategyConformance.ts
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from "vitest";
+import type { Knex } from "knex";
+import type { IDatabaseStrategy } from "../../IDatabaseStrategy";
+import { AppError, ErrorType } from "../../../errors/AppError";
+
+/** Collection every conformance run reads and writes */
+export const CONFORMANCE_COLLECTION = "conformance_items";
+
+export interface ConformanceTarget {
+  /** Label shown in the test report */
+  name: string;
+  /** Returns a connected strategy; called once per run */
+  create: () => Promise<IDatabaseStrategy>;
+  /**
+   * Creates the fixture collection: an auto-generated id plus `name`,
+   * `rank` (integer), nullable `category` and unique `slug` columns.
+   * Schemaless engines can omit it.
+   */
+  prepare?: (db: IDatabaseStrategy) => Promise<void>;
+  /** Primary key field, `_id` for MongoDB */
+  idField?: string;
+  /** Features the engine (or its test stand-in) cannot provide */
+  skip?: { transactions?: boolean; upsert?: boolean };
+}
+
+/** Fixture DDL for Knex-backed engines */
+export async function createKnexFixture(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists(CONFORMANCE_COLLECTION);
+  await knex.schema.createTable(CONFORMANCE_COLLECTION, (table) => {
+    table.increments("id").primary();
+    table.string("name").notNullable();
+    table.integer("rank").notNullable();
+    table.string("category").nullable();
+    table.string("slug").unique().notNullable();
+  });
+}
+
+const SEED = [
+  { name: "alpha", rank: 2, category: "a", slug: "alpha" },
+  { name: "bravo", rank: 1, category: "b", slug: "bravo" },
+  { name: "charlie", rank: 3, category: null, slug: "charlie" },
+  { name: "delta", rank: 1, category: "a", slug: "delta" },
+];
+
+const names = (records: any[]) => records.map((r) => r.name);
+
+const expectAppError = async (promise: Promise<unknown>, code: ErrorType) => {
+  const error: any = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error.code).toBe(code);
+};
+
+/**
+ * Registers the `IDatabaseStrategy` conformance suite for one engine.
+ * Call it from a test file, e.g. for a custom engine:
+ *
+ *   runStrategyConformance({
+ *     name: "custom:acme",
+ *     create: () => DatabaseStrategyFactory.create("custom:acme", config),
+ *   });
+ */
+export function runStrategyConformance(target: ConformanceTarget): void {
+  const idField = target.idField ?? "id";
+  const table = CONFORMANCE_COLLECTION;
+
+  describe(`IDatabaseStrategy conformance: ${target.name}`, () => {
+    let db: IDatabaseStrategy;
+
+    beforeAll(async () => {
+      db = await target.create();
+      await target.prepare?.(db);
+    });
+
+    beforeEach(async () => {
+      await db.deleteMany(table, {});
+      await db.createMany(table, SEED);
+    });
+
+    describe("CRUD", () => {
+      it("creates a record with a generated id", async () => {
+        const record = await db.create(table, {
+          name: "echo",
+          rank: 5,
+          category: "e",
+          slug: "echo",
+        });
+        expect(record[idField]).toBeDefined();
+        expect(record).toMatchObject({ name: "echo", rank: 5 });
+      });
+
+      it("reads records matching a filter", async () => {
+        const records = await db.read(table, { category: "a" });
+        expect(names(records).sort()).toEqual(["alpha", "delta"]);
+      });
+
+      it("updates matching records", async () => {
+        await db.update(table, { name: "bravo" }, { rank: 9 });
+        const [record] = await db.read(table, { name: "bravo" });
+        expect(record.rank).toBe(9);
+      });
+
+      it("deletes matching records", async () => {
+        await db.delete(table, { name: "charlie" });
+        expect(await db.count(table)).toBe(3);
+        expect(await db.read(table, { name: "charlie" })).toEqual([]);
+      });
+
+      it("matches null values", async () => {
+        const records = await db.read(table, { category: null });
+        expect(names(records)).toEqual(["charlie"]);
+      });
+    });
+
+    describe("sorting and paging", () => {
+      it("sorts ascending and descending", async () => {
+        const asc = await db.read(table, {}, { sort: { field: "name" } });
+        expect(names(asc)).toEqual(["alpha", "bravo", "charlie", "delta"]);
+
+        const desc = await db.read(
+          table,
+          {},
+          { sort: { field: "name", order: "desc" } }
+        );
+        expect(names(desc)).toEqual(["delta", "charlie", "bravo", "alpha"]);
+      });
+
+      it("sorts by several keys", async () => {
+        const records = await db.read(
+          table,
+          {},
+          {
+            sort: [
+              { field: "rank", order: "asc" },
+              { field: "name", order: "desc" },
+            ],
+          }
+        );
+        expect(names(records)).toEqual(["delta", "bravo", "alpha", "charlie"]);
+      });
+
+      it("applies offset and limit", async () => {
+        const records = await db.read(
+          table,
+          {},
+          { sort: { field: "name" }, limit: 2, offset: 1 }
+        );
+        expect(names(records)).toEqual(["bravo", "charlie"]);
+      });
+
+      it("walks cursor pages", async () => {
+        const options = { sort: { field: "name" }, limit: 3 } as const;
+        const first = await db.read(table, {}, { ...options, count: true });
+        const second = await db.read(
+          table,
+          {},
+          { ...options, after: first.pageInfo.nextCursor }
+        );
+
+        expect(names(first.items)).toEqual(["alpha", "bravo", "charlie"]);
+        expect(first.pageInfo).toMatchObject({ hasMore: true, total: 4 });
+        expect(names(second.items)).toEqual(["delta"]);
+        expect(second.pageInfo.hasMore).toBe(false);
+      });
+
+      it.each(["asc", "desc"] as const)(
+        "walks cursor pages over null sort keys (%s)",
+        async (order) => {
+          const sort = { field: "category", order };
+          const expected = names(
+            await db.read(
+              table,
+              {},
+              { sort: [sort, { field: idField, order }] }
+            )
+          );
+
+          const forward: string[] = [];
+          let page = await db.read(
+            table,
+            {},
+            { sort, limit: 1, paginate: true }
+          );
+          for (;;) {
+            forward.push(...names(page.items));
+            if (!page.pageInfo.nextCursor) break;
+            page = await db.read(
+              table,
+              {},
+              { sort, limit: 1, after: page.pageInfo.nextCursor }
+            );
+          }
+          expect(forward).toEqual(expected);
+
+          const backward: string[] = [];
+          for (;;) {
+            backward.unshift(...names(page.items));
+            if (!page.pageInfo.prevCursor) break;
+            page = await db.read(
+              table,
+              {},
+              { sort, limit: 1, before: page.pageInfo.prevCursor }
+            );
+          }
+          expect(backward).toEqual(expected);
+        }
+      );
+    });
+
+    describe("or filters", () => {
+      it("supports `or` in the filter", async () => {
+        const records = await db.read(
+          table,
+          { or: [{ name: "alpha" }, { rank: 3 }] },
+          { sort: { field: "name" } }
+        );
+        expect(names(records)).toEqual(["alpha", "charlie"]);
+      });
+
+      it("supports the legacy `options.or` list", async () => {
+        const records = await db.read(
+          table,
+          {},
+          {
+            sort: { field: "name" },
+            or: [
+              { field: "name", value: "alpha" },
+              { field: "rank", value: 3 },
+            ],
+          }
+        );
+        expect(names(records)).toEqual(["alpha", "charlie"]);
+      });
+    });
+
+    describe("return shapes", () => {
+      it("returns arrays from plain reads and numbers from count", async () => {
+        expect(Array.isArray(await db.read(table, {}))).toBe(true);
+        expect(await db.count(table, { rank: 1 })).toBe(2);
+      });
+
+      it("returns WriteResults from bulk writes", async () => {
+        const updated = await db.updateMany(table, { rank: 1 }, { rank: 4 });
+        expect(updated.affected).toBe(2);
+        expect(updated.ids).toHaveLength(2);
+        expect(updated.records?.every((r) => r.rank === 4)).toBe(true);
+
+        const deleted = await db.deleteMany(table, { rank: 4 });
+        expect(deleted.affected).toBe(2);
+        expect(await db.count(table)).toBe(2);
+      });
+
+      it("returns one row per aggregate group", async () => {
+        const rows = await db.aggregate(table, {
+          groupBy: ["rank"],
+          metrics: [{ fn: "count", as: "total" }],
+        });
+        expect(rows).toEqual([
+          { rank: 1, total: 2 },
+          { rank: 2, total: 1 },
+          { rank: 3, total: 1 },
+        ]);
+      });
+
+      it("projects fields and lists distinct values", async () => {
+        const [record] = await db.read(
+          table,
+          { name: "alpha" },
+          { fields: { include: ["name"] } }
+        );
+        expect(Object.keys(record).sort()).toEqual([idField, "name"].sort());
+
+        const values = await db.read(table, {}, { distinct: "category" });
+        expect(values.filter((v: unknown) => v != null)).toEqual(["a", "b"]);
+      });
+
+      it.skipIf(target.skip?.upsert)("upserts on conflict keys", async () => {
+        await db.upsert(table, ["slug"], {
+          slug: "alpha",
+          name: "alpha",
+          rank: 7,
+        });
+        const [record] = await db.read(table, { slug: "alpha" });
+        expect(record.rank).toBe(7);
+        expect(await db.count(table)).toBe(4);
+      });
+    });
+
+    describe("error mapping", () => {
+      it("rejects invalid paging options", async () => {
+        await expectAppError(
+          db.read(table, {}, { limit: -1 }),
+          ErrorType.VALIDATION_FAILED
+        );
+        await expectAppError(
+          db.read(table, {}, { after: "%%%" }),
+          ErrorType.VALIDATION_FAILED
+        );
+      });
+
+      it("rejects unknown filter operators and unsafe fields", async () => {
+        await expectAppError(
+          // @ts-expect-error `between` is not a filter operator
+          db.read(table, { rank: { between: [1, 2] } }),
+          ErrorType.VALIDATION_FAILED
+        );
+        await expectAppError(
+          db.read(table, { "rank; DROP TABLE x": 1 }),
+          ErrorType.VALIDATION_FAILED
+        );
+      });
+    });
+
+    describe.skipIf(target.skip?.transactions)("transactions", () => {
+      it("commits and rolls back", async () => {
+        await db.transaction(async (tx) => {
+          await tx.update(table, { name: "alpha" }, { rank: 10 });
+        });
+        await db
+          .transaction(async (tx) => {
+            await tx.update(table, { name: "bravo" }, { rank: 10 });
+            throw AppError.conflict("rollback");
+          })
+          .catch(() => undefined);
+
+        expect(names(await db.read(table, { rank: 10 }))).toEqual(["alpha"]);
+      });
+
+      it.each([
+        ["commits", false],
+        ["rolls back", true],
+      ])(
+        "keeps writes made outside a transaction that %s",
+        async (_, rollback) => {
+          let begun!: () => void;
+          let release!: () => void;
+          const started = new Promise<void>((resolve) => (begun = resolve));
+          const released = new Promise<void>((resolve) => (release = resolve));
+
+          const inside = db
+            .transaction(async (tx) => {
+              await tx.update(table, { name: "alpha" }, { rank: 10 });
+              begun();
+              await released;
+              if (rollback) throw AppError.conflict("rollback");
+            })
+            .catch(() => undefined);
+          await started;
+          const outside = db.update(table, { name: "bravo" }, { rank: 20 });
+          release();
+          await Promise.all([inside, outside]);
+
+          expect(names(await db.read(table, { rank: 20 }))).toEqual(["bravo"]);
+          expect(names(await db.read(table, { rank: 10 }))).toEqual(
+            rollback ? [] : ["alpha"]
+          );
+        }
+      );
+    });
+
+    describe("lifecycle", () => {
+      it("reports health", async () => {
+        const health = await db.healthCheck();
+        expect(health.ok).toBe(true);
+        expect(typeof health.latency).toBe("number");
+      });
+
+      it("emits connect and disconnect events", async () => {
+        const onConnect = vi.fn();
+        const onDisconnect = vi.fn();
+        db.on("connect", onConnect);
+        db.on("disconnect", onDisconnect);
+
+        await db.connect();
+        expect(onConnect).toHaveBeenCalled();
+        expect(db.status).toBe("ready");
+
+        await db.disconnect();
+        expect(onDisconnect).toHaveBeenCalled();
+      });
+    });
+  });
+}
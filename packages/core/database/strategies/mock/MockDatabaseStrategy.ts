@@ -1,18 +1,54 @@
 // packages/core/database/strategies/mock/MockDatabaseStrategy.ts
 
+import { EventEmitter } from "events";
 import type { Logger } from "pino";
 import { BaseDatabaseStrategy } from "../BaseDatabaseStrategy";
-import type { QueryOptions } from "../../types/QueryOptions";
-import type { ConnectionStatus } from "../../IDatabaseStrategy";
+import type { ReadPlan } from "../../types/QueryOptions";
+import type {
+  ConnectionStatus,
+  IDatabaseStrategy,
+} from "../../IDatabaseStrategy";
+import type { Filter, FilterNode } from "../../types/Filter";
+import type {
+  AggregateMetric,
+  AggregatePlan,
+  AggregateRow,
+} from "../../types/Aggregate";
+import { matchesFilter } from "../../filters/matchFilter";
+import type { WriteResult } from "../../types/WriteResult";
+import { projectRecord } from "../../utils/projection";
 import { Config } from "../../../config/config";
 import { MockConfigSchema } from "./config";
 
 Config.registerModuleSchema("mock", MockConfigSchema);
 
+function reduceMetric({ fn, field }: AggregateMetric, items: any[]): any {
+  if (fn === "count" && !field) return items.length;
+
+  const values = items.map((item) => item[field!]).filter((v) => v != null);
+  switch (fn) {
+    case "count":
+      return values.length;
+    case "sum":
+      return values.length ? values.reduce((a, b) => a + Number(b), 0) : null;
+    case "avg":
+      return values.length
+        ? values.reduce((a, b) => a + Number(b), 0) / values.length
+        : null;
+    case "min":
+      return values.length ? values.reduce((a, b) => (b < a ? b : a)) : null;
+    case "max":
+      return values.length ? values.reduce((a, b) => (b > a ? b : a)) : null;
+  }
+}
+
 // Your MockDatabaseStrategy implementation below...
 
 export class MockDatabaseStrategy extends BaseDatabaseStrategy {
   private db: Record<string, any[]> = {};
+  /** Highest id handed out per collection, shared with transaction clones */
+  private sequences: Record<string, number> = {};
+  private emitter = new EventEmitter();
   public status: ConnectionStatus = "ready";
   public ready: Promise<void> = Promise.resolve();
 
@@ -28,17 +64,20 @@ export class MockDatabaseStrategy extends BaseDatabaseStrategy {
   }
 
   async connect(): Promise<void> {
+    this.status = "ready";
     this.logger?.info({ module: "mock-db" }, "Mock database connect() called");
+    this.emitter.emit("connect");
   }
 
   async disconnect(): Promise<void> {
     this.logger?.info({ module: "mock-db" }, "Mock database disconnected");
+    this.emitter.emit("disconnect");
   }
 
   async create(collection: string, data: any): Promise<any> {
     if (!this.db[collection]) this.db[collection] = [];
 
-    const item = { ...data, id: this.db[collection].length + 1 };
+    const item = { ...data, id: this.nextId(collection) };
     this.db[collection].push(item);
 
     this.logger?.info(
@@ -48,48 +87,106 @@ export class MockDatabaseStrategy extends BaseDatabaseStrategy {
     return item;
   }
 
-  async read(
-    collection: string,
-    query: any = {},
-    options: QueryOptions = {}
-  ): Promise<any> {
-    this.validateQueryOptions(options);
-
+  protected async find(collection: string, plan: ReadPlan): Promise<any[]> {
     let results = [...(this.db[collection] || [])].filter((item) =>
-      Object.keys(query).every((key) => item[key] === query[key])
+      matchesFilter(item, plan.filter)
     );
 
-    if (options.sort) {
-      const { field, order } = options.sort;
-      results.sort((a, b) =>
-        a[field] < b[field]
-          ? order === "asc"
-            ? -1
-            : 1
-          : a[field] > b[field]
-            ? order === "asc"
-              ? 1
-              : -1
-            : 0
-      );
+    if (plan.sort.length > 0) {
+      results.sort((a, b) => {
+        for (const { field, order } of plan.sort) {
+          const direction = order === "desc" ? -1 : 1;
+          // NULL sorts below every value, as in SQLite
+          if ((a[field] == null) !== (b[field] == null)) {
+            return a[field] == null ? -direction : direction;
+          }
+          if (a[field] < b[field]) return -direction;
+          if (a[field] > b[field]) return direction;
+        }
+        return 0;
+      });
     }
 
-    if (typeof options.offset === "number") {
-      results = results.slice(options.offset);
+    if (typeof plan.offset === "number") {
+      results = results.slice(plan.offset);
     }
 
-    if (typeof options.limit === "number") {
-      results = results.slice(0, options.limit);
+    if (typeof plan.limit === "number") {
+      results = results.slice(0, plan.limit);
+    }
+
+    if (plan.projection) {
+      results = results.map((item) => projectRecord(item, plan.projection));
     }
 
     this.logger?.info(
-      { collection, query, options, result: results, module: "mock-db" },
+      { collection, plan, result: results, module: "mock-db" },
       "Mock read"
     );
     return results;
   }
 
-  async update(collection: string, query: any, data: any): Promise<any> {
+  protected async findDistinct(
+    collection: string,
+    field: string,
+    filter: FilterNode
+  ): Promise<any[]> {
+    const values = new Set(
+      (this.db[collection] || [])
+        .filter((item) => matchesFilter(item, filter))
+        .map((item) => item[field])
+    );
+    return [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+
+  protected async runAggregate(
+    collection: string,
+    plan: AggregatePlan
+  ): Promise<AggregateRow[]> {
+    const groups = new Map<string, any[]>();
+    for (const item of this.db[collection] || []) {
+      if (!matchesFilter(item, plan.filter)) continue;
+      const key = JSON.stringify(
+        plan.groupBy.map((field) => item[field] ?? null)
+      );
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    }
+
+    return [...groups.values()]
+      .map((items) => ({
+        values: plan.groupBy.map((field) => items[0][field] ?? null),
+        items,
+      }))
+      .sort((a, b) => {
+        for (let i = 0; i < a.values.length; i++) {
+          if (a.values[i] < b.values[i]) return -1;
+          if (a.values[i] > b.values[i]) return 1;
+        }
+        return 0;
+      })
+      .map(({ values, items }) => {
+        return {
+          ...Object.fromEntries(plan.groupBy.map((f, i) => [f, values[i]])),
+          ...Object.fromEntries(
+            plan.metrics.map((metric) => [
+              metric.as,
+              reduceMetric(metric, items),
+            ])
+          ),
+        };
+      });
+  }
+
+  protected async countRows(
+    collection: string,
+    filter: FilterNode
+  ): Promise<number> {
+    return (this.db[collection] || []).filter((item) =>
+      matchesFilter(item, filter)
+    ).length;
+  }
+
+  async update(collection: string, query: Filter, data: any): Promise<any> {
     const items = await this.read(collection, query);
     const updated = items.map((item) => Object.assign(item, data));
 
@@ -100,7 +197,7 @@ export class MockDatabaseStrategy extends BaseDatabaseStrategy {
     return updated;
   }
 
-  async delete(collection: string, query: any): Promise<any> {
+  async delete(collection: string, query: Filter): Promise<any> {
     const items = await this.read(collection, query);
     this.db[collection] = (this.db[collection] || []).filter(
       (item) => !items.includes(item)
@@ -113,13 +210,113 @@ export class MockDatabaseStrategy extends BaseDatabaseStrategy {
     return items;
   }
 
+  async createMany(collection: string, items: any[]): Promise<WriteResult> {
+    const records: any[] = [];
+    for (const item of items) records.push(await this.create(collection, item));
+    return this.toWriteResult(records);
+  }
+
+  async upsert(
+    collection: string,
+    conflictKeys: string[],
+    data: any
+  ): Promise<WriteResult> {
+    this.assertUpsertKeys(conflictKeys, data);
+
+    const existing = (this.db[collection] || []).find((item) =>
+      conflictKeys.every((key) => item[key] === data[key])
+    );
+    if (existing) {
+      Object.assign(existing, data);
+      return this.toWriteResult([existing]);
+    }
+
+    return this.toWriteResult([await this.create(collection, data)]);
+  }
+
+  async updateMany(
+    collection: string,
+    query: Filter,
+    data: any
+  ): Promise<WriteResult> {
+    return this.toWriteResult(await this.update(collection, query, data));
+  }
+
+  async deleteMany(collection: string, query: Filter): Promise<WriteResult> {
+    return this.toWriteResult(await this.delete(collection, query));
+  }
+
+  /**
+   * Next id above the highest in use or handed out; `length + 1` collided
+   * after deletes, and a store's own maximum across transaction clones
+   */
+  private nextId(collection: string): number {
+    const id =
+      (this.db[collection] || []).reduce(
+        (max, item) => Math.max(max, Number(item.id) || 0),
+        this.sequences[collection] ?? 0
+      ) + 1;
+    this.sequences[collection] = id;
+    return id;
+  }
+
+  /**
+   * Copy-on-write: `work` runs against a cloned store. If it resolves,
+   * only the records it created, changed or deleted are merged back, so
+   * writes made outside the transaction meanwhile are kept.
+   */
+  async transaction<T>(
+    work: (tx: IDatabaseStrategy) => Promise<T>
+  ): Promise<T> {
+    const base = structuredClone(this.db);
+    const scoped: MockDatabaseStrategy = Object.create(this);
+    scoped.db = structuredClone(this.db);
+
+    const result = await work(scoped);
+    this.mergeChanges(base, scoped.db);
+
+    this.logger?.info({ module: "mock-db" }, "Mock transaction committed");
+    return result;
+  }
+
+  /** Applies the differences from `base` to `changed` to the live store */
+  private mergeChanges(
+    base: Record<string, any[]>,
+    changed: Record<string, any[]>
+  ): void {
+    for (const collection of new Set([
+      ...Object.keys(base),
+      ...Object.keys(changed),
+    ])) {
+      const before = new Map(
+        (base[collection] || []).map((item) => [item.id, item])
+      );
+      const after = new Map(
+        (changed[collection] || []).map((item) => [item.id, item])
+      );
+      const live = (this.db[collection] ??= []);
+
+      for (const [id, item] of after) {
+        const previous = before.get(id);
+        if (previous && JSON.stringify(previous) === JSON.stringify(item)) {
+          continue;
+        }
+        const index = live.findIndex((record) => record.id === id);
+        if (index >= 0) live[index] = item;
+        else live.push(item);
+      }
+      this.db[collection] = live.filter(
+        (record) => !before.has(record.id) || after.has(record.id)
+      );
+    }
+  }
+
   async healthCheck(): Promise<{ ok: boolean; latency: number }> {
     this.logger?.info({ module: "mock-db" }, "Mock health check OK");
     return { ok: true, latency: 0 };
   }
 
   on(event: "connect" | "disconnect", listener: () => void): void {
-    // This is a no-op in mock, but you can simulate if needed
-    listener();
+    this.emitter.on(event, listener);
   }
 }
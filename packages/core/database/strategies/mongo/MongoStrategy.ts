@@ -1,23 +1,50 @@
 import {
+  ClientSession,
   MongoClient,
   Db,
   Document,
   Filter,
   OptionalUnlessRequiredId,
+  Sort,
   WithId,
 } from "mongodb";
 import { EventEmitter } from "events";
 import { z, ZodSchema } from "zod";
 import type { Logger } from "pino";
 import { BaseDatabaseStrategy } from "../BaseDatabaseStrategy";
-import type { QueryOptions } from "../../types/QueryOptions";
-import type { ConnectionStatus } from "../../IDatabaseStrategy";
+import type { ReadPlan } from "../../types/QueryOptions";
+import type { Filter as QueryFilter, FilterNode } from "../../types/Filter";
+import type {
+  AggregateMetric,
+  AggregatePlan,
+  AggregateRow,
+} from "../../types/Aggregate";
+import { toMongoFilter } from "../../filters/mongoFilter";
+import type { WriteResult } from "../../types/WriteResult";
+import type {
+  ConnectionStatus,
+  IDatabaseStrategy,
+} from "../../IDatabaseStrategy";
 import { ZodObject, ZodRawShape } from "zod"; // 👈 add this to your imports
 import { Config } from "../../../config/config";
 import { MongoConfigSchema } from "./config";
 
 Config.registerModuleSchema("mongo", MongoConfigSchema);
 
+function mongoAccumulator({ fn, field }: AggregateMetric): Document {
+  if (fn === "count") {
+    // Like SQL COUNT(field), only non-null values are counted
+    return field
+      ? {
+          $sum: {
+            $cond: [{ $eq: [{ $ifNull: [`$${field}`, null] }, null] }, 0, 1],
+          },
+        }
+      : { $sum: 1 };
+  }
+  return { [`$${fn}`]: `$${field}` };
+}
+
 // Your MongoStrategy implementation below...
 
 export type MongoConfig = {
@@ -31,8 +58,12 @@ export class MongoStrategy extends BaseDatabaseStrategy {
   private client!: MongoClient;
   private db!: Db;
   private retryCount = 0;
+  protected idField = "_id";
   private emitter = new EventEmitter();
   private schemas: Map<string, ZodSchema<any>> = new Map();
+  /** Set on strategies scoped to a transaction */
+  private session?: ClientSession;
+  private transactionsSupported?: boolean;
 
   public status: ConnectionStatus = "connecting";
   public ready: Promise<void> = Promise.resolve();
@@ -101,50 +132,264 @@ export class MongoStrategy extends BaseDatabaseStrategy {
     data: OptionalUnlessRequiredId<T>
   ): Promise<WithId<T>> {
     this.validateSchema(collection, data);
-    const result = await this.db.collection<T>(collection).insertOne(data);
+    const result = await this.db
+      .collection<T>(collection)
+      .insertOne(data, { session: this.session });
     return { ...data, _id: result.insertedId } as WithId<T>;
   }
 
-  public async read<T extends Document>(
-    collection: string,
-    query: Filter<T> = {},
-    options: QueryOptions = {}
-  ): Promise<WithId<T>[]> {
-    this.validateQueryOptions(options);
+  protected async find(collection: string, plan: ReadPlan): Promise<any[]> {
+    const cursor = this.db
+      .collection(collection)
+      .find(toMongoFilter(plan.filter), { session: this.session });
 
-    const cursor = this.db.collection<T>(collection).find(query);
+    if (plan.projection) {
+      const [fields, flag] =
+        "include" in plan.projection
+          ? [plan.projection.include, 1]
+          : [plan.projection.exclude, 0];
+      cursor.project(Object.fromEntries(fields.map((f) => [f, flag])));
+    }
 
-    if (options.sort) {
-      const sortOrder = options.sort.order === "desc" ? -1 : 1;
-      cursor.sort({ [options.sort.field]: sortOrder });
+    if (plan.sort.length > 0) {
+      cursor.sort(
+        Object.fromEntries(
+          plan.sort.map(({ field, order }) => [
+            field,
+            order === "desc" ? -1 : 1,
+          ])
+        ) as Sort
+      );
     }
 
-    if (typeof options.offset === "number") cursor.skip(options.offset);
-    if (typeof options.limit === "number") cursor.limit(options.limit);
+    if (typeof plan.offset === "number") cursor.skip(plan.offset);
+    if (typeof plan.limit === "number") cursor.limit(plan.limit);
 
     return await cursor.toArray();
   }
 
+  protected async findDistinct(
+    collection: string,
+    field: string,
+    filter: FilterNode
+  ): Promise<any[]> {
+    const values = await this.db
+      .collection(collection)
+      .distinct(field, toMongoFilter(filter), { session: this.session });
+    return values.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+
+  protected async runAggregate(
+    collection: string,
+    plan: AggregatePlan
+  ): Promise<AggregateRow[]> {
+    // Group keys are positional because $group ids cannot contain dots
+    const groupId =
+      plan.groupBy.length > 0
+        ? Object.fromEntries(
+            plan.groupBy.map((field, i) => [`g${i}`, `$${field}`])
+          )
+        : null;
+
+    const results = await this.db
+      .collection(collection)
+      .aggregate(
+        [
+          { $match: toMongoFilter(plan.filter) },
+          {
+            $group: {
+              _id: groupId,
+              ...Object.fromEntries(
+                plan.metrics.map((metric, i) => [
+                  `m${i}`,
+                  mongoAccumulator(metric),
+                ])
+              ),
+            },
+          },
+          { $sort: { _id: 1 } },
+        ],
+        { session: this.session }
+      )
+      .toArray();
+
+    return results.map((doc) => ({
+      ...Object.fromEntries(
+        plan.groupBy.map((field, i) => [field, doc._id?.[`g${i}`] ?? null])
+      ),
+      ...Object.fromEntries(
+        plan.metrics.map(({ as }, i) => [as, doc[`m${i}`] ?? null])
+      ),
+    }));
+  }
+
+  protected async countRows(
+    collection: string,
+    filter: FilterNode
+  ): Promise<number> {
+    return this.db
+      .collection(collection)
+      .countDocuments(toMongoFilter(filter), { session: this.session });
+  }
+
   public async update<T extends Document>(
     collection: string,
-    query: Filter<T>,
+    query: QueryFilter,
     data: Partial<T>
   ): Promise<number> {
     this.validateSchema(collection, data, true);
+    const filter = toMongoFilter(this.buildFilter(query));
     const result = await this.db
       .collection<T>(collection)
-      .updateMany(query, { $set: data });
+      .updateMany(
+        filter as Filter<T>,
+        { $set: data },
+        { session: this.session }
+      );
     return result.modifiedCount;
   }
 
   public async delete<T extends Document>(
     collection: string,
-    query: Filter<T>
+    query: QueryFilter
   ): Promise<number> {
-    const result = await this.db.collection<T>(collection).deleteMany(query);
+    const filter = toMongoFilter(this.buildFilter(query));
+    const result = await this.db
+      .collection<T>(collection)
+      .deleteMany(filter as Filter<T>, { session: this.session });
     return result.deletedCount;
   }
 
+  public async createMany(
+    collection: string,
+    items: any[]
+  ): Promise<WriteResult> {
+    if (items.length === 0) return this.toWriteResult([]);
+    items.forEach((item) => this.validateSchema(collection, item));
+
+    const docs = items.map((item) => ({ ...item }));
+    const result = await this.db
+      .collection(collection)
+      .insertMany(docs, { session: this.session });
+    return this.toWriteResult(
+      docs.map((doc, i) => ({ ...doc, _id: result.insertedIds[i] }))
+    );
+  }
+
+  public async upsert(
+    collection: string,
+    conflictKeys: string[],
+    data: any
+  ): Promise<WriteResult> {
+    this.assertUpsertKeys(conflictKeys, data);
+    this.validateSchema(collection, data);
+
+    const filter = Object.fromEntries(conflictKeys.map((k) => [k, data[k]]));
+    const record = await this.db
+      .collection(collection)
+      .findOneAndUpdate(
+        filter,
+        { $set: data },
+        { upsert: true, returnDocument: "after", session: this.session }
+      );
+    return this.toWriteResult(record ? [record] : []);
+  }
+
+  /** Matches first so the result can report ids and updated documents */
+  public async updateMany(
+    collection: string,
+    query: QueryFilter,
+    data: any
+  ): Promise<WriteResult> {
+    this.validateSchema(collection, data, true);
+
+    const ids = await this.matchingIds(collection, query);
+    if (ids.length === 0) return this.toWriteResult([]);
+
+    const target = this.db.collection(collection);
+    await target.updateMany(
+      { _id: { $in: ids } },
+      { $set: data },
+      { session: this.session }
+    );
+    const records = await target
+      .find({ _id: { $in: ids } }, { session: this.session })
+      .toArray();
+    return this.toWriteResult(records);
+  }
+
+  public async deleteMany(
+    collection: string,
+    query: QueryFilter
+  ): Promise<WriteResult> {
+    const target = this.db.collection(collection);
+    const records = await target
+      .find(toMongoFilter(this.buildFilter(query)), { session: this.session })
+      .toArray();
+    if (records.length === 0) return this.toWriteResult([]);
+
+    await target.deleteMany(
+      { _id: { $in: records.map((r) => r._id) } },
+      { session: this.session }
+    );
+    return this.toWriteResult(records);
+  }
+
+  private async matchingIds(
+    collection: string,
+    query: QueryFilter
+  ): Promise<any[]> {
+    const docs = await this.db
+      .collection(collection)
+      .find(toMongoFilter(this.buildFilter(query)), {
+        projection: { _id: 1 },
+        session: this.session,
+      })
+      .toArray();
+    return docs.map((doc) => doc._id);
+  }
+
+  /**
+   * Runs `work` in a session transaction. Standalone servers cannot run
+   * transactions, so there `work` runs unscoped after a warning.
+   */
+  public async transaction<T>(
+    work: (tx: IDatabaseStrategy) => Promise<T>
+  ): Promise<T> {
+    if (this.session) return work(this);
+
+    if (!(await this.supportsTransactions())) {
+      this.logger?.warn(
+        { module: "mongo-db" },
+        "MongoDB deployment has no transaction support, running unscoped"
+      );
+      return work(this);
+    }
+
+    const session = this.client.startSession();
+    const scoped: MongoStrategy = Object.create(this);
+    scoped.session = session;
+
+    try {
+      let result!: T;
+      await session.withTransaction(async () => {
+        result = await work(scoped);
+      });
+      return result;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /** Transactions need a replica set or a sharded cluster */
+  private async supportsTransactions(): Promise<boolean> {
+    if (this.transactionsSupported === undefined) {
+      const hello = await this.db.admin().command({ hello: 1 });
+      this.transactionsSupported = !!hello.setName || hello.msg === "isdbgrid";
+    }
+    return this.transactionsSupported;
+  }
+
   public async healthCheck(): Promise<{ ok: boolean; latency: number }> {
     const start = Date.now();
     try {
@@ -0,0 +1,319 @@
+import { EventEmitter } from "events";
+import type { Logger } from "pino";
+import type { Knex } from "knex";
+import { ZodObject, ZodRawShape } from "zod";
+import { createKnexInstance } from "../../knex/createKnexInstance";
+import { BaseDatabaseStrategy } from "../BaseDatabaseStrategy";
+import { Config } from "../../../config/config";
+import type { ReadPlan } from "../../types/QueryOptions";
+import type {
+  ConnectionStatus,
+  IDatabaseStrategy,
+} from "../../IDatabaseStrategy";
+import type { Filter, FilterNode } from "../../types/Filter";
+import type { AggregatePlan, AggregateRow } from "../../types/Aggregate";
+import type { WriteResult } from "../../types/WriteResult";
+import type { MysqlConfig } from "../../types";
+import { applyKnexFilter } from "../../filters/knexFilter";
+import {
+  aggregateKnexRows,
+  applyReadPlan,
+  countKnexRows,
+  distinctKnexValues,
+} from "../../knex/applyReadPlan";
+import { applyExclusions } from "../../utils/projection";
+import { MysqlConfigSchema } from "./config";
+
+Config.registerModuleSchema("mysql", MysqlConfigSchema);
+
+/**
+ * JSON columns of the core tables. mysql2 parses native JSON columns, but
+ * MariaDB stores JSON as LONGTEXT and hands it back as a string.
+ */
+const JSON_COLUMNS: Record<string, string[]> = {
+  collection_schemas: ["fields"],
+  collection_schema_versions: ["fields", "migration"],
+  collection_permissions: ["allowed_roles"],
+};
+
+export class MysqlStrategy extends BaseDatabaseStrategy {
+  private db: Knex;
+  private emitter = new EventEmitter();
+  private schemas: Map<string, ZodObject<ZodRawShape>> = new Map();
+  private retryCount = 0;
+
+  public status: ConnectionStatus = "connecting";
+  public ready: Promise<void> = Promise.resolve();
+
+  /** `db` runs the strategy on an existing Knex, e.g. an in-process test database */
+  constructor(
+    private config: MysqlConfig,
+    private logger?: Logger,
+    db?: Knex
+  ) {
+    super();
+
+    this.db =
+      db ??
+      createKnexInstance({
+        client: "mysql2",
+        connection: config.connectionString,
+        pool: {
+          min: config.poolMin ?? 2,
+          max: config.poolMax ?? 10,
+          idleTimeoutMillis: config.idleTimeout ?? 30000,
+        },
+        debug: process.env.NODE_ENV === "development",
+      });
+  }
+
+  public registerSchema(table: string, schema: ZodObject<ZodRawShape>) {
+    this.schemas.set(table, schema);
+  }
+
+  public async connect(): Promise<void> {
+    this.ready = this.connectWithRetry();
+    return this.ready;
+  }
+
+  private async connectWithRetry(): Promise<void> {
+    try {
+      this.status = "connecting";
+      await this.db.raw("SELECT 1");
+      this.status = "ready";
+      this.retryCount = 0;
+      this.logger?.info({ module: "database" }, "MySQL connected via Knex");
+      this.emitter.emit("connect");
+    } catch (error) {
+      if (this.retryCount < 3) {
+        this.retryCount++;
+        const delay = Math.pow(2, this.retryCount) * 100;
+        await new Promise((res) => setTimeout(res, delay));
+        return this.connectWithRetry();
+      }
+
+      this.status = "error";
+      this.logger?.error(
+        { err: error, module: "database" },
+        "MySQL connection failed after retries"
+      );
+      throw error;
+    }
+  }
+
+  public async disconnect(): Promise<void> {
+    await this.db.destroy();
+    this.status = "error";
+    this.emitter.emit("disconnect");
+    this.logger?.info({ module: "database" }, "MySQL disconnected");
+  }
+
+  // MySQL has no RETURNING, so writes re-read the affected rows by id
+
+  public async create(table: string, data: Record<string, any>): Promise<any> {
+    this.validateSchema(table, data);
+    const [record] = await this.insertRows(table, [data]);
+    return record;
+  }
+
+  protected async find(table: string, plan: ReadPlan): Promise<any[]> {
+    const rows = await applyReadPlan(this.db(table), plan);
+    return applyExclusions(this.fromRows(table, rows), plan.projection);
+  }
+
+  protected async findDistinct(
+    table: string,
+    field: string,
+    filter: FilterNode
+  ): Promise<any[]> {
+    return distinctKnexValues(this.db(table), field, filter);
+  }
+
+  protected async runAggregate(
+    table: string,
+    plan: AggregatePlan
+  ): Promise<AggregateRow[]> {
+    return aggregateKnexRows(this.db(table), plan);
+  }
+
+  protected async countRows(
+    table: string,
+    filter: FilterNode
+  ): Promise<number> {
+    return countKnexRows(this.db(table), filter);
+  }
+
+  /** Mirrors PostgresStrategy: returns the first updated row */
+  public async update(
+    table: string,
+    query: Filter,
+    data: Record<string, any>
+  ): Promise<any> {
+    const { records } = await this.updateMany(table, query, data);
+    if (!records?.length) {
+      throw new Error(`Update failed: no matching record found in '${table}'`);
+    }
+    return records[0];
+  }
+
+  public async delete(table: string, query: Filter): Promise<any> {
+    const { records } = await this.deleteMany(table, query);
+    return records?.[0];
+  }
+
+  public async createMany(table: string, items: any[]): Promise<WriteResult> {
+    items.forEach((item) => this.validateSchema(table, item));
+    return this.toWriteResult(await this.insertRows(table, items));
+  }
+
+  /** Uses ON DUPLICATE KEY UPDATE, so a unique key must cover `conflictKeys` */
+  public async upsert(
+    table: string,
+    conflictKeys: string[],
+    data: any
+  ): Promise<WriteResult> {
+    this.assertUpsertKeys(conflictKeys, data);
+    this.validateSchema(table, data);
+
+    await this.db(table)
+      .insert(this.toRow(data))
+      .onConflict(conflictKeys)
+      .merge();
+
+    const rows = await this.db(table)
+      .where(Object.fromEntries(conflictKeys.map((k) => [k, data[k]])))
+      .limit(1);
+    return this.toWriteResult(this.fromRows(table, rows));
+  }
+
+  public async updateMany(
+    table: string,
+    query: Filter,
+    data: any
+  ): Promise<WriteResult> {
+    this.validateSchema(table, data, true);
+
+    const ids = await this.matchingIds(table, query);
+    if (ids.length > 0) {
+      await this.db(table).whereIn(this.idField, ids).update(this.toRow(data));
+    }
+    return this.toWriteResult(await this.rowsById(table, ids));
+  }
+
+  public async deleteMany(table: string, query: Filter): Promise<WriteResult> {
+    const records = this.fromRows(
+      table,
+      await applyKnexFilter(this.db(table), this.buildFilter(query))
+    );
+    if (records.length > 0) {
+      await this.db(table)
+        .whereIn(
+          this.idField,
+          records.map((r) => r[this.idField])
+        )
+        .delete();
+    }
+    return this.toWriteResult(records);
+  }
+
+  /** Binds a scoped copy of the strategy to a Knex transaction */
+  public async transaction<T>(
+    work: (tx: IDatabaseStrategy) => Promise<T>
+  ): Promise<T> {
+    return this.db.transaction(async (trx) => {
+      const scoped: MysqlStrategy = Object.create(this);
+      scoped.db = trx;
+      return work(scoped);
+    });
+  }
+
+  public async healthCheck(): Promise<{ ok: boolean; latency: number }> {
+    const start = Date.now();
+    try {
+      await this.db.raw("SELECT 1");
+      return { ok: true, latency: Date.now() - start };
+    } catch {
+      this.status = "error";
+      return { ok: false, latency: Date.now() - start };
+    }
+  }
+
+  public on(event: "connect" | "disconnect", listener: () => void): void {
+    this.emitter.on(event, listener);
+  }
+
+  public getDb(): Knex {
+    return this.db;
+  }
+
+  private async insertRows(table: string, items: any[]): Promise<any[]> {
+    const ids: any[] = [];
+    for (const item of items) {
+      const [insertId] = await this.db(table).insert(this.toRow(item));
+      ids.push(item[this.idField] ?? insertId);
+    }
+    return this.rowsById(table, ids);
+  }
+
+  private async matchingIds(table: string, query: Filter): Promise<any[]> {
+    const rows = await applyKnexFilter(
+      this.db(table),
+      this.buildFilter(query)
+    ).select(this.idField);
+    return rows.map((row: Record<string, any>) => row[this.idField]);
+  }
+
+  private async rowsById(table: string, ids: any[]): Promise<any[]> {
+    if (ids.length === 0) return [];
+    const rows = await this.db(table)
+      .whereIn(this.idField, ids)
+      .orderBy(this.idField);
+    return this.fromRows(table, rows);
+  }
+
+  /** mysql2 would expand arrays into value lists, so JSON goes in as text */
+  private toRow(data: Record<string, any>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [
+        key,
+        value !== null &&
+        typeof value === "object" &&
+        !(value instanceof Date) &&
+        !Buffer.isBuffer(value)
+          ? JSON.stringify(value)
+          : value,
+      ])
+    );
+  }
+
+  private fromRows(table: string, rows: any[]): any[] {
+    const columns = JSON_COLUMNS[table];
+    if (!columns) return rows;
+
+    return rows.map((row) => {
+      for (const column of columns) {
+        if (typeof row[column] === "string") {
+          try {
+            row[column] = JSON.parse(row[column]);
+          } catch {
+            // leave non-JSON text untouched
+          }
+        }
+      }
+      return row;
+    });
+  }
+
+  private validateSchema(table: string, data: any, partial = false) {
+    const schema = this.schemas.get(table);
+    if (!schema) return;
+
+    const result = partial
+      ? schema.partial().safeParse(data)
+      : schema.safeParse(data);
+
+    if (!result.success) {
+      throw new Error(`Schema validation failed: ${result.error.message}`);
+    }
+  }
+}
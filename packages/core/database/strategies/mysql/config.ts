@@ -0,0 +1,44 @@
+import { ModuleConfigSchema } from "../../../config/types";
+
+export const MysqlConfigSchema: ModuleConfigSchema = {
+  connectionString: {
+    key: "connectionString",
+    type: "string",
+    envVar: "MYSQL_URL",
+    default: "mysql://root@localhost:3306/shikor",
+    description: "MySQL / MariaDB connection string",
+    visibleTo: ["admin"],
+    environments: ["development", "production"],
+    group: "database",
+  },
+  poolMin: {
+    key: "poolMin",
+    type: "number",
+    envVar: "MYSQL_POOL_MIN",
+    default: 2,
+    description: "Minimum number of pooled connections",
+    visibleTo: ["admin"],
+    environments: ["development", "production"],
+    group: "database",
+  },
+  poolMax: {
+    key: "poolMax",
+    type: "number",
+    envVar: "MYSQL_POOL_MAX",
+    default: 10,
+    description: "Maximum number of pooled connections",
+    visibleTo: ["admin"],
+    environments: ["development", "production"],
+    group: "database",
+  },
+  idleTimeout: {
+    key: "idleTimeout",
+    type: "number",
+    envVar: "MYSQL_IDLE_TIMEOUT",
+    default: 30000,
+    description: "Idle pooled connection timeout in milliseconds",
+    visibleTo: ["admin"],
+    environments: ["development", "production"],
+    group: "database",
+  },
+};
@@ -0,0 +1,3 @@
+// The strategy module registers the "mysql" config schema
+export { MysqlStrategy } from "./MysqlStrategy";
+export { MysqlConfigSchema } from "./config";
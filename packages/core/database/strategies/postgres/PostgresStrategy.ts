@@ -5,8 +5,22 @@ import { z, ZodObject, ZodRawShape } from "zod";
 import { createKnexInstance } from "../../knex/createKnexInstance";
 import { BaseDatabaseStrategy } from "../BaseDatabaseStrategy";
 import { Config } from "../../../config/config";
-import type { QueryOptions } from "../../types/QueryOptions";
-import type { ConnectionStatus } from "../../IDatabaseStrategy";
+import type { ReadPlan } from "../../types/QueryOptions";
+import type {
+  ConnectionStatus,
+  IDatabaseStrategy,
+} from "../../IDatabaseStrategy";
+import type { Filter, FilterNode } from "../../types/Filter";
+import { applyKnexFilter } from "../../filters/knexFilter";
+import type { AggregatePlan, AggregateRow } from "../../types/Aggregate";
+import type { WriteResult } from "../../types/WriteResult";
+import {
+  aggregateKnexRows,
+  applyReadPlan,
+  countKnexRows,
+  distinctKnexValues,
+} from "../../knex/applyReadPlan";
+import { applyExclusions } from "../../utils/projection";
 import { PostgresConfigSchema } from "./PostgresConfig";
 import { PostgresConfig } from "../../types";
 import { QueryLogger } from "@shikor/core/database/utils/QueryLogger";
@@ -18,22 +32,27 @@ export class PostgresStrategy extends BaseDatabaseStrategy {
   private emitter = new EventEmitter();
   private schemas: Map<string, ZodObject<ZodRawShape>> = new Map();
   private retryCount = 0;
+  protected nullsSortLow = false;
 
   public status: ConnectionStatus = "connecting";
   public ready: Promise<void> = Promise.resolve();
 
+  /** `db` runs the strategy on an existing Knex, e.g. an in-process test database */
   constructor(
     private config: PostgresConfig,
-    private logger?: Logger
+    private logger?: Logger,
+    db?: Knex
   ) {
     super();
 
     const connectionString = config.connectionString!;
-    this.db = createKnexInstance({
-      client: "pg",
-      connection: connectionString,
-      debug: process.env.NODE_ENV === "development",
-    });
+    this.db =
+      db ??
+      createKnexInstance({
+        client: "pg",
+        connection: connectionString,
+        debug: process.env.NODE_ENV === "development",
+      });
   }
 
   public registerSchema<T>(table: string, schema: ZodObject<ZodRawShape>) {
@@ -86,11 +105,7 @@ export class PostgresStrategy extends BaseDatabaseStrategy {
   ): Promise<T> {
     this.validateSchema?.(table, data);
 
-    const dbData: Record<string, unknown> = { ...data };
-
-    if (dbData.fields && typeof dbData.fields === "object") {
-      dbData.fields = JSON.stringify(dbData.fields);
-    }
+    const dbData = this.toRow(data);
 
     QueryLogger.logQuery("insert", table, dbData);
 
@@ -101,46 +116,46 @@ export class PostgresStrategy extends BaseDatabaseStrategy {
     return result[0];
   }
 
-  public async read<T extends Record<string, unknown>>(
-    table: string,
-    queryObj: Partial<T> = {},
-    options: QueryOptions = {}
-  ): Promise<T[]> {
-    this.validateQueryOptions(options);
-
-    let query;
-
-    if (options.or && options.or.length > 0) {
-      query = this.db<T>(table).where((builder) => {
-        options.or!.forEach(({ field, value }) => {
-          builder.orWhere(field as string, value);
-        });
-      });
-    } else {
-      query = this.db<T>(table).where(queryObj);
-    }
+  private toRow(data: Record<string, any>): Record<string, unknown> {
+    const dbData: Record<string, unknown> = { ...data };
 
-    if (options.sort) {
-      query = query.orderBy(
-        options.sort.field as keyof T,
-        options.sort.order ?? "asc"
-      );
+    if (dbData.fields && typeof dbData.fields === "object") {
+      dbData.fields = JSON.stringify(dbData.fields);
     }
 
-    if (typeof options.limit === "number") {
-      query = query.limit(options.limit);
-    }
+    return dbData;
+  }
 
-    if (typeof options.offset === "number") {
-      query = query.offset(options.offset);
-    }
+  protected async find(table: string, plan: ReadPlan): Promise<any[]> {
+    const rows = await applyReadPlan(this.db(table), plan);
+    return applyExclusions(rows, plan.projection);
+  }
 
-    return (await query) as T[];
+  protected async findDistinct(
+    table: string,
+    field: string,
+    filter: FilterNode
+  ): Promise<any[]> {
+    return distinctKnexValues(this.db(table), field, filter);
+  }
+
+  protected async runAggregate(
+    table: string,
+    plan: AggregatePlan
+  ): Promise<AggregateRow[]> {
+    return aggregateKnexRows(this.db(table), plan);
+  }
+
+  protected async countRows(
+    table: string,
+    filter: FilterNode
+  ): Promise<number> {
+    return countKnexRows(this.db(table), filter);
   }
 
   public async update<T extends Record<string, unknown>>(
     table: string,
-    queryObj: Partial<T>,
+    queryObj: Filter,
     data: Partial<T>
   ): Promise<T> {
     this.validateSchema(table, data, true);
@@ -158,8 +173,8 @@ export class PostgresStrategy extends BaseDatabaseStrategy {
 
     this.logger?.warn({ table, queryObj, data }, "[DB] update() input");
 
-    const result = await (this.db<T>(table)
-      .where(queryObj)
+    const filter = this.buildFilter(queryObj);
+    const result = await (applyKnexFilter(this.db<T>(table), filter)
       .update(data as any)
       .returning("*") as Promise<T[]>);
 
@@ -172,16 +187,83 @@ export class PostgresStrategy extends BaseDatabaseStrategy {
 
   public async delete<T extends Record<string, unknown>>(
     table: string,
-    queryObj: Partial<T>
+    queryObj: Filter
   ): Promise<T> {
-    const result = await this.db<T>(table)
-      .where(queryObj)
+    const filter = this.buildFilter(queryObj);
+    const result = await applyKnexFilter(this.db<T>(table), filter)
       .delete()
       .returning("*");
 
     return result[0] as T;
   }
 
+  public async createMany(table: string, items: any[]): Promise<WriteResult> {
+    if (items.length === 0) return this.toWriteResult([]);
+    items.forEach((item) => this.validateSchema(table, item));
+
+    const records = await this.db(table)
+      .insert(items.map((item) => this.toRow(item)))
+      .returning("*");
+    return this.toWriteResult(records);
+  }
+
+  /** Relies on a unique constraint covering `conflictKeys` */
+  public async upsert(
+    table: string,
+    conflictKeys: string[],
+    data: any
+  ): Promise<WriteResult> {
+    this.assertUpsertKeys(conflictKeys, data);
+    this.validateSchema(table, data);
+
+    const records = await this.db(table)
+      .insert(this.toRow(data))
+      .onConflict(conflictKeys)
+      .merge()
+      .returning("*");
+    return this.toWriteResult(records);
+  }
+
+  public async updateMany(
+    table: string,
+    query: Filter,
+    data: any
+  ): Promise<WriteResult> {
+    this.validateSchema(table, data, true);
+
+    const records = await applyKnexFilter(
+      this.db(table),
+      this.buildFilter(query)
+    )
+      .update(data)
+      .returning("*");
+    return this.toWriteResult(records);
+  }
+
+  public async deleteMany(table: string, query: Filter): Promise<WriteResult> {
+    const records = await applyKnexFilter(
+      this.db(table),
+      this.buildFilter(query)
+    )
+      .delete()
+      .returning("*");
+    return this.toWriteResult(records);
+  }
+
+  /**
+   * Binds a scoped copy of the strategy to a Knex transaction. Nested calls
+   * run inside a savepoint of the outer transaction.
+   */
+  public async transaction<T>(
+    work: (tx: IDatabaseStrategy) => Promise<T>
+  ): Promise<T> {
+    return this.db.transaction(async (trx) => {
+      const scoped: PostgresStrategy = Object.create(this);
+      scoped.db = trx;
+      return work(scoped);
+    });
+  }
+
   public async healthCheck(): Promise<{ ok: boolean; latency: number }> {
     const start = Date.now();
     try {
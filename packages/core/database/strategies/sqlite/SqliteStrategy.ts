@@ -3,23 +3,48 @@ import type { Logger } from "pino";
 import fs from "node:fs";
 import path from "node:path";
 import { EventEmitter } from "events";
+import { AsyncLocalStorage } from "node:async_hooks";
 import { z, ZodObject, ZodRawShape } from "zod";
 
 import { BaseDatabaseStrategy } from "../BaseDatabaseStrategy";
-import type { ConnectionStatus } from "../../IDatabaseStrategy";
-import type { QueryOptions } from "../../types/QueryOptions";
+import type {
+  ConnectionStatus,
+  IDatabaseStrategy,
+} from "../../IDatabaseStrategy";
+import type { ReadPlan } from "../../types/QueryOptions";
+import type { Filter, FilterNode } from "../../types/Filter";
+import type { AggregatePlan, AggregateRow } from "../../types/Aggregate";
+import type { WriteResult } from "../../types/WriteResult";
+import {
+  compileSqlFilter,
+  quoteIdentifier,
+  toSqliteValue,
+} from "../../filters/sqlFilter";
+import { applyExclusions } from "../../utils/projection";
 import { Config } from "../../../config/config";
 import { SqliteConfigSchema } from "./config";
 import { Db } from "mongodb";
 
 Config.registerModuleSchema("sqlite", SqliteConfigSchema);
 
+/** Result aliases keep dotted names intact instead of splitting them */
+const quoteAlias = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
 // Your SqliteStrategy implementation below...
 
 export class SqliteStrategy extends BaseDatabaseStrategy {
   private db!: Database.Database;
   private emitter = new EventEmitter();
   private schemas: Map<string, ZodObject<ZodRawShape>> = new Map();
+  /**
+   * Serializes top-level transactions on the single connection, and the
+   * statements issued outside one while it is open
+   */
+  private txQueue: Promise<unknown> = Promise.resolve();
+  /** Set in the async context of the work of an open transaction */
+  private txScope = new AsyncLocalStorage<boolean>();
+  /** Savepoint nesting level of a scoped strategy; 0 outside transactions */
+  private txDepth = 0;
 
   public status: ConnectionStatus = "connecting";
   public ready: Promise<void>;
@@ -80,73 +105,265 @@ export class SqliteStrategy extends BaseDatabaseStrategy {
   ): Promise<T> {
     this.validateSchema(table, data);
 
-    const keys = Object.keys(data);
-    const placeholders = keys.map(() => "?").join(", ");
-    const sql = `INSERT INTO ${table} (${keys.join(", ")}) VALUES (${placeholders})`;
-    this.db.prepare(sql).run(...Object.values(data));
+    const row = (await this.statement(() => this.insertRow(table, data))) as T;
     this.logger?.info({ table, data }, "SQLite insert");
-    return data;
+    return row;
   }
 
-  public async read<T = any>(
-    table: string,
-    query: any = {},
-    options: QueryOptions = {}
-  ): Promise<T[]> {
-    this.validateQueryOptions(options);
+  private insertRow(table: string, data: Record<string, any>): any {
+    const keys = Object.keys(data);
+    const placeholders = keys.map(() => "?").join(", ");
+    const sql = `INSERT INTO ${quoteIdentifier(table)} (${keys.map(quoteIdentifier).join(", ")}) VALUES (${placeholders}) RETURNING *`;
+    return this.db.prepare(sql).get(...Object.values(data).map(toSqliteValue));
+  }
 
-    const keys = Object.keys(query);
-    const where = keys.length
-      ? `WHERE ${keys.map((k) => `${k} = ?`).join(" AND ")}`
-      : "";
+  protected async find(table: string, plan: ReadPlan): Promise<any[]> {
+    const where = compileSqlFilter(plan.filter);
+    const columns =
+      plan.projection && "include" in plan.projection
+        ? plan.projection.include.map(quoteIdentifier).join(", ")
+        : "*";
+    let sql = `SELECT ${columns} FROM ${quoteIdentifier(table)} WHERE ${where.sql}`;
 
-    let sql = `SELECT * FROM ${table} ${where}`;
+    if (plan.sort.length > 0) {
+      const orderBy = plan.sort.map(
+        ({ field, order }) =>
+          `${quoteIdentifier(field)} ${(order ?? "asc").toUpperCase()}`
+      );
+      sql += ` ORDER BY ${orderBy.join(", ")}`;
+    }
 
-    if (options.sort) {
-      const order = (options.sort.order ?? "asc").toUpperCase();
-      sql += ` ORDER BY ${options.sort.field} ${order}`;
+    // SQLite only accepts OFFSET after a LIMIT clause
+    if (typeof plan.limit === "number" || typeof plan.offset === "number") {
+      sql += ` LIMIT ${plan.limit ?? -1}`;
     }
 
-    if (typeof options.limit === "number") {
-      sql += ` LIMIT ${options.limit}`;
+    if (typeof plan.offset === "number") {
+      sql += ` OFFSET ${plan.offset}`;
     }
 
-    if (typeof options.offset === "number") {
-      sql += ` OFFSET ${options.offset}`;
+    const rows = await this.statement(
+      () => this.db.prepare(sql).all(...where.params) as any[]
+    );
+    return applyExclusions(rows, plan.projection);
+  }
+
+  protected async findDistinct(
+    table: string,
+    field: string,
+    filter: FilterNode
+  ): Promise<any[]> {
+    const where = compileSqlFilter(filter);
+    const col = quoteIdentifier(field);
+    const rows = await this.statement(
+      () =>
+        this.db
+          .prepare(
+            `SELECT DISTINCT ${col} AS value FROM ${quoteIdentifier(table)} WHERE ${where.sql} ORDER BY ${col} ASC`
+          )
+          .all(...where.params) as { value: any }[]
+    );
+    return rows.map((row) => row.value);
+  }
+
+  protected async runAggregate(
+    table: string,
+    plan: AggregatePlan
+  ): Promise<AggregateRow[]> {
+    const where = compileSqlFilter(plan.filter);
+    const groups = plan.groupBy.map(quoteIdentifier);
+    const columns = [
+      ...plan.groupBy.map((field, i) => `${groups[i]} AS ${quoteAlias(field)}`),
+      ...plan.metrics.map(
+        ({ fn, field, as }) =>
+          `${fn.toUpperCase()}(${field ? quoteIdentifier(field) : "*"}) AS ${quoteAlias(as)}`
+      ),
+    ];
+
+    let sql = `SELECT ${columns.join(", ")} FROM ${quoteIdentifier(table)} WHERE ${where.sql}`;
+    if (groups.length > 0) {
+      sql += ` GROUP BY ${groups.join(", ")} ORDER BY ${groups.join(", ")}`;
     }
 
-    const stmt = this.db.prepare(sql);
-    const rows = stmt.all(...Object.values(query));
-    return rows;
+    return this.statement(
+      () => this.db.prepare(sql).all(...where.params) as AggregateRow[]
+    );
+  }
+
+  protected async countRows(
+    table: string,
+    filter: FilterNode
+  ): Promise<number> {
+    const where = compileSqlFilter(filter);
+    const row = await this.statement(
+      () =>
+        this.db
+          .prepare(
+            `SELECT COUNT(*) AS count FROM ${quoteIdentifier(table)} WHERE ${where.sql}`
+          )
+          .get(...where.params) as { count: number }
+    );
+    return row.count;
   }
 
   public async update<T>(
     table: string,
-    query: any,
+    query: Filter,
     data: Partial<T>
   ): Promise<T> {
     this.validateSchema(table, data, true);
 
     const set = Object.keys(data)
-      .map((k) => `${k} = ?`)
+      .map((k) => `${quoteIdentifier(k)} = ?`)
       .join(", ");
-    const where = Object.keys(query)
-      .map((k) => `${k} = ?`)
-      .join(" AND ");
-    const sql = `UPDATE ${table} SET ${set} WHERE ${where}`;
-    this.db.prepare(sql).run(...Object.values(data), ...Object.values(query));
+    const where = compileSqlFilter(this.buildFilter(query));
+    const sql = `UPDATE ${quoteIdentifier(table)} SET ${set} WHERE ${where.sql}`;
+    await this.statement(() =>
+      this.db
+        .prepare(sql)
+        .run(...Object.values(data).map(toSqliteValue), ...where.params)
+    );
     this.logger?.info({ table, query, data }, "SQLite update");
     return data as T;
   }
 
-  public async delete<T = any>(table: string, query: any): Promise<T> {
-    const where = Object.keys(query)
-      .map((k) => `${k} = ?`)
-      .join(" AND ");
-    const sql = `DELETE FROM ${table} WHERE ${where}`;
-    this.db.prepare(sql).run(...Object.values(query));
+  public async delete<T = any>(table: string, query: Filter): Promise<T> {
+    const where = compileSqlFilter(this.buildFilter(query));
+    const sql = `DELETE FROM ${quoteIdentifier(table)} WHERE ${where.sql}`;
+    await this.statement(() => this.db.prepare(sql).run(...where.params));
     this.logger?.info({ table, query }, "SQLite delete");
-    return query;
+    return query as T;
+  }
+
+  /**
+   * Runs `work` inside BEGIN/COMMIT on the shared connection. Top-level
+   * transactions are queued because the connection can hold only one;
+   * nested calls, on the scoped strategy or from within `work`, use
+   * savepoints.
+   */
+  public async transaction<T>(
+    work: (tx: IDatabaseStrategy) => Promise<T>
+  ): Promise<T> {
+    if (this.txDepth > 0 || this.txScope.getStore()) {
+      return this.runInSavepoint(work);
+    }
+
+    return this.enqueue(async (): Promise<T> => {
+      this.db.exec("BEGIN IMMEDIATE");
+      const scoped: SqliteStrategy = Object.create(this);
+      scoped.txDepth = 1;
+
+      try {
+        const result = await this.txScope.run(true, () => work(scoped));
+        this.db.exec("COMMIT");
+        return result;
+      } catch (error) {
+        if (this.db.inTransaction) this.db.exec("ROLLBACK");
+        this.logger?.warn({ err: error }, "SQLite transaction rolled back");
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Runs a statement on the shared connection. Statements from outside an
+   * open transaction wait for it to end, or they would run inside it and
+   * roll back with it.
+   */
+  private statement<T>(run: () => T): Promise<T> {
+    if (this.txDepth > 0 || this.txScope.getStore()) {
+      return Promise.resolve().then(run);
+    }
+    return this.enqueue(run);
+  }
+
+  private enqueue<T>(run: () => T | Promise<T>): Promise<T> {
+    const result = this.txQueue.then(run, run);
+    this.txQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async runInSavepoint<T>(
+    work: (tx: IDatabaseStrategy) => Promise<T>
+  ): Promise<T> {
+    const savepoint = `sp_${this.txDepth}`;
+    this.db.exec(`SAVEPOINT ${savepoint}`);
+    const scoped: SqliteStrategy = Object.create(this);
+    scoped.txDepth = this.txDepth + 1;
+
+    try {
+      const result = await work(scoped);
+      this.db.exec(`RELEASE ${savepoint}`);
+      return result;
+    } catch (error) {
+      this.db.exec(`ROLLBACK TO ${savepoint}`);
+      this.db.exec(`RELEASE ${savepoint}`);
+      throw error;
+    }
+  }
+
+  public async createMany(table: string, items: any[]): Promise<WriteResult> {
+    items.forEach((item) => this.validateSchema(table, item));
+
+    // Items may carry different columns, so each gets its own statement
+    const insertAll = this.db.transaction((rows: any[]) =>
+      rows.map((row) => this.insertRow(table, row))
+    );
+    return this.toWriteResult(await this.statement(() => insertAll(items)));
+  }
+
+  /** Relies on a unique index covering `conflictKeys` */
+  public async upsert(
+    table: string,
+    conflictKeys: string[],
+    data: any
+  ): Promise<WriteResult> {
+    this.assertUpsertKeys(conflictKeys, data);
+    this.validateSchema(table, data);
+
+    const keys = Object.keys(data);
+    const set = keys
+      .map((k) => `${quoteIdentifier(k)} = excluded.${quoteIdentifier(k)}`)
+      .join(", ");
+    const sql = `INSERT INTO ${quoteIdentifier(table)} (${keys.map(quoteIdentifier).join(", ")}) VALUES (${keys.map(() => "?").join(", ")}) ON CONFLICT (${conflictKeys.map(quoteIdentifier).join(", ")}) DO UPDATE SET ${set} RETURNING *`;
+
+    const row = await this.statement(() =>
+      this.db.prepare(sql).get(...Object.values(data).map(toSqliteValue))
+    );
+    return this.toWriteResult([row]);
+  }
+
+  public async updateMany(
+    table: string,
+    query: Filter,
+    data: any
+  ): Promise<WriteResult> {
+    this.validateSchema(table, data, true);
+
+    const set = Object.keys(data)
+      .map((k) => `${quoteIdentifier(k)} = ?`)
+      .join(", ");
+    const where = compileSqlFilter(this.buildFilter(query));
+    const rows = await this.statement(() =>
+      this.db
+        .prepare(
+          `UPDATE ${quoteIdentifier(table)} SET ${set} WHERE ${where.sql} RETURNING *`
+        )
+        .all(...Object.values(data).map(toSqliteValue), ...where.params)
+    );
+    return this.toWriteResult(rows);
+  }
+
+  public async deleteMany(table: string, query: Filter): Promise<WriteResult> {
+    const where = compileSqlFilter(this.buildFilter(query));
+    const rows = await this.statement(() =>
+      this.db
+        .prepare(
+          `DELETE FROM ${quoteIdentifier(table)} WHERE ${where.sql} RETURNING *`
+        )
+        .all(...where.params)
+    );
+    return this.toWriteResult(rows);
   }
 
   public async healthCheck(): Promise<{ ok: boolean; latency: number }> {
@@ -164,8 +381,14 @@ export class SqliteStrategy extends BaseDatabaseStrategy {
   }
 
   public async executeRaw(sql: string, params?: any[]): Promise<any[]> {
-    const stmt = this.db.prepare(sql);
-    return stmt.all(...(params || []));
+    return this.statement(() => {
+      const stmt = this.db.prepare(sql);
+      if (!stmt.reader) {
+        stmt.run(...(params || []));
+        return [];
+      }
+      return stmt.all(...(params || []));
+    });
   }
 
   private validateSchema(table: string, data: any, partial = false) {
@@ -1,11 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Logger } from "pino";
 import { DatabaseStrategyFactory } from "./DatabaseStrategyFactory";
 import { MockDatabaseStrategy } from "./strategies/mock/MockDatabaseStrategy";
 
 describe("DatabaseStrategyFactory", () => {
-  const logger = vi.fn();
+  const dbLogger = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+  const logger = { child: () => dbLogger } as unknown as Logger;
 
   beforeEach(() => {
+    vi.clearAllMocks();
     DatabaseStrategyFactory.setLogger(logger);
     (DatabaseStrategyFactory as any).customStrategies.clear();
   });
@@ -13,8 +16,9 @@ describe("DatabaseStrategyFactory", () => {
   it("should create built-in mock strategy", async () => {
     const strategy = await DatabaseStrategyFactory.create("mock", {});
     expect(strategy).toBeInstanceOf(MockDatabaseStrategy);
-    expect(logger).toHaveBeenCalledWith(
-      expect.stringContaining("Initialized built-in engine")
+    expect(dbLogger.info).toHaveBeenCalledWith(
+      { engine: "mock" },
+      expect.stringContaining("Initialized mock database")
     );
   });
 
@@ -24,8 +28,9 @@ describe("DatabaseStrategyFactory", () => {
     });
     const strategy = await DatabaseStrategyFactory.create("custom:test", {});
     expect(strategy).toBeInstanceOf(MockDatabaseStrategy);
-    expect(logger).toHaveBeenCalledWith(
-      expect.stringContaining("Registered custom engine")
+    expect(dbLogger.info).toHaveBeenCalledWith(
+      { engine: "custom:test" },
+      expect.stringContaining("Registered custom database engine")
     );
   });
 
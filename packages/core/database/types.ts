@@ -4,9 +4,10 @@ import type { MockDatabaseStrategy } from "./strategies/mock/MockDatabaseStrateg
 import type { PostgresStrategy } from "./strategies/postgres/PostgresStrategy";
 import type { MongoStrategy } from "./strategies/mongo/MongoStrategy";
 import { SqliteStrategy } from "./strategies/sqlite/SqliteStrategy";
+import type { MysqlStrategy } from "./strategies/mysql/MysqlStrategy";
 
 /** Built-in engine names */
-export type BuiltinEngine = "mock" | "postgres" | "mongo" | "sqlite"; // ✅ Added mongo
+export type BuiltinEngine = "mock" | "postgres" | "mongo" | "sqlite" | "mysql";
 
 /** Custom engine name pattern */
 export type CustomEngine = `custom:${string}`;
@@ -55,6 +56,18 @@ export interface MongoConfig extends BaseDatabaseConfig {
   connectTimeoutMS?: number;
 }
 
+/** MySQL / MariaDB configuration */
+export interface MysqlConfig extends BaseDatabaseConfig {
+  /** mysql:// connection string */
+  connectionString: string;
+  /** Minimum number of pooled connections */
+  poolMin?: number;
+  /** Maximum number of pooled connections */
+  poolMax?: number;
+  /** Idle pooled connection timeout in milliseconds */
+  idleTimeout?: number;
+}
+
 /** Sqlite Configuration */
 export type SqliteConfig = {
   filepath: string; // Absolute or relative path to .sqlite file
@@ -71,6 +84,7 @@ export type StrategyFactoryMap = {
   postgres: StrategyFactoryFn<PostgresConfig, PostgresStrategy>;
   mongo: StrategyFactoryFn<MongoConfig, MongoStrategy>;
   sqlite: StrategyFactoryFn<SqliteConfig, SqliteStrategy>;
+  mysql: StrategyFactoryFn<MysqlConfig, MysqlStrategy>;
 };
 
 /** Configuration for custom strategies */
@@ -84,11 +98,15 @@ export interface CustomStrategyConfig<T = unknown> {
 }
 
 /** Union type of all built-in configuration types */
-export type BuiltinConfig = MockConfig | PostgresConfig | MongoConfig;
+export type BuiltinConfig =
+  | MockConfig
+  | PostgresConfig
+  | MongoConfig
+  | MysqlConfig;
 
 /** Type guard for built-in engine names */
 export function isBuiltinEngine(engine: string): engine is BuiltinEngine {
-  return ["mock", "postgres", "mongo"].includes(engine);
+  return ["mock", "postgres", "mongo", "sqlite", "mysql"].includes(engine);
 }
 
 /** Type guard for custom engine names */
@@ -0,0 +1,28 @@
+// packages/core/database/types/Aggregate.ts
+import type { Filter, FilterNode } from "./Filter";
+
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max";
+
+export interface AggregateMetric {
+  fn: AggregateFunction;
+  /** Field to aggregate; omit on `count` to count records */
+  field?: string;
+  /** Key of the metric in each result row */
+  as: string;
+}
+
+export interface AggregateQuery {
+  filter?: Filter;
+  groupBy?: string[];
+  metrics: AggregateMetric[];
+}
+
+/** Group-by values followed by the metric aliases */
+export type AggregateRow = Record<string, any>;
+
+/** Normalized aggregation handed from `BaseDatabaseStrategy` to engines */
+export interface AggregatePlan {
+  filter: FilterNode;
+  groupBy: string[];
+  metrics: AggregateMetric[];
+}
@@ -0,0 +1,111 @@
+// packages/core/database/types/CollectionSchema.ts
+
+export type FieldType =
+  | "string"
+  | "text"
+  | "integer"
+  | "number"
+  | "boolean"
+  | "date"
+  | "datetime"
+  | "json"
+  | "enum"
+  | "email"
+  | "url"
+  | "relation";
+
+/**
+ * How a `relation` field links records. `many-to-one` stores the related
+ * id in the field; `one-to-many` is the inverse of a `many-to-one` field
+ * on the related collection, named by `via`, and stores nothing;
+ * `many-to-many` stores id lists, in join tables on SQL engines.
+ */
+export type RelationKind = "many-to-one" | "one-to-many" | "many-to-many";
+
+/** One entry of a `collection_schemas.fields` definition */
+export interface FieldDefinition {
+  name: string;
+  type: FieldType;
+  required?: boolean;
+  unique?: boolean;
+  default?: unknown;
+  /** Allowed values of an `enum` field */
+  values?: string[];
+  /** Collection a `relation` field points into */
+  collection?: string;
+  /** Kind of a `relation` field; `many-to-one` when omitted */
+  relation?: RelationKind;
+  /** Field of the related collection a `one-to-many` relation is read through */
+  via?: string;
+  /**
+   * Stores one value per locale, as a map like `{ "en": ..., "fr": ... }`.
+   * Reads with a `locale` resolve the map to a single value.
+   */
+  localized?: boolean;
+  /** Previous name when an update renames the field; never stored */
+  renamedFrom?: string;
+}
+
+/** A `collection_schemas` record describing one content collection */
+export interface CollectionDefinition {
+  collection_name: string;
+  fields: FieldDefinition[];
+  /**
+   * Deletes move records to the trash by setting `deleted_at` and
+   * `deleted_by` instead of removing them
+   */
+  soft_delete?: boolean;
+  /**
+   * Records start as drafts and are only read by the public once
+   * published; `publish_at`/`unpublish_at` schedule the change
+   */
+  publishable?: boolean;
+  /**
+   * Revisions kept per record, oldest pruned first; 0 turns history off.
+   * Defaults to `DEFAULT_REVISION_LIMIT`.
+   */
+  revision_limit?: number;
+}
+
+/** Field-level changes between two definitions of a collection */
+export interface SchemaDiff {
+  added: FieldDefinition[];
+  removed: FieldDefinition[];
+  renamed: { from: string; to: string }[];
+  retyped: { field: string; from: FieldType; to: FieldType }[];
+  /** Every field whose definition changed, retyped ones included */
+  changed: { field: string; from: FieldDefinition; to: FieldDefinition }[];
+}
+
+/** Engine-neutral unit of a schema migration */
+export type MigrationStep =
+  | { op: "createCollection"; definition: CollectionDefinition }
+  | { op: "addField"; field: FieldDefinition }
+  | { op: "removeField"; field: FieldDefinition }
+  | { op: "renameField"; from: string; to: string }
+  | { op: "alterField"; from: FieldDefinition; to: FieldDefinition };
+
+export interface MigrationPlan {
+  diff: SchemaDiff;
+  forward: MigrationStep[];
+  reverse: MigrationStep[];
+}
+
+/**
+ * `current` is the applied version. Reverting it makes its base current
+ * again; a `reverted` version can be re-applied while its base is current.
+ */
+export type SchemaVersionStatus = "current" | "superseded" | "reverted";
+
+/** A `collection_schema_versions` record */
+export interface SchemaVersion {
+  id?: any;
+  collection_name: string;
+  version: number;
+  /** Version this one was diffed against; `null` for the first */
+  base_version: number | null;
+  status: SchemaVersionStatus;
+  fields: FieldDefinition[];
+  migration: MigrationPlan;
+  created_at?: string | Date;
+}
@@ -0,0 +1,45 @@
+// packages/core/database/types/Filter.ts
+
+/** Scalar values a filter condition can compare against */
+export type FilterValue = string | number | boolean | Date | null;
+
+/** Comparison operators supported on a single field */
+export interface FieldOperators {
+  eq?: FilterValue;
+  ne?: FilterValue;
+  gt?: FilterValue;
+  gte?: FilterValue;
+  lt?: FilterValue;
+  lte?: FilterValue;
+  in?: FilterValue[];
+  nin?: FilterValue[];
+  /** SQL-style pattern: `%` matches any run of characters, `_` a single one */
+  like?: string;
+  /** Case-insensitive variant of `like` */
+  ilike?: string;
+  isNull?: boolean;
+}
+
+export type FilterOperator = keyof FieldOperators;
+
+/**
+ * Portable filter accepted by every strategy.
+ *
+ * A plain value is an equality match, an operator object applies each
+ * operator (combined with AND), and `and` / `or` / `not` nest filters:
+ *
+ *   { status: "published", views: { gte: 10 }, or: [{ a: 1 }, { b: 2 }] }
+ */
+export type Filter = {
+  and?: Filter[];
+  or?: Filter[];
+  not?: Filter;
+  [field: string]: FilterValue | FieldOperators | Filter | Filter[] | undefined;
+};
+
+/** Normalized filter tree produced by `parseFilter` */
+export type FilterNode =
+  | { kind: "and"; nodes: FilterNode[] }
+  | { kind: "or"; nodes: FilterNode[] }
+  | { kind: "not"; node: FilterNode }
+  | { kind: "condition"; field: string; op: FilterOperator; value: any };
@@ -0,0 +1,31 @@
+// packages/core/database/types/Migration.ts
+import type { Knex } from "knex";
+
+/** One step of a migration, run inside a transaction */
+export type MigrationFn = (knex: Knex) => Promise<unknown> | unknown;
+
+/** Migration loaded from a `.sql` or `.ts` file */
+export interface Migration {
+  /** File name without extension, e.g. `003_add_posts`; sorts the run order */
+  id: string;
+  up: MigrationFn;
+  /** Missing when the migration cannot be rolled back */
+  down?: MigrationFn;
+  /** SHA-256 of the file, to detect edits after it was applied */
+  checksum: string;
+}
+
+/** A `schema_migrations` ledger record */
+export interface AppliedMigration {
+  id: string;
+  checksum: string;
+  applied_at: string | Date;
+}
+
+export type MigrationState = "applied" | "pending" | "changed" | "missing";
+
+export interface MigrationStatus {
+  id: string;
+  state: MigrationState;
+  applied_at?: string | Date;
+}
@@ -0,0 +1,17 @@
+// packages/core/database/types/Pagination.ts
+
+export interface PageInfo {
+  /** Pass as `after` to fetch the following page */
+  nextCursor: string | null;
+  /** Pass as `before` to fetch the preceding page */
+  prevCursor: string | null;
+  /** More records exist in the direction of travel */
+  hasMore: boolean;
+  /** Total matching records, only when `count` was requested */
+  total?: number;
+}
+
+export interface Page<T = any> {
+  items: T[];
+  pageInfo: PageInfo;
+}
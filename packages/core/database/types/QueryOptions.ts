@@ -1,10 +1,74 @@
+import type { FilterNode } from "./Filter";
+
+export interface SortKey {
+  field: string;
+  order?: "asc" | "desc";
+}
+
+/** Field projection; `include` wins when both lists are given */
+export interface FieldProjection {
+  include?: string[];
+  exclude?: string[];
+}
+
+/** Which records of a `soft_delete` collection a read sees */
+export type TrashScope = "exclude" | "include" | "only";
+
+/** Which records of a `publishable` collection a read sees */
+export type PublicationMode = "published" | "draft" | "all";
+
 export interface QueryOptions {
-  sort?: {
-    field: string;
-    order?: "asc" | "desc";
-  };
+  /** One sort key or an ordered list of keys */
+  sort?: SortKey | SortKey[];
   limit?: number;
   offset?: number;
 
-  or?: { field: string; value: any }[]; // ✅ Add this
+  /** @deprecated use an `or` clause in the filter instead */
+  or?: { field: string; value: any }[];
+
+  /** Return a `Page` (items + pageInfo) instead of a plain array */
+  paginate?: boolean;
+  /** Opaque cursor: return records after this one */
+  after?: string;
+  /** Opaque cursor: return records before this one */
+  before?: string;
+  /** Include the total number of matching records in `pageInfo` */
+  count?: boolean;
+
+  /** Restrict the fields returned for each record */
+  fields?: FieldProjection;
+  /** Return the distinct values of this field instead of records */
+  distinct?: string;
+
+  /**
+   * Relation fields to replace with the related records, e.g.
+   * `["author", "tags.author"]`. Resolved by `ReadCommand`, not engines.
+   */
+  expand?: string[];
+
+  /** Trashed records are left out unless asked for; see `TrashScope` */
+  trash?: TrashScope;
+
+  /** Only published records unless asked for; see `PublicationMode` */
+  publication?: PublicationMode;
+
+  /**
+   * Resolves localized fields to their value in this locale. Without it
+   * they are returned as maps of all locales.
+   */
+  locale?: string;
+  /** Locales tried in order when a field has no value in `locale` */
+  fallbackLocales?: string[];
+}
+
+/** Normalized projection: exactly one of the lists is applied */
+export type Projection = { include: string[] } | { exclude: string[] };
+
+/** Normalized read request handed from `BaseDatabaseStrategy` to engines */
+export interface ReadPlan {
+  filter: FilterNode;
+  sort: SortKey[];
+  limit?: number;
+  offset?: number;
+  projection?: Projection;
 }
@@ -0,0 +1,23 @@
+// packages/core/database/types/Revision.ts
+
+export type RevisionAction = "create" | "update" | "delete";
+
+/** Changed fields of a record, with their values before and after */
+export type RecordDiff = Record<string, { from: unknown; to: unknown }>;
+
+/** A `record_revisions` record: one change to one content record */
+export interface Revision {
+  id?: any;
+  collection_name: string;
+  /** Id of the changed record, as a string for every engine */
+  record_id: string;
+  /** 1-based, counted per record */
+  revision: number;
+  action: RevisionAction;
+  /** The record after the change; before it for deletes */
+  snapshot: Record<string, any>;
+  diff: RecordDiff;
+  /** Id of the user who made the change, when known */
+  author: string | null;
+  created_at?: string | Date;
+}
@@ -0,0 +1,67 @@
+// packages/core/database/types/Seed.ts
+import type { IDatabaseStrategy } from "../IDatabaseStrategy";
+
+/** Deterministic random source; the same seed value yields the same data */
+export interface Random {
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer in [min, max] */
+  int(min: number, max: number): number;
+  bool(probability?: number): boolean;
+  pick<T>(items: readonly T[]): T;
+  /** Lowercase alphanumeric string */
+  string(length: number): string;
+  words(count: number): string;
+  firstName(): string;
+  lastName(): string;
+  email(name?: string): string;
+  /** Date between `from` and `to` */
+  date(from: Date, to: Date): Date;
+  uuid(): string;
+}
+
+export interface FactoryContext {
+  random: Random;
+  /** 1-based position of the record within its factory for the run */
+  sequence: number;
+}
+
+/** Builds records for one collection */
+export interface Factory<T extends Record<string, any> = Record<string, any>> {
+  collection: string;
+  /** Fields identifying a record, so re-running a seed updates it in place */
+  key: string[];
+  build(context: FactoryContext): T | Promise<T>;
+}
+
+export interface SeedContext {
+  db: IDatabaseStrategy;
+  /** Environment the seeds run for, e.g. `development` */
+  env: string;
+  random: Random;
+  /** Builds `count` records with `factory` and upserts them */
+  insert<T extends Record<string, any>>(
+    factory: Factory<T>,
+    count: number,
+    overrides?: Partial<T>
+  ): Promise<T[]>;
+  /** Upserts fixed records, matched on `key` */
+  upsert<T extends Record<string, any>>(
+    collection: string,
+    key: string[],
+    records: T[]
+  ): Promise<T[]>;
+}
+
+/** A seed file's export */
+export interface Seed {
+  name: string;
+  /** Environments the seed runs in; all of them when omitted */
+  environments?: string[];
+  run(context: SeedContext): Promise<void> | void;
+}
+
+export interface SeedResult {
+  name: string;
+  records: number;
+}
@@ -0,0 +1,11 @@
+// packages/core/database/types/WriteResult.ts
+
+/** Normalized outcome of bulk writes and upserts on every strategy */
+export interface WriteResult<T = any> {
+  /** Number of records inserted, updated or deleted */
+  affected: number;
+  /** Primary keys of the affected records */
+  ids: any[];
+  /** Affected records, after the write (before it for deletes) */
+  records?: T[];
+}
@@ -3,9 +3,10 @@ import {
   PostgresConfig,
   MongoConfig,
   SqliteConfig,
+  MysqlConfig,
 } from "../types";
 
-type Engine = "mock" | "postgres" | "mongo" | "sqlite";
+type Engine = "mock" | "postgres" | "mongo" | "sqlite" | "mysql";
 
 // ✅ Add union signature overload
 export function getDatabaseConfig<T extends Engine>(
@@ -16,11 +17,13 @@ export function getDatabaseConfig<T extends Engine>(
     ? PostgresConfig
     : T extends "mongo"
       ? MongoConfig
-      : SqliteConfig;
+      : T extends "mysql"
+        ? MysqlConfig
+        : SqliteConfig;
 // ✅ Implementation
 export function getDatabaseConfig(
   engine: Engine
-): MockConfig | PostgresConfig | MongoConfig {
+): MockConfig | PostgresConfig | MongoConfig | MysqlConfig {
   switch (engine) {
     case "postgres":
       return {
@@ -44,6 +47,14 @@ export function getDatabaseConfig(
         filepath: process.env.SQLITE_DB_PATH!,
       } as SqliteConfig;
 
+    case "mysql":
+      return {
+        connectionString: process.env.MYSQL_URL!,
+        poolMin: Number(process.env.MYSQL_POOL_MIN || 2),
+        poolMax: Number(process.env.MYSQL_POOL_MAX || 10),
+        idleTimeout: Number(process.env.MYSQL_IDLE_TIMEOUT || 30000),
+      } as MysqlConfig;
+
     case "mock":
     default:
       return {} as MockConfig;
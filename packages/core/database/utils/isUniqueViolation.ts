@@ -0,0 +1,18 @@
+// packages/core/database/utils/isUniqueViolation.ts
+
+/** Driver codes of a write that broke a unique index or constraint */
+const UNIQUE_VIOLATIONS = new Set<unknown>([
+  "SQLITE_CONSTRAINT_UNIQUE",
+  "SQLITE_CONSTRAINT_PRIMARYKEY",
+  "23505", // Postgres
+  "ER_DUP_ENTRY", // MySQL / MariaDB
+  11000, // MongoDB
+]);
+
+/** Whether `err`, or an error it wraps, is a duplicate-key error */
+export function isUniqueViolation(err: unknown): boolean {
+  for (let e: any = err; e; e = e.cause) {
+    if (UNIQUE_VIOLATIONS.has(e.code)) return true;
+  }
+  return false;
+}
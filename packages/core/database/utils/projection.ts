@@ -0,0 +1,83 @@
+// packages/core/database/utils/projection.ts
+import type { Projection } from "../types/QueryOptions";
+
+function pickPath(source: any, target: any, path: string[]): void {
+  if (source == null || typeof source !== "object") return;
+  const [key, ...rest] = path;
+  if (!(key in source)) return;
+
+  if (rest.length === 0) {
+    target[key] = source[key];
+    return;
+  }
+
+  const value = source[key];
+  if (value == null || typeof value !== "object") return;
+  target[key] ??= {};
+  pickPath(value, target[key], rest);
+}
+
+function omitPath(target: any, path: string[]): void {
+  if (target == null || typeof target !== "object") return;
+  const [key, ...rest] = path;
+
+  if (rest.length === 0) {
+    delete target[key];
+    return;
+  }
+
+  if (target[key] == null || typeof target[key] !== "object") return;
+  target[key] = { ...target[key] };
+  omitPath(target[key], rest);
+}
+
+/**
+ * Applies a projection to a fetched record. Used by engines that cannot
+ * express exclusions natively and to trim fields added for cursors.
+ */
+export function projectRecord<T extends Record<string, any>>(
+  record: T,
+  projection?: Projection
+): T {
+  if (!projection) return record;
+
+  if ("include" in projection) {
+    const picked: Record<string, any> = {};
+    for (const field of projection.include) {
+      pickPath(record, picked, field.split("."));
+    }
+    return picked as T;
+  }
+
+  const copy: Record<string, any> = { ...record };
+  for (const field of projection.exclude) {
+    omitPath(copy, field.split("."));
+  }
+  return copy as T;
+}
+
+/** Makes sure `fields` survive the projection (e.g. sort keys for cursors) */
+export function widenProjection(
+  projection: Projection | undefined,
+  fields: string[]
+): Projection | undefined {
+  if (!projection) return projection;
+
+  if ("include" in projection) {
+    return {
+      include: [...new Set([...projection.include, ...fields])],
+    };
+  }
+
+  const exclude = projection.exclude.filter((f) => !fields.includes(f));
+  return exclude.length > 0 ? { exclude } : undefined;
+}
+
+/** Strips excluded fields from rows fetched with `SELECT *` */
+export function applyExclusions<T extends Record<string, any>>(
+  rows: T[],
+  projection?: Projection
+): T[] {
+  if (!projection || !("exclude" in projection)) return rows;
+  return rows.map((row) => projectRecord(row, projection));
+}
@@ -10,11 +10,12 @@ import type {
   PostgresConfig,
   MongoConfig,
   SqliteConfig,
+  MysqlConfig,
 } from "@shikor/core/database/types";
 import { dbLogger } from "@shikor/core/src/telemetry/logger";
 
 export async function resolveDatabaseStrategy(
-  engine: "mock" | "postgres" | "mongo" | "sqlite"
+  engine: "mock" | "postgres" | "mongo" | "sqlite" | "mysql"
 ): Promise<IDatabaseStrategy> {
   const config = loadResolvedConfigForModule(engine);
   const validation = Config.validate({ [engine]: config });
@@ -43,6 +44,11 @@ export async function resolveDatabaseStrategy(
         "sqlite",
         config as SqliteConfig
       );
+    case "mysql":
+      return await DatabaseStrategyFactory.create(
+        "mysql",
+        config as MysqlConfig
+      );
     default:
       throw new Error(`Unsupported database engine: ${engine}`);
   }
@@ -0,0 +1,44 @@
+// packages/core/mail/FileMailer.ts
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { logger } from "../src/telemetry/logger";
+import { env } from "../src/config";
+import type { IMailer, MailMessage } from "./IMailer";
+
+export interface FileMailerConfig {
+  from: string;
+  /** Where each message is written as JSON; without one it is logged */
+  directory?: string;
+}
+
+/**
+ * Local development and test transport: nothing leaves the machine. Not
+ * available in production, where it would keep live account tokens.
+ */
+export class FileMailer implements IMailer {
+  private sequence = 0;
+
+  constructor(private config: FileMailerConfig) {
+    if (env.isProd) {
+      throw new Error(
+        "The console and file mail transports are not for production"
+      );
+    }
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const mail = { from: this.config.from, ...message, date: new Date() };
+    if (!this.config.directory) {
+      logger.info(mail, `📧 Mail to ${message.to}: ${message.subject}`);
+      return;
+    }
+
+    await fs.mkdir(this.config.directory, { recursive: true });
+    // Sortable names, so the newest message is the last one listed
+    const name = `${mail.date.getTime()}-${String(this.sequence++).padStart(4, "0")}.json`;
+    const file = path.join(this.config.directory, name);
+    await fs.writeFile(file, JSON.stringify(mail, null, 2));
+    logger.debug({ to: message.to, file }, `📧 Mail written to ${name}`);
+  }
+}
@@ -0,0 +1,13 @@
+// packages/core/mail/IMailer.ts
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/** Delivers mail; transports are swapped through `MailerFactory` */
+export interface IMailer {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,42 @@
+// packages/core/mail/MailerFactory.ts
+
+import type { IMailer } from "./IMailer";
+import { FileMailer, FileMailerConfig } from "./FileMailer";
+import { SmtpConfig, SmtpMailer } from "./SmtpMailer";
+
+export type MailConfig =
+  | ({ transport: "smtp" } & SmtpConfig)
+  | ({ transport: "file" } & FileMailerConfig)
+  | ({ transport: "console" } & Pick<FileMailerConfig, "from">);
+
+const DEFAULT_FROM = "no-reply@localhost";
+
+export class MailerFactory {
+  private static currentMailer?: IMailer;
+
+  /** Builds the configured transport and makes it the current mailer */
+  static create(config: MailConfig): IMailer {
+    switch (config.transport) {
+      case "smtp":
+        return this.use(new SmtpMailer(config));
+      case "file":
+        return this.use(new FileMailer(config));
+      case "console":
+        return this.use(new FileMailer({ from: config.from }));
+    }
+  }
+
+  /** Makes a transport of your own the current mailer */
+  static use(mailer: IMailer): IMailer {
+    this.currentMailer = mailer;
+    return mailer;
+  }
+
+  /**
+   * The current mailer; until one is configured, mail goes to the log.
+   * In production that fallback throws instead.
+   */
+  static getMailer(): IMailer {
+    return (this.currentMailer ??= new FileMailer({ from: DEFAULT_FROM }));
+  }
+}
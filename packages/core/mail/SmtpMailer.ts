@@ -0,0 +1,189 @@
+// packages/core/mail/SmtpMailer.ts
+
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+import { once } from "node:events";
+import { logger } from "../src/telemetry/logger";
+import type { IMailer, MailMessage } from "./IMailer";
+import { formatMessage } from "./formatMessage";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /**
+   * TLS from the first byte (port 465); otherwise STARTTLS when offered,
+   * which becomes required once `user` is set
+   */
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  /** How long the server may stay silent before the send fails */
+  timeoutMs?: number;
+}
+
+interface Reply {
+  code: number;
+  text: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/**
+ * Bare address of `Name <address>` or `address`. It goes into SMTP
+ * commands, so anything but a plain address, a line break above all,
+ * is rejected.
+ */
+const addressOf = (value: string) => {
+  const address = /<([^>]+)>/.exec(value)?.[1] ?? value.trim();
+  if (/[\r\n]/.test(value) || !/^[^\s<>@]+@[^\s<>@]+$/.test(address)) {
+    throw new Error(`Invalid mail address '${value.replace(/[\r\n]/g, " ")}'`);
+  }
+  return address;
+};
+
+/** One SMTP conversation, reply by reply */
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: Reply[] = [];
+  private waiting: {
+    resolve: (reply: Reply) => void;
+    reject: (err: Error) => void;
+  }[] = [];
+  private error?: Error;
+
+  constructor(
+    private socket: net.Socket,
+    private timeoutMs: number
+  ) {
+    this.listen();
+  }
+
+  private listen(): void {
+    this.socket.setEncoding("utf8");
+    this.socket.setTimeout(this.timeoutMs, () =>
+      this.fail(new Error("SMTP server timed out"))
+    );
+    this.socket.on("data", (chunk: string) => this.receive(chunk));
+    this.socket.on("error", (err) => this.fail(err));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line);
+      // `250-` continues a reply, `250 ` ends it
+      if (!/^\d{3}(?: |$)/.test(line)) continue;
+
+      const reply = {
+        code: Number(line.slice(0, 3)),
+        text: this.lines.map((l) => l.slice(4)).join("\n"),
+      };
+      this.lines = [];
+      const waiter = this.waiting.shift();
+      if (waiter) waiter.resolve(reply);
+      else this.replies.push(reply);
+    }
+  }
+
+  private fail(err: Error): void {
+    this.error = err;
+    this.waiting.splice(0).forEach((waiter) => waiter.reject(err));
+    this.socket.destroy();
+  }
+
+  private read(): Promise<Reply> {
+    if (this.error) return Promise.reject(this.error);
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    return new Promise((resolve, reject) =>
+      this.waiting.push({ resolve, reject })
+    );
+  }
+
+  /** Sends `line`, or only awaits a reply when null, and checks its code */
+  async command(line: string | null, expected: number[]): Promise<Reply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      // Only the verb, so credentials never reach an error message
+      const verb =
+        line === null
+          ? "greeting"
+          : (/^[A-Z]+(?= |$)/.exec(line)?.[0] ?? "DATA");
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  }
+
+  /** Continues the conversation over TLS after `STARTTLS` */
+  async upgrade(servername: string): Promise<void> {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("error");
+    this.socket.setTimeout(0);
+    const secure = tls.connect({ socket: this.socket, servername });
+    await once(secure, "secureConnect");
+    this.socket = secure;
+    this.listen();
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+/** Sends mail through an SMTP relay, one connection per message */
+export class SmtpMailer implements IMailer {
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { host, port, secure, user, password, from } = this.config;
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const sender = addressOf(from);
+    const recipient = addressOf(message.to);
+
+    const socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    await once(socket, secure ? "secureConnect" : "connect");
+    const smtp = new SmtpConnection(socket, timeoutMs);
+
+    try {
+      await smtp.command(null, [220]);
+      const ehlo = `EHLO ${os.hostname()}`;
+      const { text: extensions } = await smtp.command(ehlo, [250]);
+      if (!secure && /^STARTTLS\b/im.test(extensions)) {
+        await smtp.command("STARTTLS", [220]);
+        await smtp.upgrade(host);
+        // Extensions offered in the clear no longer count
+        await smtp.command(ehlo, [250]);
+      } else if (!secure && user) {
+        // Also what a STARTTLS-stripping attacker would make us see
+        throw new Error(
+          "SMTP server does not offer STARTTLS; credentials are never sent unencrypted"
+        );
+      }
+      if (user) {
+        const credentials = Buffer.from(
+          `\0${user}\0${password ?? ""}`
+        ).toString("base64");
+        await smtp.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await smtp.command(`MAIL FROM:<${sender}>`, [250]);
+      await smtp.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      await smtp.command("DATA", [354]);
+      await smtp.command(`${formatMessage(from, message)}\r\n.`, [250]);
+      await smtp.command("QUIT", [221]).catch(() => undefined);
+
+      logger.debug({ to: message.to, host }, `📧 Mail sent via SMTP`);
+    } finally {
+      smtp.close();
+    }
+  }
+}
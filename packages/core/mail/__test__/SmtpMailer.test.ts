@@ -0,0 +1,148 @@
+import net from "node:net";
+import { once } from "node:events";
+import { describe, it, expect, afterEach } from "vitest";
+import { SmtpMailer } from "../SmtpMailer";
+
+/** Plain-text SMTP server that accepts one message and records the dialogue */
+async function fakeSmtpServer(options: { rejectSender?: boolean } = {}) {
+  const commands: string[] = [];
+  let data = "";
+  const server = net.createServer((socket) => {
+    let inData = false;
+    let buffer = "";
+    socket.setEncoding("utf8");
+    socket.write("220 fake ESMTP\r\n");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          } else {
+            data += `${line}\r\n`;
+          }
+          continue;
+        }
+        commands.push(line);
+        const verb = line.split(" ")[0];
+        if (verb === "EHLO") {
+          socket.write("250-fake\r\n250 AUTH PLAIN\r\n");
+        } else if (verb === "AUTH") {
+          socket.write("235 ok\r\n");
+        } else if (verb === "MAIL" && options.rejectSender) {
+          socket.write("550 sender rejected\r\n");
+        } else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 bye\r\n");
+        } else {
+          socket.write("250 ok\r\n");
+        }
+      }
+    });
+  });
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const { port } = server.address() as net.AddressInfo;
+  return { server, port, commands, data: () => data };
+}
+
+describe("SmtpMailer", () => {
+  let server: net.Server | undefined;
+
+  afterEach(async () => {
+    server?.close();
+    server = undefined;
+  });
+
+  it("delivers the message", async () => {
+    const fake = await fakeSmtpServer();
+    server = fake.server;
+    const mailer = new SmtpMailer({
+      host: "127.0.0.1",
+      port: fake.port,
+      from: "CMS <cms@example.com>",
+    });
+
+    await mailer.send({
+      to: "reader@example.com",
+      subject: "Grüße",
+      text: "Hello",
+      html: "<p>Hello</p>",
+    });
+
+    expect(fake.commands.map((c) => c.split(/[ :]/)[0])).toEqual([
+      "EHLO",
+      "MAIL",
+      "RCPT",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(fake.commands[1]).toBe("MAIL FROM:<cms@example.com>");
+    expect(fake.commands[2]).toBe("RCPT TO:<reader@example.com>");
+    const message = fake.data();
+    expect(message).toContain("Subject: =?UTF-8?B?");
+    expect(message).toContain("multipart/alternative");
+    expect(message).toContain(Buffer.from("Hello").toString("base64"));
+  });
+
+  it("never sends credentials without TLS", async () => {
+    const fake = await fakeSmtpServer();
+    server = fake.server;
+    const mailer = new SmtpMailer({
+      host: "127.0.0.1",
+      port: fake.port,
+      user: "cms",
+      password: "secret",
+      from: "cms@example.com",
+    });
+
+    const error: Error = await mailer
+      .send({ to: "reader@example.com", subject: "Hi", text: "Hi" })
+      .catch((err) => err);
+    expect(error.message).toMatch(/does not offer STARTTLS/);
+    expect(fake.commands.map((c) => c.split(" ")[0])).toEqual(["EHLO"]);
+  });
+
+  it("rejects addresses that could inject SMTP commands", async () => {
+    const fake = await fakeSmtpServer();
+    server = fake.server;
+    const mailer = new SmtpMailer({
+      host: "127.0.0.1",
+      port: fake.port,
+      from: "cms@example.com",
+    });
+
+    for (const to of [
+      "reader@example.com>\r\nRCPT TO:<victim@example.com",
+      "Reader <reader@example.com\n>",
+      "not an address",
+    ]) {
+      const error: Error = await mailer
+        .send({ to, subject: "Hi", text: "Hi" })
+        .catch((err) => err);
+      expect(error.message).toMatch(/^Invalid mail address/);
+    }
+    expect(fake.commands).toEqual([]);
+  });
+
+  it("names only the failed command", async () => {
+    const fake = await fakeSmtpServer({ rejectSender: true });
+    server = fake.server;
+    const mailer = new SmtpMailer({
+      host: "127.0.0.1",
+      port: fake.port,
+      from: "cms@example.com",
+    });
+
+    const error: Error = await mailer
+      .send({ to: "reader@example.com", subject: "Hi", text: "Hi" })
+      .catch((err) => err);
+    expect(error.message).toBe("SMTP MAIL failed: 550 sender rejected");
+  });
+});
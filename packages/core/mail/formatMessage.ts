@@ -0,0 +1,64 @@
+// packages/core/mail/formatMessage.ts
+
+import crypto from "node:crypto";
+import type { MailMessage } from "./IMailer";
+
+// CR/LF in a header value would start a header of its own
+const headerValue = (value: string) => value.replace(/[\r\n]+/g, " ").trim();
+
+/** RFC 2047 encoding for headers that are not plain ASCII */
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+/** Base64 body wrapped to the 76 columns SMTP lines allow */
+const encodeBody = (body: string) =>
+  Buffer.from(body, "utf8")
+    .toString("base64")
+    .replace(/.{1,76}/g, "$&\r\n");
+
+const part = (type: string, body: string) =>
+  [
+    `Content-Type: ${type}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(body),
+  ].join("\r\n");
+
+/**
+ * The message as RFC 5322 text with CRLF line endings. Bodies are base64,
+ * so no line can be mistaken for the end of an SMTP `DATA` block.
+ */
+export function formatMessage(
+  from: string,
+  message: MailMessage,
+  date = new Date()
+): string {
+  const domain =
+    headerValue(from).split("@")[1]?.replace(/>$/, "") || "localhost";
+  const headers = [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(headerValue(message.subject))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  if (!message.html) {
+    return [...headers, part("text/plain", message.text)].join("\r\n");
+  }
+  const boundary = `=_${crypto.randomBytes(12).toString("hex")}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    part("text/plain", message.text),
+    `--${boundary}`,
+    part("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
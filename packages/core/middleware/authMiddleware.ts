@@ -2,6 +2,8 @@ import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { AppError } from "../errors/AppError";
 import { User } from "../types/User"; // ✅ Import shared User type
+import { DatabaseStrategyFactory } from "../database/DatabaseStrategyFactory";
+import { isApiKey, verifyApiKey } from "../commands/service_accounts/apiKeys";
 
 // Extend Express Request to include our strict User type
 export interface AuthenticatedRequest extends Request {
@@ -9,23 +11,53 @@ export interface AuthenticatedRequest extends Request {
 }
 
 const JWT_SECRET = process.env.SECRET_KEY || "shikor_access";
-export const authenticateToken = (
+
+/**
+ * Accepts a user JWT as `Authorization: Bearer <token>`, or a service
+ * account API key, either as the bearer token or in `X-API-Key`.
+ */
+export const authenticateToken = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ) => {
   const authHeader = req.headers.authorization;
+  const bearer = authHeader?.startsWith("Bearer ")
+    ? authHeader.split(" ")[1]
+    : undefined;
+  const apiKey =
+    req.get("X-API-Key") ?? (bearer && isApiKey(bearer) ? bearer : undefined);
+
+  if (apiKey) {
+    try {
+      const user = await verifyApiKey(
+        DatabaseStrategyFactory.getRequiredStrategy(),
+        apiKey
+      );
+      if (!user) {
+        return next(
+          AppError.unauthorized("Invalid, revoked or expired API key")
+        );
+      }
+      req.user = user;
+      return next();
+    } catch (err) {
+      return next(
+        err instanceof AppError
+          ? err
+          : AppError.internal("API key check failed", err)
+      );
+    }
+  }
 
-  if (!authHeader?.startsWith("Bearer ")) {
+  if (!bearer) {
     return next(
       AppError.unauthorized("Missing or invalid Authorization header")
     );
   }
 
-  const token = authHeader.split(" ")[1];
-
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as User; // ✅ Use strict type
+    const decoded = jwt.verify(bearer, JWT_SECRET) as User; // ✅ Use strict type
     req.user = decoded;
     next();
   } catch (err) {
@@ -3,18 +3,107 @@ import { AppError } from "../errors/AppError";
 import { logger } from "../src/telemetry/logger";
 import { DatabaseStrategyFactory } from "../database";
 import { AuthenticatedRequest } from "./authMiddleware";
+import { scopeAllows } from "../commands/service_accounts/apiKeys";
+import {
+  ADMIN_ROLE,
+  inheritedRoles,
+  loadRoles,
+  matrixAllows,
+} from "../commands/roles/roleHierarchy";
+import type { RoleDefinition } from "../types/Role";
+import { parseRowConditions } from "../commands/rowPermissions";
 
+export type CollectionOperation =
+  | "create"
+  | "read"
+  | "update"
+  | "delete"
+  | "reset"
+  | "restore"
+  | "purge"
+  | "publish"
+  | "unpublish";
+
+/**
+ * Checks `collection_permissions` and the `roles` permission matrix for
+ * the user's role and the roles it inherits, and throws an `AppError`
+ * when none of them allows the operation.
+ */
+export const authorizeCollectionAction = async (
+  user: AuthenticatedRequest["user"],
+  collection: string,
+  operation: CollectionOperation
+): Promise<void> => {
+  if (!user?.role) {
+    throw AppError.unauthorized("User role missing in token");
+  }
+
+  // API keys never reach past their scopes, whatever the account's role
+  if (user.scopes && !scopeAllows(user.scopes, collection, operation)) {
+    throw AppError.forbidden(
+      `API key is not scoped for '${operation}' on '${collection}'`
+    );
+  }
+
+  // ✅ Admin always has permission
+  if (user.role === ADMIN_ROLE) {
+    logger.debug(`[AUTH] Admin override for '${operation}' on '${collection}'`);
+    return;
+  }
+
+  let allowedRoles: string[];
+  let roles: Map<string, RoleDefinition>;
+  try {
+    const db = await DatabaseStrategyFactory.getRequiredStrategy();
+
+    const records = await db.read(
+      "collection_permissions",
+      { collection_name: collection, operation },
+      { limit: 1 }
+    );
+
+    const record = records?.[0];
+    // SQL engines hand JSON columns back as text
+    allowedRoles =
+      typeof record?.allowed_roles === "string"
+        ? JSON.parse(record.allowed_roles)
+        : record?.allowed_roles || [];
+    // Roles with a row condition are allowed on the records it matches
+    allowedRoles = [
+      ...allowedRoles,
+      ...Object.keys(parseRowConditions(record?.conditions)),
+    ];
+    roles = await loadRoles(db);
+  } catch (err) {
+    logger.error("[AUTH] Failed to authorize operation", { err });
+    throw AppError.internal("Authorization check failed");
+  }
+
+  const inherited = inheritedRoles(roles, user.role);
+  if (inherited.includes(ADMIN_ROLE)) {
+    logger.debug(`[AUTH] Admin override for '${operation}' on '${collection}'`);
+    return;
+  }
+  if (
+    !inherited.some((role) => allowedRoles.includes(role)) &&
+    !matrixAllows(roles, user.role, collection, operation)
+  ) {
+    throw AppError.forbidden(
+      `Role '${user.role}' is not allowed to perform '${operation}' on '${collection}'`
+    );
+  }
+};
+
+/** Every listed operation must be allowed, e.g. create + update for upsert */
 export const authorizeCollectionActionMiddleware = (
-  operation: "create" | "read" | "update" | "delete" | "reset"
+  operations: CollectionOperation | CollectionOperation[]
 ) => {
   return async (
     req: AuthenticatedRequest,
     res: Response,
     next: NextFunction
   ) => {
-    const user = req.user;
-
-    if (!user?.role) {
+    if (!req.user?.role) {
       return next(AppError.unauthorized("User role missing in token"));
     }
 
@@ -23,42 +112,13 @@ export const authorizeCollectionActionMiddleware = (
       return next(AppError.badRequest("Missing target collection"));
     }
 
-    // ✅ Admin always has permission
-    if (user.role === "admin") {
-      logger.debug(
-        `[AUTH] Admin override for '${operation}' on '${collection}'`
-      );
-      return next();
-    }
-
     try {
-      const db = await DatabaseStrategyFactory.getRequiredStrategy();
-
-      const records = await db.read("collection_permissions", {
-        filters: {
-          collection_name: collection,
-          operation,
-        },
-        limit: 1,
-      });
-
-      const record = records?.[0];
-      const allowedRoles: string[] = record?.allowed_roles || [];
-
-      const isAllowed = allowedRoles.includes(user.role);
-
-      if (!isAllowed) {
-        return next(
-          AppError.forbidden(
-            `Role '${user.role}' is not allowed to perform '${operation}' on '${collection}'`
-          )
-        );
+      for (const operation of [operations].flat()) {
+        await authorizeCollectionAction(req.user, collection, operation);
       }
-
       return next();
     } catch (err) {
-      logger.error("[AUTH] Failed to authorize operation", { err });
-      return next(AppError.internal("Authorization check failed"));
+      return next(err);
     }
   };
 };
@@ -5,6 +5,16 @@ import { z } from "zod";
 import { DatabaseStrategyFactory } from "../database/DatabaseStrategyFactory";
 import { AppError } from "../errors/AppError";
 import { logger } from "../src/telemetry/logger";
+import { env } from "../src/config";
+import { isUniqueViolation } from "../database/utils/isUniqueViolation";
+import { isAdminRole, loadRoles } from "../commands/roles/roleHierarchy";
+import {
+  EmailVerificationRequestCommand,
+  EmailVerifyCommand,
+  PasswordResetCommand,
+  PasswordResetRequestCommand,
+} from "../commands/auth/AccountCommands";
+import { MailerFactory } from "../mail/MailerFactory";
 import {
   AuthenticatedRequest,
   authenticateToken,
@@ -15,11 +25,22 @@ const db = DatabaseStrategyFactory;
 const ACCESS_TOKEN_SECRET = process.env.SECRET_KEY || "shikor_access";
 const REFRESH_TOKEN_SECRET = process.env.REFRESH_SECRET || "shikor_refresh";
 
+// Emailed links open `${APP_URL}/reset-password` and `${APP_URL}/verify-email`
+const passwordResetMail = {
+  appUrl: env.APP_URL,
+  ttlMs: env.PASSWORD_RESET_TTL_MINUTES * 60_000,
+};
+const verificationMail = {
+  appUrl: env.APP_URL,
+  ttlMs: env.EMAIL_VERIFICATION_TTL_HOURS * 3_600_000,
+};
+
 const registerSchema = z.object({
   username: z.string().min(8),
   email: z.string().email(),
   password: z.string().min(6),
-  role: z.string().min(1),
+  /** Optional; only the configured registration role is accepted */
+  role: z.string().min(1).optional(),
 });
 
 const loginSchema = z.object({
@@ -31,6 +52,35 @@ const refreshSchema = z.object({
   refreshToken: z.string().min(10),
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(10),
+  password: z.string().min(6),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(10),
+});
+
+/** Sends a verification link; a mail failure never fails the request */
+const sendVerification = async (userId: unknown): Promise<boolean> => {
+  try {
+    await new EmailVerificationRequestCommand(
+      db.getRequiredStrategy(),
+      MailerFactory.getMailer(),
+      userId,
+      verificationMail
+    ).execute();
+    return true;
+  } catch (err) {
+    logger.error({ err, userId }, "Verification email could not be sent");
+    return false;
+  }
+};
+
 // === Register ===
 router.post(
   "/register",
@@ -44,8 +94,23 @@ router.post(
         );
       }
 
-      const { username, email, password, role } = result.data;
+      const { username, email, password } = result.data;
+      const role = env.REGISTRATION_ROLE;
+      if (result.data.role !== undefined && result.data.role !== role) {
+        throw AppError.forbidden(
+          `Self-registration cannot choose role '${result.data.role}'`
+        );
+      }
       const strategy = db.getRequiredStrategy();
+      const roles = await loadRoles(strategy);
+      // A misconfigured role must never hand out admin rights
+      if (!roles.has(role) || isAdminRole(roles, role)) {
+        logger.error(
+          { role },
+          "❌ REGISTRATION_ROLE is unknown or an admin role"
+        );
+        throw AppError.forbidden("Self-registration is not available");
+      }
 
       const hashedPassword = await bcrypt.hash(password, 10);
 
@@ -59,18 +124,25 @@ router.post(
           ],
         }
       );
-
       if (existing.length > 0) {
         throw AppError.conflict("Email or username already in use");
       }
-      const user = await strategy.create("users", {
-        username,
-        email,
-        password: hashedPassword,
-        role,
-      });
+      // Unique indexes on both stop sign-ups racing past the check above
+      const user = await strategy
+        .create("users", {
+          username,
+          email,
+          password: hashedPassword,
+          role,
+        })
+        .catch((err: unknown) => {
+          throw isUniqueViolation(err)
+            ? AppError.conflict("Email or username already in use")
+            : err;
+        });
 
       logger.info({ email }, "User registered");
+      const verificationSent = await sendVerification(user.id);
 
       res.status(201).json({
         success: true,
@@ -80,6 +152,7 @@ router.post(
           username,
           role,
         },
+        verificationSent,
       });
     } catch (err) {
       next(err);
@@ -204,4 +277,117 @@ router.post(
   }
 );
 
+// === Forgot Password ===
+router.post(
+  "/forgot-password",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = forgotPasswordSchema.safeParse(req.body);
+      if (!result.success) {
+        throw AppError.validationError(
+          "Invalid email address",
+          result.error.flatten()
+        );
+      }
+
+      // Answered before the mail goes out, so timing reveals no accounts
+      new PasswordResetRequestCommand(
+        db.getRequiredStrategy(),
+        MailerFactory.getMailer(),
+        result.data.email,
+        passwordResetMail
+      )
+        .execute()
+        .catch((err) =>
+          logger.error({ err }, "Password reset email could not be sent")
+        );
+
+      res.status(202).json({
+        success: true,
+        message:
+          "If the address belongs to an account, a reset link is on its way",
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+// === Reset Password ===
+router.post(
+  "/reset-password",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = resetPasswordSchema.safeParse(req.body);
+      if (!result.success) {
+        throw AppError.validationError(
+          "Invalid password reset data",
+          result.error.flatten()
+        );
+      }
+
+      const { token, password } = result.data;
+      await db
+        .getRequiredStrategy()
+        .transaction((tx) =>
+          new PasswordResetCommand(tx, token, password).execute()
+        );
+
+      res.json({ success: true, message: "Password has been reset" });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+// === Verify Email ===
+router.post(
+  "/verify-email",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = verifyEmailSchema.safeParse(req.body);
+      if (!result.success) {
+        throw AppError.badRequest("Verification token is required");
+      }
+
+      const verified = await db
+        .getRequiredStrategy()
+        .transaction((tx) =>
+          new EmailVerifyCommand(tx, result.data.token).execute()
+        );
+
+      res.json({ success: true, emailVerifiedAt: verified.email_verified_at });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+// === Resend Verification ===
+router.post(
+  "/resend-verification",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+      if (!user?.id || user.serviceAccountId) {
+        throw AppError.unauthorized("User not authenticated");
+      }
+
+      await new EmailVerificationRequestCommand(
+        db.getRequiredStrategy(),
+        MailerFactory.getMailer(),
+        user.id,
+        verificationMail
+      ).execute();
+
+      res
+        .status(202)
+        .json({ success: true, message: "Verification link sent" });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
 export default router;
@@ -8,27 +8,201 @@ import { CreateCommand } from "../commands/CreateCommand";
 import { ReadCommand } from "../commands/ReadCommand";
 import { UpdateCommand } from "../commands/UpdateCommand";
 import { DeleteCommand } from "../commands/DeleteCommand";
+import { AggregateCommand } from "../commands/AggregateCommand";
+import { BatchCommand } from "../commands/BatchCommand";
+import { UpsertCommand } from "../commands/UpsertCommand";
+import { BulkCommand, BulkAction } from "../commands/BulkCommand";
+import { RestoreCommand } from "../commands/RestoreCommand";
+import { PurgeCommand } from "../commands/PurgeCommand";
+import { PublishCommand } from "../commands/PublishCommand";
+import { UnpublishCommand } from "../commands/UnpublishCommand";
+import { TranslateCommand } from "../commands/TranslateCommand";
+import { MissingTranslationsCommand } from "../commands/MissingTranslationsCommand";
+import { localeSchema } from "../schemas/compileCollectionSchema";
+import {
+  parseIfMatch,
+  recordETag,
+  resultETag,
+} from "../commands/recordVersion";
 import { AppError } from "../errors/AppError";
 import { logger } from "../src/telemetry/logger";
 import { authenticateToken } from "../middleware/authMiddleware";
-import { authorizeCollectionActionMiddleware } from "../middleware/authorizeCollectionActionMiddleware";
+import {
+  CollectionOperation,
+  authorizeCollectionAction,
+  authorizeCollectionActionMiddleware,
+} from "../middleware/authorizeCollectionActionMiddleware";
+import type { AuthenticatedRequest } from "../middleware/authMiddleware";
 import { collectionPermissionRegistry } from "../commands/collection_permissions/CollectionPermissionCommandRegistry";
+import { collectionSchemaRegistry } from "../commands/collection_schemas/CollectionSchemaCommandRegistry";
+import { roleRegistry } from "../commands/roles/RoleCommandRegistry";
+import {
+  API_KEYS,
+  SERVICE_ACCOUNTS,
+} from "../commands/service_accounts/apiKeys";
+import { fieldPolicyFor } from "../commands/fieldPermissions";
+import { rowPolicyFor } from "../commands/rowPermissions";
+import { assertDraftEdit } from "../commands/publication";
+import type { IDatabaseStrategy } from "../database/IDatabaseStrategy";
+import type { Filter } from "../database/types/Filter";
 const router = express.Router();
 
+const sortKeySchema = z.object({
+  field: z.string().min(1),
+  order: z.enum(["asc", "desc"]).optional(),
+});
+
+const queryOptionsSchema = z.object({
+  sort: z.union([sortKeySchema, z.array(sortKeySchema).min(1)]).optional(),
+  limit: z.number().int().min(0).max(1000).optional(),
+  offset: z.number().int().min(0).optional(),
+  paginate: z.boolean().optional(),
+  after: z.string().min(1).optional(),
+  before: z.string().min(1).optional(),
+  count: z.boolean().optional(),
+  fields: z
+    .object({
+      include: z.array(z.string().min(1)).optional(),
+      exclude: z.array(z.string().min(1)).optional(),
+    })
+    .optional(),
+  distinct: z.string().min(1).optional(),
+  expand: z.array(z.string().min(1)).max(20).optional(),
+  trash: z.enum(["exclude", "include", "only"]).optional(),
+  publication: z.enum(["published", "draft", "all"]).optional(),
+  locale: localeSchema.optional(),
+  fallbackLocales: z.array(localeSchema).max(10).optional(),
+});
+
+const aggregateSchema = z.object({
+  groupBy: z.array(z.string().min(1)).optional(),
+  metrics: z
+    .array(
+      z.object({
+        fn: z.enum(["count", "sum", "avg", "min", "max"]),
+        field: z.string().min(1).optional(),
+        as: z.string().min(1),
+      })
+    )
+    .min(1),
+});
+
+const bulkSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("create"),
+    items: z.array(z.record(z.any())).min(1).max(1000),
+  }),
+  z.object({ action: z.literal("update") }),
+  z.object({ action: z.literal("delete") }),
+]);
+
 const commandSchema = z.object({
-  operation: z.enum(["create", "update", "delete", "reset"]),
+  operation: z.enum([
+    "create",
+    "read",
+    "update",
+    "delete",
+    "reset",
+    "aggregate",
+    "upsert",
+    "bulk",
+    "restore",
+    "purge",
+    "publish",
+    "unpublish",
+    "translate",
+    "untranslated",
+  ]),
   collection: z.string().min(1),
   data: z.record(z.any()).optional(),
   filter: z.record(z.any()).optional(),
+  options: queryOptionsSchema.optional(),
+  aggregate: aggregateSchema.optional(),
+  conflictKeys: z.array(z.string().min(1)).min(1).optional(),
+  bulk: bulkSchema.optional(),
+  /** Purge: only trash deleted before this moment */
+  olderThan: z.coerce.date().optional(),
+  /** Publish/unpublish: schedule for this moment instead of now */
+  scheduledAt: z.coerce.date().optional(),
+  /** Translate: locale written to; untranslated: locale checked */
+  locale: localeSchema.optional(),
+  /** Translate: locale the translation is copied from */
+  sourceLocale: localeSchema.optional(),
+  /** Update/delete: record version the client last saw, like `If-Match` */
+  expectedVersion: z.number().int().min(1).optional(),
+});
+
+type CommandPayload = z.infer<typeof commandSchema>;
+
+const batchSchema = z.object({
+  commands: z
+    .array(
+      z.object({
+        ref: z.string().min(1).optional(),
+        operation: z.enum(["create", "update", "delete"]),
+        collection: z.string().min(1),
+        data: z.record(z.any()).optional(),
+        filter: z.record(z.any()).optional(),
+        expectedVersion: z.number().int().min(1).optional(),
+      })
+    )
+    .min(1)
+    .max(100),
 });
 
-const commandFactory = (
+const readOnlyOperations = new Set(["read", "aggregate", "untranslated"]);
+
+/** Permissions a command is checked against; most map to their own name */
+const permissionsFor = (body: any): CollectionOperation[] => {
+  switch (body?.operation) {
+    case "read":
+    case "aggregate":
+      // Only editors may look past published content
+      return body.options?.publication &&
+        body.options.publication !== "published"
+        ? ["read", "update"]
+        : ["read"];
+    case "upsert":
+      return ["create", "update"];
+    case "translate":
+      return ["update"];
+    case "untranslated":
+      return ["read"];
+    case "bulk":
+      return [body.bulk?.action];
+    default:
+      return [body?.operation];
+  }
+};
+
+/** Who writes are credited to, in revisions and `deleted_by` */
+const authorOf = (user?: AuthenticatedRequest["user"]) =>
+  user?.id != null ? String(user.id) : null;
+
+const buildCommand = (
   dbStrategy: any,
-  operation: string,
-  collection: string,
-  data?: Record<string, any>,
-  filter?: Record<string, any>
+  payload: CommandPayload,
+  user?: AuthenticatedRequest["user"]
 ): ICommand => {
+  const {
+    operation,
+    collection,
+    data,
+    filter,
+    options,
+    aggregate,
+    conflictKeys,
+    bulk,
+    olderThan,
+    scheduledAt,
+    locale,
+    sourceLocale,
+    expectedVersion,
+  } = payload;
+  const deletedBy = authorOf(user) ?? undefined;
+  const fieldPolicy = user ? fieldPolicyFor(dbStrategy, user) : undefined;
+  const rowPolicy = user ? rowPolicyFor(dbStrategy, user) : undefined;
+
   if (collection === "collection_permissions") {
     const factory =
       collectionPermissionRegistry[
@@ -39,17 +213,181 @@ const commandFactory = (
         `Unsupported operation '${operation}' for collection_permissions`
       );
     }
-    return factory(collection, data!);
+    return factory(collection, data!, dbStrategy);
+  }
+  if (collection === "collection_schemas") {
+    const factory =
+      collectionSchemaRegistry[
+        operation as keyof typeof collectionSchemaRegistry
+      ];
+    if (factory) {
+      return factory(data ?? {}, filter ?? {}, dbStrategy);
+    }
+    // Definitions only change through create/update, which apply the DDL
+    if (operation === "upsert" || operation === "bulk") {
+      throw AppError.validationError(
+        `Unsupported operation '${operation}' for collection_schemas`
+      );
+    }
+  }
+  // Accounts and keys only change through /service-accounts, which checks
+  // that callers never act for a role above their own
+  if (
+    (collection === SERVICE_ACCOUNTS || collection === API_KEYS) &&
+    !readOnlyOperations.has(operation)
+  ) {
+    throw AppError.validationError(
+      `Unsupported operation '${operation}' for ${collection}`
+    );
+  }
+  if (collection === "roles") {
+    const factory = roleRegistry[operation as keyof typeof roleRegistry];
+    if (factory) {
+      return factory(data ?? {}, filter ?? {}, dbStrategy, user);
+    }
+    if (operation !== "read") {
+      throw AppError.validationError(
+        `Unsupported operation '${operation}' for roles`
+      );
+    }
   }
   switch (operation) {
     case "create":
-      return new CreateCommand(dbStrategy, collection, data!);
+      return new CreateCommand(
+        dbStrategy,
+        collection,
+        data!,
+        fieldPolicy,
+        rowPolicy
+      );
     case "read":
-      return new ReadCommand(dbStrategy, collection, filter);
+      return new ReadCommand(
+        dbStrategy,
+        collection,
+        filter,
+        options,
+        (target) => authorizeCollectionAction(user, target, "read"),
+        fieldPolicy,
+        rowPolicy
+      );
     case "update":
-      return new UpdateCommand(dbStrategy, collection, filter!, data!);
+      return new UpdateCommand(
+        dbStrategy,
+        collection,
+        filter!,
+        data!,
+        expectedVersion,
+        fieldPolicy,
+        rowPolicy
+      );
     case "delete":
-      return new DeleteCommand(dbStrategy, collection, filter!);
+      return new DeleteCommand(
+        dbStrategy,
+        collection,
+        filter!,
+        deletedBy,
+        expectedVersion,
+        rowPolicy
+      );
+    case "aggregate":
+      if (!aggregate) {
+        throw AppError.validationError("Missing 'aggregate' payload");
+      }
+      return new AggregateCommand(
+        dbStrategy,
+        collection,
+        { ...aggregate, filter },
+        options?.publication,
+        fieldPolicy,
+        rowPolicy
+      );
+    case "upsert":
+      if (!conflictKeys || !data) {
+        throw AppError.validationError(
+          "Upsert requires 'conflictKeys' and 'data'"
+        );
+      }
+      return new UpsertCommand(
+        dbStrategy,
+        collection,
+        conflictKeys,
+        data,
+        fieldPolicy,
+        rowPolicy
+      );
+    case "bulk":
+      if (!bulk) {
+        throw AppError.validationError("Missing 'bulk' payload");
+      }
+      return new BulkCommand(
+        dbStrategy,
+        collection,
+        toBulkAction(bulk, payload),
+        deletedBy,
+        fieldPolicy,
+        rowPolicy
+      );
+    case "restore":
+      if (!filter) {
+        throw AppError.validationError("Restore requires a 'filter'");
+      }
+      return new RestoreCommand(dbStrategy, collection, filter, rowPolicy);
+    case "purge":
+      return new PurgeCommand(
+        dbStrategy,
+        collection,
+        filter,
+        olderThan,
+        rowPolicy
+      );
+    case "publish":
+      if (!filter) {
+        throw AppError.validationError("Publish requires a 'filter'");
+      }
+      return new PublishCommand(
+        dbStrategy,
+        collection,
+        filter,
+        scheduledAt,
+        rowPolicy
+      );
+    case "unpublish":
+      if (!filter) {
+        throw AppError.validationError("Unpublish requires a 'filter'");
+      }
+      return new UnpublishCommand(
+        dbStrategy,
+        collection,
+        filter,
+        scheduledAt,
+        rowPolicy
+      );
+    case "translate":
+      if (!filter || !locale || !sourceLocale) {
+        throw AppError.validationError(
+          "Translate requires a 'filter', 'locale' and 'sourceLocale'"
+        );
+      }
+      return new TranslateCommand(
+        dbStrategy,
+        collection,
+        filter,
+        sourceLocale,
+        locale,
+        data,
+        fieldPolicy,
+        rowPolicy
+      );
+    case "untranslated":
+      if (!locale) {
+        throw AppError.validationError("Untranslated requires a 'locale'");
+      }
+      return new MissingTranslationsCommand(
+        dbStrategy,
+        collection,
+        locale,
+        filter
+      );
     default:
       throw AppError.validationError(`Unsupported operation: ${operation}`, {
         operation,
@@ -57,6 +395,105 @@ const commandFactory = (
   }
 };
 
+/** Records a write reaches, by filter, and the values it writes */
+const editsOf = ({
+  operation,
+  data,
+  filter = {},
+  conflictKeys,
+  bulk,
+}: CommandPayload): {
+  filter: Filter | null;
+  writes: Record<string, any>[];
+} | null => {
+  switch (operation) {
+    case "create":
+      return { filter: null, writes: [data ?? {}] };
+    case "update":
+    case "translate":
+      return { filter, writes: [data ?? {}] };
+    case "delete":
+      return { filter, writes: [] };
+    case "upsert":
+      return {
+        filter: Object.fromEntries(
+          (conflictKeys ?? []).map((key) => [key, data?.[key]])
+        ),
+        writes: [data ?? {}],
+      };
+    case "bulk":
+      if (bulk?.action === "create")
+        return { filter: null, writes: bulk.items };
+      return { filter, writes: bulk?.action === "update" ? [data ?? {}] : [] };
+    default:
+      return null;
+  }
+};
+
+/** Builds the command for `payload`, keeping published content to publishers */
+export const commandFactory = (
+  dbStrategy: any,
+  payload: CommandPayload,
+  user?: AuthenticatedRequest["user"]
+): ICommand => {
+  const command = buildCommand(dbStrategy, payload, user);
+  const edits = user ? editsOf(payload) : null;
+  if (!edits) return command;
+
+  const { collection } = payload;
+  return {
+    execute: async () => {
+      await assertDraftEdit(
+        dbStrategy,
+        collection,
+        edits.filter,
+        edits.writes,
+        () =>
+          authorizeCollectionAction(user, collection, "publish").then(
+            () => true,
+            () => false
+          )
+      );
+      return command.execute();
+    },
+  };
+};
+
+const toBulkAction = (
+  bulk: NonNullable<CommandPayload["bulk"]>,
+  { filter = {}, data }: Pick<CommandPayload, "filter" | "data">
+): BulkAction => {
+  switch (bulk.action) {
+    case "create":
+      return bulk;
+    case "update":
+      if (!data) {
+        throw AppError.validationError("Bulk update requires 'data'");
+      }
+      return { action: "update", filter, data };
+    case "delete":
+      return { action: "delete", filter };
+  }
+};
+
+/**
+ * Reads are tagged by content, for conditional reads with
+ * `If-None-Match`; a write touching one record is tagged with its version,
+ * the value `If-Match` takes.
+ */
+const etagFor = (operation: string, result: any): string | undefined => {
+  if (operation === "read") return resultETag(result);
+  if (result?.records?.length === 1 && result.records[0].version != null) {
+    return recordETag(result.records[0]);
+  }
+  return undefined;
+};
+
+const matchesETag = (req: express.Request, etag: string) =>
+  (req.get("If-None-Match") ?? "")
+    .split(",")
+    .some((tag) => tag.trim() === etag || tag.trim() === "*");
+
 const handler: RequestHandler = async (req, res, next) => {
   const result = commandSchema.safeParse(req.body);
 
@@ -77,35 +514,102 @@ const handler: RequestHandler = async (req, res, next) => {
   );
 
   try {
+    const payload = {
+      ...result.data,
+      expectedVersion:
+        result.data.expectedVersion ?? parseIfMatch(req.get("If-Match")),
+    };
     const dbStrategy = req.app.locals.db;
-    const command = commandFactory(
-      dbStrategy,
-      operation,
-      collection,
-      data,
-      filter
-    );
-    const executionResult = await CommandExecutor.execute(command);
+    const user = (req as AuthenticatedRequest).user;
+    const build = (db: IDatabaseStrategy) => commandFactory(db, payload, user);
+    // Writes run in a transaction so multi-step commands apply atomically
+    const executionResult = readOnlyOperations.has(operation)
+      ? await CommandExecutor.execute(build(dbStrategy))
+      : await CommandExecutor.executeInTransaction(dbStrategy, build, {
+          author: authorOf(user),
+        });
 
     logger.info(
       { result: executionResult },
       `✅ '${operation}' on '${collection}' succeeded`
     );
+
+    const etag = etagFor(operation, executionResult);
+    if (etag) res.set("ETag", etag);
+    if (operation === "read" && etag && matchesETag(req, etag)) {
+      res.status(304).end();
+      return;
+    }
     res.status(200).json({ success: true, data: executionResult });
   } catch (error) {
     logger.error(
       { error, operation, collection },
       `❌ '${operation}' on '${collection}' failed`
     );
-    next(AppError.internal("Command execution failed", error));
+    next(
+      error instanceof AppError
+        ? error
+        : AppError.internal("Command execution failed", error)
+    );
   }
 };
 
+const batchHandler: RequestHandler = async (req, res, next) => {
+  const result = batchSchema.safeParse(req.body);
+
+  if (!result.success) {
+    logger.warn({ payload: req.body }, "❌ Invalid batch payload");
+    return next(
+      AppError.validationError("Invalid batch payload", {
+        issues: result.error.flatten(),
+      })
+    );
+  }
+
+  const { commands } = result.data;
+  logger.info({ count: commands.length }, `➡️ Running batch of commands`);
+
+  try {
+    const user = (req as AuthenticatedRequest).user;
+    const results = await CommandExecutor.executeInTransaction(
+      req.app.locals.db,
+      (tx) =>
+        new BatchCommand(
+          commands,
+          (entry) => commandFactory(tx, entry as CommandPayload, user),
+          ({ collection, operation }) =>
+            authorizeCollectionAction(
+              user,
+              collection,
+              operation as CollectionOperation
+            )
+        ),
+      { author: authorOf(user) }
+    );
+
+    logger.info({ count: results.length }, `✅ Batch succeeded`);
+    res.status(200).json({ success: true, data: results });
+  } catch (error) {
+    logger.error({ error }, `❌ Batch failed and was rolled back`);
+    next(
+      error instanceof AppError
+        ? error
+        : AppError.internal("Batch execution failed", error)
+    );
+  }
+};
+
+router.post("/command/batch", authenticateToken, batchHandler);
+
 router.post(
   "/command",
   authenticateToken,
   (req, res, next) =>
-    authorizeCollectionActionMiddleware(req.body.operation)(req, res, next),
+    authorizeCollectionActionMiddleware(permissionsFor(req.body))(
+      req,
+      res,
+      next
+    ),
   handler
 );
 
@@ -0,0 +1,223 @@
+// packages/core/routes/revisionRouter.ts
+
+import express, { RequestHandler } from "express";
+import { z } from "zod";
+import { CommandExecutor } from "../commands/CommandExecutor";
+import { RevisionRestoreCommand } from "../commands/RevisionRestoreCommand";
+import {
+  compareRevisions,
+  listRevisions,
+} from "../database/revisions/recordRevisions";
+import { AppError } from "../errors/AppError";
+import type { Revision } from "../database/types/Revision";
+import { stripHiddenFields } from "../commands/hiddenFields";
+import { fieldPolicyFor } from "../commands/fieldPermissions";
+import { assertRecordAllowed, rowPolicyFor } from "../commands/rowPermissions";
+import { publishedRevisions } from "../commands/publication";
+import { MongoStrategy } from "../database/strategies/mongo/MongoStrategy";
+import { logger } from "../src/telemetry/logger";
+import {
+  AuthenticatedRequest,
+  authenticateToken,
+} from "../middleware/authMiddleware";
+import {
+  CollectionOperation,
+  authorizeCollectionAction,
+} from "../middleware/authorizeCollectionActionMiddleware";
+
+const router = express.Router();
+
+const revisionParam = z.coerce.number().int().min(1);
+
+/** Revisions are guarded by the permissions of their collection */
+const authorizeRecords =
+  (operation: CollectionOperation): RequestHandler =>
+  async (req, res, next) => {
+    try {
+      await authorizeCollectionAction(
+        (req as AuthenticatedRequest).user,
+        req.params.collection,
+        operation
+      );
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+
+const parseRevision = (value: unknown, name = "revision"): number => {
+  const parsed = revisionParam.safeParse(value);
+  if (!parsed.success) {
+    throw AppError.validationError(`Invalid ${name} '${value}'`);
+  }
+  return parsed.data;
+};
+
+/**
+ * Snapshots and diffs hold every field of a record, so fields the caller
+ * may not read are removed from both
+ */
+const readableFields = async (req: express.Request) => {
+  const { collection } = req.params;
+  const user = (req as AuthenticatedRequest).user;
+  const restricted = user
+    ? await fieldPolicyFor(req.app.locals.db, user)(collection, "read")
+    : [];
+  return <T extends Record<string, any>>(record: T) =>
+    stripHiddenFields(collection, record, restricted);
+};
+
+/**
+ * Revisions are limited to records the caller's read condition reaches;
+ * a deleted record is judged by its newest snapshot
+ */
+const assertRevisionsReadable = async (req: express.Request) => {
+  const { collection, id } = req.params;
+  const user = (req as AuthenticatedRequest).user;
+  const db = req.app.locals.db;
+  const [latest] = await listRevisions(db, collection, id);
+  if (!user || !latest) return;
+
+  const idField = db instanceof MongoStrategy ? "_id" : "id";
+  await assertRecordAllowed(
+    db,
+    rowPolicyFor(db, user),
+    collection,
+    "read",
+    { [idField]: latest.snapshot[idField] },
+    latest.snapshot
+  );
+};
+
+/**
+ * Revisions of the record the caller may see. As on reads, only callers
+ * who may update the collection look past published content.
+ */
+const visibleRevisions = async (req: express.Request) => {
+  const { collection, id } = req.params;
+  const db = req.app.locals.db;
+  const revisions = await listRevisions(db, collection, id);
+  const editor = await authorizeCollectionAction(
+    (req as AuthenticatedRequest).user,
+    collection,
+    "update"
+  ).then(
+    () => true,
+    () => false
+  );
+  return editor ? revisions : publishedRevisions(db, collection, revisions);
+};
+
+const redactRevision = (
+  revision: Revision,
+  strip: (record: Record<string, any>) => Record<string, any>
+): Revision => ({
+  ...revision,
+  snapshot: strip(revision.snapshot),
+  diff: strip(revision.diff),
+});
+
+const toAppError = (error: unknown, message: string) =>
+  error instanceof AppError ? error : AppError.internal(message, error);
+
+const list: RequestHandler = async (req, res, next) => {
+  const { collection, id } = req.params;
+  try {
+    await assertRevisionsReadable(req);
+    const strip = await readableFields(req);
+    const revisions = await visibleRevisions(req);
+    res.status(200).json({
+      success: true,
+      data: revisions.map((revision) => redactRevision(revision, strip)),
+    });
+  } catch (error) {
+    logger.error({ error, collection, id }, `❌ Listing revisions failed`);
+    next(toAppError(error, "Listing revisions failed"));
+  }
+};
+
+const compare: RequestHandler = async (req, res, next) => {
+  const { collection, id } = req.params;
+  try {
+    const from = parseRevision(req.query.from, "'from' revision");
+    const to = parseRevision(req.query.to, "'to' revision");
+    await assertRevisionsReadable(req);
+    const visible = new Set(
+      (await visibleRevisions(req)).map((r) => r.revision)
+    );
+    for (const revision of [from, to]) {
+      if (!visible.has(revision)) {
+        throw AppError.notFound(
+          `Revision ${revision} of record '${id}' in '${collection}' does not exist`
+        );
+      }
+    }
+    const strip = await readableFields(req);
+    const comparison = await compareRevisions(
+      req.app.locals.db,
+      collection,
+      id,
+      from,
+      to
+    );
+    res.status(200).json({
+      success: true,
+      data: {
+        from: redactRevision(comparison.from, strip),
+        to: redactRevision(comparison.to, strip),
+        diff: strip(comparison.diff),
+      },
+    });
+  } catch (error) {
+    logger.error({ error, collection, id }, `❌ Comparing revisions failed`);
+    next(toAppError(error, "Comparing revisions failed"));
+  }
+};
+
+const restore: RequestHandler = async (req, res, next) => {
+  const { collection, id } = req.params;
+  try {
+    const revision = parseRevision(req.params.revision);
+    const user = (req as AuthenticatedRequest).user;
+    logger.info({ collection, id, revision }, `⏪ Restoring revision`);
+
+    const result = await CommandExecutor.executeInTransaction(
+      req.app.locals.db,
+      (tx) =>
+        new RevisionRestoreCommand(
+          tx,
+          collection,
+          id,
+          revision,
+          user ? fieldPolicyFor(tx, user) : undefined,
+          user ? rowPolicyFor(tx, user) : undefined
+        ),
+      { author: user?.id != null ? String(user.id) : null }
+    );
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    logger.error({ error, collection, id }, `❌ Revision restore failed`);
+    next(toAppError(error, "Revision restore failed"));
+  }
+};
+
+router.get(
+  "/revisions/:collection/:id",
+  authenticateToken,
+  authorizeRecords("read"),
+  list
+);
+router.get(
+  "/revisions/:collection/:id/compare",
+  authenticateToken,
+  authorizeRecords("read"),
+  compare
+);
+router.post(
+  "/revisions/:collection/:id/:revision/restore",
+  authenticateToken,
+  authorizeRecords("update"),
+  restore
+);
+
+export default router;
@@ -0,0 +1,154 @@
+// packages/core/routes/schemaRouter.ts
+
+import express, { RequestHandler } from "express";
+import { z } from "zod";
+import { CommandExecutor } from "../commands/CommandExecutor";
+import {
+  CollectionSchemaApplyCommand,
+  CollectionSchemaPreviewCommand,
+  CollectionSchemaRevertCommand,
+} from "../commands/collection_schemas/CollectionSchemaCommands";
+import { listSchemaVersions } from "../database/schema/schemaVersions";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import {
+  AuthenticatedRequest,
+  authenticateToken,
+} from "../middleware/authMiddleware";
+import {
+  CollectionOperation,
+  authorizeCollectionAction,
+} from "../middleware/authorizeCollectionActionMiddleware";
+
+const router = express.Router();
+
+const previewSchema = z.object({
+  fields: z.array(z.record(z.any())).min(1),
+});
+
+const versionParam = z.coerce.number().int().min(1);
+
+/** Schema history is guarded by the permissions of `collection_schemas` */
+const authorizeSchemas =
+  (operation: CollectionOperation): RequestHandler =>
+  async (req, res, next) => {
+    try {
+      await authorizeCollectionAction(
+        (req as AuthenticatedRequest).user,
+        "collection_schemas",
+        operation
+      );
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+
+const parseVersion = (value: string): number => {
+  const parsed = versionParam.safeParse(value);
+  if (!parsed.success) {
+    throw AppError.validationError(`Invalid schema version '${value}'`);
+  }
+  return parsed.data;
+};
+
+const toAppError = (error: unknown, message: string) =>
+  error instanceof AppError ? error : AppError.internal(message, error);
+
+const listVersions: RequestHandler = async (req, res, next) => {
+  const { collection } = req.params;
+  try {
+    const versions = await listSchemaVersions(req.app.locals.db, collection);
+    res.status(200).json({ success: true, data: versions });
+  } catch (error) {
+    logger.error({ error, collection }, `❌ Listing schema versions failed`);
+    next(toAppError(error, "Listing schema versions failed"));
+  }
+};
+
+const preview: RequestHandler = async (req, res, next) => {
+  const { collection } = req.params;
+  const result = previewSchema.safeParse(req.body);
+  if (!result.success) {
+    return next(
+      AppError.validationError("Invalid schema preview payload", {
+        issues: result.error.flatten(),
+      })
+    );
+  }
+
+  try {
+    const plan = await CommandExecutor.execute(
+      new CollectionSchemaPreviewCommand(
+        collection,
+        result.data,
+        req.app.locals.db
+      )
+    );
+    res.status(200).json({ success: true, data: plan });
+  } catch (error) {
+    logger.error({ error, collection }, `❌ Schema preview failed`);
+    next(toAppError(error, "Schema preview failed"));
+  }
+};
+
+const revert: RequestHandler = async (req, res, next) => {
+  const { collection } = req.params;
+  try {
+    const version = parseVersion(req.params.version);
+    logger.info({ collection, version }, `⏪ Reverting schema version`);
+
+    const result = await CommandExecutor.executeInTransaction(
+      req.app.locals.db,
+      (tx) => new CollectionSchemaRevertCommand(collection, version, tx)
+    );
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    logger.error({ error, collection }, `❌ Schema revert failed`);
+    next(toAppError(error, "Schema revert failed"));
+  }
+};
+
+const apply: RequestHandler = async (req, res, next) => {
+  const { collection } = req.params;
+  try {
+    const version = parseVersion(req.params.version);
+    logger.info({ collection, version }, `⏩ Applying schema version`);
+
+    const result = await CommandExecutor.executeInTransaction(
+      req.app.locals.db,
+      (tx) => new CollectionSchemaApplyCommand(collection, version, tx)
+    );
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    logger.error({ error, collection }, `❌ Schema apply failed`);
+    next(toAppError(error, "Schema apply failed"));
+  }
+};
+
+router.get(
+  "/schemas/:collection/versions",
+  authenticateToken,
+  authorizeSchemas("read"),
+  listVersions
+);
+router.post(
+  "/schemas/:collection/preview",
+  authenticateToken,
+  authorizeSchemas("read"),
+  preview
+);
+router.post(
+  "/schemas/:collection/versions/:version/revert",
+  authenticateToken,
+  authorizeSchemas("update"),
+  revert
+);
+router.post(
+  "/schemas/:collection/versions/:version/apply",
+  authenticateToken,
+  authorizeSchemas("update"),
+  apply
+);
+
+export default router;
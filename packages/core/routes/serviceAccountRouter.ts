@@ -0,0 +1,176 @@
+// packages/core/routes/serviceAccountRouter.ts
+
+import express, { RequestHandler } from "express";
+import { CommandExecutor } from "../commands/CommandExecutor";
+import {
+  ApiKeyCreateCommand,
+  ApiKeyRevokeCommand,
+  ApiKeyRotateCommand,
+  ServiceAccountCreateCommand,
+  listApiKeys,
+  listServiceAccounts,
+} from "../commands/service_accounts/ServiceAccountCommands";
+import { SERVICE_ACCOUNTS } from "../commands/service_accounts/apiKeys";
+import { AppError } from "../errors/AppError";
+import { logger } from "../src/telemetry/logger";
+import {
+  AuthenticatedRequest,
+  authenticateToken,
+} from "../middleware/authMiddleware";
+import {
+  CollectionOperation,
+  authorizeCollectionAction,
+} from "../middleware/authorizeCollectionActionMiddleware";
+
+const router = express.Router();
+
+/** Accounts and their keys are guarded by the permissions of `service_accounts` */
+const authorizeAccounts =
+  (operation: CollectionOperation): RequestHandler =>
+  async (req, res, next) => {
+    try {
+      await authorizeCollectionAction(
+        (req as AuthenticatedRequest).user,
+        SERVICE_ACCOUNTS,
+        operation
+      );
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+
+const toAppError = (error: unknown, message: string) =>
+  error instanceof AppError ? error : AppError.internal(message, error);
+
+const createAccount: RequestHandler = async (req, res, next) => {
+  try {
+    const account = await CommandExecutor.execute(
+      new ServiceAccountCreateCommand(
+        req.app.locals.db,
+        req.body ?? {},
+        (req as AuthenticatedRequest).user
+      )
+    );
+    res.status(201).json({ success: true, data: account });
+  } catch (error) {
+    logger.error({ error }, `❌ Creating service account failed`);
+    next(toAppError(error, "Creating service account failed"));
+  }
+};
+
+const listAccounts: RequestHandler = async (req, res, next) => {
+  try {
+    const accounts = await listServiceAccounts(req.app.locals.db);
+    res.status(200).json({ success: true, data: accounts });
+  } catch (error) {
+    logger.error({ error }, `❌ Listing service accounts failed`);
+    next(toAppError(error, "Listing service accounts failed"));
+  }
+};
+
+const listKeys: RequestHandler = async (req, res, next) => {
+  const { id } = req.params;
+  try {
+    const keys = await listApiKeys(req.app.locals.db, id);
+    res.status(200).json({ success: true, data: keys });
+  } catch (error) {
+    logger.error({ error, id }, `❌ Listing API keys failed`);
+    next(toAppError(error, "Listing API keys failed"));
+  }
+};
+
+const createKey: RequestHandler = async (req, res, next) => {
+  const { id } = req.params;
+  try {
+    const issued = await CommandExecutor.execute(
+      new ApiKeyCreateCommand(
+        req.app.locals.db,
+        id,
+        req.body ?? {},
+        (req as AuthenticatedRequest).user
+      )
+    );
+    res.status(201).json({ success: true, data: issued });
+  } catch (error) {
+    logger.error({ error, id }, `❌ Issuing API key failed`);
+    next(toAppError(error, "Issuing API key failed"));
+  }
+};
+
+const rotateKey: RequestHandler = async (req, res, next) => {
+  const { id, keyId } = req.params;
+  try {
+    const issued = await CommandExecutor.executeInTransaction(
+      req.app.locals.db,
+      (tx) =>
+        new ApiKeyRotateCommand(
+          tx,
+          id,
+          keyId,
+          (req as AuthenticatedRequest).user
+        )
+    );
+    res.status(201).json({ success: true, data: issued });
+  } catch (error) {
+    logger.error({ error, id, keyId }, `❌ Rotating API key failed`);
+    next(toAppError(error, "Rotating API key failed"));
+  }
+};
+
+const revokeKey: RequestHandler = async (req, res, next) => {
+  const { id, keyId } = req.params;
+  try {
+    const key = await CommandExecutor.execute(
+      new ApiKeyRevokeCommand(
+        req.app.locals.db,
+        id,
+        keyId,
+        (req as AuthenticatedRequest).user
+      )
+    );
+    res.status(200).json({ success: true, data: key });
+  } catch (error) {
+    logger.error({ error, id, keyId }, `❌ Revoking API key failed`);
+    next(toAppError(error, "Revoking API key failed"));
+  }
+};
+
+router.post(
+  "/service-accounts",
+  authenticateToken,
+  authorizeAccounts("create"),
+  createAccount
+);
+router.get(
+  "/service-accounts",
+  authenticateToken,
+  authorizeAccounts("read"),
+  listAccounts
+);
+router.get(
+  "/service-accounts/:id/keys",
+  authenticateToken,
+  authorizeAccounts("read"),
+  listKeys
+);
+router.post(
+  "/service-accounts/:id/keys",
+  authenticateToken,
+  authorizeAccounts("update"),
+  createKey
+);
+router.post(
+  "/service-accounts/:id/keys/:keyId/rotate",
+  authenticateToken,
+  authorizeAccounts("update"),
+  rotateKey
+);
+router.delete(
+  "/service-accounts/:id/keys/:keyId",
+  authenticateToken,
+  authorizeAccounts("update"),
+  revokeKey
+);
+
+export default router;
@@ -1,7 +1,29 @@
 import { z } from "zod";
 
+/** Operations `collection_permissions` and role matrices can grant */
+export const collectionOperationSchema = z.enum([
+  "create",
+  "read",
+  "update",
+  "delete",
+  "reset",
+  "restore",
+  "purge",
+  "publish",
+  "unpublish",
+]);
+
+// Roles live in the `roles` collection, so any role name is accepted here
 export const collectionPermissionSchema = z.object({
   collection_name: z.string().min(1),
-  operation: z.enum(["create", "read", "update", "delete"]),
-  allowed_roles: z.array(z.enum(["admin", "editor", "viewer"])).min(1),
+  operation: collectionOperationSchema,
+  allowed_roles: z.array(z.string().min(1)).min(1),
+  field_roles: z
+    .record(z.string().min(1), z.array(z.string().min(1)).min(1))
+    .nullable()
+    .optional(),
+  conditions: z
+    .record(z.string().min(1), z.record(z.any()))
+    .nullable()
+    .optional(),
 });
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import type { CollectionDefinition } from "../database/types/CollectionSchema";
+
+const identifier = z
+  .string()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Must be a valid identifier")
+  .max(63);
+
+const fieldDefinitionSchema = z
+  .object({
+    name: identifier
+      .refine((name) => name !== "id" && name !== "_id", {
+        message: "The primary key is generated and cannot be redefined",
+      })
+      .refine((name) => name !== "version", {
+        message: "'version' is maintained automatically for every record",
+      }),
+    type: z.enum([
+      "string",
+      "text",
+      "integer",
+      "number",
+      "boolean",
+      "date",
+      "datetime",
+      "json",
+      "enum",
+      "email",
+      "url",
+      "relation",
+    ]),
+    required: z.boolean().optional(),
+    unique: z.boolean().optional(),
+    default: z.any().optional(),
+    values: z.array(z.string().min(1)).min(1).optional(),
+    collection: identifier.optional(),
+    relation: z.enum(["many-to-one", "one-to-many", "many-to-many"]).optional(),
+    via: identifier.optional(),
+    localized: z.boolean().optional(),
+    renamedFrom: identifier.optional(),
+  })
+  .refine((field) => field.type !== "enum" || field.values, {
+    message: "Enum fields require 'values'",
+    path: ["values"],
+  })
+  .refine((field) => field.type !== "relation" || field.collection, {
+    message: "Relation fields require 'collection'",
+    path: ["collection"],
+  })
+  .refine((field) => field.type === "relation" || !field.relation, {
+    message: "Only relation fields have a 'relation' kind",
+    path: ["relation"],
+  })
+  .refine(
+    (field) => !field.localized || (field.type !== "relation" && !field.unique),
+    {
+      message: "Relation and unique fields cannot be localized",
+      path: ["localized"],
+    }
+  )
+  .refine((field) => field.relation !== "one-to-many" || field.via, {
+    message: "One-to-many relations require 'via'",
+    path: ["via"],
+  })
+  .refine(
+    (field) =>
+      field.relation !== "one-to-many" ||
+      (!field.required && !field.unique && field.default === undefined),
+    {
+      message: "One-to-many relations store nothing and take no constraints",
+      path: ["relation"],
+    }
+  );
+
+/** Columns a `soft_delete` collection keeps its trash state in */
+const TRASH_FIELDS = ["deleted_at", "deleted_by"];
+
+/** Columns a `publishable` collection keeps its publication state in */
+const PUBLICATION_FIELDS = ["published_at", "publish_at", "unpublish_at"];
+
+// SQLite hands booleans back as 0/1, and rows from before the column as null
+const flag = z.preprocess(
+  (value) => (typeof value === "number" ? value === 1 : (value ?? undefined)),
+  z.boolean().optional()
+);
+
+export const collectionDefinitionSchema: z.ZodType<
+  CollectionDefinition,
+  z.ZodTypeDef,
+  unknown
+> = z
+  .object({
+    collection_name: identifier,
+    // SQLite hands JSON columns back as text
+    fields: z.preprocess(
+      (value) => {
+        if (typeof value !== "string") return value;
+        try {
+          return JSON.parse(value);
+        } catch {
+          return value;
+        }
+      },
+      z
+        .array(fieldDefinitionSchema)
+        .min(1)
+        .refine(
+          (fields) => new Set(fields.map((f) => f.name)).size === fields.length,
+          { message: "Field names must be unique" }
+        )
+    ),
+    soft_delete: flag,
+    publishable: flag,
+    revision_limit: z.preprocess(
+      (value) => value ?? undefined,
+      z.number().int().min(0).max(1000).optional()
+    ),
+  })
+  .refine(
+    (definition) =>
+      !definition.soft_delete ||
+      definition.fields.every((f) => !TRASH_FIELDS.includes(f.name)),
+    {
+      message: `Soft-delete collections reserve ${TRASH_FIELDS.join(" and ")}`,
+      path: ["fields"],
+    }
+  )
+  .refine(
+    (definition) =>
+      !definition.publishable ||
+      definition.fields.every((f) => !PUBLICATION_FIELDS.includes(f.name)),
+    {
+      message: `Publishable collections reserve ${PUBLICATION_FIELDS.join(", ")}`,
+      path: ["fields"],
+    }
+  );
@@ -0,0 +1,89 @@
+import { z } from "zod";
+import type {
+  CollectionDefinition,
+  FieldDefinition,
+} from "../database/types/CollectionSchema";
+
+const dateSchema = z.union([
+  z.date(),
+  z.string().date(),
+  z.string().datetime({ offset: true }),
+]);
+
+// Integer keys on SQL engines, ObjectId strings on MongoDB
+const referenceSchema = z.union([
+  z.number().int().positive(),
+  z.string().min(1),
+]);
+
+/** Locale codes like `en` or `pt-BR` */
+export const localeSchema = z
+  .string()
+  .regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, "Must be a locale code");
+
+const valueSchema = (field: FieldDefinition): z.ZodTypeAny => {
+  switch (field.type) {
+    case "string":
+    case "text":
+      return z.string();
+    case "integer":
+      return z.number().int();
+    case "number":
+      return z.number();
+    case "boolean":
+      return z.boolean();
+    case "date":
+      return dateSchema;
+    case "datetime":
+      return z.union([z.date(), z.string().datetime({ offset: true })]);
+    case "json":
+      return z.union([z.record(z.any()), z.array(z.any())]);
+    case "enum":
+      return z.enum(field.values as [string, ...string[]]);
+    case "email":
+      return z.string().email();
+    case "url":
+      return z.string().url();
+    case "relation":
+      return field.relation === "many-to-many"
+        ? z.array(referenceSchema)
+        : referenceSchema;
+  }
+};
+
+/** Localized fields take a map of locales, with a value in one at least */
+const fieldSchema = (field: FieldDefinition): z.ZodTypeAny => {
+  if (!field.localized) return valueSchema(field);
+  const values = z.record(localeSchema, valueSchema(field).nullable());
+  return field.required
+    ? values.refine((map) => Object.values(map).some((v) => v != null), {
+        message: "Needs a value in at least one locale",
+      })
+    : values;
+};
+
+/**
+ * Compiles a collection definition into a strict Zod object. Required
+ * fields are never null and must be present unless they have a default;
+ * optional fields may be omitted or null. Unknown keys and `one-to-many`
+ * relations, which are read-only, are rejected.
+ */
+export function compileCollectionSchema(
+  definition: CollectionDefinition
+): z.ZodObject<z.ZodRawShape> {
+  const shape: z.ZodRawShape = {};
+  for (const field of definition.fields) {
+    if (field.relation === "one-to-many") {
+      // Written through the `via` field of the related collection
+      shape[field.name] = z.undefined({
+        invalid_type_error: `Set '${field.via}' on '${field.collection}' instead`,
+      });
+      continue;
+    }
+    const schema = fieldSchema(field);
+    if (!field.required) shape[field.name] = schema.nullable().optional();
+    else if (field.default !== undefined) shape[field.name] = schema.optional();
+    else shape[field.name] = schema;
+  }
+  return z.object(shape).strict();
+}
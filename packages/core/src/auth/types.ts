@@ -1,6 +1,7 @@
 export interface User {
   [x: string]: any;
   id: string;
-  email: string;
-  role: "admin" | "editor" | "viewer";
+  /** Service accounts have none */
+  email?: string;
+  role: string;
 }
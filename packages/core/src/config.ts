@@ -26,6 +26,8 @@ const envSchema = z.object({
 
   // Security
   SECRET_KEY: z.string().min(32),
+  // Role of users who sign themselves up through /register
+  REGISTRATION_ROLE: z.string().min(1).default("viewer"),
 
   // Database setup
   DB_ENGINE: z.string(),
@@ -42,6 +44,29 @@ const envSchema = z.object({
   POSTGRES_IDLE_TIMEOUT: z.coerce.number().optional(),
 
   MYSQL_URL: z.string().optional(),
+  MYSQL_POOL_MIN: z.coerce.number().optional(),
+  MYSQL_POOL_MAX: z.coerce.number().optional(),
+  MYSQL_IDLE_TIMEOUT: z.coerce.number().optional(),
+
+  // Soft delete: trashed records older than this are purged
+  TRASH_RETENTION_DAYS: z.coerce.number().min(0).default(30),
+  TRASH_PURGE_INTERVAL_MINUTES: z.coerce.number().positive().default(60),
+
+  // Draft/publish: how often due publish_at/unpublish_at schedules run
+  PUBLISH_SCHEDULER_INTERVAL_SECONDS: z.coerce.number().positive().default(60),
+
+  // Mail: reset and verification links; console/file are refused in production
+  MAIL_TRANSPORT: z.enum(["console", "file", "smtp"]).default("console"),
+  MAIL_FROM: z.string().default("no-reply@localhost"),
+  MAIL_DIR: z.string().default("./data/mail"),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().default(587),
+  SMTP_SECURE: z.string().default("false"),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  APP_URL: z.string().url().default("http://localhost:3000"),
+  PASSWORD_RESET_TTL_MINUTES: z.coerce.number().positive().default(60),
+  EMAIL_VERIFICATION_TTL_HOURS: z.coerce.number().positive().default(48),
 
   // Bring Your Own DB feature flag
   ENABLE_BYODB: z.string().default("false"),
@@ -0,0 +1,14 @@
+import type { CollectionOperation } from "../middleware/authorizeCollectionActionMiddleware";
+
+/** Operations a role may run, by collection; `*` covers every collection */
+export type PermissionMatrix = Record<string, CollectionOperation[]>;
+
+/** A `roles` record */
+export interface RoleDefinition {
+  id?: any;
+  name: string;
+  description?: string | null;
+  /** Roles whose permissions this one inherits */
+  parents: string[];
+  permissions: PermissionMatrix;
+}
@@ -0,0 +1,31 @@
+import type { CollectionOperation } from "../middleware/authorizeCollectionActionMiddleware";
+
+/** Operations an API key may run on one collection, or on all with `*` */
+export interface ApiKeyScope {
+  collection: string;
+  operations: CollectionOperation[];
+}
+
+/** A `service_accounts` record: a non-human client acting with a role */
+export interface ServiceAccount {
+  id: any;
+  name: string;
+  role: string;
+  description?: string | null;
+  created_by?: string | null;
+  created_at?: string | Date;
+}
+
+/** An `api_keys` record; the key itself is only known when issued */
+export interface ApiKey {
+  id: any;
+  service_account_id: any;
+  name?: string | null;
+  /** Public part of the key, used to look it up */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expires_at?: string | Date | null;
+  last_used_at?: string | Date | null;
+  revoked_at?: string | Date | null;
+  created_at?: string | Date;
+}
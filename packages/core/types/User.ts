@@ -1,9 +1,17 @@
-export type Role = "admin" | "editor" | "viewer";
+import type { ApiKeyScope } from "./ServiceAccount";
+
+/** Name of a `roles` record; `admin` is built in and may do anything */
+export type Role = string;
 
 export interface User {
   id: string;
-  email: string;
+  /** Service accounts have none */
+  email?: string;
   role: Role;
   username?: string;
+  /** Set when authenticated with an API key of this service account */
+  serviceAccountId?: string;
+  /** Limits of the API key in use, on top of the role's permissions */
+  scopes?: ApiKeyScope[];
   [key: string]: any;
 }
@@ -0,0 +1,21 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shikor/core": path.resolve(__dirname),
+    },
+  },
+  test: {
+    globals: true,
+    environment: "node",
+    // The logger validates the environment on import
+    env: {
+      NODE_ENV: "test",
+      DB_ENGINE: "mock",
+      SECRET_KEY: "test-secret-key-that-is-at-least-32-chars",
+      LOG_LEVEL: "warn",
+    },
+  },
+});
@@ -0,0 +1,17 @@
+import { defineFactory } from "@shikor/core/database/seeding/defineFactory";
+
+/** Matches the `users` table created by `bootstrapCoreTables` */
+export const userFactory = defineFactory({
+  collection: "users",
+  key: ["username"],
+  build: ({ random, sequence }) => {
+    const first = random.firstName();
+    const last = random.lastName();
+    return {
+      username: `${first}.${last}.${sequence}`.toLowerCase(),
+      email: random.email(`${first}.${last}.${sequence}`),
+      password: "password",
+      role: random.pick(["editor", "viewer"]),
+    };
+  },
+});
@@ -1,32 +1,59 @@
-import { PostgresStrategy } from "@shikor/core/database/strategies/postgres/PostgresStrategy";
-import fs from "fs";
 import path from "path";
+import { loadMigrations } from "@shikor/core/database/migrations/loadMigrations";
+import { MigrationRunner } from "@shikor/core/database/migrations/MigrationRunner";
+import { resolveMigrationKnex } from "@shikor/core/database/migrations/resolveMigrationKnex";
 
-async function runMigrations() {
-  const db = new PostgresStrategy({
-    host: process.env.POSTGRES_HOST!,
-    port: Number(process.env.POSTGRES_PORT!),
-    user: process.env.POSTGRES_USER!,
-    password: process.env.POSTGRES_PASSWORD!,
-    database: process.env.POSTGRES_DB!,
-    ssl: process.env.POSTGRES_SSL === "true",
-  });
-
-  await db.ready;
+// Usage: ts-node migrate.ts [up|down|status|unlock] [--steps n] [--to id]
+const [command = "up", ...args] = process.argv.slice(2);
 
-  const migrationsDir = path.join(__dirname, "migrations");
-  const files = fs.readdirSync(migrationsDir).filter((f) => f.endsWith(".sql"));
+const option = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
 
-  for (const file of files) {
-    const filePath = path.join(migrationsDir, file);
-    const sql = fs.readFileSync(filePath, "utf-8");
-    console.log(`⚙️ Running migration: ${file}`);
-    await db.executeRaw(sql);
-  }
+async function runMigrations() {
+  const engine = (process.env.DB_ENGINE || "postgres") as
+    | "postgres"
+    | "sqlite"
+    | "mysql";
 
-  console.log("✅ All migrations completed");
+  const migrations = await loadMigrations(path.join(__dirname, "migrations"));
+  const { knex, close } = await resolveMigrationKnex(engine);
+  const runner = new MigrationRunner(knex, migrations);
 
-  await db.disconnect();
+  try {
+    switch (command) {
+      case "up": {
+        const applied = await runner.up({ to: option("to") });
+        applied.forEach((id) => console.log(`⚙️ Applied migration: ${id}`));
+        console.log(
+          applied.length
+            ? "✅ All migrations completed"
+            : "✅ Nothing to migrate"
+        );
+        break;
+      }
+      case "down": {
+        const steps = Number(option("steps") ?? 1);
+        const reverted = await runner.down({ steps });
+        reverted.forEach((id) =>
+          console.log(`↩️ Rolled back migration: ${id}`)
+        );
+        break;
+      }
+      case "status":
+        console.table(await runner.status());
+        break;
+      case "unlock":
+        await runner.unlock();
+        console.log("🔓 Migration lock released");
+        break;
+      default:
+        throw new Error(`Unknown command '${command}'`);
+    }
+  } finally {
+    await close();
+  }
 }
 
 runMigrations().catch((err) => {
@@ -1,31 +1,42 @@
-import { PostgresStrategy } from "@shikor/core/database/strategies/postgres/PostgresStrategy";
+import path from "path";
+import { resolveDatabaseStrategy } from "@shikor/core/database/utils/resolveStrategy";
+import { loadSeeds } from "@shikor/core/database/seeding/loadSeeds";
+import { runSeeds } from "@shikor/core/database/seeding/runSeeds";
 
-async function runSeed() {
-  const db = new PostgresStrategy({
-    host: process.env.POSTGRES_HOST!,
-    port: Number(process.env.POSTGRES_PORT!),
-    user: process.env.POSTGRES_USER!,
-    password: process.env.POSTGRES_PASSWORD!,
-    database: process.env.POSTGRES_DB!,
-    ssl: process.env.POSTGRES_SSL === "true",
-  });
-
-  await db.ready;
+// Usage: ts-node seed.ts [--env name] [--seed value]
+const args = process.argv.slice(2);
 
-  await db.executeRaw(`
-    CREATE TABLE IF NOT EXISTS users (
-      id SERIAL PRIMARY KEY,
-      name TEXT NOT NULL,
-      email TEXT UNIQUE NOT NULL
-    )
-  `);
+const option = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
 
-  await db.create("users", { name: "Alice", email: "alice@example.com" });
-  await db.create("users", { name: "Bob", email: "bob@example.com" });
+async function runSeed() {
+  const engine = (process.env.DB_ENGINE || "mock") as
+    | "postgres"
+    | "sqlite"
+    | "mongo"
+    | "mysql"
+    | "mock";
+  const env =
+    option("env") ||
+    process.env.SEED_ENV ||
+    process.env.NODE_ENV ||
+    "development";
+  const seed = option("seed") || process.env.SEED || 1;
 
-  console.log("✅ Seed data inserted");
+  const seeds = await loadSeeds(path.join(__dirname, "seeds"));
+  const db = await resolveDatabaseStrategy(engine);
 
-  await db.disconnect();
+  try {
+    const results = await runSeeds(db, seeds, { env, seed });
+    results.forEach(({ name, records }) =>
+      console.log(`🌱 ${name}: ${records} record(s)`)
+    );
+    console.log(`✅ Seed data inserted for '${env}' (seed ${seed})`);
+  } finally {
+    await db.disconnect();
+  }
 }
 
 runSeed().catch((err) => {
@@ -0,0 +1,19 @@
+import { defineSeed } from "@shikor/core/database/seeding/defineFactory";
+
+export default defineSeed({
+  name: "001_admin",
+  run: async ({ upsert }) => {
+    await upsert(
+      "users",
+      ["username"],
+      [
+        {
+          username: "admin",
+          email: "admin@shikor.com",
+          password: process.env.SEED_ADMIN_PASSWORD || "password",
+          role: "admin",
+        },
+      ]
+    );
+  },
+});
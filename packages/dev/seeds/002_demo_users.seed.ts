@@ -0,0 +1,10 @@
+import { defineSeed } from "@shikor/core/database/seeding/defineFactory";
+import { userFactory } from "../factories/userFactory";
+
+export default defineSeed({
+  name: "002_demo_users",
+  environments: ["development", "test"],
+  run: async ({ insert, env }) => {
+    await insert(userFactory, env === "test" ? 3 : 20);
+  },
+});